@@ -0,0 +1,34 @@
+-- ============================================
+-- MIGRATION: Course Source Chunks
+-- Uploaded documents are split by heading or page and stored per course,
+-- so step details, tests and flashcards get only the relevant excerpts.
+-- Safe to run multiple times (idempotent)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Table
+-- course_id has no foreign key: chunks are stored while the course is generated,
+-- before the client saves it. The API deletes them together with the course.
+CREATE TABLE IF NOT EXISTS course_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  source TEXT NOT NULL,         -- uploaded file name
+  heading TEXT,
+  page_start INTEGER,
+  page_end INTEGER,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_chunks_course
+  ON course_chunks (course_id, user_id, position);
+
+-- 2. Row Level Security
+ALTER TABLE course_chunks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own course chunks" ON course_chunks;
+CREATE POLICY "Users can read own course chunks"
+    ON course_chunks FOR SELECT
+    USING (auth.uid() = user_id);
@@ -0,0 +1,37 @@
+-- ============================================
+-- MIGRATION: Restore Crossword Games
+-- migration.sql dropped crossword_games; this recreates it for the crossword mode.
+-- Safe to run multiple times (idempotent)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Table (same shape as supabase-schema.sql)
+CREATE TABLE IF NOT EXISTS crossword_games (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  clues JSONB DEFAULT '[]'::jsonb,
+  grid_size INTEGER DEFAULT 15,
+  image_url TEXT,
+  best_time INTEGER,
+  times_played INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crossword_games_user_id ON crossword_games(user_id);
+CREATE INDEX IF NOT EXISTS idx_crossword_games_created_at ON crossword_games(created_at DESC);
+
+-- 2. Row Level Security
+ALTER TABLE crossword_games ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can CRUD own crossword games" ON crossword_games;
+CREATE POLICY "Users can CRUD own crossword games"
+    ON crossword_games FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- 3. Allow crosswords to be shared to the community
+ALTER TABLE shared_content DROP CONSTRAINT IF EXISTS shared_content_content_type_check;
+ALTER TABLE shared_content ADD CONSTRAINT shared_content_content_type_check
+    CHECK (content_type IN ('course', 'flashcards', 'quiz', 'matching', 'word-scramble', 'fill-blank', 'crossword'));
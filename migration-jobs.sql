@@ -0,0 +1,49 @@
+-- ============================================
+-- MIGRATION: Background Generation Jobs
+-- Long generations (large uploads) run as jobs the client polls
+-- instead of one request that Cloud Run may time out.
+-- Safe to run multiple times (idempotent)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('course', 'flashcards')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  stage TEXT,
+  input JSONB NOT NULL DEFAULT '{}'::jsonb,  -- { prompt, fileNames }
+  partial JSONB,                             -- output so far, e.g. the course outline
+  result JSONB,
+  error JSONB,                               -- same body as a failed /api/generate-* request
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_created
+  ON generation_jobs (user_id, created_at DESC);
+
+-- 2. Row Level Security
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own generation jobs" ON generation_jobs;
+CREATE POLICY "Users can read own generation jobs"
+    ON generation_jobs FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- 3. Keep updated_at current; the server uses it to spot jobs whose worker went away
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_generation_jobs_updated_at ON generation_jobs;
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
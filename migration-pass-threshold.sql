@@ -0,0 +1,11 @@
+-- ============================================
+-- MIGRATION: Course Pass Threshold
+-- Share of a step quiz a learner must get right before the steps after it
+-- open. NULL keeps the default of 70%; per-step overrides live inside the
+-- existing steps JSONB, so no other columns are needed.
+-- Safe to run multiple times (idempotent)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE courses
+  ADD COLUMN IF NOT EXISTS pass_threshold REAL;
@@ -0,0 +1,11 @@
+-- ============================================
+-- MIGRATION: Cross-deck Review Queue
+-- Safe to run multiple times (idempotent)
+-- Run this in your Supabase SQL Editor
+-- ============================================
+
+-- 1. Course-level flashcards, reviewed alongside flashcard decks.
+--    Card and question schedules live inside the existing JSONB arrays,
+--    so no other columns are needed.
+ALTER TABLE courses
+  ADD COLUMN IF NOT EXISTS flashcards JSONB DEFAULT '[]'::jsonb;
@@ -5,9 +5,10 @@
 ({
   id: "dark-mode-enhanced",
   name: "Custom Color Themes",
-  version: "2.1.0",
+  version: "2.2.0",
   description: "Apply beautiful dark color themes with comprehensive styling for all UI elements.",
   author: "gvidtech Team",
+  permissions: ["css", "dom"],
   
   settings: [
     {
@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import initSqlJs, { type BindParams, type Database, type SqlJsStatic } from 'sql.js';
+import { decodeEntities, escapeXml } from './markup.js';
+import type { Flashcard, FlashcardDeck, FlashcardSchedule, ReviewRating } from '../src/types/roadmap.js';
+
+/**
+ * Anki .apkg import/export for flashcard decks.
+ *
+ * An .apkg is a zip holding a SQLite collection plus a `media` manifest. We read
+ * and write the legacy schema-11 collection (`collection.anki2` / `collection.anki21`),
+ * which every Anki version since 2.1 can open. Newer exports that only contain the
+ * zstd-compressed `collection.anki21b` are rejected with a hint to re-export.
+ */
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DEFAULT_EASE = 2.5;
+const MASTERED_INTERVAL_DAYS = 21;
+
+const RATING_TO_EASE: Record<ReviewRating, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+const EASE_TO_RATING: Record<number, ReviewRating> = { 1: 'again', 2: 'hard', 3: 'good', 4: 'easy' };
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+const DIFFICULTY_TAG_PREFIX = 'difficulty::';
+const IGNORED_TAGS = new Set(['leech', 'marked']);
+
+// Rows of the schema-11 tables, as far as import reads them
+interface CollectionRow { crt: number; models: string; decks: string }
+interface NoteRow { id: number; mid: number; tags: string; flds: string }
+interface CardRow {
+  id: number;
+  nid: number;
+  did: number;
+  odid: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+interface RevlogRow { id: number; cid: number; ease: number }
+
+// Entries of the collection's `models` and `decks` JSON
+interface AnkiModel { type: number; flds?: { name: string; ord: number }[] }
+interface AnkiDeckInfo { name?: string; desc?: string }
+
+type ImportedDeck = Pick<FlashcardDeck, 'title' | 'description' | 'cards'>;
+type ExportedDeck = Pick<FlashcardDeck, 'id' | 'title' | 'cards'> & { description?: string | null };
+
+export class AnkiFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnkiFormatError';
+  }
+}
+
+// sql.js loads a wasm binary; initialise it once and share the module
+let sqlModule: Promise<SqlJsStatic> | null = null;
+function loadSql() {
+  if (!sqlModule) sqlModule = initSqlJs();
+  return sqlModule;
+}
+
+function queryRows<Row>(db: Database, sql: string, params: BindParams = []): Row[] {
+  const statement = db.prepare(sql);
+  statement.bind(params);
+  const rows: Row[] = [];
+  while (statement.step()) rows.push(statement.getAsObject() as Row);
+  statement.free();
+  return rows;
+}
+
+// ============ TEXT CONVERSION ============
+
+// Anki fields are HTML with Anki-specific markup; cards here are plain text with $…$ LaTeX.
+// Images and sound tags are dropped and counted so the caller can report them.
+function fieldToText(html: string | undefined, media: { skipped: number }) {
+  let text = String(html || '')
+    .replace(/<img\b[^>]*>/gi, () => { media.skipped += 1; return ''; })
+    .replace(/\[sound:[^\]]*\]/g, () => { media.skipped += 1; return ''; })
+    .replace(/\[\$\$\]([\s\S]*?)\[\/\$\$\]/g, (_, math: string) => `$$${math}$$`)
+    .replace(/\[\$\]([\s\S]*?)\[\/\$\]/g, (_, math: string) => `$${math}$`)
+    .replace(/\[latex\]([\s\S]*?)\[\/latex\]/g, (_, math: string) => `$$${math}$$`)
+    .replace(/\\\[([\s\S]*?)\\\]/g, (_, math: string) => `$$${math}$$`)
+    .replace(/\\\(([\s\S]*?)\\\)/g, (_, math: string) => `$${math}$`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+  text = decodeEntities(text);
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function textToField(text: string) {
+  return escapeXml(text).replace(/\n/g, '<br>');
+}
+
+function stripHtml(html: string) {
+  return decodeEntities(String(html).replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '')).trim();
+}
+
+// Render one cloze card: the active deletion is hidden on the front, everything is revealed on the back
+function renderCloze(text: string, ord: number) {
+  const active = ord + 1;
+  const pattern = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+  const front = text.replace(pattern, (_, n: string, answer: string, hint?: string) =>
+    Number(n) === active ? `[${hint || '...'}]` : answer);
+  const back = text.replace(pattern, (_, _n: string, answer: string) => answer);
+  return { front, back };
+}
+
+// ============ IMPORT ============
+
+function parseTags(tagString: string) {
+  const tags = String(tagString || '').split(/\s+/).filter(Boolean);
+  let difficulty: Flashcard['difficulty'];
+  let category: string | undefined;
+  for (const tag of tags) {
+    const lower = tag.toLowerCase();
+    if (lower.startsWith(DIFFICULTY_TAG_PREFIX)) {
+      const value = lower.slice(DIFFICULTY_TAG_PREFIX.length);
+      difficulty = DIFFICULTIES.find(level => level === value) ?? difficulty;
+    } else if (!category && !IGNORED_TAGS.has(lower)) {
+      category = tag.replace(/_/g, ' ');
+    }
+  }
+  return { difficulty, category };
+}
+
+// Anki stores review due dates as days since collection creation, learning due dates as epoch seconds
+function dueToDate(due: number, collectionCreated: number) {
+  const seconds = due > 1e9 ? due : collectionCreated + due * DAY_SECONDS;
+  return new Date(seconds * 1000).toISOString();
+}
+
+function cardToSchedule(card: CardRow, collectionCreated: number, lastReview: RevlogRow | undefined) {
+  if (card.type === 0) return undefined;
+  const reviewing = card.type === 2 || card.type === 3;
+  const schedule: FlashcardSchedule = {
+    easeFactor: card.factor > 0 ? Math.round(card.factor / 10) / 100 : DEFAULT_EASE,
+    interval: reviewing ? Math.max(card.ivl, 1) : 0,
+    repetitions: reviewing ? Math.max(1, card.reps - card.lapses) : 0,
+    dueDate: dueToDate(card.due, collectionCreated),
+  };
+  if (lastReview) {
+    schedule.lastReviewed = new Date(lastReview.id).toISOString();
+    if (EASE_TO_RATING[lastReview.ease]) schedule.lastRating = EASE_TO_RATING[lastReview.ease];
+  }
+  return schedule;
+}
+
+function findFieldIndex(fieldNames: string[], name: string, fallback: number) {
+  const index = fieldNames.findIndex(field => field.toLowerCase() === name);
+  return index === -1 ? fallback : index;
+}
+
+async function openCollection(buffer: Buffer) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new AnkiFormatError('File is not a valid .apkg archive');
+  }
+
+  const entry = zip.file('collection.anki21')
+    || (zip.file('collection.anki21b') ? null : zip.file('collection.anki2'));
+  if (!entry) {
+    if (zip.file('collection.anki21b')) {
+      throw new AnkiFormatError('This deck uses the newest Anki format. Re-export it from Anki with "Support older Anki versions" checked.');
+    }
+    throw new AnkiFormatError('No Anki collection found in the archive');
+  }
+
+  const SQL = await loadSql();
+  try {
+    return new SQL.Database(new Uint8Array(await entry.async('uint8array')));
+  } catch {
+    throw new AnkiFormatError('The Anki collection could not be opened');
+  }
+}
+
+/**
+ * Parse an .apkg into FlashcardDeck-shaped objects, one per non-empty Anki deck.
+ * Returns `{ decks, skippedMedia }`; deck ids and timestamps are left to the caller.
+ */
+export async function parseApkg(buffer: Buffer) {
+  const db = await openCollection(buffer);
+  try {
+    const [col] = queryRows<CollectionRow>(db, 'SELECT crt, models, decks FROM col');
+    if (!col) throw new AnkiFormatError('The Anki collection is empty');
+    const models: Record<string, AnkiModel> = JSON.parse(col.models || '{}');
+    const ankiDecks: Record<string, AnkiDeckInfo> = JSON.parse(col.decks || '{}');
+
+    const notes = new Map(queryRows<NoteRow>(db, 'SELECT id, mid, tags, flds FROM notes').map(note => [note.id, note]));
+    const lastReviews = new Map<number, RevlogRow>();
+    for (const review of queryRows<RevlogRow>(db, 'SELECT id, cid, ease FROM revlog ORDER BY id')) {
+      lastReviews.set(review.cid, review);
+    }
+
+    const media = { skipped: 0 };
+    const decksById = new Map<number, ImportedDeck>();
+    const seenNotes = new Set<number>();
+    const cards = queryRows<CardRow>(db, 'SELECT id, nid, did, odid, ord, type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY did, nid, ord');
+
+    for (const card of cards) {
+      const note = notes.get(card.nid);
+      const model = note && models[String(note.mid)];
+      if (!note || !model) continue;
+
+      const isCloze = model.type === 1;
+      // Non-cloze notes can have several cards (e.g. reversed); keep one card per note
+      if (!isCloze) {
+        if (seenNotes.has(note.id)) continue;
+        seenNotes.add(note.id);
+      }
+
+      const fieldNames = (model.flds || []).sort((a, b) => a.ord - b.ord).map(field => field.name);
+      const fields = String(note.flds).split('\x1f');
+      let front: string;
+      let back: string;
+      if (isCloze) {
+        const cloze = renderCloze(fields[findFieldIndex(fieldNames, 'text', 0)] || '', card.ord);
+        const extra = fields[findFieldIndex(fieldNames, 'extra', 1)] || '';
+        front = fieldToText(cloze.front, media);
+        back = [fieldToText(cloze.back, media), fieldToText(extra, media)].filter(Boolean).join('\n\n');
+      } else {
+        front = fieldToText(fields[findFieldIndex(fieldNames, 'front', 0)], media);
+        back = fieldToText(fields[findFieldIndex(fieldNames, 'back', 1)], media);
+      }
+      if (!front || !back) continue;
+
+      const deckId = card.odid || card.did;
+      if (!decksById.has(deckId)) {
+        const ankiDeck = ankiDecks[String(deckId)] || {};
+        const fullName = ankiDeck.name || 'Imported deck';
+        decksById.set(deckId, {
+          title: fullName.split('::').pop()!,
+          description: fieldToText(ankiDeck.desc, media) || `Imported from Anki deck "${fullName}"`,
+          cards: [],
+        });
+      }
+
+      const deck = decksById.get(deckId)!;
+      const { difficulty, category } = parseTags(note.tags);
+      const schedule = cardToSchedule(card, col.crt, lastReviews.get(card.id));
+      deck.cards.push({
+        id: `card-${deck.cards.length + 1}`,
+        front,
+        back,
+        ...(category ? { category } : {}),
+        ...(difficulty ? { difficulty } : {}),
+        mastered: card.type === 2 && card.ivl >= MASTERED_INTERVAL_DAYS,
+        ...(schedule ? { schedule } : {}),
+      });
+    }
+
+    const decks = [...decksById.values()].filter(deck => deck.cards.length > 0);
+    if (decks.length === 0) throw new AnkiFormatError('No importable cards found in the Anki deck');
+    return { decks, skippedMedia: media.skipped };
+  } finally {
+    db.close();
+  }
+}
+
+// ============ EXPORT ============
+
+const SCHEMA_SQL = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+function basicModel(modelId: number, deckId: number, now: number) {
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] });
+  return {
+    id: modelId,
+    name: 'Basic (gvidtech)',
+    type: 0,
+    mod: now,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    flds: [field('Front', 0), field('Back', 1)],
+    css: '.card {\n font-family: arial;\n font-size: 20px;\n text-align: center;\n color: black;\n background-color: white;\n}\n',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function ankiDeck(id: number, name: string, description: string, now: number) {
+  return {
+    id,
+    name,
+    desc: description,
+    mod: now,
+    usn: -1,
+    collapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  };
+}
+
+const DEFAULT_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    timer: 0,
+    autoplay: true,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  },
+};
+
+// Anki's duplicate check compares the first 8 hex digits of the SHA-1 of the stripped sort field
+function fieldChecksum(html: string) {
+  return parseInt(crypto.createHash('sha1').update(stripHtml(html)).digest('hex').slice(0, 8), 16);
+}
+
+// Stable guid per card so re-importing an updated export updates notes instead of duplicating them
+function noteGuid(deckId: string, cardId: string) {
+  return crypto.createHash('sha1').update(`${deckId}:${cardId}`).digest('base64').slice(0, 10);
+}
+
+function cardTags(card: Flashcard) {
+  const tags: string[] = [];
+  if (card.category) tags.push(card.category.trim().replace(/\s+/g, '_'));
+  if (card.difficulty && DIFFICULTIES.includes(card.difficulty)) tags.push(`${DIFFICULTY_TAG_PREFIX}${card.difficulty}`);
+  return tags.length ? ` ${tags.join(' ')} ` : '';
+}
+
+// Review due dates are stored relative to the collection creation day, so start it before any of them
+function collectionCreated(cards: Flashcard[], nowMs: number) {
+  let earliest = nowMs;
+  for (const card of cards) {
+    for (const value of [card.schedule?.dueDate, card.schedule?.lastReviewed]) {
+      const time = value ? Date.parse(value) : NaN;
+      if (!isNaN(time) && time < earliest) earliest = time;
+    }
+  }
+  const created = new Date(earliest);
+  created.setUTCHours(0, 0, 0, 0);
+  return Math.floor(created.getTime() / 1000);
+}
+
+/**
+ * Build an .apkg for one FlashcardDeck. Tags carry the category and difficulty,
+ * and scheduled cards are exported as review cards with their ease, interval and due date.
+ */
+export async function buildApkg(deck: ExportedDeck) {
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA_SQL);
+
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    const cards = deck.cards || [];
+    const crt = collectionCreated(cards, nowMs);
+    const deckId = nowMs;
+    const modelId = nowMs + 1;
+
+    const conf = {
+      nextPos: cards.length + 1,
+      estTimes: true,
+      activeDecks: [1],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: deckId,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(modelId),
+      collapseTime: 1200,
+    };
+    const decks = {
+      1: ankiDeck(1, 'Default', '', now),
+      [deckId]: ankiDeck(deckId, deck.title || 'Flashcards', deck.description || '', now),
+    };
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt,
+      nowMs,
+      nowMs,
+      JSON.stringify(conf),
+      JSON.stringify({ [modelId]: basicModel(modelId, deckId, now) }),
+      JSON.stringify(decks),
+      JSON.stringify(DEFAULT_DECK_CONFIG),
+      '{}',
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, 0, \'\')');
+    const insertReview = db.prepare('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, 0, ?, 0, 1)');
+    const reviewIds = new Set<number>();
+
+    cards.forEach((card, index) => {
+      const id = nowMs + index;
+      const front = textToField(card.front);
+      const back = textToField(card.back);
+      insertNote.run([id, noteGuid(deck.id, card.id), modelId, now, cardTags(card), `${front}\x1f${back}`, stripHtml(front), fieldChecksum(front)]);
+
+      const schedule = card.schedule;
+      const dueTime = schedule ? Date.parse(schedule.dueDate) : NaN;
+      if (schedule && !isNaN(dueTime)) {
+        const interval = Math.max(1, Math.round(schedule.interval || 0));
+        const factor = Math.round((schedule.easeFactor || DEFAULT_EASE) * 1000);
+        const due = Math.max(0, Math.floor((dueTime / 1000 - crt) / DAY_SECONDS));
+        insertCard.run([id, id, deckId, now, 2, 2, due, interval, factor, Math.max(1, schedule.repetitions || 0)]);
+
+        const reviewedAt = schedule.lastReviewed ? Date.parse(schedule.lastReviewed) : NaN;
+        if (!isNaN(reviewedAt) && schedule.lastRating && RATING_TO_EASE[schedule.lastRating]) {
+          let reviewId = reviewedAt;
+          while (reviewIds.has(reviewId)) reviewId += 1;
+          reviewIds.add(reviewId);
+          insertReview.run([reviewId, id, RATING_TO_EASE[schedule.lastRating], interval, factor]);
+        }
+      } else {
+        insertCard.run([id, id, deckId, now, 0, 0, index + 1, 0, 0, 0]);
+      }
+    });
+    insertNote.free();
+    insertCard.free();
+    insertReview.free();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,75 @@
+import express from 'express';
+import cors from 'cors';
+import multer from 'multer';
+import { createRequireAuth } from './middleware/auth.js';
+import { createRateLimit } from './middleware/rateLimit.js';
+import { createContentRouter } from './routes/content.js';
+import { createReviewRouter } from './routes/review.js';
+import { createGenerationRouter } from './routes/generation.js';
+import { createCommunityRouter } from './routes/community.js';
+import { createProfileRouter } from './routes/profile.js';
+import { createPluginRouter } from './routes/plugins.js';
+import { createJobsRouter } from './routes/jobs.js';
+import { createSourcesRouter } from './routes/sources.js';
+import { createBackupRouter } from './routes/backup.js';
+import { createJobRunner } from './lib/jobs.js';
+import type { AppDeps, RouteContext } from './types.js';
+
+/**
+ * Build the Express app around its dependencies. index.ts passes the configured
+ * storage and LLM; anything else (e.g. a test) can pass in-memory or fake ones.
+ */
+export function createApp(deps: AppDeps) {
+  const app = express();
+
+  // ============ MIDDLEWARE ============
+  const allowedOrigins = deps.env.ALLOWED_ORIGINS
+    ? deps.env.ALLOWED_ORIGINS.split(',')
+    : ['http://localhost:5173', 'http://localhost:3000'];
+
+  app.use(cors({
+    origin: allowedOrigins,
+    credentials: true,
+  }));
+  app.use(express.json({ limit: '50mb' }));
+
+  // Configure multer — in-memory storage (stateless for Cloud Run)
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 50 * 1024 * 1024 },
+  });
+
+  const context: RouteContext = {
+    ...deps,
+    requireAuth: createRequireAuth(deps.auth),
+    ...createRateLimit(deps.db),
+    upload,
+    jobs: createJobRunner(deps.db),
+  };
+
+  // Root route for health check/verification
+  app.get('/', (req, res) => {
+    res.send('Oqy+ API Server is running!');
+  });
+
+  app.get('/api', (req, res) => {
+    res.send('Oqy+ API Endpoint');
+  });
+
+  app.get('/api/health', (req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  // ============ ROUTES ============
+  app.use(createGenerationRouter(context));
+  app.use(createContentRouter(context));
+  app.use(createReviewRouter(context));
+  app.use(createProfileRouter(context));
+  app.use(createCommunityRouter(context));
+  app.use(createPluginRouter(context));
+  app.use(createJobsRouter(context));
+  app.use(createSourcesRouter(context));
+  app.use(createBackupRouter(context));
+
+  return app;
+}
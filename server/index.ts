@@ -0,0 +1,40 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createLLM } from './llm/index.js';
+import { createStorage } from './storage/index.js';
+import { createApp } from './app.js';
+
+// Load environment variables from project root .env (single source of truth)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '..', '.env') });
+
+const PORT = process.env.PORT || 3001;
+
+// ============ STORAGE ============
+// Supabase, or a local JSON file when STORAGE_BACKEND=local (see .env.example)
+let storage: ReturnType<typeof createStorage>;
+try {
+  storage = createStorage(process.env);
+} catch (error) {
+  console.error(`[Storage] ${(error as Error).message} (set STORAGE_BACKEND=local to run without Supabase)`);
+  process.exit(1);
+}
+const { backend: storageBackend, file: storageFile, db, auth } = storage;
+if (storageBackend === 'local') {
+  console.warn(`[Storage] Local backend (${storageFile || 'in memory'}) — auth tokens are not verified, do not expose this server`);
+} else {
+  console.log(`[Storage] Backend: ${storageBackend}`);
+}
+
+// ============ LLM ============
+// Provider/model per route comes from LLM_PROVIDER, LLM_MODEL and LLM_ROUTES
+const { getModel, defaults: llmDefaults } = createLLM(process.env);
+console.log(`[LLM] Default provider: ${llmDefaults.provider}`);
+
+const app = createApp({ db, auth, getModel, env: process.env });
+
+app.listen(PORT, () => {
+  console.log(`Server running on port ${PORT}`);
+});
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import { CONTENT_TABLES } from '../storage/repositories.js';
+import type {
+  ContentType,
+  LibraryArchive,
+  LibraryImportMode,
+  LibraryImportResult,
+  PluginState,
+} from '../../src/types/api.js';
+import type { ContentResource } from '../routes/content.js';
+import type { OwnedRow, Repositories } from '../types.js';
+
+export const ARCHIVE_FORMAT = 'gvidtech-library';
+export const ARCHIVE_VERSION = 1;
+
+// Courses come first, so rows linking to a course can be pointed at its new id
+const CONTENT_TYPES = Object.keys(CONTENT_TABLES) as ContentType[];
+
+type Row = Record<string, unknown>;
+
+// Any of the resources from contentResources(); restored rows go through their mappers
+export type LibraryResource = ContentResource<{ id: string; createdAt?: string }, OwnedRow>;
+
+// Columns holding lists, which the mappers read as arrays
+const LIST_COLUMNS: Record<ContentType, string[]> = {
+  course: ['steps', 'flashcards'],
+  flashcards: ['flashcards'],
+  quiz: ['questions'],
+  matching: ['pairs'],
+  'word-scramble': ['words'],
+  'fill-blank': ['sentences'],
+  crossword: ['clues'],
+};
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+const isObject = (value: unknown): value is Row =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function rowList(value: unknown, what: string): Row[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(isObject)) throw new ArchiveFormatError(`The backup's ${what} are malformed`);
+  return value;
+}
+
+/** Read an uploaded backup, rejecting anything that is not an archive this version can restore */
+export function parseArchive(text: string): LibraryArchive {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new ArchiveFormatError('Not a gvidtech backup file');
+  }
+  if (!isObject(data) || data.format !== ARCHIVE_FORMAT) throw new ArchiveFormatError('Not a gvidtech backup file');
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) throw new ArchiveFormatError('The backup has no valid version');
+  if ((data.version as number) > ARCHIVE_VERSION) {
+    throw new ArchiveFormatError('This backup was made by a newer version of gvidtech and cannot be restored here');
+  }
+  if (data.content !== undefined && !isObject(data.content)) throw new ArchiveFormatError('The backup\'s content is malformed');
+
+  const content: LibraryArchive['content'] = {};
+  for (const type of CONTENT_TYPES) {
+    const rows = rowList((data.content as Row | undefined)?.[type], `${type} items`);
+    for (const row of rows) {
+      if (typeof row.id !== 'string' || !row.id) throw new ArchiveFormatError(`A ${type} item in the backup has no id`);
+      if (typeof row.title !== 'string') throw new ArchiveFormatError(`A ${type} item in the backup has no title`);
+      if (LIST_COLUMNS[type].some(column => row[column] != null && !Array.isArray(row[column]))) {
+        throw new ArchiveFormatError(`A ${type} item in the backup is malformed`);
+      }
+    }
+    content[type] = rows;
+  }
+  const sources = rowList(data.sources, 'sources');
+  const isSource = (row: Row) => typeof row.course_id === 'string' && typeof row.source === 'string'
+    && typeof row.content === 'string' && Number.isInteger(row.position);
+  if (!sources.every(isSource)) throw new ArchiveFormatError('The backup\'s sources are malformed');
+  return {
+    format: ARCHIVE_FORMAT,
+    version: data.version as number,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    content,
+    sources,
+    plugins: isObject(data.plugins) ? data.plugins as PluginState : null,
+  };
+}
+
+/**
+ * A user's whole library as one archive, and back. Rows are kept as stored, so
+ * progress, scores and review schedules come along; only the owner is left out.
+ * Restoring reads every row through its resource's mappers, gives it a new id (the
+ * archive may come from, or be restored next to, an account that still has the
+ * originals) and relinks course links and course sources to the new course ids.
+ * The restored rows are written before a replace removes the library they replace,
+ * and a restore that fails partway removes what it wrote.
+ */
+export function createLibraryBackup(db: Repositories, resources: LibraryResource[]) {
+  const resourceOf = Object.fromEntries(resources.map(resource => [resource.type, resource])) as Record<ContentType, LibraryResource>;
+
+  async function exportLibrary(userId: string, plugins: PluginState | null) {
+    const [results, chunks] = await Promise.all([
+      Promise.all(CONTENT_TYPES.map(type => db.content[type].list(userId))),
+      db.courseChunks.listByUser(userId),
+    ]);
+    const error = [...results, chunks].find(result => result.error)?.error;
+    if (error) return { archive: null, error };
+
+    const withoutOwner = (rows: Row[]) => rows.map(({ user_id: _userId, ...row }) => row);
+    const archive: LibraryArchive = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      content: Object.fromEntries(CONTENT_TYPES.map((type, index) => [type, withoutOwner(results[index].data!)])),
+      // Section ids are regenerated on restore
+      sources: withoutOwner(chunks.data!).map(({ id: _id, ...row }) => row),
+      plugins,
+    };
+    return { archive, error: null };
+  }
+
+  // Rows to write for an archive, worked out before anything is written
+  function restoredRows(archive: LibraryArchive) {
+    const courseIds = new Map<string, string>();
+    const content = CONTENT_TYPES.map(type => {
+      const resource = resourceOf[type];
+      const rows = (archive.content[type] || []).map(original => {
+        const item = resource.toItem(original as unknown as OwnedRow);
+        // The same checks as saving it through the API, before anything is written
+        const problem = resource.validate?.(item);
+        if (problem) throw new ArchiveFormatError(`A ${type} item in the backup is invalid: ${problem}`);
+        const row: Row = { ...resource.toInsert(item), ...resource.toUpdate(item), id: randomUUID(), created_at: item.createdAt };
+        if (type === 'course') courseIds.set(item.id, row.id as string);
+        // A link to a course that is not in the archive has nothing to point at
+        if ('course_id' in row) row.course_id = courseIds.get(original.course_id as string) ?? null;
+        return row;
+      });
+      return { type, rows };
+    });
+    const sources = archive.sources
+      .filter(row => courseIds.has(row.course_id as string))
+      // parseArchive checked the columns a section needs
+      .map(row => ({
+        course_id: courseIds.get(row.course_id as string),
+        position: row.position as number,
+        source: row.source as string,
+        heading: (row.heading as string | undefined) ?? null,
+        page_start: (row.page_start as number | undefined) ?? null,
+        page_end: (row.page_end as number | undefined) ?? null,
+        content: row.content as string,
+      }));
+    return { content, sources, courseIds: [...courseIds.values()] };
+  }
+
+  // Ids of everything in the library now, for a replace to remove once the archive is in
+  async function libraryIds(userId: string) {
+    const [results, chunks] = await Promise.all([
+      Promise.all(CONTENT_TYPES.map(type => db.content[type].list(userId, ['id']))),
+      db.courseChunks.listByUser(userId, ['course_id']),
+    ]);
+    const error = [...results, chunks].find(result => result.error)?.error;
+    if (error) return { ids: null, error };
+    const ids = {
+      content: CONTENT_TYPES.map((type, index) => ({ type, ids: results[index].data!.map(row => row.id) })),
+      // Sources are removed by course, including any left behind by a course that is gone
+      sourceCourses: [...new Set(chunks.data!.map(row => row.course_id))],
+    };
+    return { ids, error: null };
+  }
+
+  async function importLibrary(userId: string, archive: LibraryArchive, mode: LibraryImportMode) {
+    const restored = restoredRows(archive);
+    const previous = mode === 'replace' ? await libraryIds(userId) : null;
+    if (previous?.error) return { result: null, error: previous.error };
+
+    const written: { type: ContentType; id: string }[] = [];
+    const rollBack = async () => {
+      const removed = await Promise.all([
+        ...written.map(({ type, id }) => db.content[type].remove(id, userId)),
+        ...restored.courseIds.map(courseId => db.courseChunks.removeForCourse(courseId, userId)),
+      ]);
+      const error = removed.find(result => result.error)?.error;
+      if (error) console.error('Failed to remove a partial library restore:', error.message);
+    };
+
+    const imported = Object.fromEntries(CONTENT_TYPES.map(type => [type, 0])) as Record<ContentType, number>;
+    for (const { type, rows } of restored.content) {
+      for (const row of rows) {
+        const { error } = await db.content[type].create(userId, row);
+        if (error) {
+          await rollBack();
+          return { result: null, error };
+        }
+        written.push({ type, id: row.id as string });
+        imported[type]++;
+      }
+    }
+    if (restored.sources.length > 0) {
+      const { error } = await db.courseChunks.createMany(userId, restored.sources);
+      if (error) {
+        await rollBack();
+        return { result: null, error };
+      }
+    }
+
+    if (previous?.ids) {
+      // The restored library is complete by now, so failing here leaves old items next to it, not a gap
+      const removed = await Promise.all([
+        ...previous.ids.content.flatMap(({ type, ids }) => ids.map(id => db.content[type].remove(id, userId))),
+        ...previous.ids.sourceCourses.map(courseId => db.courseChunks.removeForCourse(courseId, userId)),
+      ]);
+      const error = removed.find(result => result.error)?.error;
+      if (error) return { result: null, error };
+    }
+
+    const result: LibraryImportResult = { mode, imported, sources: restored.sources.length, plugins: archive.plugins };
+    return { result, error: null };
+  }
+
+  return { exportLibrary, importLibrary };
+}
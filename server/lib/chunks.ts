@@ -0,0 +1,163 @@
+/**
+ * Long uploads are split into chunks by heading (text, DOCX) or by page (PDF) and
+ * stored with the course (course_chunks), so step-level requests can send the model
+ * only the excerpts that match the step instead of the whole document.
+ */
+
+export interface DocumentChunk {
+  // File the chunk came from
+  source: string;
+  heading: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  content: string;
+}
+
+// About 1k tokens; small sections and pages are merged up to this size
+export const CHUNK_TARGET_CHARS = 4000;
+// Shortest excerpt per chunk in an outline digest
+const MIN_DIGEST_EXCERPT = 160;
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+// Cut text into pieces of at most maxChars, preferring paragraph, then line, then word boundaries
+function splitLong(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')]
+      .find(index => index > maxChars / 2) ?? maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Merge neighbouring pieces while they fit the target; the first heading names the merged chunk
+function pack(source: string, pieces: Omit<DocumentChunk, 'source'>[]): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.content.length + piece.content.length + 2 <= CHUNK_TARGET_CHARS) {
+      last.content = `${last.content}\n\n${piece.content}`;
+      last.heading ??= piece.heading;
+      last.pageStart ??= piece.pageStart;
+      last.pageEnd = piece.pageEnd ?? last.pageEnd;
+    } else {
+      chunks.push({ source, ...piece });
+    }
+  }
+  return chunks;
+}
+
+/** Split extracted text at markdown headings (`#` to `######`) */
+export function chunkText(source: string, text: string): DocumentChunk[] {
+  const sections: { heading: string | null; lines: string[] }[] = [{ heading: null, lines: [] }];
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = HEADING.exec(line.trim());
+    if (match) sections.push({ heading: match[2], lines: [] });
+    sections[sections.length - 1].lines.push(line);
+  }
+
+  return pack(source, sections.flatMap(({ heading, lines }) =>
+    splitLong(lines.join('\n'), CHUNK_TARGET_CHARS).map(content => ({ heading, pageStart: null, pageEnd: null, content }))
+  ));
+}
+
+/** Split a paged document (PDF), keeping page numbers so excerpts can point back to them */
+export function chunkPages(source: string, pages: { num: number; text: string }[]): DocumentChunk[] {
+  return pack(source, pages.flatMap(({ num, text }) =>
+    splitLong(text, CHUNK_TARGET_CHARS).map(content => ({ heading: null, pageStart: num, pageEnd: num, content }))
+  ));
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'had', 'her', 'his', 'its',
+  'our', 'out', 'who', 'how', 'why', 'what', 'when', 'where', 'which', 'this', 'that', 'these', 'those',
+  'with', 'from', 'into', 'about', 'than', 'then', 'them', 'they', 'their', 'there', 'will', 'would',
+  'should', 'could', 'been', 'being', 'have', 'does', 'each', 'also', 'more', 'most', 'such', 'some',
+  'other', 'over', 'under', 'between', 'using', 'used', 'use', 'learn', 'learning', 'understand',
+  'understanding', 'step', 'key', 'concepts', 'introduction', 'overview', 'basics', 'students',
+]);
+
+function terms(text: string) {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+/**
+ * The chunks that best match `query` (usually a step's title and description),
+ * ranked with BM25 and kept while they fit `budgetChars`. Returned in document order;
+ * empty when nothing matches.
+ */
+export function selectRelevantChunks<T extends DocumentChunk>(chunks: T[], query: string, budgetChars: number): T[] {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const documents = chunks.map(chunk => {
+    const frequencies = new Map<string, number>();
+    const body = terms(chunk.content);
+    for (const term of body) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    // A heading that names the topic is a strong signal, so its terms count double
+    for (const term of terms(chunk.heading || '')) frequencies.set(term, (frequencies.get(term) || 0) + 2);
+    return { frequencies, length: body.length };
+  });
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const idf = new Map(queryTerms.map(term => {
+    const containing = documents.filter(doc => doc.frequencies.has(term)).length;
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const scores = documents.map((doc, index) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = doc.frequencies.get(term);
+      if (!frequency) continue;
+      score += idf.get(term)! * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * doc.length / averageLength));
+    }
+    return { index, score };
+  });
+
+  const selected = new Set<number>();
+  let used = 0;
+  for (const { index } of scores.filter(entry => entry.score > 0).sort((x, y) => y.score - x.score)) {
+    const size = chunks[index].content.length;
+    if (used + size > budgetChars) continue;
+    selected.add(index);
+    used += size;
+  }
+  return chunks.filter((_, index) => selected.has(index));
+}
+
+// "notes.pdf, p. 12–13 — Cell respiration"
+export function chunkLabel(chunk: DocumentChunk) {
+  let label = chunk.source;
+  if (chunk.pageStart != null) {
+    label += chunk.pageEnd != null && chunk.pageEnd !== chunk.pageStart
+      ? `, p. ${chunk.pageStart}–${chunk.pageEnd}`
+      : `, p. ${chunk.pageStart}`;
+  }
+  if (chunk.heading) label += ` — ${chunk.heading}`;
+  return label;
+}
+
+/** Chunks as labelled excerpts for a prompt */
+export function formatChunks(chunks: DocumentChunk[]) {
+  return chunks.map(chunk => `[${chunkLabel(chunk)}]\n${chunk.content}`).join('\n\n');
+}
+
+/**
+ * Label and opening lines of every chunk, for outlining a document too long to send whole.
+ * Stays near `budgetChars` unless there are so many chunks that even the shortest excerpts overrun it.
+ */
+export function outlineDigest(chunks: DocumentChunk[], budgetChars: number) {
+  const excerptChars = Math.max(MIN_DIGEST_EXCERPT, Math.floor(budgetChars / Math.max(chunks.length, 1)));
+  return chunks.map(chunk => {
+    const text = chunk.content.replace(/\s+/g, ' ').trim();
+    const excerpt = text.length > excerptChars ? `${text.slice(0, excerptChars)}…` : text;
+    return `[${chunkLabel(chunk)}] ${excerpt}`;
+  }).join('\n');
+}
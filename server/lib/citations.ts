@@ -0,0 +1,79 @@
+import type { DocumentChunk } from './chunks.js';
+import type { SourceCitation } from '../../src/types/roadmap.js';
+
+// Shorter quotes ("the cell") would match almost anywhere and prove nothing
+const MIN_QUOTE_CHARS = 12;
+const MAX_CITATIONS = 3;
+
+// Compare text the way a reader would: ignore case, spacing and typographic quotes/dashes
+const normalize = (text: string) => text
+  .toLowerCase()
+  .replace(/[‘’‚′]/g, "'")
+  .replace(/[“”„″]/g, '"')
+  .replace(/[‐‑‒–—―]/g, '-')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// A quote shortened with an ellipsis matches when its parts appear in order
+function contains(content: string, quote: string) {
+  let from = 0;
+  for (const part of quote.split(/\s*(?:\.\.\.|…)\s*/).filter(Boolean)) {
+    const index = content.indexOf(part, from);
+    if (index === -1) return false;
+    from = index + part.length;
+  }
+  return true;
+}
+
+/**
+ * Check generated citations against the course's stored chunks. A citation is kept
+ * only when its quote is found in the source text; the file name, page and section
+ * are then taken from the matching chunk rather than from the model. Items keep at
+ * most three citations and lose the field when none survive, as they all do for a
+ * course without stored sources.
+ */
+export function verifyCitations<T extends { citations?: SourceCitation[] }>(items: T[], chunks: DocumentChunk[]): T[] {
+  const sections = new Map<string, number>();
+  const indexed = chunks.map(chunk => {
+    const section = sections.get(chunk.source) ?? 0;
+    sections.set(chunk.source, section + 1);
+    return { chunk, content: normalize(chunk.content), section };
+  });
+
+  function verify(citation: SourceCitation): SourceCitation | null {
+    const quote = normalize(citation.quote);
+    if (quote.replace(/\.\.\.|…/g, '').length < MIN_QUOTE_CHARS) return null;
+    const name = citation.source.toLowerCase();
+    // Prefer the file the model named, but a right quote under a garbled name still counts
+    const candidates = [
+      ...indexed.filter(entry => entry.chunk.source.toLowerCase() === name),
+      ...indexed.filter(entry => entry.chunk.source.toLowerCase() !== name),
+    ];
+    const match = candidates.find(entry => contains(entry.content, quote));
+    if (!match) return null;
+
+    const { pageStart, pageEnd, source } = match.chunk;
+    // A chunk can span pages; the model's page is kept when it falls inside the chunk
+    const page = pageStart == null
+      ? undefined
+      : citation.page && citation.page >= pageStart && citation.page <= (pageEnd ?? pageStart) ? citation.page : pageStart;
+    return { source, ...(page ? { page } : {}), section: match.section, quote: citation.quote.trim() };
+  }
+
+  return items.map(item => {
+    if (!item.citations) return item;
+    const { citations: _citations, ...rest } = item;
+    const seen = new Set<string>();
+    const verified = item.citations
+      .map(verify)
+      .filter((citation): citation is SourceCitation => {
+        if (!citation) return false;
+        const key = `${citation.source}\n${normalize(citation.quote)}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_CITATIONS);
+    return (verified.length > 0 ? { ...rest, citations: verified } : rest) as T;
+  });
+}
@@ -0,0 +1,44 @@
+import type { CoverImage } from '../../src/types/api.js';
+import type { GetModel } from '../types.js';
+
+export const COVER_GRADIENT = 'linear-gradient(135deg, #0b4c8a 0%, #6366f1 100%)';
+
+// The parts of an Unsplash photo the cover uses
+interface UnsplashPhoto {
+  urls?: { regular?: string; small?: string };
+  user?: { name?: string; links?: { html?: string } };
+}
+
+// Picks an Unsplash photo for a course/topic title, or a gradient when none is available
+export async function findCoverImage(getModel: GetModel, unsplashAccessKey: string | undefined, prompt: string): Promise<CoverImage> {
+  let keyword = 'education';
+  try {
+    const model = getModel('generate-image.keyword');
+    const keywordResult = await model.generateContent(
+      `Given this course/topic title: "${prompt}"\nReturn a single word or short phrase (max 2 words) for an educational image search.\nReturn ONLY the keyword(s).`
+    );
+    keyword = keywordResult.text.trim().toLowerCase().replace(/[^a-z\s]/g, '').substring(0, 30);
+  } catch { /* use default */ }
+
+  if (unsplashAccessKey) {
+    try {
+      const response = await fetch(
+        `https://api.unsplash.com/photos/random?query=${encodeURIComponent(keyword)}&orientation=landscape&w=800&h=400`,
+        { headers: { 'Authorization': `Client-ID ${unsplashAccessKey}` } }
+      );
+      if (response.ok) {
+        const data = await response.json() as UnsplashPhoto;
+        return {
+          imageUrl: data.urls?.regular || data.urls?.small || null,
+          keyword,
+          photographer: data.user?.name,
+          photographerUrl: data.user?.links?.html
+        };
+      }
+    } catch (unsplashError) {
+      console.error('Unsplash error:', unsplashError);
+    }
+  }
+
+  return { imageUrl: null, gradient: COVER_GRADIENT };
+}
@@ -0,0 +1,130 @@
+import type { CrosswordClue } from '../../src/types/roadmap.js';
+
+export const CROSSWORD_MAX_SIZE = 15;
+export const CROSSWORD_MIN_WORDS = 5;
+
+type Direction = CrosswordClue['direction'];
+interface Word { answer: string; clue: string }
+interface Placed extends Word { row: number; col: number; direction: Direction }
+
+/**
+ * Lay out answers into a crossword grid. Words are placed longest-first, each new
+ * word must cross an existing one, and no two words may touch except where they
+ * cross, so the grid never spells unintended words. Words that don't fit are dropped.
+ * Returns { clues, gridSize } with rows/cols normalised to start at 0.
+ */
+export function layoutCrossword(
+  entries: { answer?: string; word?: string; clue?: string }[],
+  maxSize = CROSSWORD_MAX_SIZE
+): { clues: CrosswordClue[]; gridSize: number } {
+  const words: Word[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const answer = String(entry.answer || entry.word || '').toUpperCase().replace(/[^A-Z]/g, '');
+    if (answer.length < 2 || answer.length > maxSize || seen.has(answer) || !entry.clue) continue;
+    seen.add(answer);
+    words.push({ answer, clue: String(entry.clue).trim() });
+  }
+  words.sort((a, b) => b.answer.length - a.answer.length);
+  if (words.length === 0) return { clues: [], gridSize: 0 };
+
+  const cells = new Map<string, string>(); // "row,col" -> letter
+  const cellDirections = new Map<string, Direction[]>(); // "row,col" -> directions of the words using the cell
+  const placed: Placed[] = [];
+  let bounds = { minRow: 0, maxRow: 0, minCol: 0, maxCol: words[0].answer.length - 1 };
+  const key = (r: number, c: number) => `${r},${c}`;
+
+  const place = (word: Word, row: number, col: number, direction: Direction) => {
+    for (let i = 0; i < word.answer.length; i++) {
+      const r = direction === 'down' ? row + i : row;
+      const c = direction === 'across' ? col + i : col;
+      cells.set(key(r, c), word.answer[i]);
+      cellDirections.set(key(r, c), [...(cellDirections.get(key(r, c)) || []), direction]);
+      bounds = {
+        minRow: Math.min(bounds.minRow, r), maxRow: Math.max(bounds.maxRow, r),
+        minCol: Math.min(bounds.minCol, c), maxCol: Math.max(bounds.maxCol, c),
+      };
+    }
+    placed.push({ ...word, row, col, direction });
+  };
+
+  // Returns the number of crossings, or -1 if the placement is invalid
+  const scorePlacement = (answer: string, row: number, col: number, direction: Direction) => {
+    const dr = direction === 'down' ? 1 : 0;
+    const dc = direction === 'across' ? 1 : 0;
+    const endRow = row + dr * (answer.length - 1);
+    const endCol = col + dc * (answer.length - 1);
+    const height = Math.max(bounds.maxRow, endRow) - Math.min(bounds.minRow, row) + 1;
+    const width = Math.max(bounds.maxCol, endCol) - Math.min(bounds.minCol, col) + 1;
+    if (height > maxSize || width > maxSize) return -1;
+    if (cells.has(key(row - dr, col - dc)) || cells.has(key(endRow + dr, endCol + dc))) return -1;
+
+    let crossings = 0;
+    for (let i = 0; i < answer.length; i++) {
+      const r = row + dr * i;
+      const c = col + dc * i;
+      const existing = cells.get(key(r, c));
+      if (existing) {
+        if (existing !== answer[i] || cellDirections.get(key(r, c))!.includes(direction)) return -1;
+        crossings++;
+      } else if (cells.has(key(r + dc, c + dr)) || cells.has(key(r - dc, c - dr))) {
+        // A new letter may not sit beside another word's letter
+        return -1;
+      }
+    }
+    return crossings === answer.length ? -1 : crossings;
+  };
+
+  const tryPlace = (word: Word) => {
+    let best: { row: number; col: number; direction: Direction; crossings: number } | null = null;
+    for (const [cellKey, letter] of cells) {
+      const [r, c] = cellKey.split(',').map(Number);
+      for (let i = 0; i < word.answer.length; i++) {
+        if (word.answer[i] !== letter) continue;
+        for (const direction of ['across', 'down'] as const) {
+          const row = direction === 'down' ? r - i : r;
+          const col = direction === 'across' ? c - i : c;
+          const crossings = scorePlacement(word.answer, row, col, direction);
+          if (crossings > 0 && (!best || crossings > best.crossings)) {
+            best = { row, col, direction, crossings };
+          }
+        }
+      }
+    }
+    if (!best) return false;
+    place(word, best.row, best.col, best.direction);
+    return true;
+  };
+
+  place(words[0], 0, 0, 'across');
+  // Retry leftovers until a pass places nothing new
+  let pending = words.slice(1);
+  let progress = true;
+  while (pending.length > 0 && progress) {
+    const before = pending.length;
+    pending = pending.filter(word => !tryPlace(word));
+    progress = pending.length < before;
+  }
+
+  // Number clue starts in reading order; an across and a down word can share a number
+  const normalised = placed.map(p => ({ ...p, row: p.row - bounds.minRow, col: p.col - bounds.minCol }));
+  const starts = [...new Set(normalised.map(p => key(p.row, p.col)))]
+    .map(k => k.split(',').map(Number))
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const numbers = new Map(starts.map(([r, c], i) => [key(r, c), i + 1]));
+
+  const clues = normalised
+    .map(p => ({
+      id: `${p.direction[0]}${numbers.get(key(p.row, p.col))}`,
+      number: numbers.get(key(p.row, p.col))!,
+      direction: p.direction,
+      answer: p.answer,
+      clue: p.clue,
+      row: p.row,
+      col: p.col,
+    }))
+    .sort((a, b) => a.number - b.number);
+
+  const gridSize = Math.max(bounds.maxRow - bounds.minRow, bounds.maxCol - bounds.minCol) + 1;
+  return { clues, gridSize };
+}
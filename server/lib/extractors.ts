@@ -0,0 +1,281 @@
+import JSZip from 'jszip';
+import { decodeEntities, elements, resolveHref, stripPrefixes, xmlAttribute } from '../markup.js';
+
+/**
+ * Text extraction for uploads that are neither plain text nor sent to the model
+ * natively: PowerPoint, EPUB, saved web pages and spreadsheets. Headings come out
+ * as markdown (one per slide, chapter heading or sheet) so chunkText can split
+ * the result by section.
+ */
+
+export interface Sheet {
+  name: string;
+  rows: string[][];
+}
+
+const MIME_TYPES = {
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type DocumentFormat = 'pptx' | 'epub' | 'html' | 'xlsx' | 'csv' | 'tsv';
+
+// Browsers disagree on mime types for these (a .csv is often application/vnd.ms-excel), so the extension wins
+export function documentFormat(mimeType: string, originalName: string): DocumentFormat | null {
+  const extension = originalName.toLowerCase().split('.').pop();
+  if (extension === 'pptx' || mimeType === MIME_TYPES.pptx) return 'pptx';
+  if (extension === 'epub' || mimeType === MIME_TYPES.epub) return 'epub';
+  if (extension === 'html' || extension === 'htm' || mimeType === 'text/html') return 'html';
+  if (extension === 'xlsx' || mimeType === MIME_TYPES.xlsx) return 'xlsx';
+  if (extension === 'tsv' || mimeType === 'text/tab-separated-values') return 'tsv';
+  if (extension === 'csv' || mimeType === 'text/csv') return 'csv';
+  return null;
+}
+
+// ============ HTML ============
+
+/** Plain text from HTML, keeping headings as markdown so documents can be chunked by section */
+export function htmlToText(html: string) {
+  return decodeEntities(html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, heading) =>
+      `\n\n${'#'.repeat(Number(level))} ${heading.replace(/<[^>]+>/g, '').trim()}\n\n`)
+    .replace(/<\/(p|li|tr|div|section|article|blockquote|pre|dd|dt)>|<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// The page's own content: <article> or <main> when it marks one, otherwise <body> without site chrome
+export function readableHtml(html: string) {
+  const page = html.replace(/<(script|style|noscript|template|svg|iframe)\b[\s\S]*?<\/\1>/gi, '');
+  const main = page.match(/<article\b[^>]*>([\s\S]*)<\/article>/i) || page.match(/<main\b[^>]*>([\s\S]*)<\/main>/i);
+  if (main) return htmlToText(main[1]);
+
+  const body = page.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? page.replace(/<head\b[\s\S]*?<\/head>/i, '');
+  return htmlToText(body.replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, ''));
+}
+
+// ============ ZIP-BASED FORMATS ============
+
+async function openZip(buffer: Buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  return async (path: string) => {
+    const entry = zip.file(path.replace(/^\//, ''));
+    return entry ? stripPrefixes(await entry.async('string')) : null;
+  };
+}
+
+// Relationship id → archive path, from the _rels file next to `path`
+async function readRelationships(read: (path: string) => Promise<string | null>, path: string) {
+  const slash = path.lastIndexOf('/');
+  const rels = await read(`${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`);
+  return new Map(elements(rels || '', 'Relationship').map(({ tag }) => {
+    const target = xmlAttribute(tag, 'Target') || '';
+    return [xmlAttribute(tag, 'Id'), target.startsWith('/') ? target.slice(1) : resolveHref(path, target)];
+  }));
+}
+
+// OOXML text: runs (<a:t>, <t>) joined per paragraph
+function paragraphs(xml: string) {
+  return elements(xml, 'p')
+    .map(({ content }) => decodeEntities(elements(content, 't').map(run => run.content).join('')).trim())
+    .filter(Boolean);
+}
+
+// ============ POWERPOINT ============
+
+const SLIDE_CHROME = new Set(['sldNum', 'dt', 'ftr', 'hdr', 'sldImg']);
+
+function placeholderType(shape: string) {
+  const [placeholder] = elements(shape, 'ph');
+  return placeholder ? xmlAttribute(placeholder.tag, 'type') || 'body' : null;
+}
+
+/** One `# Slide n: title` section per slide with its text and speaker notes; hidden slides are skipped */
+export async function readPptx(buffer: Buffer) {
+  const read = await openZip(buffer);
+  const presentation = await read('ppt/presentation.xml');
+  if (!presentation) throw new Error('Not a PowerPoint presentation');
+  const relationships = await readRelationships(read, 'ppt/presentation.xml');
+  const slidePaths = elements(presentation, 'sldId')
+    .map(({ tag }) => relationships.get(xmlAttribute(tag, 'r:id')))
+    .filter((path): path is string => Boolean(path));
+
+  const sections: string[] = [];
+  for (const [index, path] of slidePaths.entries()) {
+    const slide = await read(path);
+    if (!slide || /<sld\b[^>]*\sshow="(0|false)"/.test(slide)) continue;
+
+    let title = '';
+    let body = slide;
+    for (const { tag } of elements(slide, 'sp')) {
+      const type = placeholderType(tag);
+      if (type === 'title' || type === 'ctrTitle') title ||= paragraphs(tag).join(' ');
+      if (type === 'title' || type === 'ctrTitle' || SLIDE_CHROME.has(type || '')) body = body.replace(tag, '');
+    }
+
+    const notesPath = [...(await readRelationships(read, path)).values()].find(target => target.includes('notesSlide'));
+    const notesSlide = notesPath ? await read(notesPath) : null;
+    const notes = notesSlide
+      ? elements(notesSlide, 'sp').filter(({ tag }) => placeholderType(tag) === 'body').flatMap(({ tag }) => paragraphs(tag))
+      : [];
+
+    sections.push([
+      `# Slide ${index + 1}${title ? `: ${title}` : ''}`,
+      paragraphs(body).join('\n'),
+      notes.length > 0 ? `Speaker notes:\n${notes.join('\n')}` : '',
+    ].filter(Boolean).join('\n\n'));
+  }
+  return sections.join('\n\n');
+}
+
+// ============ EPUB ============
+
+/** The book's chapters in reading order; chapter headings become markdown headings */
+export async function readEpub(buffer: Buffer) {
+  const read = await openZip(buffer);
+  const container = await read('META-INF/container.xml');
+  const [rootfile] = elements(container || '', 'rootfile');
+  const packagePath = rootfile && xmlAttribute(rootfile.tag, 'full-path');
+  const opf = packagePath ? await read(packagePath) : null;
+  if (!packagePath || !opf) throw new Error('Not an EPUB book');
+
+  const manifest = new Map(elements(opf, 'item').map(({ tag }) => [xmlAttribute(tag, 'id'), xmlAttribute(tag, 'href') || '']));
+  const chapters: string[] = [];
+  for (const { tag } of elements(opf, 'itemref')) {
+    if (xmlAttribute(tag, 'linear') === 'no') continue;
+    const href = manifest.get(xmlAttribute(tag, 'idref'));
+    if (!href) continue;
+    const xhtml = await read(resolveHref(packagePath, decodeURIComponent(href.split('#')[0])));
+    // Unlike a web page, a chapter's <header> holds its title, so the whole body is kept
+    const text = xhtml ? htmlToText(xhtml.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? xhtml) : '';
+    if (text) chapters.push(text);
+  }
+  return chapters.join('\n\n');
+}
+
+// ============ SPREADSHEETS ============
+
+// "B12" → 1
+function columnIndex(reference: string) {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, '').toUpperCase()) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+/** Every sheet of an .xlsx workbook as rows of cell text (values, not formulas) */
+export async function readXlsx(buffer: Buffer): Promise<Sheet[]> {
+  const read = await openZip(buffer);
+  const workbook = await read('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook');
+  const relationships = await readRelationships(read, 'xl/workbook.xml');
+  const sharedStrings = elements((await read('xl/sharedStrings.xml') || '').replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 'si')
+    .map(({ content }) => decodeEntities(elements(content, 't').map(run => run.content).join('')));
+
+  const sheets: Sheet[] = [];
+  for (const { tag } of elements(workbook, 'sheet')) {
+    const path = relationships.get(xmlAttribute(tag, 'r:id'));
+    const xml = path ? await read(path) : null;
+    if (!xml) continue;
+
+    const rows = elements(xml, 'row').map(({ content }) => {
+      const row: string[] = [];
+      for (const cell of elements(content, 'c')) {
+        const type = xmlAttribute(`<c${cell.attributes}>`, 't');
+        const value = elements(cell.content, 'v')[0]?.content ?? '';
+        const text = type === 's' ? sharedStrings[Number(value)] ?? ''
+          : type === 'inlineStr' ? decodeEntities(elements(cell.content, 't').map(run => run.content).join(''))
+          : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+          : decodeEntities(value);
+        const reference = xmlAttribute(`<c${cell.attributes}>`, 'r');
+        row[reference ? columnIndex(reference) : row.length] = text.trim();
+      }
+      return Array.from(row, cell => cell ?? '');
+    });
+    sheets.push({ name: xmlAttribute(tag, 'name') || `Sheet ${sheets.length + 1}`, rows });
+  }
+  return sheets;
+}
+
+/** Rows of a CSV or TSV file; quoted fields may contain the delimiter, quotes ("") and line breaks */
+export function parseDelimited(text: string, delimiter?: string) {
+  const source = text.replace(/^\uFEFF/, '');
+  // Spreadsheet apps in many locales export ";"-separated CSV
+  const firstLine = source.split('\n', 1)[0];
+  const separator = delimiter ?? ((firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      rows.push([...row, field.trim()]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field.trim()]);
+  return rows;
+}
+
+export async function readSpreadsheet(buffer: Buffer, format: 'xlsx' | 'csv' | 'tsv', name: string): Promise<Sheet[]> {
+  if (format === 'xlsx') return readXlsx(buffer);
+  return [{ name, rows: parseDelimited(buffer.toString('utf-8'), format === 'tsv' ? '\t' : undefined) }];
+}
+
+// Non-empty rows as "cell | cell" lines, under a heading per sheet when there are several
+export function sheetsToText(sheets: Sheet[]) {
+  return sheets.map(sheet => {
+    const lines = sheet.rows
+      .map(row => row.filter(Boolean).join(' | '))
+      .filter(Boolean)
+      .join('\n');
+    return sheets.length > 1 && lines ? `# ${sheet.name}\n\n${lines}` : lines;
+  }).filter(Boolean).join('\n\n');
+}
+
+const HEADER_CELLS = new Set([
+  'term', 'word', 'front', 'question', 'prompt', 'concept', 'vocabulary', 'vocab',
+  'definition', 'meaning', 'back', 'answer', 'translation', 'explanation',
+]);
+
+/**
+ * Term/definition pairs when every sheet is a two-column list, otherwise null.
+ * Rows with only one cell filled (titles, section labels) are skipped, and a first
+ * row such as "Term | Definition" is taken as a header.
+ */
+export function twoColumnPairs(sheets: Sheet[]) {
+  const pairs: { term: string; definition: string }[] = [];
+  for (const sheet of sheets) {
+    const rows = sheet.rows.map(row => {
+      let end = row.length;
+      while (end > 0 && !row[end - 1]) end--;
+      return row.slice(0, end);
+    }).filter(row => row.length > 0);
+    if (rows.some(row => row.length > 2)) return null;
+
+    const filled = rows.filter(row => row[0] && row[1]);
+    if (filled[0] && filled[0].every(cell => HEADER_CELLS.has(cell.toLowerCase()))) filled.shift();
+    pairs.push(...filled.map(([term, definition]) => ({ term, definition })));
+  }
+  return pairs.length >= 2 ? pairs : null;
+}
@@ -0,0 +1,163 @@
+import { chunkPages, chunkText, type DocumentChunk } from './chunks.js';
+import { documentFormat, htmlToText, readableHtml, readEpub, readPptx, readSpreadsheet, sheetsToText, twoColumnPairs, type Sheet } from './extractors.js';
+
+export type ContentPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+export type UploadedFile = Pick<Express.Multer.File, 'buffer' | 'mimetype' | 'originalname' | 'size'>;
+
+async function readFileContent(buffer: Buffer, mimeType: string, originalName = '') {
+  try {
+    const format = documentFormat(mimeType, originalName);
+    if (format === 'pptx') return await readPptx(buffer);
+    if (format === 'epub') return await readEpub(buffer);
+    if (format === 'html') return readableHtml(buffer.toString('utf-8'));
+    if (format === 'xlsx' || format === 'csv' || format === 'tsv') {
+      return sheetsToText(await readSpreadsheet(buffer, format, originalName));
+    }
+
+    if (
+      mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+      originalName.endsWith('.docx')
+    ) {
+      const mammoth = await import('mammoth');
+      const result = await mammoth.default.convertToHtml({ buffer });
+      return htmlToText(result.value);
+    } else if (
+      mimeType === 'application/msword' ||
+      originalName.endsWith('.doc')
+    ) {
+      try {
+        const mammoth = await import('mammoth');
+        const result = await mammoth.default.extractRawText({ buffer });
+        return result.value;
+      } catch {
+        return buffer.toString('utf-8');
+      }
+    } else {
+      return buffer.toString('utf-8');
+    }
+  } catch (error) {
+    console.error('Error reading file:', error);
+    return '';
+  }
+}
+
+// Mime types that Gemini can process natively as inlineData
+const GEMINI_NATIVE_MIMES = new Set([
+  // Images
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic', 'image/heif',
+  // PDF
+  'application/pdf',
+  // Audio
+  'audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/flac', 'audio/aac', 'audio/mp4',
+  // Video
+  'video/mp4', 'video/webm', 'video/mpeg', 'video/quicktime',
+]);
+
+function isGeminiNative(mimeType: string) {
+  return GEMINI_NATIVE_MIMES.has(mimeType);
+}
+
+/**
+ * Process uploaded files into Gemini content parts.
+ * - Images, PDFs, audio, video → inlineData (base64)
+ * - DOCX/DOC → text extraction via mammoth
+ * - PPTX, EPUB, HTML, XLSX/CSV/TSV → text extraction (lib/extractors.ts)
+ * - Text/MD/etc → text part
+ */
+export async function processFilesForGemini(files: UploadedFile[]) {
+  const parts: ContentPart[] = [];
+  const descriptions: string[] = [];
+
+  for (const file of files) {
+    const { buffer, mimetype, originalname, size } = file;
+
+    if (isGeminiNative(mimetype)) {
+      // Send directly to Gemini as base64 inlineData
+      parts.push({
+        inlineData: {
+          mimeType: mimetype,
+          data: buffer.toString('base64'),
+        },
+      });
+      const sizeMB = (size / (1024 * 1024)).toFixed(2);
+      descriptions.push(`[${originalname}] sent as ${mimetype} (${sizeMB} MB) — native multimodal`);
+      console.log(`[FILE] ${originalname} (${mimetype}, ${sizeMB} MB): sent as native inlineData`);
+    } else {
+      // Extract text for non-native types (docx, doc, txt, md, etc.)
+      const content = await readFileContent(buffer, mimetype, originalname);
+      if (content.trim()) {
+        parts.push({
+          text: `\n\n--- Content from ${originalname} ---\n${content}`,
+        });
+        descriptions.push(`[${originalname}] text extracted (${content.length} chars)`);
+        console.log(`[FILE] ${originalname} (${mimetype}): ${content.length} chars extracted as text`);
+      } else {
+        descriptions.push(`[${originalname}] could not extract content`);
+        console.warn(`[FILE] ${originalname}: empty content after extraction`);
+      }
+    }
+  }
+
+  return { parts, descriptions };
+}
+
+async function readPdfPages(buffer: Buffer) {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const { pages } = await parser.getText();
+    return pages;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Split uploaded documents into chunks for storage with a course:
+ * PDFs by page, everything with extractable text by heading.
+ * Images, audio and video have no text to chunk and are skipped.
+ */
+export async function chunkUploads(files: UploadedFile[]) {
+  const chunks: DocumentChunk[] = [];
+
+  for (const { buffer, mimetype, originalname } of files) {
+    try {
+      if (mimetype === 'application/pdf') {
+        chunks.push(...chunkPages(originalname, await readPdfPages(buffer)));
+      } else if (!isGeminiNative(mimetype)) {
+        chunks.push(...chunkText(originalname, await readFileContent(buffer, mimetype, originalname)));
+      }
+    } catch (error) {
+      console.error(`[FILE] ${originalname}: could not split into chunks:`, error);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Term/definition pairs when the upload is nothing but two-column spreadsheets
+ * (a vocab list in .xlsx, .csv or .tsv), which become cards without a model call.
+ * Null for anything else.
+ */
+export async function readTermList(files: UploadedFile[]) {
+  if (files.length === 0) return null;
+  const sheets: Sheet[] = [];
+  for (const { buffer, mimetype, originalname } of files) {
+    const format = documentFormat(mimetype, originalname);
+    if (format !== 'xlsx' && format !== 'csv' && format !== 'tsv') return null;
+    try {
+      sheets.push(...(await readSpreadsheet(buffer, format, originalname)));
+    } catch (error) {
+      console.error(`[FILE] ${originalname}: could not read spreadsheet:`, error);
+      return null;
+    }
+  }
+  return twoColumnPairs(sheets);
+}
+
+// multer leaves req.files undefined when nothing was uploaded
+export function uploadedFiles(files: Express.Request['files']): Express.Multer.File[] {
+  return Array.isArray(files) ? files : [];
+}
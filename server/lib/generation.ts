@@ -0,0 +1,108 @@
+import type { Response } from 'express';
+import { SchemaValidationError, validate, type Schema } from '../schemas.js';
+import type { GenerationErrorBody } from '../../src/types/api.js';
+import type { GetModel, Model } from '../types.js';
+import type { ContentPart } from './files.js';
+
+const MAX_SCHEMA_REPAIRS = 2;
+
+export const stripJsonFence = (text: string) => text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+/** JSON parsing and schema repair for model output; the fix-up calls go to the 'fix-json' route */
+export function createGeneration(getModel: GetModel) {
+  async function fixJsonWithAI(malformedJson: string, errorMessage: string, originalPrompt: string) {
+    try {
+      const model = getModel('fix-json');
+      const fixPrompt = `The following JSON response has an error. Please fix it and return ONLY valid JSON.
+
+Error message: ${errorMessage}
+Original request context: ${originalPrompt}
+
+Malformed JSON:
+${malformedJson}
+
+Return ONLY the corrected valid JSON, no explanations or markdown.`;
+
+      const result = await model.generateContent(fixPrompt, { json: true });
+      return JSON.parse(stripJsonFence(result.text));
+    } catch (error) {
+      console.error('Failed to fix JSON with AI:', error);
+      throw error;
+    }
+  }
+
+  async function parseJsonWithRetry(responseText: string, originalPrompt: string, maxRetries = 2) {
+    let lastError: unknown;
+    let currentText = responseText;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        currentText = stripJsonFence(currentText);
+        return JSON.parse(currentText);
+      } catch (error) {
+        lastError = error;
+        const message = (error as Error).message;
+        console.error(`JSON parse attempt ${attempt + 1} failed:`, message);
+        if (attempt < maxRetries) {
+          try {
+            return await fixJsonWithAI(currentText, message, originalPrompt);
+          } catch {
+            currentText = responseText;
+          }
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Generate a JSON payload and check it against a schema from schemas.ts.
+   * Safe problems are normalised away; for the rest the model is re-prompted with
+   * its previous answer and the exact violations. Throws SchemaValidationError
+   * (sent as a 422) if the output is still invalid after MAX_SCHEMA_REPAIRS attempts.
+   */
+  async function generateValidated<T>(model: Model, request: string | ContentPart[], schema: Schema<T>, context: string): Promise<T> {
+    const parts = typeof request === 'string' ? [{ text: request }] : request;
+    const result = await model.generateContent(parts, { json: true });
+    let data = await parseJsonWithRetry(result.text, context);
+
+    for (let attempt = 0; ; attempt++) {
+      const { value, violations } = validate(schema, data);
+      if (violations.length === 0) return value;
+      if (attempt >= MAX_SCHEMA_REPAIRS) throw new SchemaValidationError(schema.name, violations);
+
+      console.warn(`[SCHEMA] ${context}: ${violations.length} violation(s), re-prompting (attempt ${attempt + 1})`);
+      const repairPrompt = `Your previous JSON response does not match the required structure.
+
+Previous response:
+${JSON.stringify(value)}
+
+Problems:
+${violations.map((v: { path: string; message: string }) => `- ${v.path || '(root)'}: ${v.message}`).join('\n')}
+
+Fix every problem listed above and return the complete corrected JSON in the same structure. Return ONLY valid JSON.`;
+      const repair = await model.generateContent([...parts, { text: repairPrompt }], { json: true });
+      data = await parseJsonWithRetry(repair.text, context);
+    }
+  }
+
+  return { parseJsonWithRetry, generateValidated };
+}
+
+export function generationErrorBody(error: unknown, message: string): GenerationErrorBody {
+  if (error instanceof SchemaValidationError) {
+    return {
+      error: message,
+      type: 'schema_validation',
+      schema: error.schema,
+      details: error.message,
+      violations: error.violations,
+    };
+  }
+  return { error: message, details: (error as Error).message };
+}
+
+// Generation routes answer 422 with the violations when the AI output could not be repaired
+export function sendGenerationError(res: Response, error: unknown, message: string) {
+  res.status(error instanceof SchemaValidationError ? 422 : 500).json(generationErrorBody(error, message));
+}
@@ -0,0 +1,152 @@
+import { generationErrorBody } from './generation.js';
+import type { UploadedFile } from './files.js';
+import type { GenerationJobKind, GenerationJobStage } from '../../src/types/api.js';
+import type { GenerationJobRow, Repositories } from '../types.js';
+
+const MAX_CONCURRENT_JOBS = 2;
+// Uploads are only held in memory, so a failed job can be retried for this long
+const RETRY_UPLOADS_TTL_MS = 60 * 60 * 1000;
+// A queued or running job nobody has touched for this long lost its worker (restart, other instance)
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+export interface JobContext {
+  // Stays the same across retries
+  jobId: string;
+  userId: string;
+  input: GenerationJobRow['input'];
+  files: UploadedFile[];
+  // Move to the next stage, optionally publishing the output so far
+  report(stage: GenerationJobStage, partial?: GenerationJobRow['partial']): Promise<void>;
+}
+
+export interface JobHandler {
+  // Error message for the job's error body, as the matching /api/generate-* route would send it
+  failureMessage: string;
+  run(context: JobContext): Promise<NonNullable<GenerationJobRow['result']>>;
+}
+
+interface QueuedJob {
+  id: string;
+  userId: string;
+  kind: GenerationJobKind;
+  input: GenerationJobRow['input'];
+  attempts: number;
+}
+
+/**
+ * In-process worker for generation jobs. Job state lives in the generation_jobs
+ * table so any request can report on it; the work itself runs on the instance
+ * that accepted the job, at most MAX_CONCURRENT_JOBS at a time.
+ */
+export function createJobRunner(db: Repositories) {
+  const handlers = new Map<GenerationJobKind, JobHandler>();
+  const uploads = new Map<string, UploadedFile[]>();
+  const uploadTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  const queue: QueuedJob[] = [];
+  const local = new Set<string>();
+  let running = 0;
+
+  function keepUploads(jobId: string, files: UploadedFile[]) {
+    clearTimeout(uploadTimers.get(jobId));
+    uploadTimers.delete(jobId);
+    if (files.length) uploads.set(jobId, files);
+  }
+
+  function releaseUploads(jobId: string, afterMs = 0) {
+    clearTimeout(uploadTimers.get(jobId));
+    if (afterMs === 0) {
+      uploads.delete(jobId);
+      uploadTimers.delete(jobId);
+      return;
+    }
+    const timer = setTimeout(() => releaseUploads(jobId), afterMs);
+    timer.unref?.();
+    uploadTimers.set(jobId, timer);
+  }
+
+  async function run(job: QueuedJob) {
+    const handler = handlers.get(job.kind)!;
+    await db.jobs.update(job.id, { status: 'running', attempts: job.attempts + 1 });
+
+    try {
+      const result = await handler.run({
+        jobId: job.id,
+        userId: job.userId,
+        input: job.input,
+        files: uploads.get(job.id) || [],
+        report: async (stage, partial) => {
+          const { error } = await db.jobs.update(job.id, partial === undefined ? { stage } : { stage, partial });
+          if (error) console.error(`[JOBS] Failed to report progress for ${job.id}:`, error.message);
+        },
+      });
+      await db.jobs.update(job.id, { status: 'succeeded', stage: null, result });
+      releaseUploads(job.id);
+    } catch (error) {
+      console.error(`[JOBS] ${job.kind} job ${job.id} failed:`, error);
+      await db.jobs.update(job.id, { status: 'failed', stage: null, error: generationErrorBody(error, handler.failureMessage) });
+      releaseUploads(job.id, RETRY_UPLOADS_TTL_MS);
+    }
+  }
+
+  function pump() {
+    while (running < MAX_CONCURRENT_JOBS && queue.length > 0) {
+      const job = queue.shift()!;
+      running++;
+      run(job)
+        .catch(error => console.error(`[JOBS] Could not update job ${job.id}:`, error))
+        .finally(() => {
+          running--;
+          local.delete(job.id);
+          pump();
+        });
+    }
+  }
+
+  function enqueue(job: QueuedJob) {
+    local.add(job.id);
+    queue.push(job);
+    pump();
+  }
+
+  return {
+    register(kind: GenerationJobKind, handler: JobHandler) {
+      handlers.set(kind, handler);
+    },
+
+    handles: (kind: string): kind is GenerationJobKind => handlers.has(kind as GenerationJobKind),
+
+    async submit(userId: string, kind: GenerationJobKind, prompt: string, files: UploadedFile[]) {
+      const input = { prompt, fileNames: files.map(file => file.originalname) };
+      const { data: job, error } = await db.jobs.create(userId, { kind, status: 'queued', input, attempts: 0 });
+      if (error) return { job: null, error };
+
+      keepUploads(job.id, files);
+      enqueue({ id: job.id, userId, kind, input, attempts: 0 });
+      return { job, error: null };
+    },
+
+    // Failed jobs are retryable while their uploads are still in memory
+    canRetry: (job: GenerationJobRow) => job.status === 'failed' && (job.input.fileNames.length === 0 || uploads.has(job.id)),
+
+    async retry(job: GenerationJobRow) {
+      keepUploads(job.id, uploads.get(job.id) || []);
+      const { error } = await db.jobs.update(job.id, { status: 'queued', stage: null, partial: null, result: null, error: null });
+      if (error) return { error };
+      enqueue({ id: job.id, userId: job.user_id, kind: job.kind, input: job.input, attempts: job.attempts });
+      return { error: null };
+    },
+
+    isActive: (job: GenerationJobRow) => job.status === 'queued' || job.status === 'running',
+
+    // Active in the table but not on this instance and silent for too long
+    isStale: (job: GenerationJobRow) => (job.status === 'queued' || job.status === 'running')
+      && !local.has(job.id)
+      && Date.now() - Date.parse(job.updated_at) > STALE_JOB_MS,
+
+    forget(jobId: string) {
+      releaseUploads(jobId);
+    },
+  };
+}
+
+export type JobRunner = ReturnType<typeof createJobRunner>;
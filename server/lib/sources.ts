@@ -0,0 +1,127 @@
+import type { DocumentChunk } from './chunks.js';
+import type { CourseSource, SourceSection } from '../../src/types/api.js';
+import type { CourseChunkRow, Repositories } from '../types.js';
+
+const SUMMARY_COLUMNS = ['course_id', 'source', 'position', 'page_end', 'created_at'] satisfies (keyof CourseChunkRow)[];
+// Sources are stored before their course is saved; left unsaved this long, the course was abandoned
+const UNCLAIMED_SOURCES_MS = 60 * 60 * 1000;
+
+const toChunk = (row: CourseChunkRow): DocumentChunk => ({
+  source: row.source,
+  heading: row.heading,
+  pageStart: row.page_start,
+  pageEnd: row.page_end,
+  content: row.content,
+});
+
+// One entry per (course, file), in the order the files were added
+function summarize(rows: Pick<CourseChunkRow, 'course_id' | 'source' | 'position' | 'page_end' | 'created_at'>[]) {
+  const sources = new Map<string, CourseSource & { position: number }>();
+  for (const row of rows) {
+    const key = `${row.course_id}\n${row.source}`;
+    const source = sources.get(key);
+    if (!source) {
+      sources.set(key, {
+        courseId: row.course_id,
+        name: row.source,
+        sections: 1,
+        pages: row.page_end,
+        addedAt: row.created_at,
+        position: row.position,
+      });
+      continue;
+    }
+    source.sections++;
+    if (row.page_end != null) source.pages = Math.max(source.pages ?? 0, row.page_end);
+    source.position = Math.min(source.position, row.position);
+  }
+  return [...sources.values()]
+    .sort((a, b) => a.position - b.position)
+    .map(({ position: _position, ...source }) => source);
+}
+
+/**
+ * A course's source library: the text of its uploads, stored as chunks
+ * (course_chunks) and grouped back into one source per uploaded file.
+ */
+export function createSourceLibrary(db: Repositories) {
+  async function insert(userId: string, courseId: string, chunks: DocumentChunk[], firstPosition: number) {
+    return db.courseChunks.createMany(userId, chunks.map((chunk, index) => ({
+      course_id: courseId,
+      position: firstPosition + index,
+      source: chunk.source,
+      heading: chunk.heading,
+      page_start: chunk.pageStart,
+      page_end: chunk.pageEnd,
+      content: chunk.content,
+    })));
+  }
+
+  async function list(userId: string, courseId?: string) {
+    const { data, error } = courseId
+      ? await db.courseChunks.list(courseId, userId, SUMMARY_COLUMNS)
+      : await db.courseChunks.listByUser(userId, SUMMARY_COLUMNS);
+    return { sources: summarize(data || []), error };
+  }
+
+  return {
+    // Courses made before sources were kept, or without uploads, have no chunks
+    async load(courseId: unknown, userId: string): Promise<DocumentChunk[]> {
+      if (typeof courseId !== 'string' || !courseId) return [];
+      const { data, error } = await db.courseChunks.list(courseId, userId);
+      if (error) console.error(`Failed to load sources for course ${courseId}:`, error.message);
+      return (data || []).map(toChunk);
+    },
+
+    list,
+
+    async read(courseId: string, userId: string, name: string): Promise<SourceSection[]> {
+      const { data } = await db.courseChunks.listSource(courseId, userId, name);
+      return (data || []).map(toChunk).map(({ source: _source, ...section }) => section);
+    },
+
+    /**
+     * Add chunks after the course's existing sources. A file with the same name
+     * replaces the earlier upload rather than being stored twice.
+     */
+    async add(userId: string, courseId: string, chunks: DocumentChunk[]) {
+      const { data, error } = await db.courseChunks.list(courseId, userId, ['source', 'position']);
+      if (error) return { error };
+      const existing = data || [];
+
+      for (const name of new Set(chunks.map(chunk => chunk.source))) {
+        if (!existing.some(row => row.source === name)) continue;
+        const { error: removeError } = await db.courseChunks.removeSource(courseId, userId, name);
+        if (removeError) return { error: removeError };
+      }
+      const next = existing.reduce((max, row) => Math.max(max, row.position + 1), 0);
+      return insert(userId, courseId, chunks, next);
+    },
+
+    remove: (courseId: string, userId: string, name: string) => db.courseChunks.removeSource(courseId, userId, name),
+
+    /**
+     * Remove the sources of generated courses that were never saved, except for
+     * the course ids in `keep` (results that can still be saved, such as a job's).
+     */
+    async removeUnclaimed(userId: string, keep: string[]) {
+      const [chunks, courses] = await Promise.all([
+        db.courseChunks.listByUser(userId, ['course_id', 'created_at']),
+        db.courses.list(userId, ['id']),
+      ]);
+      if (chunks.error) return { error: chunks.error };
+      if (courses.error) return { error: courses.error };
+
+      const claimed = new Set([...keep, ...courses.data.map(course => course.id)]);
+      const cutoff = Date.now() - UNCLAIMED_SOURCES_MS;
+      const unclaimed = new Set(chunks.data
+        .filter(row => !claimed.has(row.course_id) && Date.parse(row.created_at) < cutoff)
+        .map(row => row.course_id));
+      for (const courseId of unclaimed) {
+        const { error: removeError } = await db.courseChunks.removeForCourse(courseId, userId);
+        if (removeError) return { error: removeError };
+      }
+      return { error: null };
+    },
+  };
+}
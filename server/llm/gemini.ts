@@ -0,0 +1,21 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LLMEnv, LLMProvider } from './index.js';
+
+export function createGeminiProvider(env: LLMEnv): LLMProvider {
+  if (!env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY is required for the gemini LLM provider');
+  }
+  const genAI = new GoogleGenerativeAI(env.GEMINI_API_KEY);
+
+  return {
+    name: 'gemini',
+    async generateContent(model, parts, { json = false } = {}) {
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        ...(json ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+      });
+      const result = await generativeModel.generateContent(parts);
+      return result.response.text();
+    },
+  };
+}
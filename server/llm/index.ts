@@ -0,0 +1,125 @@
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAICompatibleProvider } from './openai.js';
+import { createMockProvider } from './mock.js';
+import type { ContentPart } from '../lib/files.js';
+
+/**
+ * LLM provider layer.
+ *
+ * Every provider implements the same interface:
+ *   generateContent(model, parts, { json }) → Promise<string>
+ * where `parts` is an array of Gemini-style content parts — `{ text }` or
+ * `{ inlineData: { mimeType, data } }` — so processFilesForGemini output can be
+ * passed to any backend. `json: true` asks the backend for a JSON-only response.
+ *
+ * Routes ask for a model by name (e.g. 'generate-roadmap') and the provider/model
+ * is resolved from config, so one route can run on a local model while the rest
+ * stay on Gemini.
+ */
+
+export type LLMEnv = Record<string, string | undefined>;
+
+export interface GenerateOptions {
+  json?: boolean;
+  // Set by getModel; the mock provider answers per route
+  route?: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  generateContent(model: string, parts: ContentPart[], options?: GenerateOptions): Promise<string>;
+}
+
+interface RouteConfig {
+  provider?: string;
+  model?: string;
+}
+
+const PROVIDER_FACTORIES: Record<string, (env: LLMEnv) => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  mock: createMockProvider,
+};
+
+const DEFAULT_MODELS: Record<string, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'fixtures',
+};
+
+// "openai:qwen2.5:7b" → { provider: 'openai', model: 'qwen2.5:7b' }
+function parseRouteConfig(value: unknown): RouteConfig {
+  if (typeof value === 'string') {
+    const [provider, ...model] = value.split(':');
+    return { provider, model: model.length ? model.join(':') : undefined };
+  }
+  return (value as RouteConfig) || {};
+}
+
+function parseRoutes(raw: string | undefined): Record<string, RouteConfig> {
+  if (!raw) return {};
+  try {
+    const routes: Record<string, unknown> = JSON.parse(raw);
+    return Object.fromEntries(Object.entries(routes).map(([route, value]) => [route, parseRouteConfig(value)]));
+  } catch (error) {
+    throw new Error(`LLM_ROUTES is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+function toParts(request: string | ContentPart[]): ContentPart[] {
+  return typeof request === 'string' ? [{ text: request }] : request;
+}
+
+/**
+ * Build the model resolver from environment config:
+ * - LLM_PROVIDER / LLM_MODEL — default provider and model for every route
+ * - LLM_ROUTES — JSON map of route → "provider[:model]" or { provider, model }.
+ *   Sub-calls such as 'generate-course-flashcards.context' fall back to their
+ *   parent route's entry.
+ */
+export function createLLM(env: LLMEnv) {
+  const defaults = {
+    provider: env.LLM_PROVIDER || 'gemini',
+    model: env.LLM_MODEL,
+  };
+  const routes = parseRoutes(env.LLM_ROUTES);
+  const providers: Record<string, LLMProvider> = {};
+
+  const getProvider = (name: string) => {
+    if (!PROVIDER_FACTORIES[name]) {
+      throw new Error(`Unknown LLM provider "${name}" (expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')})`);
+    }
+    if (!providers[name]) providers[name] = PROVIDER_FACTORIES[name](env);
+    return providers[name];
+  };
+
+  const resolveRoute = (route: string) => {
+    const routeConfig = routes[route] || routes[route.split('.')[0]] || {};
+    const provider = routeConfig.provider || defaults.provider;
+    // A default model only applies to the default provider — it would be meaningless elsewhere
+    const model = routeConfig.model
+      || (provider === defaults.provider ? defaults.model : undefined)
+      || DEFAULT_MODELS[provider];
+    return { provider, model };
+  };
+
+  /**
+   * Get a model handle for a route. Usage mirrors the Gemini SDK it replaced:
+   *   const model = getModel('generate-flashcards');
+   *   const { text } = await model.generateContent([...parts], { json: true });
+   */
+  const getModel = (route: string) => {
+    const { provider, model } = resolveRoute(route);
+    const backend = getProvider(provider);
+    return {
+      provider,
+      model,
+      async generateContent(request: string | ContentPart[], options: Omit<GenerateOptions, 'route'> = {}) {
+        const text = await backend.generateContent(model, toParts(request), { ...options, route });
+        return { text };
+      },
+    };
+  };
+
+  return { getModel, resolveRoute, defaults, routes };
+}
@@ -0,0 +1,39 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { LLMEnv, LLMProvider } from './index.js';
+
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+async function readFixture(filePath: string) {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Deterministic offline provider for development and tests. Each route answers
+ * with a fixture file from LLM_FIXTURES_DIR (default server/llm/fixtures):
+ * - <route>.json — returned re-serialised, so the response is always valid JSON
+ * - <route>.txt  — returned verbatim (plain-text answers, or deliberately broken JSON)
+ * The prompt itself is ignored, so the same route always gets the same answer.
+ */
+export function createMockProvider(env: LLMEnv): LLMProvider {
+  const fixturesDir = env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+  return {
+    name: 'mock',
+    async generateContent(_model, _parts, { route } = {}) {
+      const jsonFixture = await readFixture(path.join(fixturesDir, `${route}.json`));
+      if (jsonFixture !== null) return JSON.stringify(JSON.parse(jsonFixture));
+
+      const textFixture = await readFixture(path.join(fixturesDir, `${route}.txt`));
+      if (textFixture !== null) return textFixture.trim();
+
+      throw new Error(`No mock LLM fixture for "${route}" in ${fixturesDir}`);
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { ContentPart } from '../lib/files.js';
+import type { LLMEnv, LLMProvider } from './index.js';
+
+/**
+ * OpenAI-compatible chat completions provider. Works with any server exposing
+ * /v1/chat/completions — Ollama, llama.cpp's llama-server, vLLM, LM Studio, OpenAI itself.
+ * Defaults to a local Ollama instance.
+ */
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Local chat endpoints only accept images inline; other attachments need text extraction
+function toMessageContent(parts: ContentPart[]) {
+  if (parts.every(part => 'text' in part)) {
+    return parts.map(part => part.text).join('\n\n');
+  }
+  return parts.map(part => {
+    if ('text' in part) return { type: 'text', text: part.text };
+    const { mimeType, data } = part.inlineData;
+    if (!mimeType.startsWith('image/')) {
+      throw new Error(`The OpenAI-compatible provider cannot read ${mimeType} attachments`);
+    }
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  });
+}
+
+export function createOpenAICompatibleProvider(env: LLMEnv): LLMProvider {
+  const baseUrl = (env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (env.OPENAI_API_KEY) headers.Authorization = `Bearer ${env.OPENAI_API_KEY}`;
+
+  return {
+    name: 'openai',
+    async generateContent(model, parts, { json = false } = {}) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: toMessageContent(parts) }],
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`LLM request to ${baseUrl} failed (${response.status}): ${body.substring(0, 500)}`);
+      }
+
+      const data = await response.json() as { choices?: { message?: { content?: unknown } }[] };
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new Error(`LLM response from ${baseUrl} had no message content`);
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,49 @@
+// Shared helpers for the HTML/XML found in imported and exported study material
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeEntities(text: string) {
+  return String(text).replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+export function escapeXml(text: unknown) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function xmlAttribute(tag: string, name: string) {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  return match ? decodeEntities(match[1] ?? match[2]) : undefined;
+}
+
+// Namespace prefixes (qti:, a:, p:) don't matter for the elements we read
+export function stripPrefixes(xml: string) {
+  return xml.replace(/<(\/?)[A-Za-z_][\w.-]*:/g, '<$1');
+}
+
+// Every `<name>` element as { tag, attributes, content }; elements of the same name must not nest
+export function elements(xml: string, name: string) {
+  const pattern = new RegExp(`<${name}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`, 'g');
+  return [...xml.matchAll(pattern)].map(match => ({ tag: match[0], attributes: match[1], content: match[2] || '' }));
+}
+
+// A path inside an archive, relative to the file that links to it
+export function resolveHref(base: string, href: string) {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of href.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
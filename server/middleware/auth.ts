@@ -0,0 +1,22 @@
+import type { AuthService, Middleware } from '../types.js';
+
+export function createRequireAuth(auth: AuthService): Middleware {
+  return async (req, res, next) => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Missing or invalid authorization header' });
+      return;
+    }
+
+    const token = authHeader.split(' ')[1];
+    const { user, error } = await auth.getUser(token);
+
+    if (error || !user) {
+      res.status(401).json({ error: 'Invalid or expired token' });
+      return;
+    }
+
+    req.user = user;
+    next();
+  };
+}
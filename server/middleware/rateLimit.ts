@@ -0,0 +1,50 @@
+import type { RateLimitErrorBody } from '../../src/types/api.js';
+import type { Middleware, Repositories } from '../types.js';
+
+export const DAILY_GENERATION_LIMIT = 100;
+
+// Today's UTC day as the range generations are counted over
+export function todayRange() {
+  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+  return { from: `${today}T00:00:00.000Z`, to: `${today}T23:59:59.999Z` };
+}
+
+export function createRateLimit(db: Repositories) {
+  const checkRateLimit: Middleware = async (req, res, next) => {
+    const userId = req.user.id;
+
+    // Check user profile for pro status (pro users get unlimited)
+    const { data: profile } = await db.profiles.get(userId);
+
+    if (profile?.subscription_tier === 'pro') {
+      return next(); // Pro users bypass rate limit
+    }
+
+    // Count today's generations
+    const { count, error } = await db.generations.count(userId, todayRange());
+
+    if (error) {
+      console.error('Rate limit check error:', error);
+      return next(); // Allow on error to not block users
+    }
+
+    if ((count || 0) >= DAILY_GENERATION_LIMIT) {
+      const body: RateLimitErrorBody = {
+        error: 'Daily generation limit reached',
+        limit: DAILY_GENERATION_LIMIT,
+        message: `You have reached your daily limit of ${DAILY_GENERATION_LIMIT} generations. Upgrade to Pro for unlimited access.`,
+      };
+      res.status(429).json(body);
+      return;
+    }
+
+    next();
+  };
+
+  async function recordGeneration(userId: string, generationType: string) {
+    const { error } = await db.generations.record(userId, generationType);
+    if (error) console.error('Failed to record generation:', error);
+  }
+
+  return { checkRateLimit, recordGeneration };
+}
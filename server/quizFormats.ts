@@ -0,0 +1,435 @@
+import JSZip from 'jszip';
+import { decodeEntities, elements, escapeXml, resolveHref, stripPrefixes, xmlAttribute } from './markup.js';
+import type { QuizQuestion, StandaloneQuiz } from '../src/types/roadmap.js';
+
+/**
+ * Quiz interchange with school LMSs: IMS QTI 2.1 content packages and Moodle GIFT.
+ *
+ * Both directions only cover what a QuizQuestion can hold — single-answer multiple
+ * choice (true/false included) with an optional explanation. Other LMS question types
+ * (short answer, matching, numerical, essay, multiple response) are skipped on import
+ * and reported back as a count.
+ */
+
+export const QUIZ_EXPORT_FORMATS = ['qti', 'gift'];
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+
+// A standalone quiz or a step test, as exported
+export type ExportableQuiz = Pick<StandaloneQuiz, 'id' | 'title' | 'description' | 'questions' | 'timePerQuestion'>;
+
+// What an import read from the file, before the quiz draft is put together
+interface ParsedQuestions {
+  title?: string;
+  questions: QuizQuestion[];
+  skipped: number;
+}
+
+interface QtiItemRef {
+  identifier: string;
+  href: string;
+}
+
+export class QuizFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuizFormatError';
+  }
+}
+
+// QTI identifiers must be XML names; quiz and question ids are free-form strings
+function toIdentifier(prefix: string, id: string | number) {
+  return `${prefix}_${String(id).replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+function toQuestion(question: string, options: string[], correctAnswer: number, explanation: string, index: number): QuizQuestion {
+  return {
+    id: `q${index + 1}`,
+    question,
+    options,
+    correctAnswer,
+    explanation: explanation || '',
+  };
+}
+
+// ============ QTI 2.1 ============
+
+function qtiItem(question: QuizQuestion, identifier: string) {
+  const choices = question.options.map((option, index) =>
+    `      <simpleChoice identifier="choice_${index + 1}">${escapeXml(option)}</simpleChoice>`).join('\n');
+  const prompt = escapeXml(question.question).replace(/\n/g, '<br/>');
+  const feedback = question.explanation
+    ? `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="explanation" showHide="show">${escapeXml(question.explanation)}</modalFeedback>\n`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="${identifier}" title="${escapeXml(question.question.slice(0, 80))}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse>
+      <value>choice_${question.correctAnswer + 1}</value>
+    </correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue>
+      <value>0</value>
+    </defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${prompt}</prompt>
+${choices}
+    </choiceInteraction>
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <match>
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </match>
+        <setOutcomeValue identifier="SCORE">
+          <baseValue baseType="float">1</baseValue>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK">
+      <baseValue baseType="identifier">explanation</baseValue>
+    </setOutcomeValue>
+  </responseProcessing>
+${feedback}</assessmentItem>
+`;
+}
+
+function qtiTest(quiz: ExportableQuiz, items: QtiItemRef[]) {
+  const timeLimit = quiz.timePerQuestion ? `\n        <timeLimits maxTime="${quiz.timePerQuestion}"/>\n      ` : '';
+  const refs = items.map(item =>
+    `      <assessmentItemRef identifier="${item.identifier}" href="${item.href}">${timeLimit}</assessmentItemRef>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="${toIdentifier('test', quiz.id)}" title="${escapeXml(quiz.title)}">
+  <testPart identifier="part_1" navigationMode="linear" submissionMode="individual">
+    <assessmentSection identifier="section_1" title="${escapeXml(quiz.title)}" visible="true">
+${refs}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>
+`;
+}
+
+function qtiManifest(quiz: ExportableQuiz, items: QtiItemRef[]) {
+  const itemResources = items.map(item => `    <resource identifier="res_${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">
+      <file href="${item.href}"/>
+    </resource>`).join('\n');
+  const dependencies = items.map(item => `      <dependency identifierref="res_${item.identifier}"/>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="${CP_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${CP_NAMESPACE} http://www.imsglobal.org/xsd/imscp_v1p1.xsd" identifier="${toIdentifier('manifest', quiz.id)}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="res_test" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${dependencies}
+    </resource>
+${itemResources}
+  </resources>
+</manifest>
+`;
+}
+
+async function buildQtiPackage(quiz: ExportableQuiz) {
+  const zip = new JSZip();
+  const items = quiz.questions.map((question, index) => {
+    const identifier = toIdentifier('item', question.id || index + 1);
+    const href = `items/${identifier}.xml`;
+    zip.file(href, qtiItem(question, identifier));
+    return { identifier, href };
+  });
+  zip.file('assessment.xml', qtiTest(quiz, items));
+  zip.file('imsmanifest.xml', qtiManifest(quiz, items));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Flatten an XHTML fragment to plain text, keeping line breaks between blocks
+function xmlText(fragment: string | undefined) {
+  return decodeEntities(String(fragment || '')
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/\s+/g, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ''))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Returns a question, or null for item types a QuizQuestion can't represent
+function parseQtiItem(rawXml: string, index: number): QuizQuestion | null {
+  const xml = stripPrefixes(rawXml);
+  const [interaction] = elements(xml, 'choiceInteraction');
+  if (!interaction) return null;
+
+  const choices = elements(interaction.content, 'simpleChoice').map(choice => ({
+    identifier: xmlAttribute(`<x${choice.attributes}>`, 'identifier'),
+    text: xmlText(choice.content.replace(/<feedbackInline\b[\s\S]*?<\/feedbackInline>/g, '')),
+  }));
+  if (choices.length < 2 || choices.some(choice => !choice.text)) return null;
+
+  const responseId = xmlAttribute(`<x${interaction.attributes}>`, 'responseIdentifier') || 'RESPONSE';
+  const declaration = elements(xml, 'responseDeclaration')
+    .find(entry => xmlAttribute(`<x${entry.attributes}>`, 'identifier') === responseId);
+  if (!declaration) return null;
+
+  let correct: (string | undefined)[] = elements(declaration.content, 'correctResponse')
+    .flatMap(entry => elements(entry.content, 'value').map(value => xmlText(value.content)));
+  if (correct.length === 0) {
+    // Some exporters only score through a mapping; the best-scoring choice is the answer
+    const entries = elements(declaration.content, 'mapEntry').map(entry => ({
+      key: xmlAttribute(entry.tag, 'mapKey'),
+      value: Number(xmlAttribute(entry.tag, 'mappedValue')),
+    })).filter(entry => entry.value > 0);
+    const best = Math.max(...entries.map(entry => entry.value));
+    correct = entries.filter(entry => entry.value === best).map(entry => entry.key);
+  }
+  if (correct.length !== 1) return null;
+
+  const correctAnswer = choices.findIndex(choice => choice.identifier === correct[0]);
+  if (correctAnswer === -1) return null;
+
+  const [body] = elements(xml, 'itemBody');
+  const [prompt] = elements(interaction.content, 'prompt');
+  const stem = body ? xmlText(body.content.split(/<choiceInteraction\b/)[0]) : '';
+  const question = [stem, prompt ? xmlText(prompt.content) : ''].filter(Boolean).join('\n');
+  if (!question) return null;
+
+  const [feedback] = [...elements(xml, 'modalFeedback'), ...elements(xml, 'feedbackBlock')];
+  return toQuestion(question, choices.map(choice => choice.text), correctAnswer, feedback ? xmlText(feedback.content) : '', index);
+}
+
+// Item files in the order the package presents them: test order, then manifest order, then file order
+async function findQtiItems(zip: JSZip) {
+  const readFile = (path: string) => zip.file(path)?.async('string');
+  const manifest = await readFile('imsmanifest.xml');
+  const resources = manifest
+    ? elements(stripPrefixes(manifest), 'resource').map(resource => ({
+      type: xmlAttribute(resource.tag, 'type') || '',
+      href: xmlAttribute(resource.tag, 'href'),
+    })).filter((resource): resource is { type: string; href: string } => Boolean(resource.href))
+    : [];
+
+  let title: string | undefined;
+  const testResource = resources.find(resource => resource.type.startsWith('imsqti_test'));
+  if (testResource) {
+    const rawTest = await readFile(testResource.href);
+    if (rawTest) {
+      const test = stripPrefixes(rawTest);
+      const [assessment] = elements(test, 'assessmentTest');
+      title = assessment && xmlAttribute(`<x${assessment.attributes}>`, 'title');
+      const refs = elements(test, 'assessmentItemRef')
+        .map(ref => xmlAttribute(ref.tag, 'href'))
+        .filter((href): href is string => Boolean(href))
+        .map(href => resolveHref(testResource.href, href));
+      if (refs.length) return { title, paths: refs };
+    }
+  }
+
+  const itemPaths = resources.filter(resource => resource.type.startsWith('imsqti_item')).map(resource => resource.href);
+  if (itemPaths.length) return { title, paths: itemPaths };
+
+  const xmlPaths = Object.keys(zip.files).filter(path => path.toLowerCase().endsWith('.xml') && path !== 'imsmanifest.xml').sort();
+  return { title, paths: xmlPaths };
+}
+
+async function parseQtiPackage(buffer: Buffer): Promise<ParsedQuestions> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new QuizFormatError('File is not a valid QTI zip package');
+  }
+
+  const { title, paths } = await findQtiItems(zip);
+  const questions: QuizQuestion[] = [];
+  let skipped = 0;
+  for (const path of paths) {
+    const xml = await zip.file(path)?.async('string');
+    if (!xml || !/<(?:[\w.-]+:)?assessmentItem\b/.test(xml)) continue;
+    const question = parseQtiItem(xml, questions.length);
+    if (question) questions.push(question);
+    else skipped += 1;
+  }
+  return { title, questions, skipped };
+}
+
+// ============ GIFT ============
+
+const GIFT_SPECIAL_CHARS = ['~', '=', '#', '{', '}', ':'];
+
+// GIFT reserves ~ = # { } : and uses \n for line breaks; Moodle renders TeX between \( \) and \[ \]
+function giftEscape(text: string | undefined) {
+  return String(text || '')
+    .replace(/[~=#{}:]/g, char => `\\${char}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\$\$([\s\S]+?)\$\$/g, '\\[$1\\]')
+    .replace(/\$([^$]+?)\$/g, '\\($1\\)');
+}
+
+function buildGift(quiz: ExportableQuiz) {
+  const header = [`// ${quiz.title}`];
+  if (quiz.description) header.push(...quiz.description.split('\n').map(line => `// ${line}`));
+  header.push(`$CATEGORY: $course$/top/${quiz.title.replace(/\//g, '//').replace(/\n/g, ' ')}`);
+
+  const blocks = quiz.questions.map((question, index) => {
+    const answers = question.options.map((option, optionIndex) =>
+      `\t${optionIndex === question.correctAnswer ? '=' : '~'}${giftEscape(option)}`);
+    if (question.explanation) answers.push(`\t####${giftEscape(question.explanation)}`);
+    return `// question: ${index + 1}\n${giftEscape(question.question)} {\n${answers.join('\n')}\n}`;
+  });
+
+  return `${header.join('\n')}\n\n${blocks.join('\n\n')}\n`;
+}
+
+// Escaped characters are swapped for private-use placeholders while the structure is parsed
+const placeholder = (index: number) => String.fromCharCode(0xe000 + index);
+
+function protectEscapes(text: string) {
+  return text.replace(/\\([~=#{}:n])/g, (_match, char: string) =>
+    char === 'n' ? '\n' : placeholder(GIFT_SPECIAL_CHARS.indexOf(char)));
+}
+
+function giftText(text: string, html: boolean) {
+  let value = text;
+  GIFT_SPECIAL_CHARS.forEach((char, index) => { value = value.split(placeholder(index)).join(char); });
+  value = value
+    .replace(/\\\[([\s\S]+?)\\\]/g, '$$$$$1$$$$')
+    .replace(/\\\(([\s\S]+?)\\\)/g, '$$$1$$');
+  if (html) value = xmlText(value);
+  return value.trim();
+}
+
+function parseGiftAnswers(body: string, html: boolean) {
+  const [rawAnswers, generalFeedback] = body.split('####');
+  const answers = rawAnswers.trim();
+
+  const trueFalse = answers.match(/^(T|TRUE|F|FALSE)\b\s*(?:#([^#]*))?/i);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return {
+      options: ['True', 'False'],
+      correctAnswer: isTrue ? 0 : 1,
+      explanation: giftText(generalFeedback || '', html),
+    };
+  }
+
+  const entries = [...answers.matchAll(/([=~])([^=~]*)/g)].map(([, marker, raw]) => {
+    const weightMatch = raw.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    const weight = marker === '=' ? 100 : weightMatch ? Number(weightMatch[1]) : 0;
+    const [text, feedback = ''] = raw.replace(/^\s*%-?\d+(?:\.\d+)?%/, '').split('#');
+    return { marker, weight, text: giftText(text, html), feedback: giftText(feedback, html), raw };
+  });
+
+  // Short answer (only "=" answers), matching ("->") and anything without choices can't be multiple choice
+  if (entries.length < 2 || !entries.some(entry => entry.marker === '~')) return null;
+  if (entries.some(entry => entry.raw.includes('->') || !entry.text)) return null;
+
+  const best = Math.max(...entries.map(entry => entry.weight));
+  const winners = entries.filter(entry => entry.weight === best);
+  if (best <= 0 || winners.length !== 1) return null;
+
+  return {
+    options: entries.map(entry => entry.text),
+    correctAnswer: entries.indexOf(winners[0]),
+    explanation: giftText(generalFeedback || '', html) || winners[0].feedback,
+  };
+}
+
+function parseGift(source: string): ParsedQuestions {
+  const text = protectEscapes(source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n'));
+  const blocks = text
+    .split('\n')
+    .filter(line => !line.trim().startsWith('//'))
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+  let title: string | undefined;
+  const questions: QuizQuestion[] = [];
+  let skipped = 0;
+  for (const block of blocks) {
+    const category = block.match(/^\$CATEGORY:\s*(.+)$/m);
+    if (category) {
+      title = title || giftText(category[1].split(/(?<!\/)\/(?!\/)/).pop()!.replace(/\/\//g, '/'), false);
+      continue;
+    }
+
+    const open = block.indexOf('{');
+    const close = block.indexOf('}', open);
+    // Blocks without an answer section are Moodle "description" items, not questions
+    if (open === -1 || close === -1) continue;
+
+    let stem = block.slice(0, open).replace(/^::[\s\S]*?::/, '').trim();
+    const formatTag = stem.match(/^\[(html|moodle|plain|markdown)\]/i);
+    const html = formatTag?.[1].toLowerCase() === 'html';
+    if (formatTag) stem = stem.slice(formatTag[0].length);
+
+    const tail = block.slice(close + 1).trim();
+    const questionText = giftText(tail ? `${stem} _____ ${tail}` : stem, html);
+    const parsed = parseGiftAnswers(block.slice(open + 1, close), html);
+    if (!parsed || !questionText) {
+      skipped += 1;
+      continue;
+    }
+    questions.push(toQuestion(questionText, parsed.options, parsed.correctAnswer, parsed.explanation, questions.length));
+  }
+  return { title, questions, skipped };
+}
+
+// ============ PUBLIC API ============
+
+/**
+ * Serialise a quiz (standalone or a step test) for an LMS.
+ * Returns `{ data, extension, contentType }`.
+ */
+export async function exportQuiz(quiz: ExportableQuiz, format: string) {
+  if (format === 'qti') {
+    return { data: await buildQtiPackage(quiz), extension: 'zip', contentType: 'application/zip' };
+  }
+  if (format === 'gift') {
+    return { data: buildGift(quiz), extension: 'gift.txt', contentType: 'text/plain; charset=utf-8' };
+  }
+  throw new QuizFormatError(`Unsupported quiz format "${format}". Use one of: ${QUIZ_EXPORT_FORMATS.join(', ')}`);
+}
+
+/**
+ * Parse an LMS question bank into a standalone quiz draft.
+ * QTI packages are recognised by their zip signature, anything else is read as GIFT.
+ * Returns `{ quiz: { title, description, questions }, skipped }`.
+ */
+export async function importQuiz(buffer: Buffer, filename = '') {
+  const isZip = buffer.length > 3 && buffer[0] === 0x50 && buffer[1] === 0x4b;
+  const parsed = isZip ? await parseQtiPackage(buffer) : parseGift(buffer.toString('utf-8'));
+  if (parsed.questions.length === 0) {
+    throw new QuizFormatError(parsed.skipped
+      ? `None of the ${parsed.skipped} questions are single-answer multiple choice`
+      : 'No questions found in the file');
+  }
+
+  const baseName = filename.replace(/(\.gift)?\.(zip|gift|txt)$/i, '');
+  const title = parsed.title || baseName || 'Imported quiz';
+  return {
+    quiz: {
+      title,
+      description: `Imported from ${isZip ? 'QTI' : 'GIFT'} with ${parsed.questions.length} questions`,
+      questions: parsed.questions,
+    },
+    skipped: parsed.skipped,
+  };
+}
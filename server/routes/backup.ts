@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { ArchiveFormatError, createLibraryBackup, parseArchive } from '../lib/backup.js';
+import { contentResources } from './content.js';
+import type { LibraryImportMode, PluginState } from '../../src/types/api.js';
+import type { RouteContext } from '../types.js';
+
+const IMPORT_MODES: LibraryImportMode[] = ['merge', 'replace'];
+
+/**
+ * Library backup and restore. Plugin state lives in the browser, so the client
+ * sends it along with the export request and applies what an import hands back.
+ */
+export function createBackupRouter({ db, requireAuth, upload }: RouteContext) {
+  const router = Router();
+  const backup = createLibraryBackup(db, Object.values(contentResources(db)));
+
+  router.post('/api/export', requireAuth, async (req, res) => {
+    const plugins = req.body?.plugins;
+    if (plugins != null && (typeof plugins !== 'object' || Array.isArray(plugins))) {
+      return res.status(400).json({ error: 'plugins must be the object from pluginManager.exportState()' });
+    }
+
+    const { archive, error } = await backup.exportLibrary(req.user.id, (plugins as PluginState | undefined) ?? null);
+    if (error || !archive) return res.status(500).json({ error: error?.message });
+    res.attachment(`gvidtech-library-${archive.exportedAt.slice(0, 10)}.json`);
+    res.json(archive);
+  });
+
+  router.post('/api/import', requireAuth, upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+    const mode = (req.body.mode || 'merge') as LibraryImportMode;
+    if (!IMPORT_MODES.includes(mode)) return res.status(400).json({ error: `mode must be one of: ${IMPORT_MODES.join(', ')}` });
+
+    // An archive that can't be restored is refused before anything is written
+    try {
+      const archive = parseArchive(req.file.buffer.toString('utf-8'));
+      const { result, error } = await backup.importLibrary(req.user.id, archive, mode);
+      if (error) return res.status(500).json({ error: error.message });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ArchiveFormatError) return res.status(400).json({ error: error.message });
+      throw error;
+    }
+  });
+
+  return router;
+}
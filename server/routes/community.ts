@@ -0,0 +1,187 @@
+import { Router } from 'express';
+import type { ContentType, SharedItem, ShareRequest } from '../../src/types/api.js';
+import type { StoreRow as Row } from '../storage/index.js';
+import type { RouteContext } from '../types.js';
+
+// Review schedules belong to the original owner
+function withoutSchedule(items: unknown) {
+  if (!Array.isArray(items)) return items;
+  return items.map(item => {
+    const cleanItem = { ...item };
+    delete cleanItem.schedule;
+    return cleanItem;
+  });
+}
+
+/**
+ * A copy of someone else's content row for `userId`, with a new id and every
+ * result, progress field, course link and review schedule reset.
+ */
+export function cloneForUser(original: Row, contentType: ContentType, userId: string): Row {
+  const cloned = { ...original };
+  cloned.id = `${Date.now()}`;
+  cloned.user_id = userId;
+  cloned.created_at = new Date().toISOString();
+
+  // Remove original user's progress, scores, and course links
+  delete cloned.updated_at;
+  delete cloned.course_id;
+  delete cloned.step_id;
+  delete cloned.original_prompt;
+  delete cloned.original_materials;
+
+  // Reset result/progress fields to defaults
+  if ('progress' in cloned) cloned.progress = 0;
+  if ('completed' in cloned) cloned.completed = false;
+  if ('score' in cloned) cloned.score = null;
+  if ('best_score' in cloned) cloned.best_score = null;
+  if ('best_time' in cloned) cloned.best_time = null;
+  if ('times_taken' in cloned) cloned.times_taken = 0;
+  if ('times_played' in cloned) cloned.times_played = 0;
+
+  // For courses, reset step completion states inside JSONB
+  if (contentType === 'course' && Array.isArray(cloned.steps)) {
+    cloned.steps = cloned.steps.map((step: Row) => {
+      const cleanStep = { ...step };
+      if (Array.isArray(cleanStep.tasks)) {
+        cleanStep.tasks = cleanStep.tasks.map((t: Row) => ({ ...t, completed: false }));
+      }
+      delete cleanStep.testResults;
+      delete cleanStep.testScore;
+      return cleanStep;
+    });
+  }
+
+  // For quizzes, reset user answers inside questions JSONB
+  if (contentType === 'quiz' && Array.isArray(cloned.questions)) {
+    cloned.questions = cloned.questions.map((q: Row) => {
+      const cleanQ = { ...q };
+      delete cleanQ.userAnswer;
+      delete cleanQ.selectedAnswer;
+      delete cleanQ.isCorrect;
+      delete cleanQ.schedule;
+      return cleanQ;
+    });
+  }
+
+  if ('flashcards' in cloned) cloned.flashcards = withoutSchedule(cloned.flashcards);
+  if (contentType === 'course' && Array.isArray(cloned.steps)) {
+    cloned.steps = cloned.steps.map((step: Row) => {
+      const test = step.test as Row | undefined;
+      return test ? { ...step, test: { ...test, questions: withoutSchedule(test.questions) } } : step;
+    });
+  }
+
+  return cloned;
+}
+
+export function createCommunityRouter({ db, requireAuth }: RouteContext) {
+  const router = Router();
+
+  // Recalculate like count from source of truth
+  async function refreshLikeCount(sharedContentId: string) {
+    const { count } = await db.likes.count(sharedContentId);
+    await db.sharedContent.setLikeCount(sharedContentId, count || 0);
+    return count || 0;
+  }
+
+  router.get('/api/community', requireAuth, async (req, res) => {
+    const { type, sort, q } = req.query as Record<string, string | undefined>;
+    const userId = req.user.id;
+
+    const { data, error } = await db.sharedContent.listPublic({
+      type: type && type !== 'all' ? type : undefined,
+      q,
+      sort,
+      limit: 50,
+    });
+    if (error) return res.status(500).json({ error: error.message });
+    const items = data || [];
+
+    // Fetch author names separately
+    const authorIds = [...new Set(items.map(d => d.author_id))];
+    let authorMap: Record<string, string> = {};
+    if (authorIds.length > 0) {
+      const { data: profiles } = await db.profiles.displayNames(authorIds);
+      authorMap = Object.fromEntries((profiles || []).map(p => [p.id, p.display_name]));
+    }
+
+    // Check which items current user has liked
+    const itemIds = items.map(d => d.id);
+    let userLikes = new Set<string>();
+    if (itemIds.length > 0) {
+      const { data: likes } = await db.likes.likedBy(userId, itemIds);
+      userLikes = new Set((likes || []).map(l => l.shared_content_id));
+    }
+
+    const body: SharedItem[] = items.map(item => ({
+      id: item.id,
+      contentType: item.content_type,
+      contentId: item.content_id,
+      title: item.title,
+      description: item.description || '',
+      coverImage: item.cover_image ?? undefined,
+      authorName: authorMap[item.author_id] || 'Anonymous',
+      authorId: item.author_id,
+      likes: item.likes_count || 0,
+      hasLiked: userLikes.has(item.id),
+      createdAt: item.created_at,
+      meta: item.meta || {},
+    }));
+    res.json(body);
+  });
+
+  router.post('/api/community/share', requireAuth, async (req, res) => {
+    const { contentType, contentId, title, description, coverImage, meta } = req.body as ShareRequest;
+
+    const { data, error } = await db.sharedContent.create({
+      author_id: req.user.id,
+      content_type: contentType,
+      content_id: contentId,
+      title,
+      description: description || '',
+      cover_image: coverImage,
+      meta: meta || {},
+      is_public: true,
+    });
+
+    if (error) return res.status(500).json({ error: error.message });
+    res.json(data);
+  });
+
+  router.post('/api/community/:id/like', requireAuth, async (req, res) => {
+    // Silently ignore if already liked (idempotent)
+    const { error: likeError } = await db.likes.add(req.user.id, req.params.id);
+    if (likeError) return res.status(500).json({ error: likeError.message });
+
+    res.json({ success: true, likes: await refreshLikeCount(req.params.id) });
+  });
+
+  router.delete('/api/community/:id/like', requireAuth, async (req, res) => {
+    const { error } = await db.likes.remove(req.user.id, req.params.id);
+    if (error) return res.status(500).json({ error: error.message });
+
+    res.json({ success: true, likes: await refreshLikeCount(req.params.id) });
+  });
+
+  router.get('/api/community/:id/clone', requireAuth, async (req, res) => {
+    const { data: shared, error } = await db.sharedContent.get(req.params.id);
+    if (error || !shared) return res.status(404).json({ error: 'Content not found' });
+
+    // Get the original content based on type and clone it for this user
+    const contentType = shared.content_type;
+    const repository = db.content[contentType];
+    if (!repository) return res.status(400).json({ error: 'Invalid content type' });
+
+    const { data: original } = await repository.getById(shared.content_id);
+    if (!original) return res.status(404).json({ error: 'Original content not found' });
+
+    const cloned = cloneForUser(original, contentType, req.user.id);
+    const { error: cloneError } = await repository.create(req.user.id, cloned);
+    if (cloneError) return res.status(500).json({ error: cloneError.message });
+
+    res.json({ success: true, id: cloned.id });
+  });
+
+  return router;
+}
@@ -0,0 +1,470 @@
+import { Router, type Response } from 'express';
+import { AnkiFormatError, parseApkg, buildApkg } from '../anki.js';
+import { QuizFormatError, exportQuiz, importQuiz } from '../quizFormats.js';
+import type {
+  Course,
+  CrosswordGame,
+  FillBlankGame,
+  FlashcardDeck,
+  MatchingGame,
+  StandaloneQuiz,
+  WordScrambleGame,
+} from '../../src/types/roadmap.js';
+import type { ContentType } from '../../src/types/api.js';
+import type {
+  CourseRow,
+  CrosswordGameRow,
+  FillBlankGameRow,
+  FlashcardDeckRow,
+  MatchingGameRow,
+  OwnedRow,
+  QuizRow,
+  Repositories,
+  Middleware,
+  RouteContext,
+  WordScrambleGameRow,
+} from '../types.js';
+import type { StoreResult } from '../storage/index.js';
+import type { OwnedContentRepository } from '../storage/repositories.js';
+
+// What the routes below use of a table's repository (see ownedContent in storage/repositories.ts)
+type ContentRepository<Row extends OwnedRow> = Pick<OwnedContentRepository<Row>, 'create' | 'update' | 'remove'> & {
+  list(userId: string): Promise<StoreResult<Row[]>>;
+};
+
+/**
+ * One kind of user-owned content: where it lives, and how rows map to the client
+ * types in src/types/roadmap.ts and back. The mappers are the only place the
+ * column names appear, so a field added on either side fails the type check here.
+ */
+export interface ContentResource<Item extends { id: string }, Row extends OwnedRow> {
+  type: ContentType;
+  path: string;
+  repository: ContentRepository<Row>;
+  // Saved items are echoed back as { success: true, [responseKey]: item }
+  responseKey: string;
+  toItem(row: Row): Item;
+  toInsert(item: Item): Partial<Row>;
+  toUpdate(item: Item): Partial<Row>;
+  // Why a created or updated item can't be saved, sent as a 400; null when it can
+  validate?(item: Item): string | null;
+  // Clean up rows in other tables that belong to a deleted item
+  onRemove?(id: string, userId: string): Promise<{ error: { message: string } | null }>;
+}
+
+/** GET (list, newest first), POST, PUT /:id and DELETE /:id, all scoped to the signed-in user */
+export function mountContentResource<Item extends { id: string }, Row extends OwnedRow>(
+  router: Router,
+  requireAuth: Middleware,
+  resource: ContentResource<Item, Row>
+) {
+  const { path, repository, responseKey } = resource;
+
+  router.get(path, requireAuth, async (req, res) => {
+    const { data, error } = await repository.list(req.user.id);
+    if (error) return res.status(500).json({ error: error.message });
+    // Map DB rows → frontend shape
+    res.json(data.map(row => resource.toItem(row)));
+  });
+
+  router.post(path, requireAuth, async (req, res) => {
+    const item = req.body as Item;
+    const problem = resource.validate?.(item);
+    if (problem) return res.status(400).json({ error: problem });
+    const { error } = await repository.create(req.user.id, { id: item.id, ...resource.toInsert(item) });
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ success: true, [responseKey]: item });
+  });
+
+  router.put(`${path}/:id`, requireAuth, async (req, res) => {
+    const item = req.body as Item;
+    const problem = resource.validate?.(item);
+    if (problem) return res.status(400).json({ error: problem });
+    const { error } = await repository.update(req.params.id, req.user.id, resource.toUpdate(item));
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ success: true, [responseKey]: item });
+  });
+
+  router.delete(`${path}/:id`, requireAuth, async (req, res) => {
+    const { error } = await repository.remove(req.params.id, req.user.id);
+    if (error) return res.status(500).json({ error: error.message });
+    const cleanup = await resource.onRemove?.(req.params.id, req.user.id);
+    if (cleanup?.error) console.error(`Failed to clean up after deleting ${resource.type} ${req.params.id}:`, cleanup.error.message);
+    res.json({ success: true });
+  });
+}
+
+// A share of a quiz's questions: 0 would pass every attempt and anything above 1 none; unset falls back
+const isPassThreshold = (value: unknown) => value == null || (typeof value === 'number' && value > 0 && value <= 1);
+
+export function contentResources(db: Repositories) {
+  const courses: ContentResource<Course, CourseRow> = {
+    type: 'course',
+    path: '/api/roadmaps',
+    repository: db.courses,
+    responseKey: 'roadmap',
+    toItem: r => ({
+      id: r.id,
+      title: r.title,
+      description: r.description ?? '',
+      steps: r.steps || [],
+      totalSteps: (r.steps || []).length,
+      flashcards: r.flashcards || [],
+      coverImage: r.image_url ?? undefined,
+      createdAt: r.created_at,
+      progress: r.progress || 0,
+      originalPrompt: r.original_prompt ?? undefined,
+      originalMaterials: r.original_materials ?? undefined,
+      passThreshold: r.pass_threshold ?? undefined,
+    }),
+    toInsert: roadmap => ({
+      title: roadmap.title,
+      description: roadmap.description,
+      steps: roadmap.steps || [],
+      flashcards: roadmap.flashcards || [],
+      image_url: roadmap.coverImage || null,
+      progress: roadmap.progress || 0,
+      original_prompt: roadmap.originalPrompt || null,
+      original_materials: roadmap.originalMaterials || null,
+      pass_threshold: roadmap.passThreshold ?? null,
+    }),
+    toUpdate: updated => ({
+      title: updated.title,
+      description: updated.description,
+      steps: updated.steps || [],
+      flashcards: updated.flashcards || [],
+      image_url: updated.coverImage || null,
+      progress: updated.progress || 0,
+      pass_threshold: updated.passThreshold ?? null,
+    }),
+    validate: roadmap => {
+      const steps = Array.isArray(roadmap.steps) ? roadmap.steps : [];
+      return [roadmap.passThreshold, ...steps.map(step => step?.passThreshold)].every(isPassThreshold)
+        ? null
+        : 'Pass thresholds must be more than 0 and at most 1';
+    },
+    onRemove: (id, userId) => db.courseChunks.removeForCourse(id, userId),
+  };
+
+  const flashcardDecks: ContentResource<FlashcardDeck, FlashcardDeckRow> = {
+    type: 'flashcards',
+    path: '/api/flashcard-decks',
+    repository: db.flashcardDecks,
+    responseKey: 'deck',
+    toItem: d => ({
+      id: d.id,
+      title: d.title,
+      description: d.description ?? '',
+      cards: d.flashcards || [],
+      coverImage: d.image_url ?? undefined,
+      createdAt: d.created_at,
+      sourceType: d.course_id ? 'course' : 'standalone',
+      sourceCourseId: d.course_id ?? undefined,
+    }),
+    toInsert: deck => ({
+      title: deck.title,
+      description: deck.description,
+      flashcards: deck.cards || [],
+      course_id: deck.sourceCourseId || null,
+      image_url: deck.coverImage || null,
+    }),
+    toUpdate: deck => ({
+      title: deck.title,
+      description: deck.description,
+      flashcards: deck.cards || [],
+      image_url: deck.coverImage || null,
+    }),
+  };
+
+  const quizzes: ContentResource<StandaloneQuiz, QuizRow> = {
+    type: 'quiz',
+    path: '/api/standalone-quizzes',
+    repository: db.quizzes,
+    responseKey: 'quiz',
+    toItem: q => ({
+      id: q.id,
+      title: q.title,
+      description: q.description || '',
+      questions: q.questions || [],
+      createdAt: q.created_at,
+      isRapid: q.is_rapid || false,
+      timePerQuestion: q.time_per_question ?? undefined,
+      coverImage: q.image_url ?? undefined,
+      completed: q.completed || false,
+      score: q.score ?? undefined,
+      totalQuestions: q.total_questions ?? undefined,
+      bestScore: q.best_score ?? undefined,
+      timesTaken: q.times_taken || 0,
+    }),
+    toInsert: quiz => ({
+      title: quiz.title,
+      description: quiz.description || '',
+      questions: quiz.questions || [],
+      course_id: quiz.sourceCourseId || null,
+      is_rapid: quiz.isRapid || false,
+      time_per_question: quiz.timePerQuestion || null,
+      image_url: quiz.coverImage || null,
+    }),
+    toUpdate: quiz => ({
+      title: quiz.title,
+      questions: quiz.questions || [],
+      completed: quiz.completed || false,
+      score: quiz.score != null ? quiz.score : null,
+      total_questions: quiz.totalQuestions || null,
+      best_score: quiz.bestScore || null,
+      times_taken: quiz.timesTaken || 0,
+    }),
+  };
+
+  const matchingGames: ContentResource<MatchingGame, MatchingGameRow> = {
+    type: 'matching',
+    path: '/api/matching-games',
+    repository: db.matchingGames,
+    responseKey: 'game',
+    toItem: g => ({
+      id: g.id,
+      title: g.title,
+      description: g.description || '',
+      pairs: g.pairs || [],
+      createdAt: g.created_at,
+      coverImage: g.image_url ?? undefined,
+      bestTime: g.best_time ?? undefined,
+      timesPlayed: g.times_played || 0,
+    }),
+    toInsert: game => ({
+      title: game.title,
+      description: game.description || '',
+      pairs: game.pairs || [],
+      course_id: game.sourceCourseId || null,
+      image_url: game.coverImage || null,
+    }),
+    toUpdate: game => ({
+      title: game.title,
+      pairs: game.pairs || [],
+      best_time: game.bestTime || null,
+      times_played: game.timesPlayed || 0,
+    }),
+  };
+
+  const wordScrambleGames: ContentResource<WordScrambleGame, WordScrambleGameRow> = {
+    type: 'word-scramble',
+    path: '/api/word-scramble-games',
+    repository: db.wordScrambleGames,
+    responseKey: 'game',
+    toItem: g => ({
+      id: g.id,
+      title: g.title,
+      description: g.description || '',
+      words: g.words || [],
+      createdAt: g.created_at,
+      coverImage: g.image_url ?? undefined,
+      bestScore: g.best_score ?? undefined,
+      timesPlayed: g.times_played ?? undefined,
+    }),
+    toInsert: game => ({
+      title: game.title,
+      description: game.description || '',
+      words: game.words || [],
+      image_url: game.coverImage || null,
+    }),
+    toUpdate: game => ({
+      title: game.title,
+      words: game.words || [],
+      best_score: game.bestScore || null,
+      times_played: game.timesPlayed || null,
+    }),
+  };
+
+  const fillBlankGames: ContentResource<FillBlankGame, FillBlankGameRow> = {
+    type: 'fill-blank',
+    path: '/api/fill-blank-games',
+    repository: db.fillBlankGames,
+    responseKey: 'game',
+    toItem: g => ({
+      id: g.id,
+      title: g.title,
+      description: g.description || '',
+      sentences: g.sentences || [],
+      createdAt: g.created_at,
+      coverImage: g.image_url ?? undefined,
+      bestScore: g.best_score ?? undefined,
+      bestTime: g.best_time ?? undefined,
+      timesPlayed: g.times_played ?? undefined,
+    }),
+    toInsert: game => ({
+      title: game.title,
+      description: game.description || '',
+      sentences: game.sentences || [],
+      image_url: game.coverImage || null,
+    }),
+    toUpdate: game => ({
+      title: game.title,
+      sentences: game.sentences || [],
+      best_score: game.bestScore || null,
+      best_time: game.bestTime || null,
+      times_played: game.timesPlayed || null,
+    }),
+  };
+
+  const crosswordGames: ContentResource<CrosswordGame, CrosswordGameRow> = {
+    type: 'crossword',
+    path: '/api/crossword-games',
+    repository: db.crosswordGames,
+    responseKey: 'game',
+    toItem: g => ({
+      id: g.id,
+      title: g.title,
+      description: g.description || '',
+      clues: g.clues || [],
+      gridSize: g.grid_size,
+      createdAt: g.created_at,
+      coverImage: g.image_url ?? undefined,
+      bestTime: g.best_time ?? undefined,
+      timesPlayed: g.times_played ?? undefined,
+    }),
+    toInsert: game => ({
+      title: game.title,
+      description: game.description || '',
+      clues: game.clues || [],
+      grid_size: game.gridSize || 15,
+      image_url: game.coverImage || null,
+    }),
+    toUpdate: game => ({
+      title: game.title,
+      clues: game.clues || [],
+      grid_size: game.gridSize || 15,
+      best_time: game.bestTime || null,
+      times_played: game.timesPlayed || 0,
+    }),
+  };
+
+  return { courses, flashcardDecks, quizzes, matchingGames, wordScrambleGames, fillBlankGames, crosswordGames };
+}
+
+// Title-based download name without characters file systems reject
+function downloadName(title: string, fallback: string) {
+  return (title || '').replace(/[\\/:*?"<>|]+/g, '').trim() || fallback;
+}
+
+export function createContentRouter({ db, requireAuth, upload }: RouteContext) {
+  const router = Router();
+
+  for (const resource of Object.values(contentResources(db))) {
+    mountContentResource(router, requireAuth, resource as ContentResource<{ id: string }, OwnedRow>);
+  }
+
+  // --- Rename ---
+  router.patch('/api/content/:type/:id/rename', requireAuth, async (req, res) => {
+    const { type, id } = req.params;
+    const { title } = req.body;
+    if (!title || !title.trim()) return res.status(400).json({ error: 'Title is required' });
+
+    const repository = db.content[type as ContentType];
+    if (!repository) return res.status(400).json({ error: 'Invalid content type' });
+
+    const { error } = await repository.update(id, req.user.id, { title: title.trim() });
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ success: true });
+  });
+
+  // --- Course steps ---
+  router.get('/api/roadmaps/:roadmapId/steps/:stepId', requireAuth, async (req, res) => {
+    const { roadmapId, stepId } = req.params;
+    const { data: roadmap, error } = await db.courses.get(roadmapId, req.user.id);
+    if (error || !roadmap) return res.status(404).json({ error: 'Course not found' });
+    const step = (roadmap.steps || []).find(s => s.id === stepId);
+    if (!step) return res.status(404).json({ error: 'Step not found' });
+    res.json(step);
+  });
+
+  // --- Anki (.apkg) ---
+  // Parse an uploaded .apkg into decks; the client saves them through POST /api/flashcard-decks
+  router.post('/api/flashcard-decks/import/anki', requireAuth, upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+    try {
+      const { decks, skippedMedia } = await parseApkg(req.file.buffer);
+      console.log(`Imported ${decks.length} Anki deck(s) for ${req.user.id}, skipped ${skippedMedia} media reference(s)`);
+      res.json({ decks, skippedMedia });
+    } catch (error) {
+      if (error instanceof AnkiFormatError) return res.status(400).json({ error: error.message });
+      console.error('Anki import error:', error);
+      res.status(500).json({ error: 'Failed to import Anki deck', details: (error as Error).message });
+    }
+  });
+
+  router.get('/api/flashcard-decks/:id/export/anki', requireAuth, async (req, res) => {
+    const { data, error } = await db.flashcardDecks.get(req.params.id, req.user.id);
+    if (error || !data) return res.status(404).json({ error: 'Deck not found' });
+
+    try {
+      const apkg = await buildApkg({
+        id: data.id,
+        title: data.title,
+        description: data.description,
+        cards: data.flashcards || [],
+      });
+      res.attachment(`${downloadName(data.title, 'flashcards')}.apkg`);
+      res.send(apkg);
+    } catch (error) {
+      console.error('Anki export error:', error);
+      res.status(500).json({ error: 'Failed to export Anki deck', details: (error as Error).message });
+    }
+  });
+
+  // --- Quiz interchange (QTI 2.1 / Moodle GIFT) ---
+  async function sendQuizExport(res: Response, quiz: Parameters<typeof exportQuiz>[0], format: string) {
+    try {
+      const file = await exportQuiz(quiz, format);
+      res.attachment(`${downloadName(quiz.title, 'quiz')}.${file.extension}`);
+      res.type(file.contentType);
+      res.send(file.data);
+    } catch (error) {
+      if (error instanceof QuizFormatError) return res.status(400).json({ error: error.message });
+      console.error('Quiz export error:', error);
+      res.status(500).json({ error: 'Failed to export quiz', details: (error as Error).message });
+    }
+  }
+
+  // Parse a QTI package or GIFT file into a quiz draft; the client saves it through POST /api/standalone-quizzes
+  router.post('/api/standalone-quizzes/import', requireAuth, upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ error: 'No file uploaded' });
+    try {
+      const result = await importQuiz(req.file.buffer, req.file.originalname);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof QuizFormatError) return res.status(400).json({ error: error.message });
+      console.error('Quiz import error:', error);
+      res.status(500).json({ error: 'Failed to import quiz', details: (error as Error).message });
+    }
+  });
+
+  router.get('/api/standalone-quizzes/:id/export/:format', requireAuth, async (req, res) => {
+    const { data, error } = await db.quizzes.get(req.params.id, req.user.id);
+    if (error || !data) return res.status(404).json({ error: 'Quiz not found' });
+
+    await sendQuizExport(res, {
+      id: data.id,
+      title: data.title,
+      description: data.description || '',
+      questions: data.questions || [],
+      timePerQuestion: data.is_rapid ? data.time_per_question ?? undefined : undefined,
+    }, req.params.format);
+  });
+
+  router.get('/api/roadmaps/:roadmapId/steps/:stepId/test/export/:format', requireAuth, async (req, res) => {
+    const { roadmapId, stepId } = req.params;
+    const { data: roadmap, error } = await db.courses.get(roadmapId, req.user.id, ['title', 'steps']);
+    if (error || !roadmap) return res.status(404).json({ error: 'Course not found' });
+    const step = (roadmap.steps || []).find(s => s.id === stepId);
+    if (!step?.test?.questions?.length) return res.status(404).json({ error: 'Step test not found' });
+
+    await sendQuizExport(res, {
+      id: `${roadmapId}-${step.id}`,
+      title: `${roadmap.title} - ${step.title}`,
+      description: step.description || '',
+      questions: step.test.questions,
+    }, req.params.format);
+  });
+
+  return router;
+}
@@ -0,0 +1,894 @@
+import { randomUUID } from 'crypto';
+import { Router } from 'express';
+import {
+  roadmapSchema,
+  stepDetailsSchema,
+  outlineStepSchema,
+  stepTestSchema,
+  materialSchema,
+  quizQuestionSchema,
+  quizSchema,
+  flashcardDeckSchema,
+  courseFlashcardsSchema,
+  stepFlashcardsSchema,
+  matchingGameSchema,
+  matchingPairsSchema,
+  wordScrambleSchema,
+  fillBlankSchema,
+  crosswordWordsSchema,
+} from '../schemas.js';
+import { createGeneration, generationErrorBody, sendGenerationError } from '../lib/generation.js';
+import { chunkUploads, processFilesForGemini, readTermList, uploadedFiles, type ContentPart, type UploadedFile } from '../lib/files.js';
+import { formatChunks, outlineDigest, selectRelevantChunks, type DocumentChunk } from '../lib/chunks.js';
+import { createSourceLibrary } from '../lib/sources.js';
+import { verifyCitations } from '../lib/citations.js';
+import { CROSSWORD_MIN_WORDS, layoutCrossword } from '../lib/crossword.js';
+import { COVER_GRADIENT, findCoverImage } from '../lib/coverImage.js';
+import type { Course, CourseStep, LearningMaterial, QuizQuestion } from '../../src/types/roadmap.js';
+import type { RouteContext } from '../types.js';
+
+// Uploads longer than this are outlined from a digest of their chunks instead of being sent whole
+const INLINE_SOURCE_CHARS = 60000;
+const OUTLINE_DIGEST_CHARS = 40000;
+// Source excerpts sent with one step's request, and with a request covering the whole course
+const STEP_SOURCE_CHARS = 12000;
+const COURSE_SOURCE_CHARS = 24000;
+// The matching board shows every pair at once
+const MATCHING_MAX_PAIRS = 16;
+
+// What the user said was wrong with an item they regenerate, e.g. "too easy"
+const FEEDBACK_MAX_CHARS = 500;
+const feedbackLine = (feedback: unknown) => {
+  const text = typeof feedback === 'string' ? feedback.trim().slice(0, FEEDBACK_MAX_CHARS) : '';
+  return text ? `The learner's feedback on it, which the replacement must address: "${text}"` : 'Write a better replacement covering the same ground.';
+};
+
+// Added to prompts that carry source excerpts; verifyCitations drops any quote not in the stored text
+const citationRequest = (items: string) => `For ${items} based on the source excerpts, add "citations": [{ "source": "file name from the excerpt label", "page": <page number from the label, if it has one>, "quote": "a short phrase copied word for word from the excerpt" }]. Cite only what the excerpts actually say; leave citations out rather than paraphrase or guess.`;
+
+export function createGenerationRouter({ db, getModel, env, requireAuth, checkRateLimit, recordGeneration, upload, jobs }: RouteContext) {
+  const router = Router();
+  const { generateValidated } = createGeneration(getModel);
+  const sourceLibrary = createSourceLibrary(db);
+
+  // ============ COURSE SOURCES ============
+  // Uploads for a new course: the parts for the outline request, plus the chunks to store with the course
+  async function readCourseSources(files: UploadedFile[]) {
+    const chunks = await chunkUploads(files);
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.content.length, 0);
+    if (totalChars <= INLINE_SOURCE_CHARS) return { ...(await processFilesForGemini(files)), chunks };
+
+    // Too long for one prompt: outline chunked documents from their headings and opening lines
+    const chunked = new Map<string, number>();
+    for (const chunk of chunks) chunked.set(chunk.source, (chunked.get(chunk.source) || 0) + 1);
+    const { parts, descriptions } = await processFilesForGemini(files.filter(file => !chunked.has(file.originalname)));
+    return {
+      parts: [
+        ...parts,
+        { text: `\n\n--- Outline of the uploaded documents (${chunks.length} sections) ---\n${outlineDigest(chunks, OUTLINE_DIGEST_CHARS)}` },
+      ],
+      descriptions: [...descriptions, ...[...chunked].map(([name, count]) => `[${name}] split into ${count} sections`)],
+      chunks,
+    };
+  }
+
+  /**
+   * Store the chunks under the id the client then saves the course with: a fresh one,
+   * or a job's own id, so a retried job writes over what its last attempt stored.
+   * Sources of earlier generations that were never saved are cleared on the way.
+   */
+  async function saveCourseSources(userId: string, chunks: DocumentChunk[], courseId: string = randomUUID()) {
+    await clearUnsavedSources(userId);
+    if (chunks.length === 0) return undefined;
+    const { error } = await sourceLibrary.add(userId, courseId, chunks);
+    if (error) {
+      console.error('Failed to store course sources:', error.message);
+      return undefined;
+    }
+    return courseId;
+  }
+
+  async function clearUnsavedSources(userId: string) {
+    // Jobs still in the tray can be opened, and their courses saved, later
+    const { data: userJobs, error: jobsError } = await db.jobs.list(userId);
+    if (jobsError) return console.error('Failed to clear unsaved course sources:', jobsError.message);
+    const { error } = await sourceLibrary.removeUnclaimed(userId, userJobs.map(job => job.id));
+    if (error) console.error('Failed to clear unsaved course sources:', error.message);
+  }
+
+  // Excerpts for one step, ready to paste into a prompt ('' when nothing matches)
+  const stepSources = (chunks: DocumentChunk[], step: Pick<CourseStep, 'title' | 'description'>) =>
+    formatChunks(selectRelevantChunks(chunks, `${step.title} ${step.description || ''}`, STEP_SOURCE_CHARS));
+
+  // The best excerpts for each step, sharing one budget across the course
+  function courseSources(chunks: DocumentChunk[], steps: Pick<CourseStep, 'title' | 'description'>[]) {
+    if (chunks.length === 0 || steps.length === 0) return '';
+    const budget = Math.floor(COURSE_SOURCE_CHARS / steps.length);
+    const selected = new Set(steps.flatMap(step => selectRelevantChunks(chunks, `${step.title} ${step.description || ''}`, budget)));
+    return formatChunks(chunks.filter(chunk => selected.has(chunk)));
+  }
+
+  // ============ GENERATE ROADMAP ============
+  async function generateCourseOutline(prompt: string, fileParts: ContentPart[]) {
+    const systemPrompt = `You are an expert educational course designer. Create a learning roadmap STRUCTURE based on the provided material/topic.
+
+  IMPORTANT: Generate the roadmap OUTLINE only. Detailed tasks and materials for each step will be generated separately when the user opens each step.
+
+  Return this exact JSON structure:
+
+  {
+    "roadmap": {
+      "title": "Course title",
+      "description": "What this course teaches",
+      "difficulty": "beginner" | "intermediate" | "advanced",
+      "totalSteps": <number>,
+      "steps": [
+        {
+          "id": "step-1",
+          "stepNumber": 1,
+          "title": "Step title - be specific and descriptive",
+          "description": "Detailed description of what this step covers, learning objectives, and key concepts (3-5 sentences minimum)",
+          "estimatedTime": "e.g., 45 mins or 1.5 hours",
+          "prerequisites": ["ids of the earlier steps this one builds on, e.g. step-1"],
+          "tasks": [],
+          "materials": [],
+          "completed": false,
+          "detailsLoaded": false,
+          "unlocked": false
+        }
+      ]
+    }
+  }
+
+  CRITICAL Guidelines:
+  1. The number of steps MUST be proportional to the material provided:
+     - Short topic/little material: 3-5 steps
+     - Medium topic/moderate material: 6-10 steps
+     - Large topic/extensive material: 10-20 steps
+     - Very comprehensive material (textbook, long PDF): 15-30 steps
+  2. Each step description must be detailed (3-5 sentences) explaining what will be learned
+  3. Determine the difficulty level based on the material complexity (beginner/intermediate/advanced)
+  4. Make step titles specific and descriptive (not generic like "Introduction")
+  5. Set "unlocked": true ONLY for the first step
+  6. Ensure logical progression from fundamentals to advanced concepts
+  7. List in "prerequisites" only the earlier steps a step really needs. Steps that can be studied in either order should share prerequisites instead of depending on each other, so the course branches; the first step has none
+
+  Return ONLY valid JSON, no markdown or extra text.`;
+
+    const userContent = `
+  ${prompt ? `User's learning goal: ${prompt}` : ''}
+  ${fileParts.length > 0 ? 'Analyze the uploaded files/images and use their content to create the learning roadmap.' : ''}
+
+  Please create a comprehensive learning roadmap.`;
+
+    const model = getModel('generate-roadmap');
+    return generateValidated(model, [
+      { text: systemPrompt },
+      { text: userContent },
+      ...fileParts,
+    ], roadmapSchema, `Course outline for: ${prompt}`);
+  }
+
+  // Tasks and materials for step 1, so a new course is usable as soon as it opens
+  async function generateFirstStepDetails(roadmap: Pick<Course, 'title' | 'steps'>, prompt: string, chunks: DocumentChunk[]) {
+    const firstStep = roadmap.steps[0];
+    const stepSystemPrompt = `You are an expert educational content curator. Generate comprehensive learning content for step 1 of the course "${roadmap.title}".
+  Step: "${firstStep.title}" — ${firstStep.description}
+
+  Return JSON: {
+    "tasks": [
+      { "id": "task-1-1", "title": "...", "description": "Detailed description of what to do (2-3 sentences)", "completed": false },
+      { "id": "task-1-2", "title": "...", "description": "...", "completed": false },
+      { "id": "task-1-3", "title": "...", "description": "...", "completed": false },
+      { "id": "task-1-4", "title": "...", "description": "...", "completed": false }
+    ],
+    "materials": [
+      { "id": "mat-1-1", "title": "Video: Specific descriptive title", "type": "video", "description": "What this video covers", "youtubeVideoId": "REAL_YOUTUBE_VIDEO_ID", "youtubeTitle": "Exact video title on YouTube" },
+      { "id": "mat-1-2", "title": "Video: Another relevant video", "type": "video", "description": "...", "youtubeVideoId": "ANOTHER_REAL_ID", "youtubeTitle": "..." },
+      { "id": "mat-1-3", "title": "Key Concepts & Theory", "type": "reading", "content": "Comprehensive explanation (300-500 words) covering all key concepts, definitions, formulas, and examples" },
+      { "id": "mat-1-4", "title": "Summary & Key Takeaways", "type": "summary", "content": "Organized bullet points of the most important facts (150-250 words)" },
+      { "id": "mat-1-5", "title": "Practice Exercise", "type": "exercise", "content": "Detailed hands-on exercise with clear instructions and expected outcomes" },
+      { "id": "mat-1-6", "title": "Challenge Problem", "type": "exercise", "content": "A harder problem to test deeper understanding" }
+    ]
+  }
+
+  IMPORTANT for videos: Suggest well-known, popular educational YouTube videos that actually exist for this topic. Use real video IDs from channels like 3Blue1Brown, Khan Academy, CrashCourse, Fireship, CS50, MIT OpenCourseWare, TED-Ed, Numberphile, Veritasium, etc. If you can't recall exact IDs, use a relevant search query as the youtubeVideoId prefixed with "search:" (e.g. "search:linear algebra basics 3blue1brown").
+
+  Create 4-6 tasks (practical, actionable learning activities) and 5-7 materials (mix of videos, readings, summaries, exercises).
+  Return ONLY valid JSON.`;
+    const sources = stepSources(chunks, firstStep);
+
+    const stepModel = getModel('generate-roadmap.first-step');
+    const stepDetails = await generateValidated(stepModel, [
+      { text: stepSystemPrompt },
+      { text: `Generate content for step 1: "${firstStep.title}"${prompt ? `\nGoal: ${prompt}` : ''}${sources ? `\n\nBase the readings and exercises on these source excerpts:\n${sources}\n\n${citationRequest('readings, summaries and exercises')}` : ''}` }
+    ], stepDetailsSchema(1), `Step details for: ${firstStep.title}`);
+
+    return {
+      ...firstStep,
+      tasks: stepDetails.tasks || [],
+      materials: verifyCitations(stepDetails.materials || [], chunks),
+      detailsLoaded: true,
+      unlocked: true
+    };
+  }
+
+  router.post('/api/generate-roadmap', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const { prompt } = req.body;
+
+      const { parts: fileParts, descriptions, chunks } = await readCourseSources(uploadedFiles(req.files));
+      if (descriptions.length) console.log(`[ROADMAP] Files: ${descriptions.join(', ')}`);
+
+      const roadmapData = {
+        ...await generateCourseOutline(prompt, fileParts),
+        originalMaterials: descriptions.length ? descriptions.join('; ') : '',
+        courseId: await saveCourseSources(req.user.id, chunks),
+      };
+
+      // Pre-generate first step details
+      if (roadmapData.roadmap?.steps?.length > 0) {
+        try {
+          roadmapData.roadmap.steps[0] = await generateFirstStepDetails(roadmapData.roadmap, prompt, chunks);
+        } catch (stepError) {
+          console.error('Error pre-generating first step:', stepError);
+        }
+      }
+
+      await recordGeneration(req.user.id, 'course');
+      res.json(roadmapData);
+    } catch (error) {
+      console.error('Error generating roadmap:', error);
+      sendGenerationError(res, error, 'Failed to generate roadmap');
+    }
+  });
+
+  const SSE_KEEP_ALIVE_MS = 15000;
+
+  /**
+   * Streaming variant of /api/generate-roadmap over Server-Sent Events.
+   * Events:
+   * - outline-ready     { roadmap, originalMaterials, courseId? } — the course can be opened from here on;
+   *                     courseId is set when uploads were stored as sources and must be the saved course's id
+   * - step-ready        { step } — step 1 with its tasks and materials
+   * - cover-image-ready same payload as /api/generate-image
+   * - done              {}
+   * - error             same body as a failed /api/generate-roadmap; ends the stream
+   * step-ready and cover-image-ready are generated in parallel and arrive in either order.
+   * If step 1 fails no step-ready is sent; the client loads it lazily as for any other step.
+   */
+  router.post('/api/generate-roadmap/stream', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // stop reverse proxies from buffering the stream
+    });
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    // The outline alone can take a minute; comments keep idle proxies from closing the connection
+    const keepAlive = setInterval(() => {
+      if (!res.writableEnded) res.write(': keep-alive\n\n');
+    }, SSE_KEEP_ALIVE_MS);
+
+    try {
+      const { prompt } = req.body;
+
+      const { parts: fileParts, descriptions, chunks } = await readCourseSources(uploadedFiles(req.files));
+      if (descriptions.length) console.log(`[ROADMAP] Files: ${descriptions.join(', ')}`);
+
+      const roadmapData = {
+        ...await generateCourseOutline(prompt, fileParts),
+        originalMaterials: descriptions.length ? descriptions.join('; ') : '',
+        courseId: await saveCourseSources(req.user.id, chunks),
+      };
+      await recordGeneration(req.user.id, 'course');
+      send('outline-ready', roadmapData);
+
+      await Promise.all([
+        generateFirstStepDetails(roadmapData.roadmap, prompt, chunks)
+          .then(step => send('step-ready', { step }))
+          .catch(stepError => console.error('Error pre-generating first step:', stepError)),
+        findCoverImage(getModel, env.UNSPLASH_ACCESS_KEY, roadmapData.roadmap.title)
+          .then(cover => send('cover-image-ready', cover)),
+      ]);
+      send('done', {});
+    } catch (error) {
+      console.error('Error streaming roadmap:', error);
+      send('error', generationErrorBody(error, 'Failed to generate roadmap'));
+    } finally {
+      clearInterval(keepAlive);
+      res.end();
+    }
+  });
+
+  // ============ STEP DETAILS GENERATION ============
+  router.post('/api/generate-step-details', requireAuth, async (req, res) => {
+    try {
+      const { step, courseId, courseTitle, originalPrompt, originalMaterials } = req.body;
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      const sources = stepSources(chunks, step);
+
+      const systemPrompt = `You are an expert educational content curator. Generate comprehensive learning content for a specific course step.
+
+  Course: "${courseTitle}"
+  Current Step: "${step.title}" (Step ${step.stepNumber})
+  Step Description: ${step.description}
+
+  Return JSON: {
+    "tasks": [
+      { "id": "task-${step.stepNumber}-1", "title": "...", "description": "Detailed description (2-3 sentences)", "completed": false },
+      { "id": "task-${step.stepNumber}-2", "title": "...", "description": "...", "completed": false },
+      { "id": "task-${step.stepNumber}-3", "title": "...", "description": "...", "completed": false },
+      { "id": "task-${step.stepNumber}-4", "title": "...", "description": "...", "completed": false },
+      { "id": "task-${step.stepNumber}-5", "title": "...", "description": "...", "completed": false }
+    ],
+    "materials": [
+      { "id": "mat-${step.stepNumber}-1", "title": "Video: Specific title", "type": "video", "description": "...", "youtubeVideoId": "REAL_VIDEO_ID", "youtubeTitle": "Exact video title" },
+      { "id": "mat-${step.stepNumber}-2", "title": "Video: Another video", "type": "video", "description": "...", "youtubeVideoId": "REAL_ID", "youtubeTitle": "..." },
+      { "id": "mat-${step.stepNumber}-3", "title": "In-Depth Reading", "type": "reading", "content": "Comprehensive explanation (300-500 words) with key concepts, definitions, formulas, examples" },
+      { "id": "mat-${step.stepNumber}-4", "title": "Summary & Key Takeaways", "type": "summary", "content": "Organized bullet points (150-250 words)" },
+      { "id": "mat-${step.stepNumber}-5", "title": "Practice Exercise", "type": "exercise", "content": "Detailed hands-on exercise with step-by-step instructions" },
+      { "id": "mat-${step.stepNumber}-6", "title": "Challenge Problem", "type": "exercise", "content": "A harder problem to test deeper understanding" }
+    ]
+  }
+
+  IMPORTANT for videos: Suggest well-known, popular educational YouTube videos that actually exist. Use real video IDs from channels like 3Blue1Brown, Khan Academy, CrashCourse, Fireship, CS50, MIT OCW, TED-Ed, etc. If you can't recall exact IDs, use a search query prefixed with "search:" (e.g. "search:topic name channel").
+
+  Create 4-6 tasks (practical, actionable learning activities) and 5-7 materials (mix of videos, readings, summaries, exercises).
+  ${sources || originalMaterials ? 'Reference the provided source materials for context and accuracy.' : ''}
+  ${sources ? citationRequest('readings, summaries and exercises') : ''}
+  Return ONLY valid JSON.`;
+
+      const userContent = `Generate content for step ${step.stepNumber}: "${step.title}"
+  ${originalPrompt ? `Original goal: ${originalPrompt}` : ''}
+  ${sources ? `\nSource excerpts:\n${sources}` : originalMaterials ? `\nSource:\n${originalMaterials.substring(0, 2000)}` : ''}`;
+
+      const model = getModel('generate-step-details');
+      const stepDetails = await generateValidated(model, [{ text: systemPrompt }, { text: userContent }], stepDetailsSchema(step.stepNumber), `Step details for: ${step.title}`);
+      res.json({ ...stepDetails, materials: verifyCitations(stepDetails.materials, chunks) });
+    } catch (error) {
+      console.error('Error generating step details:', error);
+      sendGenerationError(res, error, 'Failed to generate step details');
+    }
+  });
+
+  // ============ OUTLINE STEP GENERATION ============
+  // One new step for the outline editor, to go at `position` (0 is before the first step)
+  router.post('/api/generate-step', requireAuth, async (req, res) => {
+    try {
+      const { courseId, courseTitle, courseDescription, steps, position, prompt } = req.body;
+      if (!Array.isArray(steps) || !Number.isInteger(position) || position < 0 || position > steps.length) {
+        return res.status(400).json({ error: 'Missing steps or position' });
+      }
+      const before = steps[position - 1] as Pick<CourseStep, 'title' | 'description'> | undefined;
+      const after = steps[position] as Pick<CourseStep, 'title' | 'description'> | undefined;
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      // Excerpts about the neighbours and the requested topic, where the new step will sit
+      const sources = stepSources(chunks, {
+        title: [before?.title, after?.title, prompt].filter(Boolean).join(' '),
+        description: [before?.description, after?.description].filter(Boolean).join(' '),
+      });
+
+      const systemPrompt = `You are an expert educational course designer. Add one step to an existing course outline.
+
+  Course: "${courseTitle}"
+  ${courseDescription ? `Description: ${courseDescription}` : ''}
+  Current outline:
+  ${steps.map((s: CourseStep, i: number) => `${i + 1}. ${s.title}`).join('\n')}
+
+  The new step goes ${before ? `after "${before.title}"` : 'at the start'}${after ? ` and before "${after.title}"` : ' at the end'}. It should bridge its neighbours without repeating any existing step.
+  ${prompt ? `The learner wants it to cover: ${prompt}` : ''}
+
+  Return JSON: { "step": { "title": "Specific, descriptive title", "description": "What this step covers, learning objectives and key concepts (3-5 sentences)", "estimatedTime": "e.g., 45 mins" } }
+  Return ONLY valid JSON.`;
+
+      const model = getModel('generate-step');
+      const parts = [{ text: systemPrompt }, ...(sources ? [{ text: `Source excerpts:\n${sources}` }] : [])];
+      const { step } = await generateValidated(model, parts, outlineStepSchema, `Step for: ${courseTitle}`);
+      res.json({ step: { title: step.title, description: step.description, estimatedTime: step.estimatedTime } });
+    } catch (error) {
+      console.error('Error generating step:', error);
+      sendGenerationError(res, error, 'Failed to generate step');
+    }
+  });
+
+  // ============ TEST GENERATION ============
+  router.post('/api/generate-test', requireAuth, async (req, res) => {
+    try {
+      const { step, courseId, courseTitle } = req.body;
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      const sources = stepSources(chunks, step);
+
+      const systemPrompt = `You are an expert educational assessment creator. Generate a quiz for course step that matches the material difficulty.
+
+  Course: "${courseTitle}"
+  Step: "${step.title}"
+  ${step.materials?.length > 0 ? `Materials:\n${step.materials.map((m: LearningMaterial) => `- ${m.title}: ${m.content?.substring(0, 500)}`).join('\n')}` : ''}
+  ${sources ? `Source excerpts (questions should be answerable from these):\n${sources}` : ''}
+
+  Return JSON: {
+    "questions": [{ "id": "q1", "question": "...", "options": ["A","B","C","D"], "correctAnswer": 0, "explanation": "Detailed explanation of why this answer is correct", "difficulty": "easy|medium|hard" }]
+  }
+
+  Guidelines:
+  - Number of questions should match material complexity: simple topics 5-8, moderate 10-15, complex 15-25
+  - Distribute difficulty: 30% easy (recall/definition), 40% medium (application/understanding), 30% hard (analysis/synthesis)
+  - Questions must directly test the material content, not general knowledge
+  - Each explanation should teach, not just state the answer
+  - For hard questions, include multi-step reasoning or scenario-based problems
+  ${sources ? `- ${citationRequest('questions')}` : ''}
+  Return ONLY valid JSON.`;
+
+      const model = getModel('generate-test');
+      const testData = await generateValidated(model, systemPrompt, stepTestSchema, `Test for: ${step.title}`);
+
+      res.json({
+        id: `test-${step.id}`,
+        questions: verifyCitations(testData.questions, chunks),
+        completed: false,
+        totalQuestions: testData.questions.length
+      });
+    } catch (error) {
+      console.error('Error generating test:', error);
+      sendGenerationError(res, error, 'Failed to generate test');
+    }
+  });
+
+  // ============ SINGLE ITEM REGENERATION ============
+  // Replaces one material or test question; the client swaps it in, so nothing else in the step changes
+  router.post('/api/regenerate-material', requireAuth, async (req, res) => {
+    try {
+      const { step, courseId, courseTitle, material } = req.body;
+      if (!step || !material?.id) return res.status(400).json({ error: 'Missing step or material' });
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      const sources = stepSources(chunks, step);
+      const others = (step.materials || []).filter((m: LearningMaterial) => m.id !== material.id);
+
+      const systemPrompt = `You are an expert educational content curator. Rewrite one learning material of a course step.
+
+  Course: "${courseTitle}"
+  Step: "${step.title}" (Step ${step.stepNumber})
+  Step Description: ${step.description}
+  ${others.length > 0 ? `The step's other materials, which the new one should not repeat:\n${others.map((m: LearningMaterial) => `- [${m.type}] ${m.title}`).join('\n')}` : ''}
+
+  Material to replace:
+  ${JSON.stringify({ title: material.title, type: material.type, description: material.description, content: material.content, youtubeVideoId: material.youtubeVideoId })}
+  ${feedbackLine(req.body.feedback)}
+
+  Keep the type "${material.type}" unless the feedback asks for something else. Readings are 300-500 words, summaries 150-250 words of organized bullet points, exercises step-by-step instructions. Videos need a real "youtubeVideoId" and "youtubeTitle", or "search:topic name channel" as the id.
+  Return JSON: { "material": { "title": "...", "type": "reading|video|exercise|summary|reference", "description": "...", "content": "..." } }
+  ${sources ? citationRequest('the material') : ''}
+  Return ONLY valid JSON.`;
+
+      const model = getModel('regenerate-material');
+      const parts = [{ text: systemPrompt }, ...(sources ? [{ text: `Source excerpts:\n${sources}` }] : [])];
+      const data = await generateValidated(model, parts, materialSchema, `Material for: ${step.title}`);
+      const [regenerated] = verifyCitations([data.material], chunks);
+      res.json({ material: { ...regenerated, id: material.id } });
+    } catch (error) {
+      console.error('Error regenerating material:', error);
+      sendGenerationError(res, error, 'Failed to regenerate material');
+    }
+  });
+
+  router.post('/api/regenerate-question', requireAuth, async (req, res) => {
+    try {
+      const { step, courseId, courseTitle, question } = req.body;
+      if (!step || !question?.id) return res.status(400).json({ error: 'Missing step or question' });
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      const sources = stepSources(chunks, step);
+      const others = (step.test?.questions || []).filter((q: QuizQuestion) => q.id !== question.id);
+
+      const systemPrompt = `You are an expert educational assessment creator. Write one replacement question for a course step's quiz.
+
+  Course: "${courseTitle}"
+  Step: "${step.title}"
+  ${step.materials?.length > 0 ? `Materials:\n${step.materials.map((m: LearningMaterial) => `- ${m.title}: ${m.content?.substring(0, 500)}`).join('\n')}` : ''}
+  ${sources ? `Source excerpts (the question should be answerable from these):\n${sources}` : ''}
+  ${others.length > 0 ? `The quiz's other questions, which the new one should not repeat:\n${others.map((q: QuizQuestion) => `- ${q.question}`).join('\n')}` : ''}
+
+  Question to replace:
+  ${JSON.stringify({ question: question.question, options: question.options, correctAnswer: question.correctAnswer, explanation: question.explanation, difficulty: question.difficulty })}
+  ${feedbackLine(req.body.feedback)}
+
+  Return JSON: { "question": { "question": "...", "options": ["A","B","C","D"], "correctAnswer": 0, "explanation": "Detailed explanation of why this answer is correct", "difficulty": "easy|medium|hard" } }
+  The question must test the material content, and the explanation should teach, not just state the answer.
+  ${sources ? citationRequest('the question') : ''}
+  Return ONLY valid JSON.`;
+
+      const model = getModel('regenerate-question');
+      const data = await generateValidated(model, systemPrompt, quizQuestionSchema, `Question for: ${step.title}`);
+      // A new question starts outside the review queue, so the old one's schedule is not carried over
+      const [regenerated] = verifyCitations([data.question], chunks);
+      res.json({ question: { ...regenerated, id: question.id } });
+    } catch (error) {
+      console.error('Error regenerating question:', error);
+      sendGenerationError(res, error, 'Failed to regenerate question');
+    }
+  });
+
+  // ============ IMAGE GENERATION ============
+  router.post('/api/generate-image', requireAuth, async (req, res) => {
+    try {
+      res.json(await findCoverImage(getModel, env.UNSPLASH_ACCESS_KEY, req.body.prompt));
+    } catch {
+      res.json({ imageUrl: null, gradient: COVER_GRADIENT });
+    }
+  });
+
+  // ============ SPREADSHEET IMPORTS ============
+  // A two-column spreadsheet is already a term/definition list, so its rows are used as they are
+  type TermList = NonNullable<Awaited<ReturnType<typeof readTermList>>>;
+
+  function termListInfo(prompt: string, files: UploadedFile[]) {
+    return {
+      title: prompt.trim() || files[0].originalname.replace(/\.[^.]+$/, ''),
+      description: `Imported from ${files.map(file => file.originalname).join(', ')}`,
+    };
+  }
+
+  const termListDeck = (prompt: string, files: UploadedFile[], terms: TermList) => ({
+    ...termListInfo(prompt, files),
+    cards: terms.map(({ term, definition }, index) => ({ id: `card-${index + 1}`, front: term, back: definition, mastered: false })),
+  });
+
+  // Repeated terms or definitions would make the board ambiguous, so only the first of each is kept
+  function termListGame(prompt: string, files: UploadedFile[], terms: TermList) {
+    const seen = new Set<string>();
+    const pairs = terms.filter(({ term, definition }) => {
+      const keys = [`q:${term.toLowerCase()}`, `a:${definition.toLowerCase()}`];
+      if (keys.some(key => seen.has(key))) return false;
+      keys.forEach(key => seen.add(key));
+      return true;
+    }).slice(0, MATCHING_MAX_PAIRS);
+    return {
+      ...termListInfo(prompt, files),
+      pairs: pairs.map(({ term, definition }, index) => ({ id: `pair-${index + 1}`, question: term, answer: definition })),
+    };
+  }
+
+  // ============ FLASHCARD GENERATION ============
+  async function generateFlashcardDeck(prompt: string, fileParts: ContentPart[]) {
+    const model = getModel('generate-flashcards');
+    return generateValidated(model, [
+      { text: `Generate flashcards with difficulty matched to the material complexity. Analyze the material (including any uploaded files/images) and determine the appropriate number of flashcards to comprehensively cover the topic.
+
+  - Light/Introduction material: 10-20 flashcards, focusing on core definitions.
+  - Standard/Intermediate material: 20-40 flashcards, covering detailed concepts and relationships.
+  - Dense/Advanced material: 40-60+ flashcards, ensuring comprehensive coverage of all details, edge cases, and analysis.
+
+  Do not arbitrarily limit to ~20 cards. If the material is dense or lengthy, generate as many cards as needed to cover it fully (up to 60).
+
+  Distribute difficulty: 30% easy, 40% medium, 30% hard.
+
+  Return JSON: { "title": "...", "description": "...", "difficulty": "beginner|intermediate|advanced", "cards": [{ "id": "card-1", "front": "...", "back": "...", "category": "...", "difficulty": "easy|medium|hard", "mastered": false }] }. Return ONLY valid JSON.` },
+      { text: `Create flashcards for: ${prompt || 'the provided materials'}` },
+      ...fileParts,
+    ], flashcardDeckSchema, 'Generate flashcards');
+  }
+
+  router.post('/api/generate-flashcards', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const prompt = req.body?.prompt || '';
+      const files = uploadedFiles(req.files);
+      const terms = await readTermList(files);
+      if (terms) return res.json(termListDeck(prompt, files, terms));
+
+      const { parts: fileParts } = await processFilesForGemini(files);
+
+      const flashcardData = await generateFlashcardDeck(prompt, fileParts);
+      await recordGeneration(req.user.id, 'flashcards');
+      res.json(flashcardData);
+    } catch (error) {
+      console.error('Error generating flashcards:', error);
+      sendGenerationError(res, error, 'Failed to generate flashcards');
+    }
+  });
+
+  // ============ STANDALONE QUIZ GENERATION ============
+  router.post('/api/generate-standalone-quiz', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const prompt = req.body?.prompt || '';
+      const { parts: fileParts } = await processFilesForGemini(uploadedFiles(req.files));
+
+      const model = getModel('generate-standalone-quiz');
+      const quizData = await generateValidated(model, [
+        { text: `Generate quiz questions with difficulty matched to the material complexity. Analyze the material (including any uploaded files/images) and determine difficulty level.
+
+  - Beginner material: 8-12 questions, focus on recall and basic understanding
+  - Intermediate material: 12-20 questions, include application and comparison
+  - Advanced material: 18-30 questions, include analysis, synthesis, and scenario-based problems
+
+  Distribute difficulty: 30% easy, 40% medium, 30% hard.
+
+  Return JSON: { "title": "...", "description": "...", "difficulty": "beginner|intermediate|advanced", "questions": [{ "id": "q1", "question": "...", "options": ["A","B","C","D"], "correctAnswer": 0, "explanation": "Detailed explanation", "difficulty": "easy|medium|hard" }] }. Return ONLY valid JSON.` },
+        { text: `Create quiz about: ${prompt || 'the provided materials'}` },
+        ...fileParts,
+      ], quizSchema, 'Generate quiz');
+      await recordGeneration(req.user.id, 'quiz');
+      res.json(quizData);
+    } catch (error) {
+      console.error('Error generating quiz:', error);
+      sendGenerationError(res, error, 'Failed to generate quiz');
+    }
+  });
+
+  // ============ COURSE FLASHCARD GENERATION ============
+  router.post('/api/generate-course-flashcards', requireAuth, async (req, res) => {
+    try {
+      const { courseId, courseTitle, courseDescription, steps } = req.body;
+      const model = getModel('generate-course-flashcards');
+      const contextModel = getModel('generate-course-flashcards.context');
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      const sources = courseSources(chunks, steps);
+
+      const contextResult = await contextModel.generateContent(
+        `Generate educational content for course "${courseTitle}": ${courseDescription}\nSteps:\n${steps.map((s: CourseStep, i: number) => `${i + 1}. ${s.title}: ${s.description}`).join('\n')}${sources ? `\n\nSource excerpts:\n${sources}` : ''}\n\nReturn JSON: { "stepContent": [{ "stepTitle": "...", "content": "..." }] }`,
+        { json: true }
+      );
+      const contextText = contextResult.text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      let secretContext = '';
+      try { secretContext = JSON.parse(contextText).stepContent?.map((s: { stepTitle: string; content: string }) => `## ${s.stepTitle}\n${s.content}`).join('\n\n') || ''; } catch { secretContext = contextText; }
+
+      const flashcardData = await generateValidated(
+        model,
+        `Generate flashcards for course "${courseTitle}".\n${secretContext}${sources ? `\n\nSource excerpts:\n${sources}\n\n${citationRequest('cards')}` : ''}\n\nReturn JSON: { "cards": [{ "id": "card-1", "front": "...", "back": "...", "category": "...", "difficulty": "easy|medium|hard", "mastered": false }] }. Return ONLY valid JSON.`,
+        courseFlashcardsSchema,
+        `Flashcards for: ${courseTitle}`
+      );
+      res.json({ ...flashcardData, cards: verifyCitations(flashcardData.cards, chunks) });
+    } catch (error) {
+      console.error('Error generating course flashcards:', error);
+      sendGenerationError(res, error, 'Failed to generate flashcards');
+    }
+  });
+
+  // ============ STEP FLASHCARD GENERATION ============
+  router.post('/api/generate-step-flashcards', requireAuth, async (req, res) => {
+    try {
+      const { courseId, stepTitle, stepDescription, materials } = req.body;
+      const model = getModel('generate-step-flashcards');
+      const contextModel = getModel('generate-step-flashcards.context');
+      const materialsContent = materials?.map((m: LearningMaterial) => `${m.title}: ${m.content || m.description || ''}`).join('\n\n') || '';
+      const chunks = await sourceLibrary.load(courseId, req.user.id);
+      const sources = stepSources(chunks, { title: stepTitle, description: stepDescription });
+
+      const contextResult = await contextModel.generateContent(`Write educational content for step "${stepTitle}": ${stepDescription}\nMaterials:\n${materialsContent}${sources ? `\nSource excerpts:\n${sources}` : ''}\nReturn as plain text.`);
+      const secretContext = contextResult.text;
+      // The cards are written from the context above, so the excerpts are repeated for quoting
+      const citing = sources ? `\n\nSource excerpts:\n${sources}\n\n${citationRequest('cards')}` : '';
+
+      const flashcardData = await generateValidated(model, `Generate 10-20 flashcards for step "${stepTitle}".\n${secretContext}${citing}\n\nReturn JSON: { "flashcards": [{ "id": "card-1", "front": "...", "back": "...", "category": "${stepTitle}", "difficulty": "easy|medium|hard", "mastered": false }] }. Return ONLY valid JSON.`, stepFlashcardsSchema, `Flashcards for step: ${stepTitle}`);
+      res.json({ ...flashcardData, flashcards: verifyCitations(flashcardData.flashcards, chunks) });
+    } catch (error) {
+      console.error('Error generating step flashcards:', error);
+      sendGenerationError(res, error, 'Failed to generate flashcards');
+    }
+  });
+
+  // ============ MATCHING GAME GENERATION ============
+  router.post('/api/generate-step-matching-game', requireAuth, async (req, res) => {
+    try {
+      const { courseId, stepTitle, stepDescription, materials } = req.body;
+      const model = getModel('generate-step-matching-game');
+      const contextModel = getModel('generate-step-matching-game.context');
+      const materialsContent = materials?.map((m: LearningMaterial) => `${m.title}: ${m.content || m.description || ''}`).join('\n\n') || '';
+      const sources = stepSources(await sourceLibrary.load(courseId, req.user.id), { title: stepTitle, description: stepDescription });
+
+      const contextResult = await contextModel.generateContent(`Write educational content for step "${stepTitle}": ${stepDescription}\nMaterials:\n${materialsContent}${sources ? `\nSource excerpts:\n${sources}` : ''}\nReturn as plain text.`);
+      const gameData = await generateValidated(model, `Generate 10-12 matching pairs for step "${stepTitle}".\n${contextResult.text}\n\nReturn JSON: { "pairs": [{ "id": "pair-1", "question": "...", "answer": "..." }] }. Return ONLY valid JSON.`, matchingPairsSchema, `Matching game for step: ${stepTitle}`);
+      res.json(gameData);
+    } catch (error) {
+      console.error('Error generating matching game:', error);
+      sendGenerationError(res, error, 'Failed to generate matching game');
+    }
+  });
+
+  router.post('/api/generate-course-matching-game', requireAuth, async (req, res) => {
+    try {
+      const { courseId, courseTitle, courseDescription, steps } = req.body;
+      const model = getModel('generate-course-matching-game');
+      const contextModel = getModel('generate-course-matching-game.context');
+      const sources = courseSources(await sourceLibrary.load(courseId, req.user.id), steps);
+
+      const contextResult = await contextModel.generateContent(`Generate content for course "${courseTitle}": ${courseDescription}\nSteps:\n${steps.map((s: CourseStep, i: number) => `${i + 1}. ${s.title}: ${s.description}`).join('\n')}${sources ? `\nSource excerpts:\n${sources}` : ''}\nReturn JSON: { "stepContent": [{ "stepTitle": "...", "content": "..." }] }`, { json: true });
+      const contextText = contextResult.text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      let secretContext = '';
+      try { secretContext = JSON.parse(contextText).stepContent?.map((s: { stepTitle: string; content: string }) => `## ${s.stepTitle}\n${s.content}`).join('\n\n') || ''; } catch { secretContext = contextText; }
+
+      const gameData = await generateValidated(model, `Generate 12-15 matching pairs for course "${courseTitle}".\n${secretContext}\n\nReturn JSON: { "pairs": [{ "id": "pair-1", "question": "...", "answer": "..." }] }. Return ONLY valid JSON.`, matchingPairsSchema, `Matching game for course: ${courseTitle}`);
+      res.json(gameData);
+    } catch (error) {
+      console.error('Error generating matching game:', error);
+      sendGenerationError(res, error, 'Failed to generate matching game');
+    }
+  });
+
+  router.post('/api/generate-matching-game', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const prompt = req.body?.prompt || '';
+      const files = uploadedFiles(req.files);
+      const terms = await readTermList(files);
+      if (terms) return res.json(termListGame(prompt, files, terms));
+
+      const { parts: fileParts } = await processFilesForGemini(files);
+
+      const model = getModel('generate-matching-game');
+      const gameData = await generateValidated(model, [
+        { text: `Generate matching pairs with count based on material complexity. Analyze the uploaded material (including any images/files).
+
+  - Simple/beginner material: 6-8 pairs
+  - Moderate/intermediate material: 8-12 pairs
+  - Complex/advanced material: 12-16 pairs
+
+  Return JSON: { "title": "...", "description": "...", "difficulty": "beginner|intermediate|advanced", "pairs": [{ "id": "pair-1", "question": "...", "answer": "..." }] }. Return ONLY valid JSON.` },
+        { text: `Create matching game for: ${prompt || 'the provided materials'}` },
+        ...fileParts,
+      ], matchingGameSchema, `Matching game for: ${prompt}`);
+      await recordGeneration(req.user.id, 'matching');
+      res.json(gameData);
+    } catch (error) {
+      console.error('Error generating matching game:', error);
+      sendGenerationError(res, error, 'Failed to generate matching game');
+    }
+  });
+
+  // ============ WORD SCRAMBLE GENERATION ============
+  router.post('/api/generate-word-scramble', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const prompt = req.body?.prompt || '';
+      const { parts: fileParts } = await processFilesForGemini(uploadedFiles(req.files));
+
+      const model = getModel('generate-word-scramble');
+      const gameData = await generateValidated(model, [
+        { text: `Generate a word scramble game with key terms/concepts from the uploaded material. Each word should have a hint/clue.
+
+  Return JSON: { "title": "...", "description": "...", "words": [{ "id": "word-1", "word": "PHOTOSYNTHESIS", "hint": "The process by which plants convert sunlight into energy", "category": "Biology", "difficulty": "medium" }] }
+
+  Guidelines:
+  - Generate 10-20 words based on material complexity
+  - Words should be key terms, concepts, or vocabulary from the topic
+  - Each hint should be educational and help learn the concept
+  - Distribute difficulty: easy (common words), medium (domain terms), hard (complex/technical terms)
+  - Words should be single words or short compound words (no spaces)
+  Return ONLY valid JSON.` },
+        { text: `Create word scramble game for: ${prompt || 'the provided materials'}` },
+        ...fileParts,
+      ], wordScrambleSchema, `Word scramble for: ${prompt}`);
+      await recordGeneration(req.user.id, 'word_scramble');
+      res.json(gameData);
+    } catch (error) {
+      console.error('Error generating word scramble:', error);
+      sendGenerationError(res, error, 'Failed to generate word scramble');
+    }
+  });
+
+  // ============ FILL-IN-THE-BLANK GENERATION ============
+  router.post('/api/generate-fill-blank', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const prompt = req.body?.prompt || '';
+      const { parts: fileParts } = await processFilesForGemini(uploadedFiles(req.files));
+
+      const model = getModel('generate-fill-blank');
+      const gameData = await generateValidated(model, [
+        { text: `Generate a fill-in-the-blank quiz from the provided material or topic.
+
+  Return JSON: {
+    "title": "...",
+    "description": "...",
+    "sentences": [
+      { "id": "s1", "sentence": "The process by which plants convert sunlight into energy is called ___.", "answer": "photosynthesis", "hint": "Uses chlorophyll", "difficulty": "medium" },
+      { "id": "s2", "sentence": "The ___ is the powerhouse of the cell.", "answer": "mitochondria", "hint": "Produces ATP", "difficulty": "easy" }
+    ]
+  }
+
+  RULES:
+  - Generate 10-15 sentences
+  - Each sentence must have exactly ONE blank marked with ___
+  - Answers should be 1-3 words, all lowercase
+  - Include a helpful hint for each sentence
+  - Difficulty: easy, medium, or hard
+  - Sentences should be educational and cover different aspects of the topic
+  - Make the blanks for KEY terms/concepts, not trivial words
+  Return ONLY valid JSON.` },
+        { text: `Create fill-in-the-blank questions for: ${prompt || 'the provided materials'}` },
+        ...fileParts,
+      ], fillBlankSchema, `Fill-blank for: ${prompt}`);
+      await recordGeneration(req.user.id, 'fill_blank');
+      res.json(gameData);
+    } catch (error) {
+      console.error('Error generating fill-blank:', error);
+      sendGenerationError(res, error, 'Failed to generate fill-in-the-blank game');
+    }
+  });
+
+  // ============ CROSSWORD GENERATION ============
+  router.post('/api/generate-crossword', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    try {
+      const prompt = req.body?.prompt || '';
+      const { parts: fileParts } = await processFilesForGemini(uploadedFiles(req.files));
+
+      const model = getModel('generate-crossword');
+      const gameData = await generateValidated(model, [
+        { text: `Generate words and clues for an educational crossword puzzle from the provided material or topic.
+
+  Return JSON: {
+    "title": "...",
+    "description": "...",
+    "words": [
+      { "answer": "photosynthesis", "clue": "Process plants use to turn sunlight into chemical energy" },
+      { "answer": "chlorophyll", "clue": "Green pigment that absorbs light" }
+    ]
+  }
+
+  RULES:
+  - Generate 15-20 words so there are enough to build a connected grid
+  - Answers must be single words of 3-12 letters, letters only (no spaces, digits or hyphens)
+  - Mix long and short answers and prefer common letters so the words can cross
+  - Each clue should be a short, specific definition that does not contain the answer
+  - Cover different aspects of the topic
+  Return ONLY valid JSON.` },
+        { text: `Create a crossword for: ${prompt || 'the provided materials'}` },
+        ...fileParts,
+      ], crosswordWordsSchema(CROSSWORD_MIN_WORDS), `Crossword for: ${prompt}`);
+
+      const { clues, gridSize } = layoutCrossword(gameData.words || []);
+      if (clues.length < CROSSWORD_MIN_WORDS) {
+        throw new Error(`Only ${clues.length} words fit into the grid`);
+      }
+
+      await recordGeneration(req.user.id, 'crossword');
+      res.json({ title: gameData.title, description: gameData.description, clues, gridSize });
+    } catch (error) {
+      console.error('Error generating crossword:', error);
+      sendGenerationError(res, error, 'Failed to generate crossword');
+    }
+  });
+
+  // ============ BACKGROUND JOBS ============
+  // Same work as the routes above, for uploads too large to finish within one request (see routes/jobs.ts)
+  jobs.register('course', {
+    failureMessage: 'Failed to generate roadmap',
+    async run({ jobId, userId, input, files, report }) {
+      await report('reading-files');
+      const { parts: fileParts, descriptions, chunks } = await readCourseSources(files);
+
+      await report('outline');
+      const { roadmap } = await generateCourseOutline(input.prompt, fileParts);
+      const originalMaterials = descriptions.join('; ');
+      const courseId = await saveCourseSources(userId, chunks, jobId);
+      await recordGeneration(userId, 'course');
+
+      await report('first-step', { roadmap, originalMaterials });
+      const [firstStep, coverImage] = await Promise.all([
+        generateFirstStepDetails(roadmap, input.prompt, chunks).catch(stepError => {
+          console.error('Error pre-generating first step:', stepError);
+          return null;
+        }),
+        findCoverImage(getModel, env.UNSPLASH_ACCESS_KEY, roadmap.title),
+      ]);
+      if (firstStep) roadmap.steps[0] = firstStep;
+      return { roadmap, originalMaterials, courseId, coverImage };
+    },
+  });
+
+  jobs.register('flashcards', {
+    failureMessage: 'Failed to generate flashcards',
+    async run({ userId, input, files, report }) {
+      await report('reading-files');
+      const terms = await readTermList(files);
+      if (terms) return { deck: termListDeck(input.prompt, files, terms), coverImage: { imageUrl: null, gradient: COVER_GRADIENT } };
+      const { parts: fileParts } = await processFilesForGemini(files);
+
+      await report('cards');
+      const { title, description, cards } = await generateFlashcardDeck(input.prompt, fileParts);
+      await recordGeneration(userId, 'flashcards');
+      const coverImage = await findCoverImage(getModel, env.UNSPLASH_ACCESS_KEY, title);
+      return { deck: { title, description, cards }, coverImage };
+    },
+  });
+
+  return router;
+}
@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { uploadedFiles } from '../lib/files.js';
+import type { GenerationJob } from '../../src/types/api.js';
+import type { GenerationJobRow, RouteContext } from '../types.js';
+
+const RECENT_JOBS = 20;
+
+export function createJobsRouter({ db, jobs, requireAuth, checkRateLimit, upload }: RouteContext) {
+  const router = Router();
+
+  const toJob = (row: GenerationJobRow): GenerationJob => ({
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    stage: row.stage ?? undefined,
+    prompt: row.input?.prompt || '',
+    fileNames: row.input?.fileNames || [],
+    partial: row.partial ?? undefined,
+    result: row.result ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts || 0,
+    canRetry: jobs.canRetry(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  // Fail jobs whose worker is gone so the client stops polling and can retry
+  async function settle(row: GenerationJobRow): Promise<GenerationJobRow> {
+    if (!jobs.isStale(row)) return row;
+    const error = { error: 'Generation was interrupted', details: 'The server stopped before the job finished' };
+    await db.jobs.update(row.id, { status: 'failed', stage: null, error });
+    return { ...row, status: 'failed', stage: null, error };
+  }
+
+  async function findJob(id: string, userId: string) {
+    const { data, error } = await db.jobs.get(id, userId);
+    if (error || !data) return null;
+    return settle(data);
+  }
+
+  // Start a generation in the background: { kind: 'course' | 'flashcards', prompt } plus optional files
+  router.post('/api/jobs', requireAuth, checkRateLimit, upload.array('files'), async (req, res) => {
+    const { kind, prompt } = req.body || {};
+    if (!jobs.handles(kind)) return res.status(400).json({ error: 'Invalid job kind' });
+
+    const { job, error } = await jobs.submit(req.user.id, kind, prompt || '', uploadedFiles(req.files));
+    if (error || !job) return res.status(500).json({ error: error?.message || 'Failed to start job' });
+    res.status(202).json(toJob(job));
+  });
+
+  router.get('/api/jobs', requireAuth, async (req, res) => {
+    const { data, error } = await db.jobs.list(req.user.id, RECENT_JOBS);
+    if (error) return res.status(500).json({ error: error.message });
+    const rows = await Promise.all(data.map(settle));
+    res.json(rows.map(toJob));
+  });
+
+  router.get('/api/jobs/:id', requireAuth, async (req, res) => {
+    const job = await findJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    res.json(toJob(job));
+  });
+
+  router.post('/api/jobs/:id/retry', requireAuth, checkRateLimit, async (req, res) => {
+    const job = await findJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    if (job.status !== 'failed') return res.status(409).json({ error: 'Only failed jobs can be retried' });
+    if (!jobs.canRetry(job)) {
+      return res.status(409).json({ error: 'The uploaded files for this job are no longer available. Start a new generation.' });
+    }
+
+    const { error } = await jobs.retry(job);
+    if (error) return res.status(500).json({ error: error.message });
+    res.status(202).json(toJob({ ...job, status: 'queued', stage: null, partial: null, result: null, error: null }));
+  });
+
+  // Dismiss a finished job from the tray
+  router.delete('/api/jobs/:id', requireAuth, async (req, res) => {
+    const job = await findJob(req.params.id, req.user.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    if (jobs.isActive(job)) return res.status(409).json({ error: 'Job is still running' });
+
+    const { error } = await db.jobs.remove(job.id, req.user.id);
+    if (error) return res.status(500).json({ error: error.message });
+    jobs.forget(job.id);
+    // A course job stores its sources under the job's id; without a course saved under it they are unused
+    if (job.kind === 'course' && !(await db.courses.get(job.id, req.user.id, ['id'])).data) {
+      const { error: sourcesError } = await db.courseChunks.removeForCourse(job.id, req.user.id);
+      if (sourcesError) console.error(`Failed to remove the sources of job ${job.id}:`, sourcesError.message);
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import type { RouteContext } from '../types.js';
+
+export function createPluginRouter({ getModel, requireAuth }: RouteContext) {
+  const router = Router();
+
+  // AI assist for the plugin code editor
+  router.post('/api/modify-plugin-code', requireAuth, async (req, res) => {
+    try {
+      const { code, prompt } = req.body;
+      if (!code || !prompt) return res.status(400).json({ error: 'Missing code or prompt' });
+
+      const model = getModel('modify-plugin-code');
+      const result = await model.generateContent(
+        `Modify this gvidtech plugin code based on the request: "${prompt}"\n\nCurrent code:\n\`\`\`javascript\n${code}\n\`\`\`\n\nReturn ONLY the complete modified JavaScript code, no markdown.`
+      );
+      let responseText = result.text;
+      responseText = responseText.replace(/```javascript\n?/g, '').replace(/```js\n?/g, '').replace(/```\n?/g, '').trim();
+      res.json({ code: responseText });
+    } catch (error) {
+      console.error('Error modifying plugin code:', error);
+      res.status(500).json({ error: 'Failed to modify plugin code', details: (error as Error).message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { DAILY_GENERATION_LIMIT, todayRange } from '../middleware/rateLimit.js';
+import type { UserProfile } from '../../src/types/api.js';
+import type { RouteContext } from '../types.js';
+
+export function createProfileRouter({ db, requireAuth }: RouteContext) {
+  const router = Router();
+
+  router.get('/api/profile', requireAuth, async (req, res) => {
+    const userId = req.user.id;
+
+    // Get or create profile
+    let { data: profile } = await db.profiles.get(userId);
+
+    if (!profile) {
+      // Auto-create profile with pro tier
+      const { data: newProfile, error: insertError } = await db.profiles.create({
+        id: userId,
+        email: req.user.email,
+        display_name: req.user.email?.split('@')[0] || 'User',
+        subscription_tier: 'pro',
+      });
+
+      if (insertError) return res.status(500).json({ error: insertError.message });
+      profile = newProfile;
+    }
+
+    // Get today's and total generation counts
+    const { count: todayCount } = await db.generations.count(userId, todayRange());
+    const { count: totalCount } = await db.generations.count(userId);
+
+    // Get content stats
+    const [coursesRes, flashcardsRes, quizzesRes, matchingRes, scrambleRes, fillBlankRes, crosswordRes] = await Promise.all([
+      db.courses.count(userId),
+      db.flashcardDecks.count(userId),
+      db.quizzes.count(userId),
+      db.matchingGames.count(userId),
+      db.wordScrambleGames.count(userId),
+      db.fillBlankGames.count(userId),
+      db.crosswordGames.count(userId),
+    ]);
+
+    const body: UserProfile = {
+      id: profile.id,
+      email: profile.email || req.user.email || '',
+      displayName: profile.display_name || '',
+      subscriptionTier: profile.subscription_tier || 'pro',
+      generationsToday: todayCount || 0,
+      generationLimit: DAILY_GENERATION_LIMIT,
+      totalGenerations: totalCount || 0,
+      joinedAt: profile.created_at,
+      stats: {
+        courses: coursesRes.count || 0,
+        flashcardDecks: flashcardsRes.count || 0,
+        quizzes: quizzesRes.count || 0,
+        matchingGames: matchingRes.count || 0,
+        wordScrambleGames: scrambleRes.count || 0,
+        fillBlankGames: fillBlankRes.count || 0,
+        crosswordGames: crosswordRes.count || 0,
+      },
+    };
+    res.json(body);
+  });
+
+  router.put('/api/profile', requireAuth, async (req, res) => {
+    const { displayName } = req.body;
+
+    const { error } = await db.profiles.update(req.user.id, { display_name: displayName });
+
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,190 @@
+import { Router } from 'express';
+import type {
+  CourseStep,
+  Flashcard,
+  FlashcardSchedule,
+  QuizQuestion,
+  ReviewItem,
+  ReviewRating,
+  ReviewSourceType,
+} from '../../src/types/roadmap.js';
+import type { OwnedContentRepository } from '../storage/repositories.js';
+import type { OwnedRow, Repositories, RouteContext } from '../types.js';
+
+const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+const NEW_CARDS_PER_DAY = 20;
+
+type ReviewSource = ReviewItem['source'];
+type Schedulable = { id: string; schedule?: FlashcardSchedule };
+type ReviewColumn = 'flashcards' | 'questions' | 'steps';
+type ReviewRow = OwnedRow & { flashcards?: Flashcard[]; questions?: QuizQuestion[]; steps?: CourseStep[] };
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+function sanitizeSchedule(schedule: unknown): FlashcardSchedule | null {
+  if (!schedule || typeof schedule !== 'object') return null;
+  const { easeFactor, interval, repetitions, dueDate, lastReviewed, lastRating } = schedule as Record<string, unknown>;
+  if (typeof easeFactor !== 'number' || typeof interval !== 'number' || typeof repetitions !== 'number') return null;
+  if (!isDate(dueDate)) return null;
+  return {
+    easeFactor,
+    interval: Math.max(0, interval),
+    repetitions: Math.max(0, Math.floor(repetitions)),
+    dueDate: new Date(dueDate).toISOString(),
+    lastReviewed: isDate(lastReviewed) ? new Date(lastReviewed).toISOString() : new Date().toISOString(),
+    lastRating: REVIEW_RATINGS.includes(lastRating as ReviewRating) ? lastRating as ReviewRating : undefined,
+  };
+}
+
+// Where each review source keeps its schedulable items
+function reviewSources(
+  db: Repositories
+): Record<ReviewSourceType, { repository: OwnedContentRepository<ReviewRow>; column: ReviewColumn }> {
+  return {
+    deck: { repository: db.flashcardDecks, column: 'flashcards' },
+    course: { repository: db.courses, column: 'flashcards' },
+    quiz: { repository: db.quizzes, column: 'questions' },
+    'step-test': { repository: db.courses, column: 'steps' },
+  };
+}
+
+function dueTime(item: Schedulable) {
+  return item.schedule ? Date.parse(item.schedule.dueDate) : 0;
+}
+
+// Take one item from each source in turn so a session never drills a single deck
+function interleave<T>(queues: T[][]): T[] {
+  const result: T[] = [];
+  const remaining = queues.filter(q => q.length > 0).map(q => [...q]);
+  while (remaining.length > 0) {
+    for (let i = 0; i < remaining.length; i++) {
+      result.push(remaining[i].shift()!);
+    }
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      if (remaining[i].length === 0) remaining.splice(i, 1);
+    }
+  }
+  return result;
+}
+
+export function createReviewRouter({ db, requireAuth }: RouteContext) {
+  const router = Router();
+  const sources = reviewSources(db);
+
+  // Patch one item's schedule inside its JSONB array and save the row.
+  // Returns { status, error } on failure or { item } on success.
+  async function saveReviewSchedule(
+    userId: string,
+    source: Pick<ReviewSource, 'type' | 'id' | 'stepId'>,
+    itemId: string,
+    schedule: FlashcardSchedule
+  ): Promise<{ status: number; error: string } | { item: Schedulable }> {
+    const config = sources[source.type];
+    if (!config) return { status: 400, error: 'Invalid review source' };
+
+    const { data: row, error } = await config.repository.get(source.id, userId, [config.column]);
+    if (error || !row) return { status: 404, error: 'Source not found' };
+
+    let updatedItem: Schedulable | null = null;
+    const patchItems = (items: Schedulable[] = []) => items.map(item => {
+      if (item.id !== itemId) return item;
+      updatedItem = { ...item, schedule };
+      return updatedItem;
+    });
+
+    const value = source.type === 'step-test'
+      ? (row.steps || []).map(step => step.id === source.stepId && step.test
+        ? { ...step, test: { ...step.test, questions: patchItems(step.test.questions) } }
+        : step)
+      : patchItems(row[config.column] as Schedulable[] | undefined);
+    if (!updatedItem) return { status: 404, error: 'Item not found' };
+
+    const { error: updateError } = await config.repository.update(source.id, userId, { [config.column]: value });
+    if (updateError) return { status: 500, error: updateError.message };
+    return { item: updatedItem };
+  }
+
+  // Save one card's schedule inside the deck's flashcards JSONB
+  router.post('/api/flashcard-decks/:id/cards/:cardId/review', requireAuth, async (req, res) => {
+    const schedule = sanitizeSchedule(req.body?.schedule);
+    if (!schedule) return res.status(400).json({ error: 'Invalid schedule' });
+
+    const result = await saveReviewSchedule(req.user.id, { type: 'deck', id: req.params.id }, req.params.cardId, schedule);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    res.json({ success: true, card: result.item });
+  });
+
+  // Every due flashcard and missed quiz question across the user's library
+  router.get('/api/review/due', requireAuth, async (req, res) => {
+    try {
+      const userId = req.user.id;
+      const now = Date.now();
+      const requestedNewLimit = parseInt(String(req.query.newLimit));
+      const newLimit = Number.isNaN(requestedNewLimit) ? NEW_CARDS_PER_DAY : Math.max(0, requestedNewLimit);
+
+      const [decksResult, coursesResult, quizzesResult] = await Promise.all([
+        db.flashcardDecks.list(userId, ['id', 'title', 'flashcards']),
+        db.courses.list(userId, ['id', 'title', 'flashcards', 'steps']),
+        db.quizzes.list(userId, ['id', 'title', 'questions']),
+      ]);
+      const failed = decksResult.error || coursesResult.error || quizzesResult.error;
+      if (failed) return res.status(500).json({ error: failed.message });
+
+      let newCardsLeft = newLimit;
+      const toQueue = (items: Schedulable[], kind: ReviewItem['kind'], source: ReviewSource): ReviewItem[] => items
+        .filter(item => {
+          // Unscheduled flashcards are new; unscheduled questions were never missed
+          if (!item.schedule) {
+            if (kind !== 'flashcard' || newCardsLeft <= 0) return false;
+            newCardsLeft--;
+            return true;
+          }
+          return dueTime(item) <= now;
+        })
+        .sort((a, b) => dueTime(a) - dueTime(b))
+        .map(item => ({
+          key: `${source.type}:${source.id}:${source.stepId || ''}:${item.id}`,
+          kind,
+          source,
+          [kind]: item,
+        }));
+
+      const queues: ReviewItem[][] = [];
+      for (const deck of decksResult.data) {
+        queues.push(toQueue(deck.flashcards || [], 'flashcard', { type: 'deck', id: deck.id, title: deck.title }));
+      }
+      for (const course of coursesResult.data) {
+        queues.push(toQueue(course.flashcards || [], 'flashcard', { type: 'course', id: course.id, title: course.title }));
+        for (const step of course.steps || []) {
+          if (!step.test?.questions?.length) continue;
+          queues.push(toQueue(step.test.questions, 'question', {
+            type: 'step-test', id: course.id, stepId: step.id, title: `${course.title} · ${step.title}`,
+          }));
+        }
+      }
+      for (const quiz of quizzesResult.data) {
+        queues.push(toQueue(quiz.questions || [], 'question', { type: 'quiz', id: quiz.id, title: quiz.title }));
+      }
+
+      res.json(interleave(queues));
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      res.status(500).json({ error: 'Failed to load review queue', details: (error as Error).message });
+    }
+  });
+
+  // Write one review result back to the deck, course or quiz the item came from
+  router.post('/api/review/result', requireAuth, async (req, res) => {
+    const { source, itemId } = req.body || {};
+    const schedule = sanitizeSchedule(req.body?.schedule);
+    if (!schedule) return res.status(400).json({ error: 'Invalid schedule' });
+    if (!source?.type || !source?.id || !itemId) return res.status(400).json({ error: 'source and itemId are required' });
+    if (source.type === 'step-test' && !source.stepId) return res.status(400).json({ error: 'stepId is required for step tests' });
+
+    const result = await saveReviewSchedule(req.user.id, source, itemId, schedule);
+    if ('error' in result) return res.status(result.status).json({ error: result.error });
+    res.json({ success: true, item: result.item });
+  });
+
+  return router;
+}
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { chunkUploads, uploadedFiles } from '../lib/files.js';
+import { createSourceLibrary } from '../lib/sources.js';
+import type { RouteContext } from '../types.js';
+
+/**
+ * Per-course source library. Sources are added when a course is generated from
+ * uploads (see routes/generation.ts) and can be browsed, added, copied between
+ * courses and removed here. Step generations read them through the course id.
+ */
+export function createSourcesRouter({ db, requireAuth, upload }: RouteContext) {
+  const router = Router();
+  const library = createSourceLibrary(db);
+
+  async function courseExists(id: string, userId: string) {
+    const { data } = await db.courses.get(id, userId, ['id']);
+    return Boolean(data);
+  }
+
+  // Every source across the user's courses, for reuse in another course
+  router.get('/api/sources', requireAuth, async (req, res) => {
+    const [{ sources, error }, courses] = await Promise.all([
+      library.list(req.user.id),
+      db.courses.list(req.user.id, ['id', 'title']),
+    ]);
+    if (error) return res.status(500).json({ error: error.message });
+    if (courses.error) return res.status(500).json({ error: courses.error.message });
+
+    // Sources of courses generated but not saved (yet) are not listed
+    const titles = new Map(courses.data.map(course => [course.id, course.title]));
+    res.json(sources
+      .filter(source => titles.has(source.courseId))
+      .map(source => ({ ...source, courseTitle: titles.get(source.courseId) })));
+  });
+
+  router.get('/api/roadmaps/:id/sources', requireAuth, async (req, res) => {
+    const { sources, error } = await library.list(req.user.id, req.params.id);
+    if (error) return res.status(500).json({ error: error.message });
+    res.json(sources);
+  });
+
+  router.get('/api/roadmaps/:id/sources/:name', requireAuth, async (req, res) => {
+    const sections = await library.read(req.params.id, req.user.id, req.params.name);
+    if (sections.length === 0) return res.status(404).json({ error: 'Source not found' });
+    res.json({ name: req.params.name, sections });
+  });
+
+  // Upload more files to an existing course; no model is called, so it is not rate limited
+  router.post('/api/roadmaps/:id/sources', requireAuth, upload.array('files'), async (req, res) => {
+    if (!(await courseExists(req.params.id, req.user.id))) return res.status(404).json({ error: 'Course not found' });
+
+    const chunks = await chunkUploads(uploadedFiles(req.files));
+    if (chunks.length === 0) return res.status(422).json({ error: 'No text could be extracted from these files' });
+
+    const { error } = await library.add(req.user.id, req.params.id, chunks);
+    if (error) return res.status(500).json({ error: error.message });
+    const { sources } = await library.list(req.user.id, req.params.id);
+    res.json(sources);
+  });
+
+  // Reuse a source from another of the user's courses: { courseId, name }
+  router.post('/api/roadmaps/:id/sources/copy', requireAuth, async (req, res) => {
+    const { courseId, name } = req.body || {};
+    if (typeof courseId !== 'string' || typeof name !== 'string') {
+      return res.status(400).json({ error: 'courseId and name are required' });
+    }
+    if (!(await courseExists(req.params.id, req.user.id))) return res.status(404).json({ error: 'Course not found' });
+
+    const sections = await library.read(courseId, req.user.id, name);
+    if (sections.length === 0) return res.status(404).json({ error: 'Source not found' });
+
+    const { error } = await library.add(req.user.id, req.params.id, sections.map(section => ({ ...section, source: name })));
+    if (error) return res.status(500).json({ error: error.message });
+    const { sources } = await library.list(req.user.id, req.params.id);
+    res.json(sources);
+  });
+
+  router.delete('/api/roadmaps/:id/sources/:name', requireAuth, async (req, res) => {
+    const { error } = await library.remove(req.params.id, req.user.id, req.params.name);
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ success: true });
+  });
+
+  return router;
+}
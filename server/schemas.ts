@@ -0,0 +1,513 @@
+/**
+ * Runtime schemas for AI-generated payloads, mirroring src/types/roadmap.ts.
+ *
+ * A validator takes (value, path, violations) and returns the normalised value,
+ * pushing { path, message } for anything it cannot safely fix. Safe fixes are
+ * things that cannot change meaning: trimming, numeric strings → numbers,
+ * renumbering missing/duplicate ids, defaulting flags such as `mastered`.
+ * Anything else (an out-of-range correctAnswer, a sentence without a blank)
+ * is reported so the model can be re-prompted with the exact problem.
+ */
+
+import type { SchemaViolation } from '../src/types/api.js';
+import type {
+  Course,
+  CourseStep,
+  FillBlankSentence,
+  Flashcard,
+  LearningMaterial,
+  MatchingPair,
+  QuizQuestion,
+  ScrambleWord,
+} from '../src/types/roadmap.js';
+
+/**
+ * Checks one value: untrusted input, its path for messages, where to report
+ * problems, and the object holding it. Output is as loose as the model's JSON
+ * until the whole payload has passed; only then does it have the schema's type.
+ */
+type Validator<T = unknown> = (value: unknown, path: string, violations: SchemaViolation[], raw?: Fields) => T;
+type Fields = Record<string, unknown>;
+
+// `T` is what the value is once validate() reports no violations
+export interface Schema<T = unknown> {
+  name: string;
+  validator: Validator<T>;
+}
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const LEVELS = ['beginner', 'intermediate', 'advanced'];
+const MATERIAL_TYPES = ['reading', 'video', 'exercise', 'reference', 'summary'];
+const BLANK = '___';
+
+export class SchemaValidationError extends Error {
+  schema: string;
+  violations: SchemaViolation[];
+
+  constructor(schemaName: string, violations: SchemaViolation[]) {
+    const summary = violations.slice(0, 5).map(v => `${v.path || '(root)'} ${v.message}`).join('; ');
+    super(`Generated ${schemaName} is invalid: ${summary}${violations.length > 5 ? ` (+${violations.length - 5} more)` : ''}`);
+    this.name = 'SchemaValidationError';
+    this.schema = schemaName;
+    this.violations = violations;
+  }
+}
+
+// ============ PRIMITIVES ============
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+const joinPath = (path: string, key: string | number) => (typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key);
+
+function string({ optional = false, fallback }: { optional?: boolean; fallback?: string } = {}): Validator<string | undefined> {
+  return (value, path, violations) => {
+    if (isMissing(value) || (typeof value === 'string' && !value.trim())) {
+      if (fallback !== undefined) return fallback;
+      if (!optional) violations.push({ path, message: 'is required' });
+      return undefined;
+    }
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') {
+      violations.push({ path, message: 'must be a string' });
+      return undefined;
+    }
+    return value.trim();
+  };
+}
+
+function integer({ min, max, optional = false }: { min?: number; max?: number; optional?: boolean } = {}): Validator<number | undefined> {
+  return (value, path, violations) => {
+    if (isMissing(value)) {
+      if (!optional) violations.push({ path, message: 'is required' });
+      return undefined;
+    }
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number)) {
+      violations.push({ path, message: 'must be an integer' });
+      return undefined;
+    }
+    if ((min !== undefined && number < min) || (max !== undefined && number > max)) {
+      violations.push({ path, message: `must be between ${min ?? '-∞'} and ${max ?? '∞'}` });
+    }
+    return number;
+  };
+}
+
+function boolean({ fallback = false } = {}): Validator<boolean> {
+  return (value) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return typeof value === 'boolean' ? value : fallback;
+  };
+}
+
+// Unknown values of an optional enum are dropped rather than reported
+function oneOf(values: string[], { optional = false } = {}): Validator<string | undefined> {
+  return (value, path, violations) => {
+    const normalised = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (values.includes(normalised)) return normalised;
+    if (!optional) violations.push({ path, message: `must be one of: ${values.join(', ')}` });
+    return undefined;
+  };
+}
+
+/**
+ * Array of items. `idPrefix` gives every item a unique id — missing or duplicate
+ * ids are renumbered `${idPrefix}${n}` (ids are positional labels, so this is safe).
+ */
+function array(
+  item: Validator,
+  { min = 0, idPrefix, fallback }: { min?: number; idPrefix?: string; fallback?: unknown[] } = {}
+): Validator<unknown[]> {
+  return (value, path, violations) => {
+    if (isMissing(value) && fallback !== undefined) return fallback;
+    if (!Array.isArray(value)) {
+      violations.push({ path, message: 'must be an array' });
+      return [];
+    }
+    const items = value.map((entry: unknown, index: number) => item(entry, joinPath(path, index), violations));
+    if (items.length < min) {
+      violations.push({ path, message: `must contain at least ${min} item${min === 1 ? '' : 's'} (got ${items.length})` });
+    }
+    if (idPrefix) {
+      const seen = new Set<string>();
+      items.forEach((item, index) => {
+        if (!item || typeof item !== 'object') return;
+        const entry = item as { id?: string };
+        if (!entry.id || seen.has(entry.id)) entry.id = `${idPrefix}${index + 1}`;
+        // A renumbered id may itself collide with a later one; keep bumping until it's free
+        let n = index + 1;
+        while (seen.has(entry.id)) entry.id = `${idPrefix}${++n}`;
+        seen.add(entry.id);
+      });
+    }
+    return items;
+  };
+}
+
+/**
+ * Object with a fixed set of fields; keys not in the shape are dropped.
+ * `refine(result, path, violations, raw)` runs afterwards for cross-field rules
+ * and may return a replacement value. It also runs when fields failed, so any of
+ * them can be missing.
+ */
+function object<T extends object = Fields>(
+  shape: Record<string, Validator>,
+  refine?: (result: Partial<T>, path: string, violations: SchemaViolation[], raw: Fields) => Partial<T> | void
+): Validator<Partial<T>> {
+  return (value, path, violations) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      violations.push({ path, message: 'must be an object' });
+      return {};
+    }
+    const fields = value as Fields;
+    const result: Fields = {};
+    for (const [key, validator] of Object.entries(shape)) {
+      const field = validator(fields[key], joinPath(path, key), violations, fields);
+      if (field !== undefined) result[key] = field;
+    }
+    const partial = result as Partial<T>;
+    return refine ? refine(partial, path, violations, fields) ?? partial : partial;
+  };
+}
+
+// Flags items whose `field` repeats (case-insensitive) — e.g. two identical matching answers
+function uniqueBy(field: string, label: string) {
+  return (items: unknown[], path: string, violations: SchemaViolation[]) => {
+    const seen = new Map<string, number>();
+    items.forEach((entry, index) => {
+      const key = String((entry as Fields | undefined)?.[field] ?? '').toLowerCase();
+      if (!key) return;
+      if (seen.has(key)) {
+        violations.push({ path: joinPath(joinPath(path, index), field), message: `duplicates ${label} at index ${seen.get(key)}` });
+      } else {
+        seen.set(key, index);
+      }
+    });
+    return items;
+  };
+}
+
+function refined<T>(
+  validator: Validator<T>,
+  ...refinements: ((result: T, path: string, violations: SchemaViolation[]) => T | void)[]
+): Validator<T> {
+  return (value, path, violations) => {
+    let result = validator(value, path, violations);
+    for (const refinement of refinements) result = refinement(result, path, violations) ?? result;
+    return result;
+  };
+}
+
+/**
+ * Source citations are optional extras: malformed entries are dropped instead of
+ * reported, so a bad citation never costs a re-prompt. Whether the quote is really
+ * in the source is checked afterwards against the stored text (lib/citations.ts).
+ */
+function citations(): Validator {
+  return (value) => {
+    if (!Array.isArray(value)) return undefined;
+    const valid = value
+      .filter((entry): entry is { source: string; quote: string; page?: unknown } =>
+        entry && typeof entry === 'object' && typeof entry.source === 'string' && typeof entry.quote === 'string')
+      .map(entry => {
+        const page = Number(entry.page);
+        return {
+          source: entry.source.trim(),
+          ...(Number.isInteger(page) && page > 0 ? { page } : {}),
+          quote: entry.quote.trim(),
+        };
+      })
+      .filter(entry => entry.source && entry.quote);
+    return valid.length > 0 ? valid : undefined;
+  };
+}
+
+// ============ SHAPES ============
+
+// A course step as the model wrote it, before the outline numbers and links it
+type GeneratedStep = Pick<CourseStep, 'id' | 'title' | 'description' | 'estimatedTime' | 'tasks' | 'materials'> & {
+  stepNumber?: number;
+  prerequisites?: unknown[];
+};
+
+const LETTER_INDEX: Record<string, number> = { a: 0, b: 1, c: 2, d: 3, e: 4, f: 5 };
+
+const quizQuestion = object<QuizQuestion>({
+  id: string({ optional: true }),
+  question: string(),
+  options: refined(array(string(), { min: 2 }), (options, path, violations) => {
+    const seen = new Set<string>();
+    options.forEach((option, index) => {
+      const key = String(option ?? '').toLowerCase();
+      if (seen.has(key)) violations.push({ path: joinPath(path, index), message: 'repeats another option' });
+      seen.add(key);
+    });
+  }),
+  correctAnswer: (value, path, violations, raw) => {
+    // Models sometimes answer with the letter ("B") or the option text instead of the index
+    if (typeof value === 'string' && LETTER_INDEX[value.trim().toLowerCase()] !== undefined) {
+      return LETTER_INDEX[value.trim().toLowerCase()];
+    }
+    const options = raw?.options;
+    if (typeof value === 'string' && Array.isArray(options)) {
+      const textIndex = options.findIndex((option: unknown) => String(option).trim() === value.trim());
+      if (textIndex !== -1) return textIndex;
+    }
+    return integer()(value, path, violations);
+  },
+  explanation: string({ fallback: '' }),
+  difficulty: oneOf(DIFFICULTIES, { optional: true }),
+  citations: citations(),
+}, (question, path, violations) => {
+  const count = question.options?.length || 0;
+  const answer = question.correctAnswer;
+  // Too few options is already reported on `options`
+  if (count >= 2 && answer !== undefined && Number.isInteger(answer) && (answer < 0 || answer >= count)) {
+    violations.push({ path: joinPath(path, 'correctAnswer'), message: `must be an index into options (0-${count - 1})` });
+  }
+});
+
+const questions = array(quizQuestion, { min: 1, idPrefix: 'q' });
+
+const flashcard = object({
+  id: string({ optional: true }),
+  front: string(),
+  back: string(),
+  category: string({ optional: true }),
+  difficulty: oneOf(DIFFICULTIES, { optional: true }),
+  mastered: boolean(),
+  citations: citations(),
+});
+
+const flashcards = array(flashcard, { min: 1, idPrefix: 'card-' });
+
+const matchingPair = object({
+  id: string({ optional: true }),
+  question: string(),
+  answer: string(),
+});
+
+// Duplicate prompts or answers make the board ambiguous
+const pairs = refined(
+  array(matchingPair, { min: 2, idPrefix: 'pair-' }),
+  uniqueBy('question', 'question'),
+  uniqueBy('answer', 'answer'),
+);
+
+const scrambleWord = object({
+  id: string({ optional: true }),
+  word: (value, path, violations) => {
+    const word = string()(value, path, violations);
+    if (word === undefined) return undefined;
+    // Multi-word terms are played as one run of letters
+    const letters = word.toUpperCase().replace(/[\s-]+/g, '');
+    if (letters.length < 2) violations.push({ path, message: 'must have at least 2 letters' });
+    return letters;
+  },
+  hint: string(),
+  category: string({ optional: true }),
+  difficulty: oneOf(DIFFICULTIES, { optional: true }),
+});
+
+const fillBlankSentence = object<FillBlankSentence>({
+  id: string({ optional: true }),
+  sentence: string(),
+  answer: string(),
+  hint: string({ optional: true }),
+  difficulty: oneOf(DIFFICULTIES, { optional: true }),
+}, (entry, path, violations) => {
+  if (!entry.sentence || !entry.answer) return;
+  // Normalise blank variants ("____", "_ _ _") to the canonical marker
+  let sentence = entry.sentence.replace(/_(?:\s?_){2,}/g, BLANK);
+  if (!sentence.includes(BLANK)) {
+    // The answer written out in full exactly once can safely become the blank
+    const escaped = entry.answer.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const matches = sentence.match(new RegExp(`\\b${escaped}\\b`, 'gi')) || [];
+    if (matches.length === 1) sentence = sentence.replace(new RegExp(`\\b${escaped}\\b`, 'i'), BLANK);
+  }
+  const blanks = sentence.split(BLANK).length - 1;
+  if (blanks !== 1) {
+    violations.push({ path: joinPath(path, 'sentence'), message: `must contain exactly one ${BLANK} blank (found ${blanks})` });
+  }
+  return { ...entry, sentence };
+});
+
+const task = object({
+  id: string({ optional: true }),
+  title: string(),
+  description: string({ fallback: '' }),
+  completed: boolean(),
+});
+
+const material = object<LearningMaterial>({
+  id: string({ optional: true }),
+  title: string(),
+  type: oneOf(MATERIAL_TYPES),
+  description: string({ optional: true }),
+  content: string({ optional: true }),
+  url: string({ optional: true }),
+  source: string({ optional: true }),
+  youtubeSearch: string({ optional: true }),
+  youtubeVideoId: string({ optional: true }),
+  youtubeTitle: string({ optional: true }),
+  citations: citations(),
+}, (entry, path, violations) => {
+  if (entry.type === 'video') {
+    // A video without an id can still be found by searching for its title
+    if (!entry.youtubeVideoId && !entry.youtubeSearch && entry.title) {
+      return { ...entry, youtubeVideoId: `search:${entry.title.replace(/^Video:\s*/i, '')}` };
+    }
+  } else if (entry.type && !entry.content) {
+    violations.push({ path: joinPath(path, 'content'), message: `is required for ${entry.type} materials` });
+  }
+});
+
+const courseStep = object<GeneratedStep>({
+  id: string({ optional: true }),
+  stepNumber: integer({ optional: true }),
+  title: string(),
+  description: string(),
+  estimatedTime: string({ fallback: '' }),
+  tasks: array(task, { fallback: [] }),
+  materials: array(material, { fallback: [] }),
+  // Checked against the whole outline in resolvePrerequisites
+  prerequisites: (value) => (Array.isArray(value) ? value : undefined),
+});
+
+/**
+ * Prerequisites as ids of earlier steps, so the outline order is always a valid
+ * study order and the graph cannot have cycles. Models may answer with step
+ * numbers; references to later or unknown steps are dropped. A step that says
+ * nothing about prerequisites follows the step before it.
+ */
+function resolvePrerequisites(steps: GeneratedStep[]): string[][] {
+  return steps.map((step, index) => {
+    if (!step.prerequisites) return index === 0 ? [] : [steps[index - 1].id];
+    const earlier = steps.slice(0, index);
+    const ids = step.prerequisites
+      .map(ref => {
+        const number = typeof ref === 'number' ? ref : /^\d+$/.test(String(ref).trim()) ? Number(ref) : NaN;
+        return Number.isInteger(number) ? earlier[number - 1]?.id : earlier.find(other => other.id === String(ref).trim())?.id;
+      })
+      .filter((id): id is string => !!id);
+    return [...new Set(ids)];
+  });
+}
+
+// ============ SCHEMAS ============
+
+// The validator's loose output is only read as `T` once it has no violations
+function defineSchema<T>(name: string, validator: Validator): Schema<T> {
+  return { name, validator: validator as Validator<T> };
+}
+
+export function validate<T>(schema: Schema<T>, data: unknown) {
+  const violations: SchemaViolation[] = [];
+  const value = schema.validator(data, '', violations);
+  return { value, violations };
+}
+
+type GeneratedCourse = Pick<Course, 'title' | 'description' | 'difficulty' | 'steps' | 'totalSteps'>;
+type GeneratedSet<Key extends string, Item> = { title: string; description: string; difficulty?: Course['difficulty'] } & Record<Key, Item[]>;
+// Regenerated entries get the id of the one they replace
+type Replacement<T extends { id: string }> = Omit<T, 'id'> & { id?: string };
+
+export const roadmapSchema = defineSchema<{ roadmap: GeneratedCourse }>('course outline', object({
+  roadmap: object<{ steps: GeneratedStep[] }>({
+    title: string(),
+    description: string(),
+    difficulty: oneOf(LEVELS, { optional: true }),
+    steps: array(courseStep, { min: 1, idPrefix: 'step-' }),
+  }, (roadmap) => {
+    // Outline bookkeeping is derived from position, never trusted from the model
+    const prerequisites = resolvePrerequisites(roadmap.steps || []);
+    const steps = (roadmap.steps || []).map((step, index) => ({
+      ...step,
+      stepNumber: index + 1,
+      prerequisites: prerequisites[index],
+      completed: false,
+      detailsLoaded: false,
+      unlocked: prerequisites[index].length === 0,
+    }));
+    return { ...roadmap, steps, totalSteps: steps.length };
+  }),
+}));
+
+// A step inserted into an existing outline; the client numbers it
+export const outlineStepSchema = defineSchema<{ step: Replacement<GeneratedStep> }>('course step', object({ step: courseStep }));
+
+export function stepDetailsSchema(stepNumber: number) {
+  return defineSchema<Pick<CourseStep, 'tasks' | 'materials'>>('step details', object({
+    tasks: array(task, { min: 1, idPrefix: `task-${stepNumber}-` }),
+    materials: array(material, { min: 1, idPrefix: `mat-${stepNumber}-` }),
+  }));
+}
+
+export const stepTestSchema = defineSchema<{ questions: QuizQuestion[] }>('step test', object({ questions }));
+
+// One entry regenerated in place; the route puts the original id back
+export const materialSchema = defineSchema<{ material: Replacement<LearningMaterial> }>('material', object({ material }));
+
+export const quizQuestionSchema = defineSchema<{ question: Replacement<QuizQuestion> }>('quiz question', object({ question: quizQuestion }));
+
+export const quizSchema = defineSchema<GeneratedSet<'questions', QuizQuestion>>('quiz', object({
+  title: string(),
+  description: string({ fallback: '' }),
+  difficulty: oneOf(LEVELS, { optional: true }),
+  questions,
+}));
+
+export const flashcardDeckSchema = defineSchema<GeneratedSet<'cards', Flashcard>>('flashcard deck', object({
+  title: string(),
+  description: string({ fallback: '' }),
+  difficulty: oneOf(LEVELS, { optional: true }),
+  cards: flashcards,
+}));
+
+export const courseFlashcardsSchema = defineSchema<{ cards: Flashcard[] }>('course flashcards', object({ cards: flashcards }));
+
+export const stepFlashcardsSchema = defineSchema<{ flashcards: Flashcard[] }>('step flashcards', object({ flashcards }));
+
+export const matchingGameSchema = defineSchema<GeneratedSet<'pairs', MatchingPair>>('matching game', object({
+  title: string(),
+  description: string({ fallback: '' }),
+  difficulty: oneOf(LEVELS, { optional: true }),
+  pairs,
+}));
+
+export const matchingPairsSchema = defineSchema<{ pairs: MatchingPair[] }>('matching pairs', object({ pairs }));
+
+export const wordScrambleSchema = defineSchema<GeneratedSet<'words', ScrambleWord>>('word scramble', object({
+  title: string(),
+  description: string({ fallback: '' }),
+  words: refined(array(scrambleWord, { min: 1, idPrefix: 'word-' }), uniqueBy('word', 'word')),
+}));
+
+export const fillBlankSchema = defineSchema<GeneratedSet<'sentences', FillBlankSentence>>('fill-in-the-blank game', object({
+  title: string(),
+  description: string({ fallback: '' }),
+  sentences: array(fillBlankSentence, { min: 1, idPrefix: 's' }),
+}));
+
+// Crossword words are checked before layout; the grid itself is built server-side
+type CrosswordWord = { answer: string; clue: string };
+
+export function crosswordWordsSchema(minWords: number) {
+  return defineSchema<GeneratedSet<'words', CrosswordWord>>('crossword', object({
+    title: string(),
+    description: string({ fallback: '' }),
+    words: array(object<CrosswordWord>({
+      answer: (value, path, violations) => {
+        const answer = string()(value, path, violations);
+        if (answer === undefined) return undefined;
+        if (!/^[A-Za-z]{3,}$/.test(answer)) violations.push({ path, message: 'must be a single word of at least 3 letters' });
+        return answer;
+      },
+      clue: string(),
+    }, (entry, path, violations) => {
+      if (entry.answer && entry.clue?.toLowerCase().includes(entry.answer.toLowerCase())) {
+        violations.push({ path: joinPath(path, 'clue'), message: 'must not contain the answer' });
+      }
+    }), { min: minWords }),
+  }));
+}
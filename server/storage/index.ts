@@ -0,0 +1,81 @@
+import { fileURLToPath } from 'url';
+import { createSupabaseStore } from './supabase.js';
+import { createLocalStore } from './local.js';
+import { createRepositories } from './repositories.js';
+import type { AuthService } from '../types.js';
+
+/**
+ * Storage layer.
+ *
+ * Every backend implements the same table-level store (see Store below), where
+ * `query` is
+ *   { columns?, match?: { column: value }, in?: { column, values },
+ *     search?: { columns, term }, range?: { column, gte?, lt? },
+ *     order?: { column, ascending }, limit? }
+ * plus `auth.getUser(token) → { user, error }` for the bearer token check.
+ *
+ * Routes never touch the store directly; they go through the repositories in
+ * repositories.ts (courses, decks, quizzes, games, profiles, shared content,
+ * likes, generations, generation jobs and course source chunks), which give
+ * every table its row type from types.ts.
+ */
+
+// Rows as a backend sees them; repositories.ts narrows them to a table's row type
+export type StoreRow = Record<string, unknown>;
+
+export interface StoreError {
+  message: string;
+}
+
+export type StoreResult<T> = { data: T; error: null } | { data: null; error: StoreError };
+
+export interface Query {
+  columns?: string[];
+  match?: Record<string, unknown>;
+  in?: { column: string; values: unknown[] };
+  search?: { columns: string[]; term: string };
+  range?: { column: string; gte?: string; lt?: string };
+  order?: { column: string; ascending?: boolean };
+  limit?: number;
+}
+
+export interface Store {
+  select(table: string, query?: Query): Promise<StoreResult<StoreRow[]>>;
+  first(table: string, query?: Query): Promise<StoreResult<StoreRow | null>>;
+  count(table: string, query?: Query): Promise<{ count: number; error: StoreError | null }>;
+  insert(table: string, row: StoreRow): Promise<StoreResult<StoreRow>>;
+  insertMany(table: string, rows: StoreRow[]): Promise<{ error: StoreError | null }>;
+  update(table: string, match: Record<string, unknown>, patch: StoreRow): Promise<{ error: StoreError | null }>;
+  remove(table: string, match: Record<string, unknown>): Promise<{ error: StoreError | null }>;
+}
+
+export interface Backend {
+  store: Store;
+  auth: AuthService;
+}
+
+const BACKENDS = ['supabase', 'local'];
+const DEFAULT_LOCAL_FILE = fileURLToPath(new URL('../data/local-db.json', import.meta.url));
+
+/**
+ * Build storage from environment config:
+ * - STORAGE_BACKEND — 'supabase' (default) or 'local'. Local auth does not verify tokens,
+ *   so it is only ever used when asked for by name; a missing Supabase config is an error
+ * - SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY — for the supabase backend
+ * - LOCAL_DATA_FILE — JSON file for the local backend (server/data/local-db.json),
+ *   or ':memory:' to keep everything in memory
+ */
+export function createStorage(env: Record<string, string | undefined>) {
+  const backend = env.STORAGE_BACKEND || 'supabase';
+  if (!BACKENDS.includes(backend)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Available: ${BACKENDS.join(', ')}`);
+  }
+
+  let file: string | null = null;
+  if (backend === 'local') {
+    file = env.LOCAL_DATA_FILE === ':memory:' ? null : env.LOCAL_DATA_FILE || DEFAULT_LOCAL_FILE;
+  }
+  const { store, auth } = backend === 'supabase' ? createSupabaseStore(env) : createLocalStore({ file });
+
+  return { backend, file, db: createRepositories(store), auth };
+}
@@ -0,0 +1,203 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Buffer } from 'buffer';
+import type { Backend, Query, Store, StoreRow } from './index.js';
+
+// Column defaults from supabase-schema.sql / migration.sql that the routes rely on
+const TABLE_DEFAULTS: Record<string, () => StoreRow> = {
+  courses: () => ({ steps: [], flashcards: [], progress: 0, updated_at: new Date().toISOString() }),
+  flashcard_decks: () => ({ flashcards: [], updated_at: new Date().toISOString() }),
+  quizzes: () => ({ description: '', questions: [], completed: false, times_taken: 0, is_rapid: false, updated_at: new Date().toISOString() }),
+  matching_games: () => ({ description: '', pairs: [], times_played: 0, updated_at: new Date().toISOString() }),
+  word_scramble_games: () => ({ description: '', words: [], times_played: 0 }),
+  fill_blank_games: () => ({ description: '', sentences: [], times_played: 0 }),
+  crossword_games: () => ({ description: '', clues: [], grid_size: 15, times_played: 0 }),
+  user_profiles: () => ({ display_name: '', updated_at: new Date().toISOString() }),
+  shared_content: () => ({ description: '', meta: {}, is_public: true, likes_count: 0 }),
+  generation_jobs: () => ({ status: 'queued', input: {}, attempts: 0, updated_at: new Date().toISOString() }),
+};
+
+function matches(row: StoreRow, { match, in: inFilter, search, range }: Query = {}) {
+  for (const [column, value] of Object.entries(match || {})) {
+    if (row[column] !== value) return false;
+  }
+  if (inFilter && !inFilter.values.includes(row[inFilter.column])) return false;
+  if (search?.term) {
+    const term = search.term.toLowerCase();
+    if (!search.columns.some(column => String(row[column] ?? '').toLowerCase().includes(term))) return false;
+  }
+  if (range) {
+    // Ranges are over timestamps, which compare as ISO strings
+    const value = row[range.column] as string;
+    if (range.gte && !(value >= range.gte)) return false;
+    if (range.lt && !(value < range.lt)) return false;
+  }
+  return true;
+}
+
+// Postgres puts NULLs last when sorting descending and first when ascending; keep them last either way
+function compareBy(column: string, ascending: boolean) {
+  return (a: StoreRow, b: StoreRow) => {
+    const left = a[column];
+    const right = b[column];
+    if (left == null) return right == null ? 0 : 1;
+    if (right == null) return -1;
+    if (left < right) return ascending ? -1 : 1;
+    if (left > right) return ascending ? 1 : -1;
+    return 0;
+  };
+}
+
+function pick(row: StoreRow, columns?: string[]) {
+  if (!columns) return structuredClone(row);
+  return Object.fromEntries(columns.map(column => [column, structuredClone(row[column])]));
+}
+
+// Supabase serialises rows as JSON, so undefined columns are simply not sent
+function defined(row: StoreRow) {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+}
+
+const ok = <T>(data: T) => ({ data, error: null });
+const failed = (error: unknown) => ({ data: null, error: { message: (error as Error).message } });
+
+/**
+ * Local backend for offline development and tests: every table lives in one JSON
+ * file (or only in memory when `file` is null). Writes are serialised and replace
+ * the file atomically, so a crash never leaves half a database behind.
+ */
+export function createLocalStore({ file = null }: { file?: string | null } = {}): Backend {
+  let tables: Record<string, StoreRow[]> = {};
+  if (file && existsSync(file)) {
+    tables = JSON.parse(readFileSync(file, 'utf-8'));
+  } else if (file) {
+    mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  // A failed write only fails its own change: the next one still runs, and writes
+  // whatever the tables hold by then (so without changes that were rolled back)
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const persist = () => {
+    if (!file) return pendingWrite;
+    pendingWrite = pendingWrite.catch(() => {}).then(async () => {
+      const temporary = `${file}.tmp`;
+      await writeFile(temporary, JSON.stringify(tables));
+      await rename(temporary, file);
+    });
+    return pendingWrite;
+  };
+
+  // Saves a change already made to the tables, or undoes it if it couldn't be saved
+  const commit = async <T>(result: T, undo: () => void) => {
+    try {
+      await persist();
+      return result;
+    } catch (error) {
+      undo();
+      return failed(error);
+    }
+  };
+
+  const rowsOf = (table: string) => {
+    if (!tables[table]) tables[table] = [];
+    return tables[table];
+  };
+
+  const selectRows = (table: string, query: Query = {}) => {
+    let rows = rowsOf(table).filter(row => matches(row, query));
+    if (query.order) rows = [...rows].sort(compareBy(query.order.column, query.order.ascending !== false));
+    if (query.limit) rows = rows.slice(0, query.limit);
+    return rows.map(row => pick(row, query.columns));
+  };
+
+  const store: Store = {
+    async select(table, query) {
+      return ok(selectRows(table, query));
+    },
+
+    async first(table, query) {
+      return ok(selectRows(table, { ...query, limit: 1 })[0] || null);
+    },
+
+    async count(table, query) {
+      return { count: rowsOf(table).filter(row => matches(row, query)).length, error: null };
+    },
+
+    async insert(table, row) {
+      const rows = rowsOf(table);
+      const inserted = {
+        ...(TABLE_DEFAULTS[table]?.() || {}),
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+        ...structuredClone(defined(row)),
+      };
+      if (rows.some(existing => existing.id === inserted.id)) {
+        return failed(new Error(`duplicate key value violates unique constraint "${table}_pkey"`));
+      }
+      rows.push(inserted);
+      return commit(ok(structuredClone(inserted)), () => {
+        tables[table] = rowsOf(table).filter(row => row !== inserted);
+      });
+    },
+
+    async insertMany(table, rows) {
+      const inserted: StoreRow[] = rows.map(row => ({
+        ...(TABLE_DEFAULTS[table]?.() || {}),
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+        ...structuredClone(defined(row)),
+      }));
+      rowsOf(table).push(...inserted);
+      return commit({ error: null }, () => {
+        tables[table] = rowsOf(table).filter(row => !inserted.includes(row));
+      });
+    },
+
+    async update(table, match, patch) {
+      const changes = structuredClone(defined(patch));
+      const previous = new Map<StoreRow, StoreRow>();
+      for (const row of rowsOf(table)) {
+        if (!matches(row, { match })) continue;
+        previous.set(row, { ...row });
+        Object.assign(row, changes);
+        if ('updated_at' in row) row.updated_at = new Date().toISOString();
+      }
+      return commit({ error: null }, () => {
+        for (const [row, before] of previous) {
+          for (const key of Object.keys(row)) delete row[key];
+          Object.assign(row, before);
+        }
+      });
+    },
+
+    async remove(table, match) {
+      const removed = rowsOf(table).filter(row => matches(row, { match }));
+      tables[table] = rowsOf(table).filter(row => !removed.includes(row));
+      return commit({ error: null }, () => rowsOf(table).push(...removed));
+    },
+  };
+
+  return { store, auth: createLocalAuth() };
+}
+
+/**
+ * Stand-in for Supabase Auth when running locally. The client signs in without a
+ * server round trip and sends `local.<base64url JSON { id, email }>` as its token
+ * (see src/lib/localAuth.ts). Nothing is verified, so never expose a local-mode server.
+ */
+function createLocalAuth() {
+  return {
+    async getUser(token: string) {
+      try {
+        if (!token?.startsWith('local.')) throw new Error('Not a local session token');
+        const { id, email } = JSON.parse(Buffer.from(token.slice('local.'.length), 'base64url').toString('utf-8'));
+        if (!id || !email) throw new Error('Local session token is missing id or email');
+        return { user: { id, email }, error: null };
+      } catch (error) {
+        return { user: null, error: { message: (error as Error).message } };
+      }
+    },
+  };
+}
@@ -0,0 +1,197 @@
+import type { Query, Store, StoreResult } from './index.js';
+import type { ContentType } from '../../src/types/api.js';
+import type {
+  ContentLikeRow,
+  CourseChunkRow,
+  CourseRow,
+  CrosswordGameRow,
+  DailyGenerationRow,
+  FillBlankGameRow,
+  FlashcardDeckRow,
+  GenerationJobRow,
+  MatchingGameRow,
+  OwnedRow,
+  QuizRow,
+  SharedContentRow,
+  UserProfileRow,
+  WordScrambleGameRow,
+} from '../types.js';
+
+// Content types as used by share/rename/clone routes → table holding them
+export const CONTENT_TABLES: Record<ContentType, string> = {
+  course: 'courses',
+  flashcards: 'flashcard_decks',
+  quiz: 'quizzes',
+  matching: 'matching_games',
+  'word-scramble': 'word_scramble_games',
+  'fill-blank': 'fill_blank_games',
+  crossword: 'crossword_games',
+};
+
+type Column<Row> = keyof Row & string;
+
+// One table of the store with its row type: results hold the columns asked for, all of them by default
+function table<Row extends object>(store: Store, name: string) {
+  return {
+    select: <C extends Column<Row> = Column<Row>>(query: Query & { columns?: C[] } = {}) =>
+      store.select(name, query) as Promise<StoreResult<Pick<Row, C>[]>>,
+    first: <C extends Column<Row> = Column<Row>>(query: Query & { columns?: C[] } = {}) =>
+      store.first(name, query) as Promise<StoreResult<Pick<Row, C> | null>>,
+    count: (query?: Query) => store.count(name, query),
+    insert: (row: Partial<Row>) => store.insert(name, row) as Promise<StoreResult<Row>>,
+    insertMany: (rows: Partial<Row>[]) => store.insertMany(name, rows),
+    update: (match: Record<string, unknown>, patch: Partial<Row>) => store.update(name, match, patch),
+    remove: (match: Record<string, unknown>) => store.remove(name, match),
+  };
+}
+
+// Rows a user owns; every query is scoped by user_id except getById (used for cloning shared content)
+function ownedContent<Row extends OwnedRow>(store: Store, name: string) {
+  const rows = table<Row>(store, name);
+  return {
+    list: <C extends Column<Row> = Column<Row>>(userId: string, columns?: C[]) => rows.select({
+      columns,
+      match: { user_id: userId },
+      order: { column: 'created_at', ascending: false },
+    }),
+    get: <C extends Column<Row> = Column<Row>>(id: string, userId: string, columns?: C[]) =>
+      rows.first({ columns, match: { id, user_id: userId } }),
+    getById: (id: string) => rows.first({ match: { id } }),
+    create: (userId: string, row: Partial<Row>) => rows.insert({ ...row, user_id: userId }),
+    update: (id: string, userId: string, patch: Partial<Row>) => rows.update({ id, user_id: userId }, patch),
+    remove: (id: string, userId: string) => rows.remove({ id, user_id: userId }),
+    count: (userId: string) => rows.count({ match: { user_id: userId } }),
+    removeAll: (userId: string) => rows.remove({ user_id: userId }),
+  };
+}
+
+export type OwnedContentRepository<Row extends OwnedRow> = ReturnType<typeof ownedContent<Row>>;
+
+/**
+ * Data access for the API routes, built on a backend store (see storage/index.ts).
+ * Methods resolve to `{ data, error }` (or `{ count, error }`) like the Supabase client,
+ * so routes keep handling errors the same way whichever backend is configured.
+ */
+export function createRepositories(store: Store) {
+  const courses = ownedContent<CourseRow>(store, CONTENT_TABLES.course);
+  const flashcardDecks = ownedContent<FlashcardDeckRow>(store, CONTENT_TABLES.flashcards);
+  const quizzes = ownedContent<QuizRow>(store, CONTENT_TABLES.quiz);
+  const matchingGames = ownedContent<MatchingGameRow>(store, CONTENT_TABLES.matching);
+  const wordScrambleGames = ownedContent<WordScrambleGameRow>(store, CONTENT_TABLES['word-scramble']);
+  const fillBlankGames = ownedContent<FillBlankGameRow>(store, CONTENT_TABLES['fill-blank']);
+  const crosswordGames = ownedContent<CrosswordGameRow>(store, CONTENT_TABLES.crossword);
+  // By content type, for routes that work on any of them
+  const content: Record<ContentType, OwnedContentRepository<OwnedRow>> = {
+    course: courses,
+    flashcards: flashcardDecks,
+    quiz: quizzes,
+    matching: matchingGames,
+    'word-scramble': wordScrambleGames,
+    'fill-blank': fillBlankGames,
+    crossword: crosswordGames,
+  };
+
+  const profiles = table<UserProfileRow>(store, 'user_profiles');
+  const sharedContent = table<SharedContentRow>(store, 'shared_content');
+  const likes = table<ContentLikeRow>(store, 'content_likes');
+  const generations = table<DailyGenerationRow>(store, 'daily_generations');
+  const jobs = table<GenerationJobRow>(store, 'generation_jobs');
+  const courseChunks = table<CourseChunkRow>(store, 'course_chunks');
+
+  return {
+    content,
+    courses,
+    flashcardDecks,
+    quizzes,
+    matchingGames,
+    wordScrambleGames,
+    fillBlankGames,
+    crosswordGames,
+
+    profiles: {
+      get: (userId: string) => profiles.first({ match: { id: userId } }),
+      create: (profile: Partial<UserProfileRow>) => profiles.insert(profile),
+      update: (userId: string, patch: Partial<UserProfileRow>) => profiles.update({ id: userId }, patch),
+      displayNames: (userIds: string[]) => profiles.select({
+        columns: ['id', 'display_name'],
+        in: { column: 'id', values: userIds },
+      }),
+    },
+
+    sharedContent: {
+      listPublic: ({ type, q, sort, limit }: { type?: string; q?: string; sort?: string; limit?: number }) => sharedContent.select({
+        match: { is_public: true, ...(type ? { content_type: type } : {}) },
+        search: q ? { columns: ['title', 'description'], term: q } : undefined,
+        order: { column: sort === 'popular' ? 'likes_count' : 'created_at', ascending: false },
+        limit,
+      }),
+      get: (id: string) => sharedContent.first({ match: { id } }),
+      create: (item: Partial<SharedContentRow>) => sharedContent.insert(item),
+      setLikeCount: (id: string, count: number) => sharedContent.update({ id }, { likes_count: count }),
+    },
+
+    likes: {
+      // Liking twice is a no-op, mirroring the unique (user_id, shared_content_id) constraint
+      async add(userId: string, sharedContentId: string) {
+        const match = { user_id: userId, shared_content_id: sharedContentId };
+        const existing = await likes.first({ match });
+        if (existing.error || existing.data) return existing;
+        return likes.insert(match);
+      },
+      remove: (userId: string, sharedContentId: string) => likes.remove({ user_id: userId, shared_content_id: sharedContentId }),
+      count: (sharedContentId: string) => likes.count({ match: { shared_content_id: sharedContentId } }),
+      likedBy: (userId: string, sharedContentIds: string[]) => likes.select({
+        columns: ['shared_content_id'],
+        match: { user_id: userId },
+        in: { column: 'shared_content_id', values: sharedContentIds },
+      }),
+    },
+
+    generations: {
+      record: (userId: string, generationType: string) => generations.insert({ user_id: userId, generation_type: generationType }),
+      // `from`/`to` are ISO timestamps; omit both for the all-time count
+      count: (userId: string, { from, to }: { from?: string; to?: string } = {}) => generations.count({
+        match: { user_id: userId },
+        range: from || to ? { column: 'created_at', gte: from, lt: to } : undefined,
+      }),
+    },
+
+    // Background generations (migration-jobs.sql); the worker updates rows by id alone
+    jobs: {
+      list: (userId: string, limit?: number) => jobs.select({
+        match: { user_id: userId },
+        order: { column: 'created_at', ascending: false },
+        limit,
+      }),
+      get: (id: string, userId: string) => jobs.first({ match: { id, user_id: userId } }),
+      create: (userId: string, row: Partial<GenerationJobRow>) => jobs.insert({ ...row, user_id: userId }),
+      update: (id: string, patch: Partial<GenerationJobRow>) => jobs.update({ id }, patch),
+      remove: (id: string, userId: string) => jobs.remove({ id, user_id: userId }),
+    },
+
+    // Sections of a course's uploads (migration-chunks.sql), in document order
+    courseChunks: {
+      list: <C extends Column<CourseChunkRow> = Column<CourseChunkRow>>(courseId: string, userId: string, columns?: C[]) => courseChunks.select({
+        columns,
+        match: { course_id: courseId, user_id: userId },
+        order: { column: 'position', ascending: true },
+      }),
+      listByUser: <C extends Column<CourseChunkRow> = Column<CourseChunkRow>>(userId: string, columns?: C[]) => courseChunks.select({
+        columns,
+        match: { user_id: userId },
+        order: { column: 'position', ascending: true },
+      }),
+      // The chunks of one uploaded file
+      listSource: (courseId: string, userId: string, source: string) => courseChunks.select({
+        match: { course_id: courseId, user_id: userId, source },
+        order: { column: 'position', ascending: true },
+      }),
+      createMany: (userId: string, rows: Partial<CourseChunkRow>[]) =>
+        courseChunks.insertMany(rows.map(row => ({ ...row, user_id: userId }))),
+      removeSource: (courseId: string, userId: string, source: string) =>
+        courseChunks.remove({ course_id: courseId, user_id: userId, source }),
+      removeForCourse: (courseId: string, userId: string) => courseChunks.remove({ course_id: courseId, user_id: userId }),
+      removeForUser: (userId: string) => courseChunks.remove({ user_id: userId }),
+    },
+  };
+}
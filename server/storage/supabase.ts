@@ -0,0 +1,87 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Backend, Query, Store, StoreResult, StoreRow } from './index.js';
+
+// The filters applyQuery uses, which the builders from select(), update() and delete() all have
+interface FilterBuilder {
+  eq(column: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  or(filters: string): this;
+  gte(column: string, value: unknown): this;
+  lt(column: string, value: unknown): this;
+  order(column: string, options: { ascending: boolean }): this;
+  limit(count: number): this;
+}
+
+// Apply the shared query shape (see storage/index.ts) to a Supabase filter builder.
+// Checking a builder against FilterBuilder is too deep for the compiler, so it is cast instead.
+function applyQuery<Builder>(builder: Builder, { match, in: inFilter, search, range, order, limit }: Query = {}): Builder {
+  let query = builder as FilterBuilder;
+  for (const [column, value] of Object.entries(match || {})) {
+    query = query.eq(column, value);
+  }
+  if (inFilter) query = query.in(inFilter.column, inFilter.values);
+  if (search?.term) {
+    query = query.or(search.columns.map(column => `${column}.ilike.%${search.term}%`).join(','));
+  }
+  if (range?.gte) query = query.gte(range.column, range.gte);
+  if (range?.lt) query = query.lt(range.column, range.lt);
+  if (order) query = query.order(order.column, { ascending: order.ascending !== false });
+  if (limit) query = query.limit(limit);
+  return query as Builder;
+}
+
+const selectColumns = (columns?: string[]) => (columns ? columns.join(', ') : '*');
+
+/**
+ * Supabase (Postgres) backend. Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY;
+ * the service role bypasses row level security, so every query is scoped by the caller.
+ */
+export function createSupabaseStore(env: Record<string, string | undefined>): Backend {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  }
+  const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+
+  const store: Store = {
+    async select(table, query = {}) {
+      return await applyQuery(supabase.from(table).select(selectColumns(query.columns)), query) as StoreResult<StoreRow[]>;
+    },
+
+    async first(table, query = {}) {
+      return await applyQuery(supabase.from(table).select(selectColumns(query.columns)), query).maybeSingle() as StoreResult<StoreRow | null>;
+    },
+
+    async count(table, query = {}) {
+      const { count, error } = await applyQuery(supabase.from(table).select('*', { count: 'exact', head: true }), query);
+      return { count: count || 0, error };
+    },
+
+    async insert(table, row) {
+      return await supabase.from(table).insert(row).select().single() as StoreResult<StoreRow>;
+    },
+
+    async insertMany(table, rows) {
+      const { error } = await supabase.from(table).insert(rows);
+      return { error };
+    },
+
+    async update(table, match, patch) {
+      const { error } = await applyQuery(supabase.from(table).update(patch), { match });
+      return { error };
+    },
+
+    async remove(table, match) {
+      const { error } = await applyQuery(supabase.from(table).delete(), { match });
+      return { error };
+    },
+  };
+
+  const auth = {
+    async getUser(token: string) {
+      const { data, error } = await supabase.auth.getUser(token);
+      return { user: data?.user || null, error };
+    },
+  };
+
+  return { store, auth };
+}
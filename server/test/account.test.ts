@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './harness.js';
+import { question, sampleCourse, sampleDeck, sampleQuiz } from './samples.js';
+import { DAILY_GENERATION_LIMIT } from '../middleware/rateLimit.js';
+import type { FlashcardSchedule } from '../../src/types/roadmap.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function scheduleDueIn(days: number): FlashcardSchedule {
+  return {
+    easeFactor: 2.5,
+    interval: 3,
+    repetitions: 1,
+    dueDate: new Date(Date.now() + days * DAY).toISOString(),
+    lastReviewed: new Date(Date.now() - DAY).toISOString(),
+    lastRating: 'good',
+  };
+}
+
+describe('profile', () => {
+  let server: TestServer;
+  beforeEach(async () => { server = await startTestServer(); });
+  afterEach(() => server.close());
+
+  it('creates a profile on first visit and reports usage', async () => {
+    await server.request('POST', '/api/flashcard-decks', { as: 'alice', json: sampleDeck() });
+    await server.request('POST', '/api/standalone-quizzes', { as: 'alice', json: sampleQuiz() });
+    await server.request('POST', '/api/flashcard-decks', { as: 'bob', json: sampleDeck('bobs-deck') });
+    await server.db.generations.record('alice', 'quiz');
+
+    const response = await server.request('GET', '/api/profile', { as: 'alice' });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.email, 'alice@example.com');
+    assert.equal(response.body.displayName, 'alice');
+    assert.equal(response.body.generationsToday, 1);
+    assert.equal(response.body.totalGenerations, 1);
+    assert.equal(response.body.generationLimit, DAILY_GENERATION_LIMIT);
+    assert.equal(response.body.stats.flashcardDecks, 1);
+    assert.equal(response.body.stats.quizzes, 1);
+    assert.equal(response.body.stats.courses, 0);
+
+    const { data: profile } = await server.db.profiles.get('alice');
+    assert.equal(profile?.display_name, 'alice');
+  });
+
+  it('updates the display name', async () => {
+    await server.request('GET', '/api/profile', { as: 'alice' });
+    assert.deepEqual((await server.request('PUT', '/api/profile', { as: 'alice', json: { displayName: 'Alice L.' } })).body, { success: true });
+    assert.equal((await server.request('GET', '/api/profile', { as: 'alice' })).body.displayName, 'Alice L.');
+  });
+
+  it('requires a token', async () => {
+    assert.equal((await server.request('GET', '/api/profile')).status, 401);
+    assert.equal((await server.request('PUT', '/api/profile', { json: { displayName: 'x' } })).status, 401);
+  });
+});
+
+describe('review', () => {
+  let server: TestServer;
+  beforeEach(async () => {
+    server = await startTestServer();
+
+    const deck = sampleDeck();
+    deck.cards = [
+      { id: 'due', front: 'Due', back: 'Yes', schedule: scheduleDueIn(-1) },
+      { id: 'later', front: 'Later', back: 'No', schedule: scheduleDueIn(5) },
+      { id: 'new', front: 'New', back: 'Maybe' },
+    ];
+    const quiz = sampleQuiz();
+    quiz.questions = [question('missed', { schedule: scheduleDueIn(-2) }), question('never-missed')];
+    const course = sampleCourse();
+    course.flashcards = [];
+    course.steps[0].test!.questions = [question('step-missed', { schedule: scheduleDueIn(0) })];
+
+    await server.request('POST', '/api/flashcard-decks', { as: 'alice', json: deck });
+    await server.request('POST', '/api/standalone-quizzes', { as: 'alice', json: quiz });
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: course });
+  });
+  afterEach(() => server.close());
+
+  it('queues due and new cards and missed questions across sources', async () => {
+    const response = await server.request('GET', '/api/review/due', { as: 'alice' });
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.map((item: { key: string }) => item.key).sort(),
+      ['deck:deck-1::due', 'deck:deck-1::new', 'quiz:quiz-1::missed', 'step-test:course-1:step-1:step-missed']
+    );
+
+    const limited = await server.request('GET', '/api/review/due?newLimit=0', { as: 'alice' });
+    assert.ok(!limited.body.some((item: { key: string }) => item.key === 'deck:deck-1::new'));
+
+    assert.deepEqual((await server.request('GET', '/api/review/due', { as: 'mallory' })).body, []);
+  });
+
+  it('writes a card review back to its deck', async () => {
+    const schedule = scheduleDueIn(10);
+    const response = await server.request('POST', '/api/flashcard-decks/deck-1/cards/new/review', { as: 'alice', json: { schedule } });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.card.schedule.dueDate, schedule.dueDate);
+
+    const [deck] = (await server.request('GET', '/api/flashcard-decks', { as: 'alice' })).body;
+    assert.equal(deck.cards.find((card: { id: string }) => card.id === 'new').schedule.interval, 3);
+  });
+
+  it('writes results back to quizzes and step tests', async () => {
+    const schedule = scheduleDueIn(4);
+    const quizResult = await server.request('POST', '/api/review/result', {
+      as: 'alice',
+      json: { source: { type: 'quiz', id: 'quiz-1' }, itemId: 'missed', schedule },
+    });
+    assert.equal(quizResult.status, 200);
+
+    const stepResult = await server.request('POST', '/api/review/result', {
+      as: 'alice',
+      json: { source: { type: 'step-test', id: 'course-1', stepId: 'step-1' }, itemId: 'step-missed', schedule },
+    });
+    assert.equal(stepResult.status, 200);
+
+    const keys = (await server.request('GET', '/api/review/due', { as: 'alice' })).body.map((item: { key: string }) => item.key);
+    assert.deepEqual(keys.sort(), ['deck:deck-1::due', 'deck:deck-1::new']);
+  });
+
+  it('rejects invalid schedules, missing sources and other users\' items', async () => {
+    const schedule = scheduleDueIn(1);
+    const review = (json: unknown, as = 'alice') => server.request('POST', '/api/review/result', { as, json });
+
+    assert.equal((await review({ source: { type: 'quiz', id: 'quiz-1' }, itemId: 'missed', schedule: { interval: 'x' } })).status, 400);
+    assert.equal((await review({ source: { type: 'quiz' }, itemId: 'missed', schedule })).status, 400);
+    assert.equal((await review({ source: { type: 'step-test', id: 'course-1' }, itemId: 'step-missed', schedule })).status, 400);
+    assert.equal((await review({ source: { type: 'poster', id: 'quiz-1' }, itemId: 'missed', schedule })).status, 400);
+    assert.equal((await review({ source: { type: 'quiz', id: 'quiz-1' }, itemId: 'nope', schedule })).status, 404);
+    assert.equal((await review({ source: { type: 'quiz', id: 'quiz-1' }, itemId: 'missed', schedule }, 'mallory')).status, 404);
+
+    const card = await server.request('POST', '/api/flashcard-decks/deck-1/cards/due/review', { as: 'mallory', json: { schedule } });
+    assert.equal(card.status, 404);
+  });
+});
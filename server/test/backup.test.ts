@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './harness.js';
+import { sampleCourse, sampleDeck, sampleMatchingGame, sampleQuiz } from './samples.js';
+import type { LibraryArchive } from '../../src/types/api.js';
+
+const PLUGINS = { 'dark-timer': { enabled: true, settings: { seconds: 30 } } };
+
+describe('library backup', () => {
+  let server: TestServer;
+  beforeEach(async () => { server = await startTestServer(); });
+  afterEach(() => server.close());
+
+  async function seed(userId: string) {
+    await server.request('POST', '/api/roadmaps', { as: userId, json: sampleCourse() });
+    await server.request('POST', '/api/flashcard-decks', {
+      as: userId,
+      json: { ...sampleDeck(), sourceType: 'course', sourceCourseId: 'course-1' },
+    });
+    await server.request('POST', '/api/standalone-quizzes', { as: userId, json: sampleQuiz() });
+    await server.request('PUT', '/api/standalone-quizzes/quiz-1', {
+      as: userId,
+      json: { ...sampleQuiz(), completed: true, score: 2, bestScore: 2, timesTaken: 3 },
+    });
+    await server.db.courseChunks.createMany(userId, [
+      { course_id: 'course-1', position: 0, source: 'notes.txt', heading: null, page_start: null, page_end: null, content: 'Leaves are green.' },
+    ]);
+  }
+
+  async function exportLibrary(userId: string) {
+    const response = await server.request('POST', '/api/export', { as: userId, json: { plugins: PLUGINS } });
+    assert.equal(response.status, 200, response.text);
+    assert.match(response.headers.get('content-disposition') || '', /attachment; filename="gvidtech-library-\d{4}-\d{2}-\d{2}\.json"/);
+    return response.body as LibraryArchive;
+  }
+
+  function upload(archive: unknown, mode?: string) {
+    const form = new FormData();
+    form.append('file', new Blob([JSON.stringify(archive)], { type: 'application/json' }), 'backup.json');
+    if (mode) form.append('mode', mode);
+    return form;
+  }
+
+  it('exports every content type with progress, sources and plugin state', async () => {
+    await seed('alice');
+    const archive = await exportLibrary('alice');
+
+    assert.equal(archive.format, 'gvidtech-library');
+    assert.equal(archive.version, 1);
+    assert.deepEqual(Object.keys(archive.content), ['course', 'flashcards', 'quiz', 'matching', 'word-scramble', 'fill-blank', 'crossword']);
+    assert.equal(archive.content.course?.[0].progress, 50);
+    assert.equal(archive.content.quiz?.[0].best_score, 2);
+    assert.equal(archive.content.quiz?.[0].times_taken, 3);
+    assert.ok(archive.content.course?.every(row => !('user_id' in row)));
+    assert.deepEqual(archive.sources.map(row => [row.course_id, row.source, 'id' in row]), [['course-1', 'notes.txt', false]]);
+    assert.deepEqual(archive.plugins, PLUGINS);
+  });
+
+  it('restores into another account under new ids, keeping course links', async () => {
+    await seed('alice');
+    const archive = await exportLibrary('alice');
+
+    const response = await server.request('POST', '/api/import', { as: 'bob', form: upload(archive) });
+    assert.equal(response.status, 200, response.text);
+    assert.deepEqual(response.body.imported, { course: 1, flashcards: 1, quiz: 1, matching: 0, 'word-scramble': 0, 'fill-blank': 0, crossword: 0 });
+    assert.equal(response.body.sources, 1);
+    assert.deepEqual(response.body.plugins, PLUGINS);
+
+    const [course] = (await server.request('GET', '/api/roadmaps', { as: 'bob' })).body;
+    assert.notEqual(course.id, 'course-1');
+    assert.equal(course.progress, 50);
+    assert.equal(course.steps[0].completed, true);
+    const [deck] = (await server.request('GET', '/api/flashcard-decks', { as: 'bob' })).body;
+    assert.equal(deck.sourceCourseId, course.id);
+    const [quiz] = (await server.request('GET', '/api/standalone-quizzes', { as: 'bob' })).body;
+    assert.equal(quiz.bestScore, 2);
+    const sources = (await server.request('GET', `/api/roadmaps/${course.id}/sources`, { as: 'bob' })).body;
+    assert.deepEqual(sources.map((source: { name: string }) => source.name), ['notes.txt']);
+
+    // The originals are untouched
+    assert.equal((await server.request('GET', '/api/roadmaps', { as: 'alice' })).body[0].id, 'course-1');
+  });
+
+  it('merges next to the library, or replaces it', async () => {
+    await seed('alice');
+    const archive = await exportLibrary('alice');
+    await server.request('POST', '/api/matching-games', { as: 'alice', json: sampleMatchingGame() });
+
+    await server.request('POST', '/api/import', { as: 'alice', form: upload(archive) });
+    assert.equal((await server.request('GET', '/api/roadmaps', { as: 'alice' })).body.length, 2);
+    assert.equal((await server.request('GET', '/api/matching-games', { as: 'alice' })).body.length, 1);
+
+    const response = await server.request('POST', '/api/import', { as: 'alice', form: upload(archive, 'replace') });
+    assert.equal(response.status, 200, response.text);
+    assert.equal((await server.request('GET', '/api/roadmaps', { as: 'alice' })).body.length, 1);
+    assert.deepEqual((await server.request('GET', '/api/matching-games', { as: 'alice' })).body, []);
+    assert.equal((await server.db.courseChunks.listByUser('alice')).data?.length, 1);
+  });
+
+  it('keeps the library as it was when a restore fails partway', async () => {
+    await seed('alice');
+    const archive = await exportLibrary('alice');
+    const before = await exportLibrary('alice');
+
+    // Courses and decks are written, then the first quiz fails
+    const create = server.db.quizzes.create;
+    server.db.quizzes.create = async () => ({ data: null, error: { message: 'disk full' } });
+    try {
+      const response = await server.request('POST', '/api/import', { as: 'alice', form: upload(archive, 'replace') });
+      assert.equal(response.status, 500);
+      assert.equal(response.body.error, 'disk full');
+    } finally {
+      server.db.quizzes.create = create;
+    }
+
+    const after = await exportLibrary('alice');
+    assert.deepEqual(after.content, before.content);
+    assert.deepEqual(after.sources, before.sources);
+  });
+
+  it('rejects files it cannot restore', async () => {
+    const archive = await exportLibrary('alice');
+    const cases: [unknown, string | undefined, RegExp][] = [
+      [{ hello: 'world' }, undefined, /Not a gvidtech backup/],
+      [{ ...archive, version: 2 }, undefined, /newer version/],
+      [{ ...archive, content: { course: [{ title: 'No id' }] } }, undefined, /has no id/],
+      [{ ...archive, content: { quiz: [{ id: 'quiz-1', title: 'Quiz', questions: 'none' }] } }, undefined, /quiz item in the backup is malformed/],
+      [{ ...archive, sources: [{ course_id: 'course-1', source: 'notes.txt' }] }, undefined, /sources are malformed/],
+      [{ ...archive, content: { course: [{ id: 'course-1', title: 'Too strict', pass_threshold: 1.5 }] } }, undefined, /course item in the backup is invalid: Pass thresholds/],
+      [archive, 'overwrite', /mode must be one of/],
+    ];
+    for (const [body, mode, message] of cases) {
+      const response = await server.request('POST', '/api/import', { as: 'alice', form: upload(body, mode) });
+      assert.equal(response.status, 400);
+      assert.match(response.body.error, message);
+    }
+    assert.equal((await server.request('POST', '/api/export', { as: 'alice', json: { plugins: '{}' } })).status, 400);
+  });
+
+  it('writes nothing from an archive with an item the API would refuse', async () => {
+    await seed('alice');
+    const archive = await exportLibrary('alice');
+    const before = await exportLibrary('alice');
+
+    // Everything but the second course's step is fine on its own
+    const course = { ...archive.content.course![0], id: 'course-2', steps: [{ id: 'step-1', title: 'Step', passThreshold: 0 }] };
+    const content = { ...archive.content, course: [...archive.content.course!, course] };
+    const response = await server.request('POST', '/api/import', { as: 'alice', form: upload({ ...archive, content }) });
+    assert.equal(response.status, 400);
+
+    const after = await exportLibrary('alice');
+    assert.deepEqual(after.content, before.content);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './harness.js';
+import { question, sampleCourse, sampleDeck, sampleMatchingGame, sampleQuiz } from './samples.js';
+import type { FlashcardSchedule } from '../../src/types/roadmap.js';
+
+const schedule: FlashcardSchedule = {
+  easeFactor: 2.5,
+  interval: 6,
+  repetitions: 2,
+  dueDate: '2026-02-01T00:00:00.000Z',
+  lastReviewed: '2026-01-26T00:00:00.000Z',
+  lastRating: 'good',
+};
+
+async function share(server: TestServer, as: string, contentType: string, contentId: string, title = 'Shared') {
+  const response = await server.request('POST', '/api/community/share', {
+    as,
+    json: { contentType, contentId, title, description: `${title} description`, meta: { count: 2 } },
+  });
+  assert.equal(response.status, 200, response.text);
+  return response.body.id as string;
+}
+
+// The clone as the cloning user will see it in their library
+async function cloneAndFetch(server: TestServer, sharedId: string, as: string, path: string) {
+  const cloned = await server.request('GET', `/api/community/${sharedId}/clone`, { as });
+  assert.equal(cloned.status, 200, cloned.text);
+  assert.equal(cloned.body.success, true);
+  const items = (await server.request('GET', path, { as })).body;
+  return items.find((item: { id: string }) => item.id === cloned.body.id);
+}
+
+describe('community', () => {
+  let server: TestServer;
+  beforeEach(async () => {
+    server = await startTestServer();
+    await server.db.profiles.create({ id: 'alice', display_name: 'Alice' });
+  });
+  afterEach(() => server.close());
+
+  it('lists shared items with author names, filters and search', async () => {
+    await server.request('POST', '/api/flashcard-decks', { as: 'alice', json: sampleDeck() });
+    await server.request('POST', '/api/standalone-quizzes', { as: 'bob', json: sampleQuiz() });
+    await share(server, 'alice', 'flashcards', 'deck-1', 'Cells');
+    await share(server, 'bob', 'quiz', 'quiz-1', 'Capitals');
+
+    const all = (await server.request('GET', '/api/community', { as: 'carol' })).body;
+    assert.equal(all.length, 2);
+    const deck = all.find((item: { contentType: string }) => item.contentType === 'flashcards');
+    assert.equal(deck.authorName, 'Alice');
+    assert.equal(deck.authorId, 'alice');
+    assert.deepEqual(deck.meta, { count: 2 });
+    assert.equal(all.find((item: { contentType: string }) => item.contentType === 'quiz').authorName, 'Anonymous');
+
+    const quizzes = (await server.request('GET', '/api/community?type=quiz', { as: 'carol' })).body;
+    assert.deepEqual(quizzes.map((item: { title: string }) => item.title), ['Capitals']);
+
+    const search = (await server.request('GET', '/api/community?q=cell', { as: 'carol' })).body;
+    assert.deepEqual(search.map((item: { title: string }) => item.title), ['Cells']);
+
+    assert.equal((await server.request('GET', '/api/community')).status, 401);
+  });
+
+  it('counts likes once per user and sorts by popularity', async () => {
+    const first = await share(server, 'alice', 'flashcards', 'deck-1', 'First');
+    const second = await share(server, 'alice', 'flashcards', 'deck-2', 'Second');
+
+    assert.equal((await server.request('POST', `/api/community/${second}/like`, { as: 'bob' })).body.likes, 1);
+    assert.equal((await server.request('POST', `/api/community/${second}/like`, { as: 'bob' })).body.likes, 1);
+    assert.equal((await server.request('POST', `/api/community/${second}/like`, { as: 'carol' })).body.likes, 2);
+
+    const popular = (await server.request('GET', '/api/community?sort=popular', { as: 'bob' })).body;
+    assert.deepEqual(popular.map((item: { id: string }) => item.id), [second, first]);
+    assert.deepEqual(popular.map((item: { hasLiked: boolean }) => item.hasLiked), [true, false]);
+    assert.equal(popular[0].likes, 2);
+
+    assert.equal((await server.request('DELETE', `/api/community/${second}/like`, { as: 'bob' })).body.likes, 1);
+    assert.equal((await server.request('DELETE', `/api/community/${second}/like`, { as: 'bob' })).body.likes, 1);
+  });
+
+  it('404s when cloning something that is not shared or no longer exists', async () => {
+    assert.equal((await server.request('GET', '/api/community/missing/clone', { as: 'bob' })).status, 404);
+
+    const sharedId = await share(server, 'alice', 'flashcards', 'deleted-deck');
+    const response = await server.request('GET', `/api/community/${sharedId}/clone`, { as: 'bob' });
+    assert.equal(response.status, 404);
+    assert.deepEqual(response.body, { error: 'Original content not found' });
+  });
+
+  describe('clone', () => {
+    it('resets course progress, tasks, test results and review schedules', async () => {
+      const course = sampleCourse();
+      course.flashcards = [{ id: 'f1', front: 'Chlorophyll', back: 'Green pigment', schedule }];
+      course.steps[0].test!.questions[0].schedule = schedule;
+      Object.assign(course.steps[0], { testResults: [true, false], testScore: 1 });
+      await server.request('POST', '/api/roadmaps', { as: 'alice', json: course });
+      const sharedId = await share(server, 'alice', 'course', course.id);
+
+      const clone = await cloneAndFetch(server, sharedId, 'bob', '/api/roadmaps');
+      assert.notEqual(clone.id, course.id);
+      assert.equal(clone.title, course.title);
+      assert.equal(clone.progress, 0);
+      assert.equal(clone.originalPrompt, undefined);
+      assert.equal(clone.steps[0].tasks[0].completed, false);
+      assert.equal(clone.steps[0].testResults, undefined);
+      assert.equal(clone.steps[0].testScore, undefined);
+      assert.equal(clone.steps[0].test.questions[0].schedule, undefined);
+      assert.equal(clone.flashcards[0].schedule, undefined);
+      assert.equal(clone.flashcards[0].front, 'Chlorophyll');
+
+      // The original is untouched and still only alice's
+      const [original] = (await server.request('GET', '/api/roadmaps', { as: 'alice' })).body;
+      assert.equal(original.progress, 50);
+      assert.equal(original.flashcards[0].schedule.interval, 6);
+    });
+
+    it('resets quiz results and answers', async () => {
+      const quiz = sampleQuiz();
+      const answered = { ...question('q2'), userAnswer: 2, isCorrect: false };
+      quiz.questions = [question('q1', { schedule }), answered];
+      await server.request('POST', '/api/standalone-quizzes', { as: 'alice', json: quiz });
+      await server.request('PUT', `/api/standalone-quizzes/${quiz.id}`, {
+        as: 'alice',
+        json: { ...quiz, completed: true, score: 1, totalQuestions: 2, bestScore: 2, timesTaken: 4 },
+      });
+      const sharedId = await share(server, 'alice', 'quiz', quiz.id);
+
+      const clone = await cloneAndFetch(server, sharedId, 'bob', '/api/standalone-quizzes');
+      assert.equal(clone.completed, false);
+      assert.equal(clone.score, undefined);
+      assert.equal(clone.bestScore, undefined);
+      assert.equal(clone.timesTaken, 0);
+      assert.equal(clone.totalQuestions, 2, 'the question count is not a result');
+      assert.deepEqual(clone.questions, [question('q1'), question('q2')]);
+    });
+
+    it('resets deck schedules and the course link', async () => {
+      const deck = { ...sampleDeck(), sourceType: 'course' as const, sourceCourseId: 'course-1' };
+      deck.cards[0].schedule = schedule;
+      await server.request('POST', '/api/flashcard-decks', { as: 'alice', json: deck });
+      const sharedId = await share(server, 'alice', 'flashcards', deck.id);
+
+      const clone = await cloneAndFetch(server, sharedId, 'bob', '/api/flashcard-decks');
+      assert.equal(clone.sourceType, 'standalone');
+      assert.equal(clone.sourceCourseId, undefined);
+      assert.equal(clone.cards[0].schedule, undefined);
+    });
+
+    it('resets game records', async () => {
+      const game = sampleMatchingGame();
+      await server.request('POST', '/api/matching-games', { as: 'alice', json: game });
+      await server.request('PUT', `/api/matching-games/${game.id}`, { as: 'alice', json: { ...game, bestTime: 12, timesPlayed: 5 } });
+      const sharedId = await share(server, 'alice', 'matching', game.id);
+
+      const clone = await cloneAndFetch(server, sharedId, 'bob', '/api/matching-games');
+      assert.equal(clone.bestTime, undefined);
+      assert.equal(clone.timesPlayed, 0);
+      assert.deepEqual(clone.pairs, game.pairs);
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './harness.js';
+import {
+  sampleCourse,
+  sampleCrossword,
+  sampleDeck,
+  sampleFillBlank,
+  sampleMatchingGame,
+  sampleQuiz,
+  sampleWordScramble,
+} from './samples.js';
+
+const RESOURCES = [
+  { path: '/api/roadmaps', responseKey: 'roadmap', type: 'course', item: sampleCourse() },
+  { path: '/api/flashcard-decks', responseKey: 'deck', type: 'flashcards', item: sampleDeck() },
+  { path: '/api/standalone-quizzes', responseKey: 'quiz', type: 'quiz', item: sampleQuiz() },
+  { path: '/api/matching-games', responseKey: 'game', type: 'matching', item: sampleMatchingGame() },
+  { path: '/api/word-scramble-games', responseKey: 'game', type: 'word-scramble', item: sampleWordScramble() },
+  { path: '/api/fill-blank-games', responseKey: 'game', type: 'fill-blank', item: sampleFillBlank() },
+  { path: '/api/crossword-games', responseKey: 'game', type: 'crossword', item: sampleCrossword() },
+];
+
+describe('content CRUD', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  for (const { path, responseKey, type, item } of RESOURCES) {
+    describe(path, () => {
+      it('requires a valid token', async () => {
+        assert.equal((await server.request('GET', path)).status, 401);
+        assert.equal((await server.request('GET', path, { as: 'invalid' })).status, 401);
+      });
+
+      it('creates, lists, updates and deletes for the owner', async () => {
+        const created = await server.request('POST', path, { as: 'alice', json: item });
+        assert.equal(created.status, 200);
+        assert.deepEqual(created.body, { success: true, [responseKey]: item });
+
+        const listed = await server.request('GET', path, { as: 'alice' });
+        assert.equal(listed.status, 200);
+        assert.equal(listed.body.length, 1);
+        assert.equal(listed.body[0].id, item.id);
+        assert.equal(listed.body[0].title, item.title);
+
+        const updated = await server.request('PUT', `${path}/${item.id}`, { as: 'alice', json: { ...item, title: 'Updated' } });
+        assert.equal(updated.status, 200);
+        assert.equal((await server.request('GET', path, { as: 'alice' })).body[0].title, 'Updated');
+
+        const renamed = await server.request('PATCH', `/api/content/${type}/${item.id}/rename`, { as: 'alice', json: { title: '  Renamed  ' } });
+        assert.deepEqual(renamed.body, { success: true });
+        assert.equal((await server.request('GET', path, { as: 'alice' })).body[0].title, 'Renamed');
+      });
+
+      it('hides, and refuses to change, another user\'s item', async () => {
+        assert.deepEqual((await server.request('GET', path, { as: 'mallory' })).body, []);
+
+        await server.request('PUT', `${path}/${item.id}`, { as: 'mallory', json: { ...item, title: 'Hijacked' } });
+        await server.request('PATCH', `/api/content/${type}/${item.id}/rename`, { as: 'mallory', json: { title: 'Hijacked' } });
+        await server.request('DELETE', `${path}/${item.id}`, { as: 'mallory' });
+
+        const listed = await server.request('GET', path, { as: 'alice' });
+        assert.equal(listed.body.length, 1);
+        assert.equal(listed.body[0].title, 'Renamed');
+      });
+
+      it('deletes for the owner', async () => {
+        const deleted = await server.request('DELETE', `${path}/${item.id}`, { as: 'alice' });
+        assert.deepEqual(deleted.body, { success: true });
+        assert.deepEqual((await server.request('GET', path, { as: 'alice' })).body, []);
+      });
+    });
+  }
+
+  it('maps course rows back to the client shape', async () => {
+    const course = sampleCourse('course-shape');
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: course });
+    const [listed] = (await server.request('GET', '/api/roadmaps', { as: 'alice' })).body;
+
+    assert.equal(listed.totalSteps, 2);
+    assert.equal(listed.progress, 50);
+    assert.equal(listed.originalPrompt, 'teach me photosynthesis');
+    assert.deepEqual(listed.steps, course.steps);
+    assert.deepEqual(listed.flashcards, course.flashcards);
+  });
+
+  it('stores the course pass threshold and clears it when unset', async () => {
+    const course = { ...sampleCourse('course-threshold'), passThreshold: 0.8 };
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: course });
+    const find = async () =>
+      (await server.request('GET', '/api/roadmaps', { as: 'alice' })).body.find((c: { id: string }) => c.id === course.id);
+    assert.equal((await find()).passThreshold, 0.8);
+
+    await server.request('PUT', `/api/roadmaps/${course.id}`, { as: 'alice', json: { ...course, passThreshold: undefined } });
+    assert.equal((await find()).passThreshold, undefined);
+  });
+
+  it('rejects pass thresholds outside (0, 1] for the course and its steps', async () => {
+    const course = { ...sampleCourse('course-bad-threshold'), passThreshold: 0.7 };
+    assert.equal((await server.request('POST', '/api/roadmaps', { as: 'alice', json: course })).status, 200);
+
+    for (const passThreshold of [0, -0.5, 1.5, 70, '0.7']) {
+      const invalid = await server.request('PUT', `/api/roadmaps/${course.id}`, { as: 'alice', json: { ...course, passThreshold } });
+      assert.equal(invalid.status, 400, `course threshold ${passThreshold}`);
+      const steps = course.steps.map((step, index) => (index === 1 ? { ...step, passThreshold } : step));
+      const invalidStep = await server.request('PUT', `/api/roadmaps/${course.id}`, { as: 'alice', json: { ...course, steps } });
+      assert.equal(invalidStep.status, 400, `step threshold ${passThreshold}`);
+    }
+    const created = await server.request('POST', '/api/roadmaps', { as: 'alice', json: { ...sampleCourse('course-zero'), passThreshold: 0 } });
+    assert.equal(created.status, 400);
+
+    const listed = (await server.request('GET', '/api/roadmaps', { as: 'alice' })).body;
+    assert.ok(!listed.some((c: { id: string }) => c.id === 'course-zero'));
+    const saved = listed.find((c: { id: string }) => c.id === course.id);
+    assert.equal(saved.passThreshold, 0.7);
+    assert.deepEqual(saved.steps, course.steps);
+
+    const steps = course.steps.map(step => ({ ...step, passThreshold: 1 }));
+    assert.equal((await server.request('PUT', `/api/roadmaps/${course.id}`, { as: 'alice', json: { ...course, steps } })).status, 200);
+  });
+
+  it('keeps quiz results across updates', async () => {
+    const quiz = sampleQuiz('quiz-results');
+    await server.request('POST', '/api/standalone-quizzes', { as: 'alice', json: quiz });
+    await server.request('PUT', `/api/standalone-quizzes/${quiz.id}`, {
+      as: 'alice',
+      json: { ...quiz, completed: true, score: 1, totalQuestions: 2, bestScore: 2, timesTaken: 3 },
+    });
+
+    const [listed] = (await server.request('GET', '/api/standalone-quizzes', { as: 'alice' })).body;
+    assert.equal(listed.completed, true);
+    assert.equal(listed.score, 1);
+    assert.equal(listed.totalQuestions, 2);
+    assert.equal(listed.bestScore, 2);
+    assert.equal(listed.timesTaken, 3);
+  });
+});
+
+describe('rename', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer();
+    await server.request('POST', '/api/flashcard-decks', { as: 'alice', json: sampleDeck() });
+  });
+  after(() => server.close());
+
+  for (const title of [undefined, '', '   ']) {
+    it(`rejects the title ${JSON.stringify(title)}`, async () => {
+      const response = await server.request('PATCH', '/api/content/flashcards/deck-1/rename', { as: 'alice', json: { title } });
+      assert.equal(response.status, 400);
+      assert.deepEqual(response.body, { error: 'Title is required' });
+    });
+  }
+
+  it('rejects an unknown content type', async () => {
+    const response = await server.request('PATCH', '/api/content/poster/deck-1/rename', { as: 'alice', json: { title: 'New' } });
+    assert.equal(response.status, 400);
+    assert.deepEqual(response.body, { error: 'Invalid content type' });
+  });
+
+  it('requires a token', async () => {
+    const response = await server.request('PATCH', '/api/content/flashcards/deck-1/rename', { json: { title: 'New' } });
+    assert.equal(response.status, 401);
+  });
+});
+
+describe('course steps', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer();
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: sampleCourse() });
+  });
+  after(() => server.close());
+
+  it('returns one step of the owner\'s course', async () => {
+    const response = await server.request('GET', '/api/roadmaps/course-1/steps/step-2', { as: 'alice' });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.title, 'Sugar');
+  });
+
+  it('404s for a missing step or someone else\'s course', async () => {
+    assert.equal((await server.request('GET', '/api/roadmaps/course-1/steps/step-9', { as: 'alice' })).status, 404);
+    assert.equal((await server.request('GET', '/api/roadmaps/course-1/steps/step-1', { as: 'mallory' })).status, 404);
+  });
+
+  it('exports a step test as GIFT', async () => {
+    const response = await server.download('/api/roadmaps/course-1/steps/step-1/test/export/gift', 'alice');
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-disposition') || '', /Photosynthesis - Light\.gift\.txt/);
+    assert.match(response.data.toString('utf-8'), /Question s1\?/);
+
+    assert.equal((await server.download('/api/roadmaps/course-1/steps/step-2/test/export/gift', 'alice')).status, 404);
+    assert.equal((await server.download('/api/roadmaps/course-1/steps/step-1/test/export/gift', 'mallory')).status, 404);
+  });
+});
+
+describe('file formats', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer();
+    await server.request('POST', '/api/flashcard-decks', { as: 'alice', json: sampleDeck() });
+    await server.request('POST', '/api/standalone-quizzes', { as: 'alice', json: sampleQuiz() });
+  });
+  after(() => server.close());
+
+  it('round-trips a deck through Anki', async () => {
+    const exported = await server.download('/api/flashcard-decks/deck-1/export/anki', 'alice');
+    assert.equal(exported.status, 200);
+    assert.match(exported.headers.get('content-disposition') || '', /Cell biology\.apkg/);
+
+    const form = new FormData();
+    form.append('file', new Blob([exported.data]), 'deck.apkg');
+    const imported = await server.request('POST', '/api/flashcard-decks/import/anki', { as: 'alice', form });
+    assert.equal(imported.status, 200);
+    assert.equal(imported.body.decks.length, 1);
+    assert.deepEqual(
+      imported.body.decks[0].cards.map((card: { front: string; back: string }) => [card.front, card.back]),
+      [['Mitochondria', 'Powerhouse'], ['Ribosome', 'Makes proteins']]
+    );
+  });
+
+  it('rejects an upload that is not an Anki package', async () => {
+    const form = new FormData();
+    form.append('file', new Blob(['not a zip']), 'deck.apkg');
+    const response = await server.request('POST', '/api/flashcard-decks/import/anki', { as: 'alice', form });
+    assert.equal(response.status, 400);
+
+    const missing = await server.request('POST', '/api/flashcard-decks/import/anki', { as: 'alice', form: new FormData() });
+    assert.deepEqual(missing.body, { error: 'No file uploaded' });
+  });
+
+  for (const format of ['qti', 'gift']) {
+    it(`round-trips a quiz through ${format}`, async () => {
+      const exported = await server.download(`/api/standalone-quizzes/quiz-1/export/${format}`, 'alice');
+      assert.equal(exported.status, 200);
+
+      const form = new FormData();
+      form.append('file', new Blob([exported.data]), format === 'qti' ? 'quiz.zip' : 'quiz.gift.txt');
+      const imported = await server.request('POST', '/api/standalone-quizzes/import', { as: 'alice', form });
+      assert.equal(imported.status, 200);
+      assert.deepEqual(
+        imported.body.quiz.questions.map((q: { question: string; correctAnswer: number }) => [q.question, q.correctAnswer]),
+        [['Question q1?', 1], ['Question q2?', 1]]
+      );
+    });
+  }
+
+  it('rejects unknown export formats and other users\' quizzes', async () => {
+    assert.equal((await server.download('/api/standalone-quizzes/quiz-1/export/docx', 'alice')).status, 400);
+    assert.equal((await server.download('/api/standalone-quizzes/quiz-1/export/gift', 'mallory')).status, 404);
+    assert.equal((await server.download('/api/flashcard-decks/deck-1/export/anki', 'mallory')).status, 404);
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { startTestServer, type TestServer } from './harness.js';
+import { parseDelimited, readableHtml, readEpub, readPptx, readXlsx, twoColumnPairs } from '../lib/extractors.js';
+import { chunkUploads } from '../lib/files.js';
+
+async function zip(files: Record<string, string>) {
+  const archive = new JSZip();
+  for (const [path, content] of Object.entries(files)) archive.file(path, content);
+  return archive.generateAsync({ type: 'nodebuffer' });
+}
+
+const rels = (targets: Record<string, string>) => `<?xml version="1.0"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${Object.entries(targets).map(([id, target]) => `<Relationship Id="${id}" Type="x" Target="${target}"/>`).join('\n')}
+</Relationships>`;
+
+const shape = (type: string | null, ...lines: string[]) => `<p:sp>
+  <p:nvSpPr><p:nvPr>${type ? `<p:ph type="${type}"/>` : ''}</p:nvPr></p:nvSpPr>
+  <p:txBody>${lines.map(line => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`).join('')}</p:txBody>
+</p:sp>`;
+
+const slide = (attributes: string, ...shapes: string[]) =>
+  `<p:sld xmlns:p="p" xmlns:a="a"${attributes}><p:cSld><p:spTree>${shapes.join('')}</p:spTree></p:cSld></p:sld>`;
+
+function pptx() {
+  return zip({
+    'ppt/presentation.xml': '<p:presentation xmlns:p="p" xmlns:r="r"><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/><p:sldId id="258" r:id="rId4"/></p:sldIdLst></p:presentation>',
+    'ppt/_rels/presentation.xml.rels': rels({ rId2: 'slides/slide2.xml', rId3: 'slides/slide1.xml', rId4: 'slides/slide3.xml' }),
+    'ppt/slides/slide1.xml': slide('', shape('ctrTitle', 'Photosynthesis'), shape('subTitle', 'Biology 101'), shape('sldNum', '1')),
+    'ppt/slides/slide2.xml': slide('', shape('title', 'Light &amp; Chlorophyll'), shape(null, 'Chlorophyll absorbs red and blue light', 'Green is reflected')),
+    'ppt/slides/_rels/slide2.xml.rels': rels({ rId1: '../notesSlides/notesSlide7.xml' }),
+    'ppt/notesSlides/notesSlide7.xml': slide('', shape('sldImg'), shape('body', 'Ask why leaves are green.'), shape('sldNum', '2')),
+    'ppt/slides/slide3.xml': slide(' show="0"', shape('title', 'Backup slide')),
+  });
+}
+
+function epub() {
+  return zip({
+    'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>',
+    'OEBPS/content.opf': `<package xmlns:dc="dc"><metadata><dc:title>Plants</dc:title></metadata>
+      <manifest>
+        <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+        <item id="c2" href="text/chapter%202.xhtml" media-type="application/xhtml+xml"/>
+        <item id="c1" href="text/chapter1.xhtml" media-type="application/xhtml+xml"/>
+      </manifest>
+      <spine><itemref idref="cover" linear="no"/><itemref idref="c1"/><itemref idref="c2"/></spine></package>`,
+    'OEBPS/cover.xhtml': '<html><body><p>Cover art</p></body></html>',
+    'OEBPS/text/chapter1.xhtml': '<html><head><title>One</title></head><body><header><h1>Chapter 1: Leaves</h1></header><p>Leaves hold the\n   chloroplasts.</p></body></html>',
+    'OEBPS/text/chapter 2.xhtml': '<html><body><h1>Chapter 2: Roots</h1><p>Roots take up water.</p></body></html>',
+  });
+}
+
+const cell = (reference: string, attributes: string, value: string) => `<c r="${reference}"${attributes}>${value}</c>`;
+
+// The second sheet has a third column, so the workbook as a whole is not a term list
+function xlsx({ numbers = true } = {}) {
+  return zip({
+    'xl/workbook.xml': `<workbook xmlns:r="r"><sheets><sheet name="Vocab" sheetId="1" r:id="rId1"/>${numbers ? '<sheet name="Numbers" sheetId="2" r:id="rId2"/>' : ''}</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': rels({ rId1: 'worksheets/sheet1.xml', rId2: '/xl/worksheets/sheet2.xml' }),
+    'xl/sharedStrings.xml': '<sst><si><t>Term</t></si><si><t>Definition</t></si><si><r><t>la </t></r><r><t>hoja</t></r><rPh><t>ignored</t></rPh></si><si><t>the leaf</t></si></sst>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+      <row r="1">${cell('A1', ' t="s"', '<v>0</v>')}${cell('B1', ' t="s"', '<v>1</v>')}</row>
+      <row r="2">${cell('A2', ' t="s"', '<v>2</v>')}${cell('B2', ' t="s"', '<v>3</v>')}</row>
+      <row r="3">${cell('A3', ' t="inlineStr"', '<is><t>la raíz &amp; el tallo</t></is>')}${cell('B3', ' t="inlineStr"', '<is><t>root &amp; stem</t></is>')}</row>
+    </sheetData></worksheet>`,
+    'xl/worksheets/sheet2.xml': `<worksheet><sheetData>
+      <row r="1">${cell('A1', '', '<v>1.5</v>')}${cell('C1', ' t="b"', '<v>1</v>')}</row>
+    </sheetData></worksheet>`,
+  });
+}
+
+const file = (originalname: string, buffer: Buffer, mimetype = 'application/octet-stream') =>
+  ({ originalname, buffer, mimetype, size: buffer.length });
+
+describe('document extraction', () => {
+  it('reads slides in presentation order with their speaker notes', async () => {
+    const text = await readPptx(await pptx());
+    assert.equal(text, [
+      '# Slide 1: Photosynthesis',
+      'Biology 101',
+      '# Slide 2: Light & Chlorophyll',
+      'Chlorophyll absorbs red and blue light\nGreen is reflected',
+      'Speaker notes:\nAsk why leaves are green.',
+    ].join('\n\n'));
+  });
+
+  it('reads EPUB chapters in spine order', async () => {
+    const text = await readEpub(await epub());
+    assert.equal(text, '# Chapter 1: Leaves\n\nLeaves hold the chloroplasts.\n\n# Chapter 2: Roots\n\nRoots take up water.');
+  });
+
+  it('keeps the readable body of a web page', () => {
+    const page = `<html><head><title>x</title><style>p { color: red }</style></head><body>
+      <nav><a href="/">Home</a></nav>
+      <h1>Photosynthesis <small>overview</small></h1>
+      <p>Plants make sugar&nbsp;from light &#8212; and water.</p><script>track()</script>
+      <footer>© Example</footer></body></html>`;
+    assert.equal(readableHtml(page), '# Photosynthesis overview\n\nPlants make sugar from light — and water.');
+    assert.equal(readableHtml('<body><nav>Menu</nav><main><p>Only this</p></main></body>'), 'Only this');
+  });
+
+  it('reads every sheet of a workbook', async () => {
+    const sheets = await readXlsx(await xlsx());
+    assert.deepEqual(sheets, [
+      { name: 'Vocab', rows: [['Term', 'Definition'], ['la hoja', 'the leaf'], ['la raíz & el tallo', 'root & stem']] },
+      { name: 'Numbers', rows: [['1.5', '', 'TRUE']] },
+    ]);
+  });
+
+  it('parses quoted CSV fields and detects semicolons', () => {
+    assert.deepEqual(parseDelimited('\uFEFFterm,definition\r\n"a, b","say ""hi""\nthere"\n'), [
+      ['term', 'definition'],
+      ['a, b', 'say "hi"\nthere'],
+    ]);
+    assert.deepEqual(parseDelimited('x;y\n1;2'), [['x', 'y'], ['1', '2']]);
+    assert.deepEqual(parseDelimited('x\ty\n1\t2', '\t'), [['x', 'y'], ['1', '2']]);
+  });
+
+  it('takes term lists only from two-column sheets', () => {
+    const list = twoColumnPairs([{ name: 'Vocab', rows: [['Spanish words'], ['Term', 'Definition'], ['hoja', 'leaf', ''], [], ['raíz', 'root']] }]);
+    assert.deepEqual(list, [{ term: 'hoja', definition: 'leaf' }, { term: 'raíz', definition: 'root' }]);
+    assert.equal(twoColumnPairs([{ name: 'x', rows: [['a', 'b', 'c'], ['d', 'e']] }]), null);
+    assert.equal(twoColumnPairs([{ name: 'x', rows: [['a', 'b']] }]), null);
+  });
+
+  it('chunks slides and workbooks by section', async () => {
+    const chunks = await chunkUploads([
+      file('lecture.pptx', await pptx()),
+      file('vocab.xlsx', await xlsx()),
+      file('page.html', Buffer.from('<h2>Leaves</h2><p>Green.</p>'), 'text/html'),
+    ]);
+    assert.deepEqual(chunks.map(chunk => [chunk.source, chunk.heading]), [
+      ['lecture.pptx', 'Slide 1: Photosynthesis'],
+      ['vocab.xlsx', 'Vocab'],
+      ['page.html', 'Leaves'],
+    ]);
+    assert.match(chunks[1].content, /la hoja \| the leaf/);
+  });
+});
+
+describe('spreadsheet imports', () => {
+  let server: TestServer;
+  beforeEach(async () => { server = await startTestServer(); });
+  afterEach(() => server.close());
+
+  function form(name: string, content: string | Buffer, prompt = '') {
+    const data = new FormData();
+    data.append('prompt', prompt);
+    data.append('files', new Blob([content], { type: 'text/csv' }), name);
+    return data;
+  }
+
+  it('turns a two-column spreadsheet into flashcards without the model', async () => {
+    const response = await server.request('POST', '/api/generate-flashcards', { as: 'alice', form: form('vocab.xlsx', await xlsx({ numbers: false })) });
+    assert.equal(response.status, 200, response.text);
+    assert.equal(response.body.title, 'vocab');
+    assert.deepEqual(response.body.cards.map((card: { front: string; back: string }) => [card.front, card.back]), [
+      ['la hoja', 'the leaf'],
+      ['la raíz & el tallo', 'root & stem'],
+    ]);
+    assert.deepEqual(server.llmCalls, []);
+    assert.equal((await server.db.generations.count('alice')).count, 0);
+  });
+
+  it('turns a two-column CSV into a matching game and drops repeats', async () => {
+    const csv = 'hoja,leaf\nraíz,root\nHoja,sheet\ntallo,stem\n';
+    const response = await server.request('POST', '/api/generate-matching-game', { as: 'alice', form: form('words.csv', csv, 'Plant words') });
+    assert.equal(response.status, 200, response.text);
+    assert.equal(response.body.title, 'Plant words');
+    assert.deepEqual(response.body.pairs.map((pair: { question: string }) => pair.question), ['hoja', 'raíz', 'tallo']);
+    assert.deepEqual(server.llmCalls, []);
+  });
+
+  it('generates as usual from wider spreadsheets', async () => {
+    const response = await server.request('POST', '/api/generate-flashcards', { as: 'alice', form: form('table.csv', 'a,b,c\n1,2,3\n') });
+    assert.equal(response.status, 200);
+    assert.deepEqual(server.llmCalls, ['generate-flashcards']);
+    assert.match(server.llmPrompts[0].text, /a \| b \| c\n1 \| 2 \| 3/);
+  });
+});
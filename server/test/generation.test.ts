@@ -0,0 +1,306 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, parseEvents, type ResponseBody, type TestServer } from './harness.js';
+import { createGeneration } from '../lib/generation.js';
+import { DAILY_GENERATION_LIMIT } from '../middleware/rateLimit.js';
+import type { GetModel } from '../types.js';
+import type { CourseStep } from '../../src/types/roadmap.js';
+import { sampleCourse } from './samples.js';
+
+const course = sampleCourse();
+const step = course.steps[1];
+const material = { id: 'mat-2-1', title: 'Colour', type: 'reading' as const, content: 'Leaves are green.' };
+
+// Routes behind checkRateLimit, with the generation type each one records
+const COUNTED_ROUTES = [
+  { path: '/api/generate-roadmap', type: 'course', check: (body: ResponseBody) => assert.ok(body.roadmap.steps[0].detailsLoaded) },
+  { path: '/api/generate-flashcards', type: 'flashcards', check: (body: ResponseBody) => assert.ok(body.cards.length > 0) },
+  { path: '/api/generate-standalone-quiz', type: 'quiz', check: (body: ResponseBody) => assert.ok(body.questions.length > 0) },
+  { path: '/api/generate-matching-game', type: 'matching', check: (body: ResponseBody) => assert.ok(body.pairs.length > 0) },
+  { path: '/api/generate-word-scramble', type: 'word_scramble', check: (body: ResponseBody) => assert.ok(body.words.length > 0) },
+  { path: '/api/generate-fill-blank', type: 'fill_blank', check: (body: ResponseBody) => assert.ok(body.sentences.length > 0) },
+  { path: '/api/generate-crossword', type: 'crossword', check: (body: ResponseBody) => assert.ok(body.clues.length > 0 && body.gridSize > 0) },
+];
+
+// Follow-up generations inside existing content; these are free
+const UNCOUNTED_ROUTES = [
+  { path: '/api/generate-step-details', body: { step, courseTitle: course.title }, check: (body: ResponseBody) => assert.ok(body.tasks.length > 0 && body.materials.length > 0) },
+  { path: '/api/generate-test', body: { step, courseTitle: course.title }, check: (body: ResponseBody) => assert.equal(body.id, `test-${step.id}`) },
+  { path: '/api/generate-step', body: { courseTitle: course.title, steps: course.steps, position: 1 }, check: (body: ResponseBody) => assert.ok(body.step.title && body.step.description) },
+  { path: '/api/regenerate-material', body: { step: { ...step, materials: [material] }, courseTitle: course.title, material }, check: (body: ResponseBody) => assert.equal(body.material.id, material.id) },
+  { path: '/api/regenerate-question', body: { step: course.steps[0], courseTitle: course.title, question: course.steps[0].test!.questions[0] }, check: (body: ResponseBody) => assert.equal(body.question.id, 's1') },
+  { path: '/api/generate-image', body: { prompt: 'plants' }, check: (body: ResponseBody) => assert.ok(body.gradient || body.imageUrl) },
+  { path: '/api/generate-course-flashcards', body: { courseTitle: course.title, courseDescription: course.description, steps: course.steps }, check: (body: ResponseBody) => assert.ok(body.cards.length > 0) },
+  { path: '/api/generate-step-flashcards', body: { stepTitle: step.title, stepDescription: step.description, materials: [] }, check: (body: ResponseBody) => assert.ok(body.flashcards.length > 0) },
+  { path: '/api/generate-step-matching-game', body: { stepTitle: step.title, stepDescription: step.description, materials: [] }, check: (body: ResponseBody) => assert.ok(body.pairs.length > 0) },
+  { path: '/api/generate-course-matching-game', body: { courseTitle: course.title, courseDescription: course.description, steps: course.steps }, check: (body: ResponseBody) => assert.ok(body.pairs.length > 0) },
+  { path: '/api/modify-plugin-code', body: { code: 'export default {}', prompt: 'add a button' }, check: (body: ResponseBody) => assert.equal(typeof body.code, 'string') },
+];
+
+async function generationCount(server: TestServer, userId: string) {
+  return (await server.db.generations.count(userId)).count;
+}
+
+describe('generation routes', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  for (const { path, type, check } of COUNTED_ROUTES) {
+    it(`${path} answers from the model and records a "${type}" generation`, async () => {
+      const before = await generationCount(server, 'alice');
+      const response = await server.request('POST', path, { as: 'alice', json: { prompt: 'photosynthesis' } });
+      assert.equal(response.status, 200, response.text);
+      check(response.body);
+
+      assert.equal(await generationCount(server, 'alice'), before + 1);
+      const { data: profile } = await server.db.profiles.get('alice');
+      assert.equal(profile, null, 'generating does not create a profile');
+    });
+  }
+
+  for (const { path, body, check } of UNCOUNTED_ROUTES) {
+    it(`${path} answers without counting against the limit`, async () => {
+      const before = await generationCount(server, 'bob');
+      const response = await server.request('POST', path, { as: 'bob', json: body });
+      assert.equal(response.status, 200, response.text);
+      check(response.body);
+      assert.equal(await generationCount(server, 'bob'), before);
+    });
+  }
+
+  it('accepts multipart uploads alongside the prompt', async () => {
+    const form = new FormData();
+    form.append('prompt', 'photosynthesis');
+    form.append('files', new Blob(['Plants turn light into sugar.'], { type: 'text/plain' }), 'notes.txt');
+    const response = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form });
+    assert.equal(response.status, 200, response.text);
+    assert.match(response.body.originalMaterials, /notes\.txt/);
+  });
+
+  it('streams the roadmap as server-sent events', async () => {
+    const response = await server.request('POST', '/api/generate-roadmap/stream', { as: 'alice', json: { prompt: 'photosynthesis' } });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') || '', /text\/event-stream/);
+
+    const events = parseEvents(response.text);
+    assert.equal(events[0].event, 'outline-ready');
+    assert.ok(events[0].data.roadmap.steps.length > 0);
+    assert.deepEqual(events.slice(1, 3).map(e => e.event).sort(), ['cover-image-ready', 'step-ready']);
+    assert.equal(events[3].event, 'done');
+  });
+
+  it('requires a token', async () => {
+    for (const { path } of [...COUNTED_ROUTES, ...UNCOUNTED_ROUTES]) {
+      assert.equal((await server.request('POST', path, { json: {} })).status, 401, path);
+    }
+  });
+
+  it('400s on plugin edits without code or prompt', async () => {
+    const response = await server.request('POST', '/api/modify-plugin-code', { as: 'alice', json: { code: 'x' } });
+    assert.equal(response.status, 400);
+  });
+
+  it('400s on regenerating without the item to replace', async () => {
+    for (const path of ['/api/regenerate-material', '/api/regenerate-question']) {
+      const response = await server.request('POST', path, { as: 'alice', json: { step, courseTitle: course.title } });
+      assert.equal(response.status, 400, path);
+    }
+  });
+
+  it('resolves step prerequisites into a graph over earlier steps', async () => {
+    const outline = {
+      roadmap: {
+        title: 'Photosynthesis',
+        description: 'How plants make sugar',
+        steps: [
+          { id: 'step-1', title: 'Light', description: 'd', prerequisites: ['step-3'] },
+          { id: 'step-2', title: 'Light reactions', description: 'd', prerequisites: ['step-1'] },
+          { id: 'step-3', title: 'Calvin cycle', description: 'd', prerequisites: [1, '1', 'step-9'] },
+          { id: 'step-4', title: 'Sugar', description: 'd', prerequisites: ['step-2', 'step-3'] },
+          { id: 'step-5', title: 'Review', description: 'd' },
+        ],
+      },
+    };
+    const scripted = await startTestServer({ llmScript: { 'generate-roadmap': [JSON.stringify(outline)] } });
+    try {
+      const response = await scripted.request('POST', '/api/generate-roadmap', { as: 'alice', json: { prompt: 'photosynthesis' } });
+      assert.equal(response.status, 200, response.text);
+      const steps = response.body.roadmap.steps;
+      assert.deepEqual(steps.map((s: CourseStep) => s.prerequisites), [[], ['step-1'], ['step-1'], ['step-2', 'step-3'], ['step-4']]);
+      assert.deepEqual(steps.map((s: CourseStep) => s.unlocked), [true, false, false, false, false]);
+    } finally {
+      await scripted.close();
+    }
+  });
+
+  it('places a generated step between its neighbours, and 400s on a position outside the outline', async () => {
+    const response = await server.request('POST', '/api/generate-step', {
+      as: 'alice',
+      json: { courseTitle: course.title, steps: course.steps, position: 1, prompt: 'the light reactions' },
+    });
+    assert.equal(response.status, 200, response.text);
+    assert.deepEqual(Object.keys(response.body.step), ['title', 'description', 'estimatedTime']);
+    const prompt = server.llmPrompts.filter(p => p.route === 'generate-step').at(-1)!.text;
+    assert.match(prompt, /after "Light" and before "Sugar"/);
+    assert.match(prompt, /cover: the light reactions/);
+
+    for (const position of [-1, 3, '1', undefined]) {
+      const invalid = await server.request('POST', '/api/generate-step', { as: 'alice', json: { courseTitle: course.title, steps: course.steps, position } });
+      assert.equal(invalid.status, 400, String(position));
+    }
+  });
+
+  it('regenerates one question from the learner\'s feedback, leaving out the old schedule', async () => {
+    const [first, second] = course.steps[0].test!.questions;
+    const missed = { ...first, schedule: { easeFactor: 2.5, interval: 1, repetitions: 0, dueDate: '2026-01-02T00:00:00.000Z' } };
+    const response = await server.request('POST', '/api/regenerate-question', {
+      as: 'alice',
+      json: { step: course.steps[0], courseTitle: course.title, question: missed, feedback: 'too easy' },
+    });
+    assert.equal(response.status, 200, response.text);
+    assert.equal(response.body.question.id, first.id);
+    assert.equal(response.body.question.schedule, undefined);
+
+    const prompt = server.llmPrompts.filter(p => p.route === 'regenerate-question').at(-1)!.text;
+    assert.match(prompt, /feedback on it.*"too easy"/);
+    assert.ok(prompt.includes(`- ${second.question}`), 'the other questions are listed to avoid repeats');
+  });
+});
+
+describe('daily generation limit', () => {
+  let server: TestServer;
+  beforeEach(async () => { server = await startTestServer(); });
+  afterEach(() => server.close());
+
+  async function useUpLimit(userId: string, tier: 'free' | 'pro') {
+    await server.db.profiles.create({ id: userId, display_name: userId, subscription_tier: tier });
+    for (let i = 0; i < DAILY_GENERATION_LIMIT - 1; i++) {
+      await server.db.generations.record(userId, 'quiz');
+    }
+  }
+
+  it(`answers 429 once a free user has ${DAILY_GENERATION_LIMIT} generations today`, async () => {
+    await useUpLimit('alice', 'free');
+
+    const last = await server.request('POST', '/api/generate-standalone-quiz', { as: 'alice', json: { prompt: 'capitals' } });
+    assert.equal(last.status, 200);
+
+    const callsBefore = server.llmCalls.length;
+    for (const { path } of COUNTED_ROUTES) {
+      const response = await server.request('POST', path, { as: 'alice', json: { prompt: 'capitals' } });
+      assert.equal(response.status, 429, path);
+      assert.equal(response.body.limit, DAILY_GENERATION_LIMIT);
+      assert.equal(response.body.error, 'Daily generation limit reached');
+    }
+    const stream = await server.request('POST', '/api/generate-roadmap/stream', { as: 'alice', json: { prompt: 'capitals' } });
+    assert.equal(stream.status, 429);
+    assert.equal(server.llmCalls.length, callsBefore, 'a limited request never reaches the model');
+  });
+
+  it('only counts the user\'s own generations', async () => {
+    await useUpLimit('alice', 'free');
+    await server.db.generations.record('alice', 'quiz');
+
+    const response = await server.request('POST', '/api/generate-standalone-quiz', { as: 'bob', json: { prompt: 'capitals' } });
+    assert.equal(response.status, 200);
+  });
+
+  it('lets pro users past the limit', async () => {
+    await useUpLimit('alice', 'pro');
+    await server.db.generations.record('alice', 'quiz');
+
+    const response = await server.request('POST', '/api/generate-standalone-quiz', { as: 'alice', json: { prompt: 'capitals' } });
+    assert.equal(response.status, 200);
+  });
+
+  it('does not limit follow-up generations', async () => {
+    await useUpLimit('alice', 'free');
+    await server.db.generations.record('alice', 'quiz');
+
+    const response = await server.request('POST', '/api/generate-test', { as: 'alice', json: { step, courseTitle: course.title } });
+    assert.equal(response.status, 200);
+  });
+});
+
+describe('parseJsonWithRetry', () => {
+  const FIXED = '{"fixed":true}';
+
+  // A model for the 'fix-json' route that answers from a script and remembers the prompts
+  function scriptedRepair(answers: string[]) {
+    const prompts: string[] = [];
+    const getModel = ((route: string) => ({
+      provider: 'script',
+      model: route,
+      async generateContent(request: string) {
+        prompts.push(request);
+        const answer = answers.shift();
+        if (answer === undefined) throw new Error('model unavailable');
+        return { text: answer };
+      },
+    })) as unknown as GetModel;
+    return { prompts, ...createGeneration(getModel) };
+  }
+
+  it('parses fenced JSON without asking the model', async () => {
+    const { parseJsonWithRetry, prompts } = scriptedRepair([]);
+    assert.deepEqual(await parseJsonWithRetry('```json\n{"a":1}\n```', 'context'), { a: 1 });
+    assert.equal(prompts.length, 0);
+  });
+
+  it('sends broken JSON to the model with the parse error and original context', async () => {
+    const { parseJsonWithRetry, prompts } = scriptedRepair([FIXED]);
+    assert.deepEqual(await parseJsonWithRetry('{"a":1,', 'Generate flashcards'), { fixed: true });
+
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0], /Original request context: Generate flashcards/);
+    assert.match(prompts[0], /Malformed JSON:\n\{"a":1,/);
+    assert.match(prompts[0], /Error message: .+/);
+  });
+
+  it('strips fences from the repaired answer', async () => {
+    const { parseJsonWithRetry } = scriptedRepair(['```json\n' + FIXED + '\n```']);
+    assert.deepEqual(await parseJsonWithRetry('not json', 'context'), { fixed: true });
+  });
+
+  it('retries the repair when it also returns broken JSON', async () => {
+    const { parseJsonWithRetry, prompts } = scriptedRepair(['still broken', FIXED]);
+    assert.deepEqual(await parseJsonWithRetry('not json', 'context'), { fixed: true });
+    assert.equal(prompts.length, 2);
+  });
+
+  it('throws the parse error once the retries are used up', async () => {
+    const { parseJsonWithRetry, prompts } = scriptedRepair(['broken', 'broken', 'broken']);
+    await assert.rejects(parseJsonWithRetry('not json', 'context'), SyntaxError);
+    assert.equal(prompts.length, 2);
+  });
+
+  it('repairs a generation route\'s output end to end', async () => {
+    const deck = { title: 'Repaired', description: '', cards: [{ id: 'c1', front: 'Q', back: 'A' }] };
+    const server = await startTestServer({
+      llmScript: { 'generate-flashcards': ['{"title": "Repaired", "cards": ['], 'fix-json': [JSON.stringify(deck)] },
+    });
+    try {
+      const response = await server.request('POST', '/api/generate-flashcards', { as: 'alice', json: { prompt: 'x' } });
+      assert.equal(response.status, 200, response.text);
+      assert.equal(response.body.title, 'Repaired');
+      assert.deepEqual(server.llmCalls, ['generate-flashcards', 'fix-json']);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('answers 422 with the violations when the output cannot be repaired', async () => {
+    const invalid = JSON.stringify({ title: 'No cards', cards: 'none' });
+    const server = await startTestServer({ llmScript: { 'generate-flashcards': [invalid, invalid, invalid] } });
+    try {
+      const response = await server.request('POST', '/api/generate-flashcards', { as: 'alice', json: { prompt: 'x' } });
+      assert.equal(response.status, 422, response.text);
+      assert.equal(response.body.type, 'schema_validation');
+      assert.ok(response.body.violations.length > 0);
+      assert.equal(await generationCount(server, 'alice'), 0, 'failed generations are not counted');
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createApp } from '../app.js';
+import { createLLM } from '../llm/index.js';
+import { createStorage } from '../storage/index.js';
+import type { ContentPart } from '../lib/files.js';
+import type { AuthService, AuthUser, GetModel } from '../types.js';
+
+export interface TestServerOptions {
+  // Route → answers returned in order instead of the mock fixture, e.g. to feed broken JSON
+  llmScript?: Record<string, string[]>;
+  env?: Record<string, string | undefined>;
+}
+
+// Parsed JSON as the route sent it; tests read it without declaring every route's shape
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ResponseBody = any;
+
+export interface TestResponse<T = ResponseBody> {
+  status: number;
+  headers: Headers;
+  body: T;
+  text: string;
+}
+
+interface RequestOptions {
+  as?: string;
+  json?: unknown;
+  form?: FormData;
+}
+
+/**
+ * The real app on a random port, wired to in-memory storage, the fixture LLM
+ * (server/llm/fixtures) and an auth stub that accepts `Bearer <user id>`.
+ * Every server starts with an empty database.
+ */
+export async function startTestServer(options: TestServerOptions = {}) {
+  const { db } = createStorage({ STORAGE_BACKEND: 'local', LOCAL_DATA_FILE: ':memory:' });
+
+  const auth: AuthService = {
+    async getUser(token) {
+      if (!token || token === 'invalid') return { user: null, error: { message: 'Invalid token' } };
+      const user: AuthUser = { id: token, email: `${token}@example.com` };
+      return { user, error: null };
+    },
+  };
+
+  // Which routes were asked for a model, in order, and the text each was sent
+  const llmCalls: string[] = [];
+  const llmPrompts: { route: string; text: string }[] = [];
+  const { getModel: fixtureModel } = createLLM({ LLM_PROVIDER: 'mock' });
+  const script = Object.fromEntries(Object.entries(options.llmScript || {}).map(([route, answers]) => [route, [...answers]]));
+  const getModel: GetModel = (route) => {
+    const model = fixtureModel(route);
+    return {
+      ...model,
+      async generateContent(request, generateOptions) {
+        llmCalls.push(route);
+        const parts: ContentPart[] = typeof request === 'string' ? [{ text: request }] : request;
+        llmPrompts.push({ route, text: parts.map(part => ('text' in part ? part.text : `[${part.inlineData.mimeType}]`)).join('\n') });
+        const scripted = script[route]?.shift();
+        if (scripted !== undefined) return { text: scripted };
+        return model.generateContent(request, generateOptions);
+      },
+    };
+  };
+
+  const app = createApp({ db, auth, getModel, env: options.env || {} });
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  async function request<T = ResponseBody>(method: string, path: string, { as, json, form }: RequestOptions = {}): Promise<TestResponse<T>> {
+    const headers: Record<string, string> = {};
+    if (as) headers.Authorization = `Bearer ${as}`;
+    let body: string | FormData | undefined;
+    if (json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(json);
+    } else if (form) {
+      body = form;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, { method, headers, body });
+    const text = await response.text();
+    let parsed: ResponseBody = text;
+    if (response.headers.get('content-type')?.includes('application/json')) parsed = JSON.parse(text);
+    return { status: response.status, headers: response.headers, body: parsed, text };
+  }
+
+  // Raw bytes, for the file export routes
+  async function download(path: string, as: string) {
+    const response = await fetch(`${baseUrl}${path}`, { headers: { Authorization: `Bearer ${as}` } });
+    return { status: response.status, headers: response.headers, data: Buffer.from(await response.arrayBuffer()) };
+  }
+
+  return {
+    db,
+    llmCalls,
+    llmPrompts,
+    request,
+    download,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
+
+// Server-sent events of a streamed response, in arrival order
+export function parseEvents(text: string) {
+  return text
+    .split('\n\n')
+    .filter(block => block.startsWith('event: '))
+    .map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+    });
+}
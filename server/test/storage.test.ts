@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createStorage } from '../storage/index.js';
+import { createLocalStore } from '../storage/local.js';
+
+describe('storage config', () => {
+  it('never falls back to the unverified local backend on its own', () => {
+    assert.throws(() => createStorage({}), /Missing SUPABASE_URL/);
+    assert.throws(() => createStorage({ LOCAL_DATA_FILE: ':memory:' }), /Missing SUPABASE_URL/);
+    assert.throws(() => createStorage({ STORAGE_BACKEND: 'sqlite' }), /Unknown STORAGE_BACKEND "sqlite"/);
+  });
+
+  it('uses the local backend when asked for by name', () => {
+    const { backend, file } = createStorage({ STORAGE_BACKEND: 'local', LOCAL_DATA_FILE: ':memory:' });
+    assert.equal(backend, 'local');
+    assert.equal(file, null);
+  });
+
+  it('creates local profiles without a subscription tier', async () => {
+    const { db } = createStorage({ STORAGE_BACKEND: 'local', LOCAL_DATA_FILE: ':memory:' });
+    await db.profiles.create({ id: 'alice', display_name: 'alice' });
+    const { data } = await db.profiles.get('alice');
+    assert.ok(data);
+    assert.equal(data.subscription_tier, undefined);
+  });
+
+  it('undoes a local change it could not write, and keeps writing later ones', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'gvidtech-store-'));
+    const file = path.join(directory, 'data.json');
+    const { store } = createLocalStore({ file });
+    const onDisk = () => JSON.parse(readFileSync(file, 'utf-8')).notes.map((row: { title: string }) => row.title);
+    try {
+      await store.insert('notes', { id: 'a', title: 'kept' });
+
+      // A directory where the temporary file goes makes the next write fail
+      mkdirSync(`${file}.tmp`);
+      assert.ok((await store.insert('notes', { id: 'b', title: 'lost' })).error);
+      assert.ok((await store.update('notes', { id: 'a' }, { title: 'renamed' })).error);
+      assert.ok((await store.remove('notes', { id: 'a' })).error);
+      assert.deepEqual((await store.select('notes')).data?.map(row => row.title), ['kept']);
+
+      rmSync(`${file}.tmp`, { recursive: true });
+      assert.equal((await store.insert('notes', { id: 'c', title: 'saved' })).error, null);
+      assert.deepEqual(onDisk(), ['kept', 'saved']);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
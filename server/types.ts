@@ -0,0 +1,194 @@
+import type { RequestHandler } from 'express';
+import type multer from 'multer';
+import type { createLLM } from './llm/index.js';
+import type { createRepositories } from './storage/repositories.js';
+import type {
+  CourseStep,
+  CrosswordClue,
+  FillBlankSentence,
+  Flashcard,
+  MatchingPair,
+  QuizQuestion,
+  ScrambleWord,
+} from '../src/types/roadmap.js';
+import type {
+  ContentType,
+  GenerationErrorBody,
+  GenerationJob,
+  GenerationJobKind,
+  GenerationJobStage,
+  GenerationJobStatus,
+} from '../src/types/api.js';
+import type { JobRunner } from './lib/jobs.js';
+
+// ============ SERVICES ============
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthService {
+  getUser(token: string): Promise<{ user: AuthUser | null; error: { message: string } | null }>;
+}
+
+export type Repositories = ReturnType<typeof createRepositories>;
+export type GetModel = ReturnType<typeof createLLM>['getModel'];
+export type Model = ReturnType<GetModel>;
+
+/** Everything the app needs from the outside world; index.ts wires in the real ones */
+export interface AppDeps {
+  db: Repositories;
+  auth: AuthService;
+  getModel: GetModel;
+  env: Record<string, string | undefined>;
+}
+
+// Route params are always plain strings here; Express's default also allows string[] for wildcards
+export type Middleware = RequestHandler<Record<string, string>>;
+
+/** What every router factory receives from createApp */
+export interface RouteContext extends AppDeps {
+  requireAuth: Middleware;
+  checkRateLimit: Middleware;
+  recordGeneration: (userId: string, generationType: string) => Promise<void>;
+  upload: multer.Multer;
+  jobs: JobRunner;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    // Set by requireAuth; every /api route that reads it is mounted behind it
+    user: AuthUser;
+  }
+}
+
+// ============ DATABASE ROWS ============
+// Column shapes from supabase-schema.sql; routes map them to the client types in src/types.
+
+export interface OwnedRow {
+  id: string;
+  user_id: string;
+  title: string;
+  description?: string | null;
+  image_url?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface CourseRow extends OwnedRow {
+  steps: CourseStep[];
+  flashcards: Flashcard[];
+  progress: number;
+  original_prompt?: string | null;
+  original_materials?: string | null;
+  pass_threshold?: number | null;
+}
+
+export interface FlashcardDeckRow extends OwnedRow {
+  flashcards: Flashcard[];
+  course_id?: string | null;
+}
+
+export interface QuizRow extends OwnedRow {
+  questions: QuizQuestion[];
+  course_id?: string | null;
+  is_rapid: boolean;
+  time_per_question?: number | null;
+  completed: boolean;
+  score?: number | null;
+  total_questions?: number | null;
+  best_score?: number | null;
+  times_taken: number;
+}
+
+export interface MatchingGameRow extends OwnedRow {
+  pairs: MatchingPair[];
+  course_id?: string | null;
+  best_time?: number | null;
+  times_played: number;
+}
+
+export interface WordScrambleGameRow extends OwnedRow {
+  words: ScrambleWord[];
+  best_score?: number | null;
+  times_played?: number | null;
+}
+
+export interface FillBlankGameRow extends OwnedRow {
+  sentences: FillBlankSentence[];
+  best_score?: number | null;
+  best_time?: number | null;
+  times_played?: number | null;
+}
+
+export interface CrosswordGameRow extends OwnedRow {
+  clues: CrosswordClue[];
+  grid_size: number;
+  best_time?: number | null;
+  times_played?: number | null;
+}
+
+export interface UserProfileRow {
+  id: string;
+  email?: string | null;
+  display_name: string;
+  subscription_tier: 'free' | 'pro';
+  created_at: string;
+}
+
+export interface SharedContentRow {
+  id: string;
+  author_id: string;
+  content_type: ContentType;
+  content_id: string;
+  title: string;
+  description: string;
+  cover_image?: string | null;
+  meta: Record<string, unknown>;
+  is_public: boolean;
+  likes_count: number;
+  created_at: string;
+}
+
+export interface ContentLikeRow {
+  id: string;
+  user_id: string;
+  shared_content_id: string;
+  created_at: string;
+}
+
+export interface DailyGenerationRow {
+  id: string;
+  user_id: string;
+  generation_type: string;
+  created_at: string;
+}
+
+export interface GenerationJobRow {
+  id: string;
+  user_id: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  stage?: GenerationJobStage | null;
+  input: { prompt: string; fileNames: string[] };
+  partial?: GenerationJob['partial'] | null;
+  result?: GenerationJob['result'] | null;
+  error?: GenerationErrorBody | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CourseChunkRow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  position: number;
+  source: string;
+  heading: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  content: string;
+  created_at: string;
+}
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import './styles/global.css';
 import Sidebar from './components/Sidebar';
-import LoadingOverlay from './components/LoadingOverlay';
+import LoadingOverlay, { LoadingProgress } from './components/LoadingOverlay';
 import PromptPage from './pages/PromptPage';
 import CourseGallery from './pages/CourseGallery';
 import CourseView from './pages/CourseView';
@@ -12,16 +12,19 @@ import StandaloneQuizPage from './pages/StandaloneQuizPage';
 import MatchingGamePage from './pages/MatchingGamePage';
 import WordScramblePage from './pages/WordScramblePage';
 import FillBlankPage from './pages/FillBlankPage';
+import CrosswordPage from './pages/CrosswordPage';
 import ProfilePage from './pages/ProfilePage';
 import CommunityPage from './pages/CommunityPage';
 import PluginManagerPage from './pages/PluginManagerPage';
+import ReviewPage from './pages/ReviewPage';
 import AuthPage from './pages/AuthPage';
 import { useAuth } from './contexts/AuthContext';
-import { Course, CourseStep, QuizQuestion, FlashcardDeck, StandaloneQuiz, MatchingGame, WordScrambleGame, FillBlankGame } from './types/roadmap';
-import { usePlugins, doAction, applyFilters } from './plugins';
-import { apiFetch, apiPost, apiPut, apiDelete } from './lib/fetch';
+import { Course, CourseStep, LearningMaterial, QuizQuestion, FlashcardDeck, FlashcardSchedule, StandaloneQuiz, MatchingGame, WordScrambleGame, FillBlankGame, CrosswordGame, ReviewItem } from './types/roadmap';
+import { doAction, applyFilters } from './plugins';
+import { apiFetch, apiPost, apiPut } from './lib/fetch';
+import { requiredScore, resolvePassThresholds, stepPassThreshold, thresholdFor, unlockReadySteps } from './lib/prerequisites';
 
-type Page = 'prompt' | 'gallery' | 'view' | 'material' | 'quiz' | 'flashcards' | 'standalone-quiz' | 'matching-game' | 'word-scramble' | 'fill-blank' | 'plugins' | 'profile' | 'community';
+type Page = 'prompt' | 'gallery' | 'view' | 'material' | 'quiz' | 'flashcards' | 'standalone-quiz' | 'matching-game' | 'word-scramble' | 'fill-blank' | 'crossword' | 'plugins' | 'profile' | 'community' | 'review';
 
 const App: React.FC = () => {
   const { user, loading: authLoading, signOut, isRecovery } = useAuth();
@@ -32,6 +35,7 @@ const App: React.FC = () => {
   const [matchingGames, setMatchingGames] = useState<MatchingGame[]>([]);
   const [wordScrambleGames, setWordScrambleGames] = useState<WordScrambleGame[]>([]);
   const [fillBlankGames, setFillBlankGames] = useState<FillBlankGame[]>([]);
+  const [crosswordGames, setCrosswordGames] = useState<CrosswordGame[]>([]);
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [selectedStep, setSelectedStep] = useState<CourseStep | null>(null);
   const [selectedDeck, setSelectedDeck] = useState<FlashcardDeck | null>(null);
@@ -39,9 +43,13 @@ const App: React.FC = () => {
   const [selectedMatchingGame, setSelectedMatchingGame] = useState<MatchingGame | null>(null);
   const [selectedWordScramble, setSelectedWordScramble] = useState<WordScrambleGame | null>(null);
   const [selectedFillBlank, setSelectedFillBlank] = useState<FillBlankGame | null>(null);
+  const [selectedCrossword, setSelectedCrossword] = useState<CrosswordGame | null>(null);
   const [initialLoading, setInitialLoading] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
+  const [loadingProgress, setLoadingProgress] = useState<LoadingProgress | undefined>(undefined);
+  const coursesRef = useRef<Course[]>([]);
+  coursesRef.current = courses;
 
   const loadAllData = () => {
     if (!user) return;
@@ -51,14 +59,20 @@ const App: React.FC = () => {
       apiFetch('/standalone-quizzes').then(res => res.json()).catch(() => []),
       apiFetch('/matching-games').then(res => res.json()).catch(() => []),
       apiFetch('/word-scramble-games').then(res => res.json()).catch(() => []),
-      apiFetch('/fill-blank-games').then(res => res.json()).catch(() => [])
-    ]).then(([coursesData, flashcardsData, quizzesData, matchingData, scrambleData, fillBlankData]) => {
-      setCourses(coursesData);
+      apiFetch('/fill-blank-games').then(res => res.json()).catch(() => []),
+      apiFetch('/crossword-games').then(res => res.json()).catch(() => [])
+    ]).then(([coursesData, flashcardsData, quizzesData, matchingData, scrambleData, fillBlankData, crosswordData]) => {
+      // Loading flags only make sense for the session that set them
+      setCourses(coursesData.map((course: Course) => ({
+        ...course,
+        steps: course.steps.map(({ detailsLoading, testLoading, ...step }) => step),
+      })));
       setFlashcardDecks(flashcardsData);
       setStandaloneQuizzes(quizzesData);
       setMatchingGames(matchingData);
       setWordScrambleGames(scrambleData);
       setFillBlankGames(fillBlankData);
+      setCrosswordGames(crosswordData);
       setInitialLoading(false);
     }).catch(err => {
       console.error('Failed to load data:', err);
@@ -71,12 +85,13 @@ const App: React.FC = () => {
     loadAllData();
   }, [user]);
 
-  const handleLoadingChange = (loading: boolean, message?: string) => {
+  const handleLoadingChange = (loading: boolean, message?: string, progress?: LoadingProgress) => {
     setIsLoading(loading);
     setLoadingMessage(message || 'Generating...');
+    setLoadingProgress(loading ? progress : undefined);
   };
 
-  const handleNavigation = (page: 'prompt' | 'gallery' | 'plugins' | 'profile' | 'community') => {
+  const handleNavigation = (page: 'prompt' | 'gallery' | 'review' | 'plugins' | 'profile' | 'community') => {
     const previousPage = currentPage;
     setCurrentPage(page);
     setSelectedCourse(null);
@@ -86,11 +101,37 @@ const App: React.FC = () => {
     setSelectedMatchingGame(null);
     setSelectedWordScramble(null);
     setSelectedFillBlank(null);
+    setSelectedCrossword(null);
     
     // Plugin hook: navigation event
     doAction('app:navigate', page, previousPage);
   };
 
+  // Keep local library state in sync with results saved by the review session
+  const handleReviewItem = (item: ReviewItem, schedule: FlashcardSchedule) => {
+    const itemId = item.flashcard?.id || item.question?.id;
+    const patch = <T extends { id: string }>(items: T[] = []) =>
+      items.map(i => i.id === itemId ? { ...i, schedule } : i);
+    const { type, id, stepId } = item.source;
+
+    if (type === 'deck') {
+      setFlashcardDecks(prev => prev.map(d => d.id === id ? { ...d, cards: patch(d.cards) } : d));
+    } else if (type === 'quiz') {
+      setStandaloneQuizzes(prev => prev.map(q => q.id === id ? { ...q, questions: patch(q.questions) } : q));
+    } else {
+      setCourses(prev => prev.map(c => {
+        if (c.id !== id) return c;
+        if (type === 'course') return { ...c, flashcards: patch(c.flashcards) };
+        return {
+          ...c,
+          steps: c.steps.map(s => s.id === stepId && s.test
+            ? { ...s, test: { ...s.test, questions: patch(s.test.questions) } }
+            : s),
+        };
+      }));
+    }
+  };
+
   const handleCourseGenerated = async (course: Course) => {
     // Plugin hook: filter course before save
     const filteredCourse = await applyFilters('course:beforeSave', course);
@@ -101,6 +142,7 @@ const App: React.FC = () => {
       console.error('Failed to save course:', err);
     }
     
+    coursesRef.current = [filteredCourse, ...coursesRef.current];
     setCourses((prev) => [filteredCourse, ...prev]);
     setSelectedCourse(filteredCourse);
     setCurrentPage('view');
@@ -109,9 +151,27 @@ const App: React.FC = () => {
     doAction('course:created', filteredCourse);
   };
 
+  // Applies results that arrive after a course was opened (streamed step details, cover image).
+  // Reads the latest course from a ref because the caller's closure predates the open.
+  const handlePatchCourse = async (courseId: string, patch: (course: Course) => Course) => {
+    const current = coursesRef.current.find(c => c.id === courseId);
+    if (!current) return;
+    const updated = patch(current);
+    coursesRef.current = coursesRef.current.map(c => (c.id === courseId ? updated : c));
+
+    setCourses((prev) => prev.map((c) => (c.id === courseId ? updated : c)));
+    setSelectedCourse((prev) => (prev?.id === courseId ? updated : prev));
+    try {
+      await apiPut(`/roadmaps/${courseId}`, updated);
+    } catch (err) {
+      console.error('Failed to update course:', err);
+    }
+  };
+
   const handleFlashcardsGenerated = async (deck: FlashcardDeck) => {
     try {
-      await apiPost('/flashcard-decks', deck);
+      const response = await apiPost('/flashcard-decks', deck);
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
     } catch (err) {
       console.error('Failed to save flashcard deck:', err);
     }
@@ -173,6 +233,20 @@ const App: React.FC = () => {
     setCurrentPage('fill-blank');
   };
 
+  const handleCrosswordGenerated = async (game: CrosswordGame) => {
+    try {
+      await apiPost('/crossword-games', game);
+    } catch (err) {
+      console.error('Failed to save crossword:', err);
+    }
+    setCrosswordGames((prev) => [game, ...prev]);
+    setSelectedCrossword(game);
+    setCurrentPage('crossword');
+    
+    // Plugin hook: crossword created
+    doAction('crossword:gameCreated', game);
+  };
+
   const handleSelectCourse = (course: Course) => {
     setSelectedCourse(course);
     
@@ -202,11 +276,12 @@ const App: React.FC = () => {
     setCurrentPage('view');
   };
 
+  // Only a course the server accepted replaces the one on screen; otherwise this throws its error
   const handleUpdateCourse = async (updatedCourse: Course) => {
-    try {
-      await apiPut(`/roadmaps/${updatedCourse.id}`, updatedCourse);
-    } catch (err) {
-      console.error('Failed to update course:', err);
+    const response = await apiPut(`/roadmaps/${updatedCourse.id}`, updatedCourse);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to save course');
     }
     
     setCourses((prev) =>
@@ -225,17 +300,18 @@ const App: React.FC = () => {
     setCurrentPage('quiz');
   };
 
-  const handleMarkComplete = () => {
+  const handleMarkComplete = async () => {
     if (!selectedCourse || !selectedStep) return;
     
-    const updatedSteps = selectedCourse.steps.map(s => 
+    const thresholds = await resolvePassThresholds(selectedCourse);
+    const updatedSteps = unlockReadySteps(selectedCourse.steps.map(s => 
       s.id === selectedStep.id ? { ...s, completed: true } : s
-    );
+    ), thresholds);
     const completedCount = updatedSteps.filter(s => s.completed).length;
     const progress = Math.round((completedCount / updatedSteps.length) * 100);
     
     const updatedCourse = { ...selectedCourse, steps: updatedSteps, progress };
-    handleUpdateCourse(updatedCourse);
+    handleUpdateCourse(updatedCourse).catch(err => console.error('Failed to update course:', err));
     setSelectedStep({ ...selectedStep, completed: true });
   };
 
@@ -245,24 +321,18 @@ const App: React.FC = () => {
     // If score is -1, this is just saving questions after generation (not a submission)
     const isJustSavingQuestions = score === -1;
     
-    // Plugin hook: filter quiz pass threshold (default 0.7 = 70%)
-    let passThreshold = 0.7;
-    if (!isJustSavingQuestions) {
-      passThreshold = await applyFilters('quiz:passThreshold', 0.7);
-    }
+    // Plugin hook: filter quiz pass threshold (the step's, else the course's, else 70%)
+    const thresholds = await resolvePassThresholds(selectedCourse);
     
     // Plugin hook: filter quiz score calculation
-    let passed = !isJustSavingQuestions && (score / total >= passThreshold);
+    let passed = !isJustSavingQuestions && score >= requiredScore(total, thresholdFor(selectedStep, thresholds));
     if (!isJustSavingQuestions) {
       const scoreResult = await applyFilters('quiz:calculateScore', { score, total, passed, questions });
       passed = scoreResult.passed;
     }
     
-    // Find next step to potentially unlock
-    const currentStepIndex = selectedCourse.steps.findIndex(s => s.id === selectedStep.id);
-    const nextStep = selectedCourse.steps[currentStepIndex + 1];
-    
-    const updatedSteps = selectedCourse.steps.map((s, index) => {
+    // Steps whose prerequisites are all passed now open
+    const updatedSteps = unlockReadySteps(selectedCourse.steps.map((s) => {
       if (s.id === selectedStep.id) {
         return { 
           ...s, 
@@ -276,18 +346,14 @@ const App: React.FC = () => {
           completed: isJustSavingQuestions ? s.completed : passed
         };
       }
-      // Unlock next step if quiz passed
-      if (nextStep && s.id === nextStep.id && passed) {
-        return { ...s, unlocked: true };
-      }
       return s;
-    });
+    }), thresholds);
     
     const completedCount = updatedSteps.filter(s => s.completed).length;
     const progress = Math.round((completedCount / updatedSteps.length) * 100);
     
     const updatedCourse = { ...selectedCourse, steps: updatedSteps, progress };
-    handleUpdateCourse(updatedCourse);
+    handleUpdateCourse(updatedCourse).catch(err => console.error('Failed to update course:', err));
     
     // Update selected step with the new test data
     const updatedStep = updatedSteps.find(s => s.id === selectedStep.id);
@@ -314,13 +380,30 @@ const App: React.FC = () => {
     );
     
     const updatedCourse = { ...selectedCourse, steps: updatedSteps };
-    handleUpdateCourse(updatedCourse);
+    handleUpdateCourse(updatedCourse).catch(err => console.error('Failed to update course:', err));
     setSelectedStep({ ...selectedStep, materialProgress: materialIndex });
     
     // Plugin hook: material progress updated
     doAction('material:progressUpdated', { course: updatedCourse, step: selectedStep, materialIndex });
   };
 
+  // Swaps one regenerated material or test question into the open step, matched by id
+  const handleReplaceStepItem = (replace: (step: CourseStep) => CourseStep) => {
+    if (!selectedCourse || !selectedStep) return;
+
+    const updatedSteps = selectedCourse.steps.map(s => (s.id === selectedStep.id ? replace(s) : s));
+    handleUpdateCourse({ ...selectedCourse, steps: updatedSteps }).catch(err => console.error('Failed to update course:', err));
+    setSelectedStep(updatedSteps.find(s => s.id === selectedStep.id) || null);
+  };
+
+  const handleReplaceMaterial = (material: LearningMaterial) =>
+    handleReplaceStepItem(s => ({ ...s, materials: s.materials.map(m => (m.id === material.id ? material : m)) }));
+
+  const handleReplaceQuestion = (question: QuizQuestion) =>
+    handleReplaceStepItem(s => (s.test
+      ? { ...s, test: { ...s.test, questions: s.test.questions.map(q => (q.id === question.id ? question : q)) } }
+      : s));
+
   const handleGenerateCourseFlashcards = async (course: Course) => {
     handleLoadingChange(true, 'Generating flashcards from course...');
     
@@ -329,6 +412,7 @@ const App: React.FC = () => {
     
     try {
       const response = await apiPost('/generate-course-flashcards', {
+        courseId: course.id,
         courseTitle: course.title,
         courseDescription: course.description,
         steps: course.steps.map(s => ({
@@ -353,12 +437,8 @@ const App: React.FC = () => {
       // Plugin hook: filter flashcard deck after generation
       newDeck = await applyFilters('flashcards:afterGenerate', newDeck, course);
       
-      setFlashcardDecks(prev => [newDeck, ...prev]);
-      setSelectedDeck(newDeck);
-      setCurrentPage('flashcards');
-      
-      // Plugin hook: flashcard deck created
-      doAction('flashcards:deckCreated', newDeck);
+      // Saved before it opens, so reviews have a deck to be recorded against
+      await handleFlashcardsGenerated(newDeck);
     } catch (error) {
       console.error('Error generating course flashcards:', error);
       // Plugin hook: flashcard generation failed
@@ -385,9 +465,12 @@ const App: React.FC = () => {
       return (
         <QuizPage
           step={selectedStep}
+          courseId={selectedCourse.id}
           courseTitle={selectedCourse.title}
+          passThreshold={stepPassThreshold(selectedCourse, selectedStep)}
           onBack={handleBackToCourse}
           onComplete={handleQuizComplete}
+          onReplaceQuestion={handleReplaceQuestion}
           onLoadingChange={handleLoadingChange}
         />
       );
@@ -403,11 +486,8 @@ const App: React.FC = () => {
           onStartQuiz={() => handleStartQuiz(selectedStep)}
           onMarkComplete={handleMarkComplete}
           onUpdateMaterialProgress={handleUpdateMaterialProgress}
-          onGenerateFlashcards={(deck) => {
-            setFlashcardDecks(prev => [deck, ...prev]);
-            setSelectedDeck(deck);
-            setCurrentPage('flashcards');
-          }}
+          onReplaceMaterial={handleReplaceMaterial}
+          onGenerateFlashcards={handleFlashcardsGenerated}
           onGenerateMatchingGame={handleMatchingGameGenerated}
           onLoadingChange={handleLoadingChange}
         />
@@ -457,6 +537,16 @@ const App: React.FC = () => {
             setFlashcardDecks(prev => prev.map(d => d.id === updatedDeck.id ? updatedDeck : d));
             setSelectedDeck(updatedDeck);
           }}
+          onReviewCard={async (card, schedule) => {
+            const response = await apiPost(`/flashcard-decks/${selectedDeck.id}/cards/${card.id}/review`, { schedule });
+            if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+            const updatedDeck = {
+              ...selectedDeck,
+              cards: selectedDeck.cards.map(c => c.id === card.id ? { ...c, schedule } : c),
+            };
+            setFlashcardDecks(prev => prev.map(d => d.id === updatedDeck.id ? updatedDeck : d));
+            setSelectedDeck(updatedDeck);
+          }}
         />
       );
     }
@@ -466,10 +556,11 @@ const App: React.FC = () => {
         <StandaloneQuizPage
           quiz={selectedQuiz}
           onBack={handleBackToGallery}
-          onComplete={async (score: number, total: number) => {
+          onComplete={async (score: number, total: number, questions: QuizQuestion[]) => {
             try {
               await apiPut(`/standalone-quizzes/${selectedQuiz.id}`, {
                 ...selectedQuiz,
+                questions,
                 completed: true,
                 score,
                 totalQuestions: total,
@@ -477,10 +568,11 @@ const App: React.FC = () => {
                 timesTaken: (selectedQuiz.timesTaken || 0) + 1,
               });
               setStandaloneQuizzes(prev => prev.map(q => q.id === selectedQuiz.id ? {
-                ...q, completed: true, score, totalQuestions: total,
+                ...q, questions, completed: true, score, totalQuestions: total,
                 bestScore: Math.max(score, q.bestScore || 0),
                 timesTaken: (q.timesTaken || 0) + 1,
               } : q));
+              setSelectedQuiz(prev => prev ? { ...prev, questions } : prev);
             } catch (err) {
               console.error('Failed to save quiz results:', err);
             }
@@ -492,6 +584,7 @@ const App: React.FC = () => {
     if (currentPage === 'matching-game' && selectedMatchingGame) {
       return (
         <MatchingGamePage
+          key={selectedMatchingGame.id}
           game={selectedMatchingGame}
           onBack={handleBackToGallery}
           onUpdateGame={async (updatedGame) => {
@@ -543,6 +636,24 @@ const App: React.FC = () => {
       );
     }
 
+    if (currentPage === 'crossword' && selectedCrossword) {
+      return (
+        <CrosswordPage
+          game={selectedCrossword}
+          onBack={handleBackToGallery}
+          onUpdateGame={async (updatedGame) => {
+            try {
+              await apiPut(`/crossword-games/${updatedGame.id}`, updatedGame);
+            } catch (err) {
+              console.error('Failed to update crossword:', err);
+            }
+            setCrosswordGames(prev => prev.map(g => g.id === updatedGame.id ? updatedGame : g));
+            setSelectedCrossword(updatedGame);
+          }}
+        />
+      );
+    }
+
     if (currentPage === 'gallery') {
       return (
         <CourseGallery
@@ -552,12 +663,14 @@ const App: React.FC = () => {
           matchingGames={matchingGames}
           wordScrambleGames={wordScrambleGames}
           fillBlankGames={fillBlankGames}
+          crosswordGames={crosswordGames}
           onSelectCourse={handleSelectCourse}
           onSelectDeck={(deck) => { setSelectedDeck(deck); setCurrentPage('flashcards'); }}
           onSelectQuiz={(quiz) => { setSelectedQuiz(quiz); setCurrentPage('standalone-quiz'); }}
           onSelectMatchingGame={(game) => { setSelectedMatchingGame(game); setCurrentPage('matching-game'); }}
           onSelectWordScramble={(game) => { setSelectedWordScramble(game); setCurrentPage('word-scramble'); }}
           onSelectFillBlank={(game) => { setSelectedFillBlank(game); setCurrentPage('fill-blank'); }}
+          onSelectCrossword={(game) => { setSelectedCrossword(game); setCurrentPage('crossword'); }}
           onNavigateToPrompt={() => setCurrentPage('prompt')}
           onRefresh={loadAllData}
         />
@@ -572,11 +685,21 @@ const App: React.FC = () => {
       );
     }
 
+    if (currentPage === 'review') {
+      return (
+        <ReviewPage
+          onBack={handleBackToGallery}
+          onItemReviewed={handleReviewItem}
+        />
+      );
+    }
+
     if (currentPage === 'profile') {
       return (
         <ProfilePage
           onBack={handleBackToGallery}
           userEmail={user?.email}
+          onLibraryRestored={loadAllData}
         />
       );
     }
@@ -596,11 +719,13 @@ const App: React.FC = () => {
     return (
       <PromptPage 
         onCourseGenerated={handleCourseGenerated}
+        onPatchCourse={handlePatchCourse}
         onFlashcardsGenerated={handleFlashcardsGenerated}
         onQuizGenerated={handleQuizGenerated}
         onMatchingGameGenerated={handleMatchingGameGenerated}
         onWordScrambleGenerated={handleWordScrambleGenerated}
         onFillBlankGenerated={handleFillBlankGenerated}
+        onCrosswordGenerated={handleCrosswordGenerated}
         onLoadingChange={handleLoadingChange}
       />
     );
@@ -626,11 +751,11 @@ const App: React.FC = () => {
     return <AuthPage />;
   }
 
-  const sidebarCurrentPage = currentPage === 'view' || currentPage === 'material' || currentPage === 'quiz' || currentPage === 'flashcards' || currentPage === 'standalone-quiz' || currentPage === 'matching-game' || currentPage === 'word-scramble' || currentPage === 'fill-blank' ? 'gallery' : currentPage === 'plugins' ? 'plugins' : currentPage === 'profile' ? 'profile' : currentPage === 'community' ? 'community' : currentPage;
+  const sidebarCurrentPage = currentPage === 'view' || currentPage === 'material' || currentPage === 'quiz' || currentPage === 'flashcards' || currentPage === 'standalone-quiz' || currentPage === 'matching-game' || currentPage === 'word-scramble' || currentPage === 'fill-blank' || currentPage === 'crossword' ? 'gallery' : currentPage === 'plugins' ? 'plugins' : currentPage === 'profile' ? 'profile' : currentPage === 'community' ? 'community' : currentPage === 'review' ? 'review' : currentPage;
 
   return (
     <div className="app-container">
-      <LoadingOverlay isVisible={isLoading} message={loadingMessage} />
+      <LoadingOverlay isVisible={isLoading} message={loadingMessage} progress={loadingProgress} />
       
       {/* Mobile top navigation bar */}
       <div className="mobile-top-nav">
@@ -666,6 +791,19 @@ const App: React.FC = () => {
               <rect x="3" y="14" width="7" height="7"/>
             </svg>
           </button>
+          <button 
+            className={`mobile-nav-btn ${sidebarCurrentPage === 'review' ? 'active' : ''}`}
+            onClick={() => handleNavigation('review')}
+            title="Due Today"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+              <line x1="16" y1="2" x2="16" y2="6"/>
+              <line x1="8" y1="2" x2="8" y2="6"/>
+              <line x1="3" y1="10" x2="21" y2="10"/>
+              <polyline points="9 16 11 18 15 14"/>
+            </svg>
+          </button>
           <button 
             className={`mobile-nav-btn ${sidebarCurrentPage === 'plugins' ? 'active' : ''}`}
             onClick={() => handleNavigation('plugins')}
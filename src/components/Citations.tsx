@@ -0,0 +1,35 @@
+import React from 'react';
+import type { SourceCitation } from '../types/roadmap';
+
+interface CitationsProps {
+  citations?: SourceCitation[];
+  onOpen: (citation: SourceCitation) => void;
+}
+
+const citationLabel = (citation: SourceCitation) =>
+  citation.page ? `${citation.source}, p. ${citation.page}` : citation.source;
+
+// Where an item comes from in the course's uploads; each citation opens its source
+const Citations: React.FC<CitationsProps> = ({ citations, onOpen }) => {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className="citations">
+      <span className="citations-label">From your sources</span>
+      {citations.map((citation, index) => (
+        <button key={index} className="citation" onClick={() => onOpen(citation)} title="Show in source">
+          <span className="citation-source">
+            <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+              <polyline points="14 2 14 8 20 8"/>
+            </svg>
+            {citationLabel(citation)}
+          </span>
+          <q className="citation-quote">{citation.quote}</q>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default Citations;
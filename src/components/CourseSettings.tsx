@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import type { Course, CourseStep } from '../types/roadmap';
+import { PASS_THRESHOLD, requiredScore } from '../lib/prerequisites';
+
+interface CourseSettingsProps {
+  course: Course;
+  // Resolves once saved; a rejection is shown in the panel, which stays open
+  onSave: (course: Course) => Promise<void>;
+  onClose: () => void;
+}
+
+const toPercent = (threshold?: number) => (threshold === undefined ? '' : String(Math.round(threshold * 100)));
+
+// A whole percentage from 1 to 100, or null when the field is not one
+function parsePercent(value: string): number | null {
+  const percent = Number(value);
+  return /^\d+$/.test(value.trim()) && percent >= 1 && percent <= 100 ? percent : null;
+}
+
+/**
+ * Quiz score a learner needs to pass each step: one for the course and, where a
+ * step is harder or easier than the rest, an override for that step. Blank fields
+ * fall back to the course's value, and the course's to 70%.
+ */
+const CourseSettings: React.FC<CourseSettingsProps> = ({ course, onSave, onClose }) => {
+  const [coursePercent, setCoursePercent] = useState(toPercent(course.passThreshold));
+  const [stepPercents, setStepPercents] = useState<Record<string, string>>(() =>
+    Object.fromEntries(course.steps.map(step => [step.id, toPercent(step.passThreshold)])));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fallbackPercent = parsePercent(coursePercent) ?? Math.round(PASS_THRESHOLD * 100);
+  const invalid = (value: string) => value.trim() !== '' && parsePercent(value) === null;
+
+  // What the threshold means for a quiz the step already has
+  const stepMeta = (step: CourseStep) => {
+    if (!step.test?.totalQuestions) return 'No quiz yet';
+    const percent = parsePercent(stepPercents[step.id]) ?? fallbackPercent;
+    const needed = requiredScore(step.test.totalQuestions, percent / 100);
+    const scored = step.test.completed && step.test.score !== undefined ? ` · Scored ${step.test.score}` : '';
+    return `${needed} of ${step.test.totalQuestions} correct to pass${scored}`;
+  };
+
+  const handleSave = async () => {
+    if (invalid(coursePercent) || Object.values(stepPercents).some(invalid)) {
+      setError('Pass marks are whole percentages from 1 to 100');
+      return;
+    }
+    const threshold = (value: string) => {
+      const percent = parsePercent(value);
+      return percent === null ? undefined : percent / 100;
+    };
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        ...course,
+        passThreshold: threshold(coursePercent),
+        steps: course.steps.map(step => ({ ...step, passThreshold: threshold(stepPercents[step.id]) })),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="item-editor-overlay" onClick={() => !saving && onClose()}>
+      <div className="item-editor" onClick={e => e.stopPropagation()}>
+        <div className="item-editor-header">
+          <h2>Course settings</h2>
+          <button className="item-editor-close" onClick={onClose} disabled={saving} title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="course-settings-default">
+          <label htmlFor="course-pass-mark">Pass mark</label>
+          <div className="course-settings-percent">
+            <input
+              id="course-pass-mark"
+              type="text"
+              inputMode="numeric"
+              value={coursePercent}
+              onChange={e => setCoursePercent(e.target.value)}
+              placeholder={String(Math.round(PASS_THRESHOLD * 100))}
+              className={invalid(coursePercent) ? 'invalid' : ''}
+              disabled={saving}
+            />
+            <span>%</span>
+          </div>
+          <p className="outline-meta">
+            Share of a step's quiz to get right before the steps that need it open. Steps that are already open stay open.
+          </p>
+        </div>
+
+        <ol className="item-editor-list course-settings-list">
+          {course.steps.map(step => (
+            <li key={step.id} className="outline-row">
+              <span className="outline-number">{step.stepNumber}</span>
+              <div className="outline-fields">
+                <span>{step.title}</span>
+                <span className="outline-meta">{stepMeta(step)}</span>
+              </div>
+              <div className="course-settings-percent">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={stepPercents[step.id]}
+                  onChange={e => setStepPercents({ ...stepPercents, [step.id]: e.target.value })}
+                  placeholder={String(fallbackPercent)}
+                  className={invalid(stepPercents[step.id]) ? 'invalid' : ''}
+                  title="Leave blank to use the course's pass mark"
+                  disabled={saving}
+                />
+                <span>%</span>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <div className="item-editor-footer">
+          <div className="item-editor-status">
+            {error && <span className="item-editor-problem">{error}</span>}
+          </div>
+          <button className="btn btn-secondary" onClick={onClose} disabled={saving}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CourseSettings;
@@ -0,0 +1,304 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { FillBlankGame, FlashcardDeck, MatchingGame, WordScrambleGame } from '../types/roadmap';
+import { apiPost } from '../lib/fetch';
+import {
+  IMPORT_FIELDS,
+  buildItems,
+  defaultMapping,
+  detectSeparators,
+  looksLikeHeader,
+  minimumItems,
+  parseRows,
+  type ColumnMapping,
+  type ImportItem,
+  type ImportTarget,
+  type Separators,
+} from '../lib/delimitedImport';
+
+interface DelimitedImportDialogProps {
+  initialTarget: ImportTarget;
+  onClose: () => void;
+  // Called once the new item is saved, with a summary for the toast
+  onImported: (target: ImportTarget, message: string) => void;
+}
+
+const TARGETS: { value: ImportTarget; label: string; noun: string; path: string }[] = [
+  { value: 'flashcards', label: 'Flashcards', noun: 'cards', path: '/flashcard-decks' },
+  { value: 'matching', label: 'Matching', noun: 'pairs', path: '/matching-games' },
+  { value: 'word-scramble', label: 'Word scramble', noun: 'words', path: '/word-scramble-games' },
+  { value: 'fill-blank', label: 'Fill in the blank', noun: 'sentences', path: '/fill-blank-games' },
+];
+
+const FIELD_SEPARATORS = [
+  { value: 'auto', label: 'Detect' },
+  { value: '\t', label: 'Tab' },
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const ROW_SEPARATORS = [
+  { value: 'auto', label: 'Detect' },
+  { value: '\n', label: 'New line' },
+  { value: ';', label: 'Semicolon' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const PREVIEW_ROWS = 5;
+
+// Picks a value from a preset list, or a free-text one when "Custom" is chosen
+const SeparatorPicker: React.FC<{
+  label: string;
+  options: { value: string; label: string }[];
+  choice: string;
+  custom: string;
+  onChoice: (value: string) => void;
+  onCustom: (value: string) => void;
+}> = ({ label, options, choice, custom, onChoice, onCustom }) => (
+  <label className="import-dialog-field">
+    <span>{label}</span>
+    <div className="import-dialog-separator">
+      <select value={choice} onChange={e => onChoice(e.target.value)}>
+        {options.map(option => <option key={option.label} value={option.value}>{option.label}</option>)}
+      </select>
+      {choice === 'custom' && (
+        <input type="text" value={custom} onChange={e => onCustom(e.target.value)} placeholder="e.g. -" maxLength={10} />
+      )}
+    </div>
+  </label>
+);
+
+function previewCells(target: ImportTarget, item: ImportItem): string[] {
+  return IMPORT_FIELDS[target].map(field => String((item as unknown as Record<string, unknown>)[field.key] ?? ''));
+}
+
+/**
+ * Builds a deck or game straight from a term list: pasted or uploaded CSV/TSV,
+ * including Quizlet exports with their custom separators. Columns are mapped to
+ * the item's fields, and the result is saved like any other library item, so
+ * nothing is generated and no generation is counted.
+ */
+const DelimitedImportDialog: React.FC<DelimitedImportDialogProps> = ({ initialTarget, onClose, onImported }) => {
+  const [target, setTarget] = useState<ImportTarget>(initialTarget);
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fieldChoice, setFieldChoice] = useState('auto');
+  const [customField, setCustomField] = useState('');
+  const [rowChoice, setRowChoice] = useState('auto');
+  const [customRow, setCustomRow] = useState('');
+  const [headerChoice, setHeaderChoice] = useState<boolean | null>(null);
+  const [override, setOverride] = useState<{ layout: string; mapping: ColumnMapping } | null>(null);
+  const [title, setTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const separators = useMemo<Separators>(() => {
+    const detected = detectSeparators(text);
+    const pick = (choice: string, custom: string, fallback: string) =>
+      choice === 'auto' ? fallback : choice === 'custom' ? custom.replace(/\\t/g, '\t').replace(/\\n/g, '\n') : choice;
+    return {
+      field: pick(fieldChoice, customField, detected.field) || detected.field,
+      row: pick(rowChoice, customRow, detected.row) || detected.row,
+    };
+  }, [text, fieldChoice, customField, rowChoice, customRow]);
+
+  const rows = useMemo(() => parseRows(text, separators), [text, separators]);
+  const hasHeader = headerChoice ?? looksLikeHeader(rows, target);
+  const header = hasHeader ? rows[0] : null;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const columns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  // A hand-picked mapping holds until the columns it refers to change
+  const layout = [target, separators.field, separators.row, hasHeader, columns].join('|');
+  const mapping = override?.layout === layout ? override.mapping : defaultMapping(target, header, columns);
+  const result = buildItems(target, dataRows, mapping);
+  const targetInfo = TARGETS.find(t => t.value === target)!;
+  const enough = result.items.length >= minimumItems(target);
+
+  const columnLabel = (index: number) => {
+    const name = header?.[index];
+    const sample = dataRows.find(row => row[index])?.[index];
+    if (name) return name;
+    return sample ? `Column ${index + 1} (${sample.length > 24 ? `${sample.slice(0, 24)}…` : sample})` : `Column ${index + 1}`;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+    setHeaderChoice(null);
+    if (!title) setTitle(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleImport = async () => {
+    if (!enough || saving) return;
+    setSaving(true);
+    setError(null);
+    const base = {
+      id: Date.now().toString(),
+      title: title.trim() || `Imported ${targetInfo.label.toLowerCase()}`,
+      description: `Imported from ${fileName || 'a pasted list'}`,
+      createdAt: new Date().toISOString(),
+    };
+    const items = result.items;
+    const item = target === 'flashcards'
+      ? { ...base, cards: items, sourceType: 'standalone' } as FlashcardDeck
+      : target === 'matching'
+        ? { ...base, pairs: items } as MatchingGame
+        : target === 'word-scramble'
+          ? { ...base, words: items } as WordScrambleGame
+          : { ...base, sentences: items } as FillBlankGame;
+    try {
+      const res = await apiPost(targetInfo.path, item);
+      if (!res.ok) throw new Error('Failed to save imported list');
+      const skipped = result.skipped ? ` (${result.skipped} rows skipped)` : '';
+      onImported(target, `Imported ${items.length} ${targetInfo.noun}${skipped}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save imported list');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="import-dialog-overlay" onClick={onClose}>
+      <div className="import-dialog" onClick={e => e.stopPropagation()}>
+        <div className="import-dialog-header">
+          <h2>Import from CSV / TSV</h2>
+          <button className="import-dialog-close" onClick={onClose} title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="import-dialog-body">
+          <div className="import-dialog-targets">
+            {TARGETS.map(t => (
+              <button
+                key={t.value}
+                className={`import-dialog-target ${target === t.value ? 'active' : ''}`}
+                onClick={() => setTarget(t.value)}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="import-dialog-source">
+            <textarea
+              value={text}
+              onChange={e => {
+                setText(e.target.value);
+                setFileName(null);
+              }}
+              placeholder={'Paste a list, one item per line:\nphotosynthesis\tmaking sugar from light\nchlorophyll\tthe green pigment in leaves'}
+              rows={6}
+              spellCheck={false}
+            />
+            <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt" onChange={handleFile} style={{ display: 'none' }} />
+            <button className="btn btn-secondary" onClick={() => fileInputRef.current?.click()}>
+              {fileName ? `Loaded ${fileName}` : 'Choose a file'}
+            </button>
+            <p className="import-dialog-hint">
+              Works with spreadsheet CSV/TSV exports and Quizlet's "Export" text; pick Quizlet's custom separators below if you changed them.
+            </p>
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="import-dialog-options">
+                <SeparatorPicker
+                  label="Between columns"
+                  options={FIELD_SEPARATORS}
+                  choice={fieldChoice}
+                  custom={customField}
+                  onChoice={setFieldChoice}
+                  onCustom={setCustomField}
+                />
+                <SeparatorPicker
+                  label="Between rows"
+                  options={ROW_SEPARATORS}
+                  choice={rowChoice}
+                  custom={customRow}
+                  onChoice={setRowChoice}
+                  onCustom={setCustomRow}
+                />
+                <label className="import-dialog-check">
+                  <input type="checkbox" checked={hasHeader} onChange={e => setHeaderChoice(e.target.checked)} />
+                  First row is a header
+                </label>
+              </div>
+
+              <div className="import-dialog-mapping">
+                {IMPORT_FIELDS[target].map(field => (
+                  <label key={field.key} className="import-dialog-field">
+                    <span>{field.label}{field.required ? '' : ' (optional)'}</span>
+                    <select
+                      value={mapping[field.key] ?? ''}
+                      onChange={e => setOverride({
+                        layout,
+                        mapping: { ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) },
+                      })}
+                    >
+                      <option value="">{field.required ? 'Choose a column' : 'None'}</option>
+                      {Array.from({ length: columns }, (_, index) => (
+                        <option key={index} value={index}>{columnLabel(index)}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="import-dialog-preview">
+                <table>
+                  <thead>
+                    <tr>{IMPORT_FIELDS[target].map(field => <th key={field.key}>{field.label}</th>)}</tr>
+                  </thead>
+                  <tbody>
+                    {result.items.slice(0, PREVIEW_ROWS).map(item => (
+                      <tr key={item.id}>
+                        {previewCells(target, item).map((cell, index) => <td key={index}>{cell}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="import-dialog-hint">
+                  {result.items.length} {targetInfo.noun}
+                  {result.items.length > PREVIEW_ROWS && ` (showing the first ${PREVIEW_ROWS})`}
+                  {result.skipped > 0 && ` · ${result.skipped} rows skipped: ${result.reason}`}
+                  {!enough && target === 'matching' && ' · a matching game needs at least 2 pairs'}
+                </p>
+              </div>
+
+              <label className="import-dialog-field">
+                <span>Title</span>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={e => setTitle(e.target.value)}
+                  placeholder={`Imported ${targetInfo.label.toLowerCase()}`}
+                  maxLength={100}
+                />
+              </label>
+            </>
+          )}
+
+          {error && <div className="import-dialog-error">{error}</div>}
+        </div>
+
+        <div className="import-dialog-footer">
+          <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleImport} disabled={!enough || saving}>
+            {saving ? 'Importing...' : `Import ${result.items.length} ${targetInfo.noun}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DelimitedImportDialog;
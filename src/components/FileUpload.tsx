@@ -80,14 +80,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange }) => {
           <line x1="12" y1="3" x2="12" y2="15"/>
         </svg>
         <p className="upload-text">Drag and drop files here, or click to browse</p>
-        <p className="upload-hint">Supports PDF, TXT, DOC, DOCX, and more</p>
+        <p className="upload-hint">Supports PDF, Word, PowerPoint, EPUB, HTML, Excel, CSV, and more</p>
         <input
           ref={fileInputRef}
           type="file"
           className="file-input"
           multiple
           onChange={handleFileSelect}
-          accept=".pdf,.txt,.doc,.docx,.md,.rtf"
+          accept=".pdf,.txt,.doc,.docx,.md,.rtf,.pptx,.epub,.html,.htm,.xlsx,.csv,.tsv"
         />
       </div>
 
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import type { FillBlankSentence, Flashcard, MatchingPair, QuizQuestion, ScrambleWord } from '../types/roadmap';
+import {
+  BLANK,
+  MAX_OPTIONS,
+  newItem,
+  nextItemId,
+  normalizeItems,
+  validateItems,
+  type EditableItem,
+  type EditableKind,
+} from '../lib/studyItems';
+
+interface ItemEditorProps {
+  kind: EditableKind;
+  title: string;
+  items: EditableItem[];
+  // Resolves once saved; a rejection is shown in the editor, which stays open
+  onSave: (items: EditableItem[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const NOUNS: Record<EditableKind, string> = {
+  flashcards: 'card',
+  quiz: 'question',
+  matching: 'pair',
+  'word-scramble': 'word',
+  'fill-blank': 'sentence',
+};
+
+// A labelled input or textarea bound to one string field
+const Field: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+}> = ({ label, value, onChange, multiline, placeholder }) => (
+  <label className="item-editor-field">
+    <span>{label}</span>
+    {multiline ? (
+      <textarea value={value} onChange={e => onChange(e.target.value)} placeholder={placeholder} rows={2} />
+    ) : (
+      <input type="text" value={value} onChange={e => onChange(e.target.value)} placeholder={placeholder} />
+    )}
+  </label>
+);
+
+/**
+ * Add, remove, reorder and edit the entries of a deck, quiz or game. Entries keep
+ * fields the editor does not show (review schedules, citations), and the list is
+ * only handed to `onSave` once validateItems has nothing to report.
+ */
+const ItemEditor: React.FC<ItemEditorProps> = ({ kind, title, items: initialItems, onSave, onClose }) => {
+  // Rows are keyed by id; older content can have entries without one, or repeats
+  const [items, setItems] = useState<EditableItem[]>(() => {
+    const list: EditableItem[] = [];
+    for (const item of initialItems) {
+      const unique = item.id && !list.some(other => other.id === item.id);
+      list.push(unique ? item : { ...item, id: nextItemId(kind, [...initialItems, ...list]) });
+    }
+    return list;
+  });
+  const [dirty, setDirty] = useState(false);
+  const [showProblems, setShowProblems] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problems = validateItems(kind, items);
+  const noun = NOUNS[kind];
+
+  const update = (next: EditableItem[]) => {
+    setItems(next);
+    setDirty(true);
+  };
+  const patch = (index: number, changes: Partial<EditableItem>) =>
+    update(items.map((item, i) => (i === index ? { ...item, ...changes } as EditableItem : item)));
+  const move = (index: number, offset: number) => {
+    const next = [...items];
+    const [item] = next.splice(index, 1);
+    next.splice(index + offset, 0, item);
+    update(next);
+  };
+
+  const handleClose = () => {
+    if (dirty && !confirm('Discard your changes?')) return;
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (problems.length > 0) {
+      setShowProblems(true);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(normalizeItems(kind, items));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save changes');
+      setSaving(false);
+    }
+  };
+
+  const renderFields = (item: EditableItem, index: number) => {
+    switch (kind) {
+      case 'flashcards': {
+        const card = item as Flashcard;
+        return (
+          <>
+            <Field label="Front" value={card.front} onChange={front => patch(index, { front })} multiline />
+            <Field label="Back" value={card.back} onChange={back => patch(index, { back })} multiline />
+            <Field label="Category (optional)" value={card.category || ''} onChange={category => patch(index, { category })} />
+          </>
+        );
+      }
+      case 'quiz': {
+        const question = item as QuizQuestion;
+        const setOptions = (options: string[], correctAnswer = question.correctAnswer) =>
+          patch(index, { options, correctAnswer });
+        return (
+          <>
+            <Field label="Question" value={question.question} onChange={text => patch(index, { question: text })} multiline />
+            <div className="item-editor-field">
+              <span>Options — select the correct one</span>
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="item-editor-option">
+                  <input
+                    type="radio"
+                    name={`correct-${question.id}`}
+                    checked={question.correctAnswer === optionIndex}
+                    onChange={() => patch(index, { correctAnswer: optionIndex })}
+                    title="Correct answer"
+                  />
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={e => setOptions(question.options.map((o, i) => (i === optionIndex ? e.target.value : o)))}
+                    placeholder={`Option ${optionIndex + 1}`}
+                  />
+                  <button
+                    className="item-editor-icon"
+                    onClick={() => {
+                      const correct = question.correctAnswer;
+                      // Removing the correct option leaves the question unanswered until one is picked
+                      const nextCorrect = optionIndex === correct ? -1 : optionIndex < correct ? correct - 1 : correct;
+                      setOptions(question.options.filter((_, i) => i !== optionIndex), nextCorrect);
+                    }}
+                    disabled={question.options.length <= 2}
+                    title="Remove option"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {question.options.length < MAX_OPTIONS && (
+                <button className="item-editor-link" onClick={() => setOptions([...question.options, ''])}>+ Add option</button>
+              )}
+            </div>
+            <Field label="Explanation" value={question.explanation} onChange={explanation => patch(index, { explanation })} multiline />
+          </>
+        );
+      }
+      case 'matching': {
+        const pair = item as MatchingPair;
+        return (
+          <>
+            <Field label="Prompt" value={pair.question} onChange={question => patch(index, { question })} />
+            <Field label="Match" value={pair.answer} onChange={answer => patch(index, { answer })} />
+          </>
+        );
+      }
+      case 'word-scramble': {
+        const word = item as ScrambleWord;
+        return (
+          <>
+            <Field label="Word" value={word.word} onChange={text => patch(index, { word: text })} />
+            <Field label="Hint" value={word.hint} onChange={hint => patch(index, { hint })} />
+            <Field label="Category (optional)" value={word.category || ''} onChange={category => patch(index, { category })} />
+          </>
+        );
+      }
+      case 'fill-blank': {
+        const sentence = item as FillBlankSentence;
+        return (
+          <>
+            <Field
+              label={`Sentence — write ${BLANK} for the blank`}
+              value={sentence.sentence}
+              onChange={text => patch(index, { sentence: text })}
+              placeholder={`Plants absorb ${BLANK} through their leaves.`}
+              multiline
+            />
+            <Field label="Answer" value={sentence.answer} onChange={answer => patch(index, { answer })} />
+            <Field label="Hint (optional)" value={sentence.hint || ''} onChange={hint => patch(index, { hint })} />
+          </>
+        );
+      }
+    }
+  };
+
+  const listProblems = problems.filter(problem => problem.index === null);
+
+  return (
+    <div className="item-editor-overlay" onClick={handleClose}>
+      <div className="item-editor" onClick={e => e.stopPropagation()}>
+        <div className="item-editor-header">
+          <h2>Edit “{title}”</h2>
+          <button className="item-editor-close" onClick={handleClose} title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <ol className="item-editor-list">
+          {items.map((item, index) => {
+            const itemProblems = showProblems ? problems.filter(problem => problem.index === index) : [];
+            return (
+              <li key={item.id} className={`item-editor-row ${itemProblems.length > 0 ? 'invalid' : ''}`}>
+                <div className="item-editor-fields">
+                  {renderFields(item, index)}
+                  {itemProblems.map((problem, i) => <div key={i} className="item-editor-problem">{problem.message}</div>)}
+                </div>
+                <div className="item-editor-controls">
+                  <button className="item-editor-icon" onClick={() => move(index, -1)} disabled={index === 0} title="Move up">↑</button>
+                  <button className="item-editor-icon" onClick={() => move(index, 1)} disabled={index === items.length - 1} title="Move down">↓</button>
+                  <button className="item-editor-icon danger" onClick={() => update(items.filter((_, i) => i !== index))} title={`Remove ${noun}`}>×</button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="item-editor-footer">
+          <button className="btn btn-secondary" onClick={() => update([...items, newItem(kind, nextItemId(kind, items))])}>
+            Add {noun}
+          </button>
+          <div className="item-editor-status">
+            {showProblems && listProblems.map((problem, i) => <span key={i} className="item-editor-problem">{problem.message}</span>)}
+            {showProblems && problems.length > listProblems.length && (
+              <span className="item-editor-problem">Fix the highlighted {noun}s to save</span>
+            )}
+            {error && <span className="item-editor-problem">{error}</span>}
+          </div>
+          <button className="btn btn-secondary" onClick={handleClose}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving || !dirty}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemEditor;
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { GenerationJob, GenerationJobStage } from '../types/api';
+
+interface JobsTrayProps {
+  jobs: GenerationJob[];
+  busyJobId: string | null;
+  onOpen: (job: GenerationJob) => void;
+  onRetry: (job: GenerationJob) => void;
+  onDismiss: (job: GenerationJob) => void;
+}
+
+const STAGE_LABELS: Record<GenerationJobStage, string> = {
+  'reading-files': 'Reading your files',
+  outline: 'Designing the course outline',
+  'first-step': 'Writing the first step',
+  cards: 'Writing flashcards',
+};
+
+const KIND_LABELS: Record<GenerationJob['kind'], string> = {
+  course: 'Course',
+  flashcards: 'Flashcards',
+};
+
+function jobTitle(job: GenerationJob) {
+  // The outline title is known before the course is finished
+  if (job.partial?.roadmap.title) return job.partial.roadmap.title;
+  if (job.prompt.trim()) return job.prompt;
+  return job.fileNames.join(', ') || 'Untitled';
+}
+
+function statusText(job: GenerationJob) {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting to start…';
+    case 'running':
+      return job.stage ? `${STAGE_LABELS[job.stage]}…` : 'Starting…';
+    case 'succeeded':
+      return 'Ready';
+    case 'failed':
+      return job.error?.error || 'Generation failed';
+  }
+}
+
+// Background generations on the prompt page; they keep running while the user is elsewhere
+const JobsTray: React.FC<JobsTrayProps> = ({ jobs, busyJobId, onOpen, onRetry, onDismiss }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="jobs-tray">
+      <div className="jobs-tray-header">Background generations</div>
+      <ul className="jobs-tray-list">
+        {jobs.map(job => {
+          const active = job.status === 'queued' || job.status === 'running';
+          const busy = busyJobId === job.id;
+          return (
+            <li key={job.id} className={`jobs-tray-item ${job.status}`}>
+              <div className="jobs-tray-info">
+                <span className="jobs-tray-kind">{KIND_LABELS[job.kind]}</span>
+                <span className="jobs-tray-title" title={jobTitle(job)}>{jobTitle(job)}</span>
+                <span className="jobs-tray-status" title={job.error?.details}>
+                  {active && <span className="jobs-tray-spinner" />}
+                  {statusText(job)}
+                </span>
+              </div>
+              <div className="jobs-tray-actions">
+                {job.status === 'succeeded' && (
+                  <button className="jobs-tray-btn primary" onClick={() => onOpen(job)} disabled={busy}>
+                    Open
+                  </button>
+                )}
+                {job.status === 'failed' && job.canRetry && (
+                  <button className="jobs-tray-btn" onClick={() => onRetry(job)} disabled={busy}>
+                    Retry
+                  </button>
+                )}
+                {!active && (
+                  <button className="jobs-tray-dismiss" onClick={() => onDismiss(job)} disabled={busy} title="Dismiss">
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="14" height="14">
+                      <line x1="18" y1="6" x2="6" y2="18"/>
+                      <line x1="6" y1="6" x2="18" y2="18"/>
+                    </svg>
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default JobsTray;
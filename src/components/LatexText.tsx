@@ -22,7 +22,7 @@ const LatexText: React.FC<LatexTextProps> = ({ children, className }) => {
           const math = part.slice(2, -2).trim();
           try {
             return <BlockMath key={index} math={math} />;
-          } catch (e) {
+          } catch {
             return <span key={index}>{part}</span>;
           }
         } else if (part.startsWith('$') && part.endsWith('$')) {
@@ -30,7 +30,7 @@ const LatexText: React.FC<LatexTextProps> = ({ children, className }) => {
           const math = part.slice(1, -1).trim();
           try {
             return <InlineMath key={index} math={math} />;
-          } catch (e) {
+          } catch {
             return <span key={index}>{part}</span>;
           }
         }
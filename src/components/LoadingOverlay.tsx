@@ -1,9 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
 
+// Real progress for generations that report it (e.g. the streamed course generation)
+export interface LoadingStage {
+  id: string;
+  label: string;
+  status: 'pending' | 'active' | 'done';
+}
+
+export interface LoadingProgress {
+  stages: LoadingStage[];
+  action?: { label: string; onClick: () => void };
+}
+
 interface LoadingOverlayProps {
   isVisible: boolean;
   message?: string;
   subMessage?: string;
+  progress?: LoadingProgress;
 }
 
 const LOADING_TIPS = [
@@ -17,7 +30,8 @@ const LOADING_TIPS = [
 const LoadingOverlay: React.FC<LoadingOverlayProps> = ({ 
   isVisible,
   message = 'Generating...', 
-  subMessage = 'This may take a moment' 
+  subMessage = 'This may take a moment',
+  progress: stageProgress,
 }) => {
   const [progress, setProgress] = useState(0);
   const [tipIndex, setTipIndex] = useState(0);
@@ -26,17 +40,31 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
   const progressRef = useRef(0);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  // With stages, the bar jumps to each finished stage and only crawls within the current one
+  const stageCount = stageProgress?.stages.length || 0;
+  const doneCount = stageProgress?.stages.filter(stage => stage.status === 'done').length || 0;
+  const floorRef = useRef(0);
+  const ceilingRef = useRef(90);
+
+  useEffect(() => {
+    floorRef.current = stageCount ? (doneCount / stageCount) * 100 : 0;
+    ceilingRef.current = stageCount ? ((doneCount + 0.9) / stageCount) * 100 : 90;
+  }, [stageCount, doneCount]);
+
   useEffect(() => {
     if (isVisible && !wasVisibleRef.current) {
-      // Starting fresh
+      // Starting fresh, possibly while the last run's closing animation is still up
+      // eslint-disable-next-line react-hooks/set-state-in-effect
       setProgress(0);
       progressRef.current = 0;
       setTipIndex(0);
       setIsClosing(false);
       
-      // Slowly crawl toward 90%, decelerating as it gets higher
+      // Slowly crawl toward the ceiling (90% without stages), decelerating as it gets higher
       intervalRef.current = setInterval(() => {
-        progressRef.current = Math.min(progressRef.current + (90 - progressRef.current) * 0.015, 89.9);
+        const ceiling = ceilingRef.current;
+        const current = Math.max(progressRef.current, floorRef.current);
+        progressRef.current = Math.min(current + (ceiling - current) * 0.015, ceiling - 0.1);
         setProgress(progressRef.current);
       }, 200);
     }
@@ -90,9 +118,26 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
           <div className="loading-progress-fill" style={{ width: `${progress}%` }} />
         </div>
         
-        <div className="loading-tip-text" key={tipIndex}>
-          {LOADING_TIPS[tipIndex]}
-        </div>
+        {stageProgress ? (
+          <ul className="loading-stages">
+            {stageProgress.stages.map(stage => (
+              <li key={stage.id} className={`loading-stage ${stage.status}`}>
+                <span className="loading-stage-icon">{stage.status === 'done' ? '✓' : stage.status === 'active' ? '•' : ''}</span>
+                {stage.label}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="loading-tip-text" key={tipIndex}>
+            {LOADING_TIPS[tipIndex]}
+          </div>
+        )}
+
+        {stageProgress?.action && (
+          <button className="btn btn-primary loading-action" onClick={stageProgress.action.onClick}>
+            {stageProgress.action.label}
+          </button>
+        )}
         
         <div className="loading-subtext">{subMessage}</div>
       </div>
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import type { Course, CourseStep } from '../types/roadmap';
+import { apiPost } from '../lib/fetch';
+import { prerequisitesOf } from '../lib/prerequisites';
+import { hasPrerequisiteGraph, mergeSteps, moveStep, newStep, nextStepId, removeStep, splitStep } from '../lib/courseOutline';
+
+interface OutlineEditorProps {
+  course: Course;
+  // Resolves once saved; a rejection is shown in the editor, which stays open
+  onSave: (steps: CourseStep[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Progress a learner would lose if the step went away
+const hasProgress = (step: CourseStep) => step.completed || !!step.test?.completed || (step.materialProgress || 0) > 0;
+
+/**
+ * Reorder, insert, split, merge and delete the steps of a course. Changes are made
+ * to a draft; numbering, unlocks and task/material ids are settled on save.
+ */
+const OutlineEditor: React.FC<OutlineEditorProps> = ({ course, onSave, onClose }) => {
+  const [steps, setSteps] = useState<CourseStep[]>(course.steps);
+  const [dirty, setDirty] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Position a new step is being generated for, with what it should cover
+  const [insertAt, setInsertAt] = useState<number | null>(null);
+  const [insertTopic, setInsertTopic] = useState('');
+  const [inserting, setInserting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (next: CourseStep[]) => {
+    setSteps(next);
+    setDirty(true);
+  };
+  const graph = hasPrerequisiteGraph(steps);
+  // Prerequisites by position in the draft, which is what the numbers on screen show
+  const needs = (step: CourseStep) =>
+    prerequisitesOf(step, steps).map(id => steps.findIndex(s => s.id === id) + 1).filter(n => n > 0).sort((a, b) => a - b);
+
+  const rename = (index: number, title: string) =>
+    update(steps.map((step, i) => (i === index ? { ...step, title } : step)));
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) update(moveStep(steps, dragIndex, index));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDelete = (index: number) => {
+    const step = steps[index];
+    if (hasProgress(step) && !confirm(`"${step.title}" has progress that will be lost. Delete it?`)) return;
+    update(removeStep(steps, index));
+  };
+
+  const handleMerge = (index: number) => {
+    const [a, b] = [steps[index], steps[index + 1]];
+    // A merged step only counts as completed if both were
+    if (a.completed !== b.completed && !confirm('Only one of these steps is completed, so the merged step will not be. Merge anyway?')) return;
+    update(mergeSteps(steps, index));
+  };
+
+  const handleInsert = async () => {
+    if (insertAt === null) return;
+    setInserting(true);
+    setError(null);
+    try {
+      const response = await apiPost('/generate-step', {
+        courseId: course.id,
+        courseTitle: course.title,
+        courseDescription: course.description,
+        steps: steps.map(({ title, description }) => ({ title, description })),
+        position: insertAt,
+        prompt: insertTopic.trim() || undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to generate step');
+
+      const step = newStep(nextStepId(steps), data.step);
+      // In a branching course the new step builds on the one above it, like a generated chain would
+      if (hasPrerequisiteGraph(steps)) step.prerequisites = insertAt > 0 ? [steps[insertAt - 1].id] : [];
+      update([...steps.slice(0, insertAt), step, ...steps.slice(insertAt)]);
+      setInsertAt(null);
+      setInsertTopic('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate step');
+    } finally {
+      setInserting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (inserting) return;
+    if (dirty && !confirm('Discard your changes?')) return;
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (steps.some(step => !step.title.trim())) {
+      setError('Every step needs a title');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(steps.map(step => ({ ...step, title: step.title.trim() })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save changes');
+      setSaving(false);
+    }
+  };
+
+  const insertSlot = (position: number) => (
+    insertAt === position ? (
+      <li className="outline-insert-form">
+        <input
+          type="text"
+          value={insertTopic}
+          onChange={e => setInsertTopic(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && !inserting && handleInsert()}
+          placeholder="What should the new step cover? (optional)"
+          disabled={inserting}
+          autoFocus
+        />
+        <button className="btn btn-primary" onClick={handleInsert} disabled={inserting}>
+          {inserting ? 'Generating...' : 'Generate step'}
+        </button>
+        <button className="btn btn-secondary" onClick={() => setInsertAt(null)} disabled={inserting}>Cancel</button>
+      </li>
+    ) : (
+      <li className="outline-insert">
+        <button className="item-editor-link" onClick={() => setInsertAt(position)} disabled={inserting}>+ Insert step here</button>
+      </li>
+    )
+  );
+
+  return (
+    <div className="item-editor-overlay" onClick={handleClose}>
+      <div className="item-editor" onClick={e => e.stopPropagation()}>
+        <div className="item-editor-header">
+          <h2>Edit outline</h2>
+          <button className="item-editor-close" onClick={handleClose} title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <ol className="item-editor-list outline-list">
+          {steps.map((step, index) => (
+            <React.Fragment key={step.id}>
+              {insertSlot(index)}
+              <li
+                className={`outline-row ${dragIndex === index ? 'dragging' : ''} ${dropIndex === index && dragIndex !== index ? 'drop-target' : ''}`}
+                onDragOver={e => {
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+              >
+                {/* Only the handle drags, so the title can still be selected */}
+                <span className="outline-handle" draggable={!inserting} onDragStart={() => setDragIndex(index)} title="Drag to reorder">⋮⋮</span>
+                <span className="outline-number">{index + 1}</span>
+                <div className="outline-fields">
+                  <input type="text" value={step.title} onChange={e => rename(index, e.target.value)} />
+                  <span className="outline-meta">
+                    {step.completed ? 'Completed · ' : ''}
+                    {step.detailsLoaded ? `${step.tasks.length} tasks, ${step.materials.length} materials` : 'Not opened yet'}
+                    {step.test ? ` · ${step.test.totalQuestions}-question quiz` : ''}
+                    {graph && needs(step).length > 0 ? ` · Needs ${needs(step).join(', ')}` : ''}
+                  </span>
+                </div>
+                <div className="item-editor-controls outline-controls">
+                  <button className="item-editor-icon" onClick={() => update(moveStep(steps, index, index - 1))} disabled={index === 0} title="Move up">↑</button>
+                  <button className="item-editor-icon" onClick={() => update(moveStep(steps, index, index + 1))} disabled={index === steps.length - 1} title="Move down">↓</button>
+                  <button
+                    className="item-editor-icon"
+                    onClick={() => update(splitStep(steps, index))}
+                    disabled={step.tasks.length < 2 && step.materials.length < 2}
+                    title="Split into two steps"
+                  >
+                    ⑂
+                  </button>
+                  <button className="item-editor-icon" onClick={() => handleMerge(index)} disabled={index === steps.length - 1} title="Merge with the next step">⊕</button>
+                  <button className="item-editor-icon danger" onClick={() => handleDelete(index)} disabled={steps.length <= 1} title="Delete step">×</button>
+                </div>
+              </li>
+            </React.Fragment>
+          ))}
+          {insertSlot(steps.length)}
+        </ol>
+
+        <div className="item-editor-footer">
+          <div className="item-editor-status">
+            {error && <span className="item-editor-problem">{error}</span>}
+          </div>
+          <button className="btn btn-secondary" onClick={handleClose} disabled={inserting}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleSave} disabled={saving || inserting || !dirty}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OutlineEditor;
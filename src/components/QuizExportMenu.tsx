@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { apiDownload } from '../lib/fetch';
+
+interface QuizExportMenuProps {
+  exportPath: string; // e.g. /standalone-quizzes/:id/export — the format is appended
+  title: string;
+}
+
+const FORMATS = [
+  { id: 'qti', label: 'QTI 2.1', extension: 'zip', hint: 'IMS QTI 2.1 package for Canvas, Blackboard and most LMSs' },
+  { id: 'gift', label: 'GIFT', extension: 'gift.txt', hint: 'Moodle GIFT question file' },
+];
+
+// Download buttons for exporting a quiz or step test to a school LMS
+const QuizExportMenu: React.FC<QuizExportMenuProps> = ({ exportPath, title }) => {
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: typeof FORMATS[number]) => {
+    if (exporting) return;
+    setExporting(format.id);
+    setError(null);
+    try {
+      await apiDownload(`${exportPath}/${format.id}`, `${title || 'quiz'}.${format.extension}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="quiz-export-menu">
+      <span className="quiz-export-label">Export</span>
+      {FORMATS.map(format => (
+        <button
+          key={format.id}
+          className="quiz-export-btn"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          title={format.hint}
+        >
+          {exporting === format.id ? '...' : format.label}
+        </button>
+      ))}
+      {error && <span className="quiz-export-error">{error}</span>}
+    </div>
+  );
+};
+
+export default QuizExportMenu;
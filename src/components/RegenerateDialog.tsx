@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+
+interface RegenerateDialogProps {
+  // What is being replaced, e.g. "question" or "material"
+  noun: string;
+  // Resolves once the replacement is in place; a rejection is shown and the dialog stays open
+  onRegenerate: (feedback: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = ['Too easy', 'Too hard', 'Factually wrong', 'Unclear', 'Off topic'];
+
+/** Asks what was wrong with one generated item before it is rewritten */
+const RegenerateDialog: React.FC<RegenerateDialogProps> = ({ noun, onRegenerate, onClose }) => {
+  const [feedback, setFeedback] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRegenerate = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      await onRegenerate(feedback.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to regenerate ${noun}`);
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="item-editor-overlay" onClick={() => !working && onClose()}>
+      <div className="regenerate-dialog" onClick={e => e.stopPropagation()}>
+        <h2>Regenerate this {noun}</h2>
+        <p className="regenerate-dialog-text">
+          Only this {noun} is replaced. Say what was wrong with it, or leave it blank for a fresh take.
+        </p>
+        <div className="regenerate-suggestions">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              className={`regenerate-suggestion ${feedback === suggestion ? 'active' : ''}`}
+              onClick={() => setFeedback(suggestion)}
+              disabled={working}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={feedback}
+          onChange={e => setFeedback(e.target.value)}
+          placeholder="e.g. The answer to this is outdated"
+          rows={3}
+          maxLength={500}
+          disabled={working}
+        />
+        {error && <div className="item-editor-problem">{error}</div>}
+        <div className="regenerate-dialog-actions">
+          <button className="btn btn-secondary" onClick={onClose} disabled={working}>Cancel</button>
+          <button className="btn btn-primary" onClick={handleRegenerate} disabled={working}>
+            {working ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegenerateDialog;
@@ -3,8 +3,8 @@ import { Course } from '../types/roadmap';
 import { usePlugins } from '../plugins';
 
 interface SidebarProps {
-  currentPage: 'prompt' | 'gallery' | 'plugins' | 'profile' | 'community';
-  onNavigate: (page: 'prompt' | 'gallery' | 'plugins' | 'profile' | 'community') => void;
+  currentPage: 'prompt' | 'gallery' | 'review' | 'plugins' | 'profile' | 'community';
+  onNavigate: (page: 'prompt' | 'gallery' | 'review' | 'plugins' | 'profile' | 'community') => void;
   recentCourses?: Course[];
   onSelectCourse?: (course: Course) => void;
   userEmail?: string;
@@ -70,6 +70,20 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate, recentCourse
           </svg>
           {!isCollapsed && 'Library'}
         </button>
+        <button
+          className={`nav-item ${currentPage === 'review' ? 'active' : ''}`}
+          onClick={() => onNavigate('review')}
+          title="Due Today"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="4" width="18" height="18" rx="2" ry="2"/>
+            <line x1="16" y1="2" x2="16" y2="6"/>
+            <line x1="8" y1="2" x2="8" y2="6"/>
+            <line x1="3" y1="10" x2="21" y2="10"/>
+            <polyline points="9 16 11 18 15 14"/>
+          </svg>
+          {!isCollapsed && 'Due Today'}
+        </button>
         <button
           className={`nav-item ${currentPage === 'community' ? 'active' : ''}`}
           onClick={() => onNavigate('community')}
@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { CourseSource, SourceSection } from '../types/api';
+import type { SourceCitation } from '../types/roadmap';
+import { apiDelete, apiFetch, apiFormData, apiPost } from '../lib/fetch';
+
+interface SourcesPanelProps {
+  courseId: string;
+  // Opens at a citation: its source, its section and the quoted span
+  focus?: SourceCitation;
+  onClose: () => void;
+}
+
+const sourcePath = (courseId: string, name: string) => `/roadmaps/${courseId}/sources/${encodeURIComponent(name)}`;
+
+function sourceMeta(source: CourseSource) {
+  const sections = `${source.sections} ${source.sections === 1 ? 'section' : 'sections'}`;
+  return source.pages ? `${source.pages} pages · ${sections}` : sections;
+}
+
+function sectionLabel(section: SourceSection, index: number) {
+  const pages = section.pageStart == null
+    ? ''
+    : section.pageEnd != null && section.pageEnd !== section.pageStart
+      ? `p. ${section.pageStart}–${section.pageEnd}`
+      : `p. ${section.pageStart}`;
+  return [pages, section.heading].filter(Boolean).join(' — ') || `Section ${index + 1}`;
+}
+
+// Marks a cited span in its section; a quote shortened with "…" marks its first part
+function highlight(content: string, quote: string, markRef: React.Ref<HTMLElement>) {
+  const words = (quote.split(/\s*(?:\.\.\.|…)\s*/).find(Boolean) || '').trim().split(/\s+/).filter(Boolean);
+  const pattern = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  const match = pattern ? new RegExp(pattern, 'i').exec(content) : null;
+  if (!match) return content;
+  return (
+    <>
+      {content.slice(0, match.index)}
+      <mark ref={markRef}>{match[0]}</mark>
+      {content.slice(match.index + match[0].length)}
+    </>
+  );
+}
+
+// The course's uploaded material: browse it, add files, reuse files from other courses
+const SourcesPanel: React.FC<SourcesPanelProps> = ({ courseId, focus, onClose }) => {
+  const [sources, setSources] = useState<CourseSource[] | null>(null);
+  const [library, setLibrary] = useState<CourseSource[]>([]);
+  const [openSource, setOpenSource] = useState<{ name: string; sections: SourceSection[] } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const markRef = useRef<HTMLElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [courseResponse, libraryResponse] = await Promise.all([
+        apiFetch(`/roadmaps/${courseId}/sources`),
+        apiFetch('/sources'),
+      ]);
+      if (!courseResponse.ok) throw new Error('Failed to load sources');
+      setSources(await courseResponse.json());
+      if (libraryResponse.ok) setLibrary(await libraryResponse.json());
+    } catch (err) {
+      setSources([]);
+      setError(err instanceof Error ? err.message : 'Failed to load sources');
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openByName = useCallback(async (name: string) => {
+    setBusy(`open:${name}`);
+    try {
+      const response = await apiFetch(sourcePath(courseId, name));
+      if (!response.ok) throw new Error(response.status === 404 ? `"${name}" is no longer in this course's sources` : 'Failed to load source');
+      setOpenSource(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load source');
+    } finally {
+      setBusy(null);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    if (focus) openByName(focus.source);
+  }, [focus, openByName]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' });
+  }, [openSource]);
+
+  // Runs a change that answers with the updated source list
+  const run = async (key: string, request: () => Promise<Response>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      const response = await request();
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Something went wrong');
+      if (Array.isArray(data)) setSources(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file));
+    // A file with the same name replaces the one being viewed
+    setOpenSource(null);
+    await run('upload', () => apiFormData(`/roadmaps/${courseId}/sources`, formData));
+  };
+
+  const handleCopy = (source: CourseSource) =>
+    run(`copy:${source.courseId}:${source.name}`, () =>
+      apiPost(`/roadmaps/${courseId}/sources/copy`, { courseId: source.courseId, name: source.name }));
+
+  const handleRemove = async (source: CourseSource) => {
+    if (!confirm(`Remove "${source.name}" from this course's sources?`)) return;
+    if (await run(`remove:${source.name}`, () => apiDelete(sourcePath(courseId, source.name)))) {
+      setSources(prev => (prev || []).filter(s => s.name !== source.name));
+      if (openSource?.name === source.name) setOpenSource(null);
+    }
+  };
+
+  const handleToggle = (source: CourseSource) => {
+    if (openSource?.name === source.name) setOpenSource(null);
+    else openByName(source.name);
+  };
+
+  const names = new Set((sources || []).map(source => source.name));
+  const reusable = library.filter(source => source.courseId !== courseId && !names.has(source.name));
+
+  return (
+    <div className="sources-overlay" onClick={onClose}>
+      <div className="sources-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="sources-header">
+          <h2>Sources</h2>
+          <button className="sources-close" onClick={onClose} title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18"/>
+              <line x1="6" y1="6" x2="18" y2="18"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="sources-body">
+          <p className="sources-hint">
+            Step content, quizzes and flashcards for this course are based on these files. Text is kept; images, audio and video are not.
+          </p>
+          {error && <div className="sources-error">{error}</div>}
+
+          {sources === null ? (
+            <div className="sources-empty">Loading…</div>
+          ) : sources.length === 0 ? (
+            <div className="sources-empty">No sources yet. Add files to ground this course in your own material.</div>
+          ) : (
+            <ul className="sources-list">
+              {sources.map(source => (
+                <li key={source.name} className="sources-item">
+                  <div className="sources-item-row">
+                    <button className="sources-item-name" onClick={() => handleToggle(source)} disabled={busy !== null}>
+                      <span>{source.name}</span>
+                      <span className="sources-item-meta">{sourceMeta(source)}</span>
+                    </button>
+                    <button
+                      className="sources-item-remove"
+                      onClick={() => handleRemove(source)}
+                      disabled={busy !== null}
+                      title="Remove"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="18" y1="6" x2="6" y2="18"/>
+                        <line x1="6" y1="6" x2="18" y2="18"/>
+                      </svg>
+                    </button>
+                  </div>
+                  {openSource?.name === source.name && (
+                    <div className="sources-sections">
+                      {openSource.sections.map((section, index) => {
+                        const cited = focus && focus.source === openSource.name && focus.section === index ? focus : null;
+                        return (
+                          <details key={index} className="sources-section" open={cited ? true : undefined}>
+                            <summary>{sectionLabel(section, index)}</summary>
+                            <pre>{cited ? highlight(section.content, cited.quote, markRef) : section.content}</pre>
+                          </details>
+                        );
+                      })}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".pdf,.txt,.doc,.docx,.md,.pptx,.epub,.html,.htm,.xlsx,.csv,.tsv"
+            onChange={handleUpload}
+            style={{ display: 'none' }}
+          />
+          <button className="btn btn-secondary" onClick={() => fileInputRef.current?.click()} disabled={busy !== null}>
+            {busy === 'upload' ? 'Adding…' : 'Add files'}
+          </button>
+
+          {reusable.length > 0 && (
+            <div className="sources-library">
+              <h3>From your other courses</h3>
+              <ul className="sources-list">
+                {reusable.map(source => (
+                  <li key={`${source.courseId}:${source.name}`} className="sources-item">
+                    <div className="sources-item-row">
+                      <div className="sources-item-name static">
+                        <span>{source.name}</span>
+                        <span className="sources-item-meta">{source.courseTitle} · {sourceMeta(source)}</span>
+                      </div>
+                      <button
+                        className="sources-item-add"
+                        onClick={() => handleCopy(source)}
+                        disabled={busy !== null}
+                      >
+                        {busy === `copy:${source.courseId}:${source.name}` ? '…' : 'Use'}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcesPanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { CourseStep } from '../types/roadmap';
+import { graphLayers, isStepPassed, isStepUnlocked, prerequisitesOf, type PassThresholds } from '../lib/prerequisites';
+
+interface StepGraphProps {
+  steps: CourseStep[];
+  thresholds: PassThresholds;
+  onSelect: (step: CourseStep) => void;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 24;
+const ROW_GAP = 48;
+
+/** The course's steps as a prerequisite graph, one row per depth; open steps can be clicked */
+const StepGraph: React.FC<StepGraphProps> = ({ steps, thresholds, onSelect }) => {
+  const layers = graphLayers(steps);
+  const columns = Math.max(...layers.map(layer => layer.length), 1);
+  const width = columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP;
+  const height = layers.length * NODE_HEIGHT + (layers.length - 1) * ROW_GAP;
+
+  // Each row is centred, so a single step sits under the middle of a wide row
+  const positions = new Map<string, { x: number; y: number }>();
+  layers.forEach((layer, row) => {
+    const rowWidth = layer.length * NODE_WIDTH + (layer.length - 1) * COLUMN_GAP;
+    layer.forEach((step, column) => {
+      positions.set(step.id, {
+        x: (width - rowWidth) / 2 + column * (NODE_WIDTH + COLUMN_GAP),
+        y: row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  return (
+    <div className="step-graph">
+      <div className="step-graph-canvas" style={{ width, height }}>
+        <svg className="step-graph-edges" width={width} height={height}>
+          {steps.flatMap(step => prerequisitesOf(step, steps).map(id => {
+            const from = positions.get(id);
+            const to = positions.get(step.id);
+            if (!from || !to) return null;
+            const x1 = from.x + NODE_WIDTH / 2;
+            const y1 = from.y + NODE_HEIGHT;
+            const x2 = to.x + NODE_WIDTH / 2;
+            const y2 = to.y;
+            const bend = (y2 - y1) / 2;
+            const passed = steps.some(s => s.id === id && isStepPassed(s, thresholds));
+            return (
+              <path
+                key={`${id}-${step.id}`}
+                className={passed ? 'passed' : ''}
+                d={`M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 - bend}, ${x2} ${y2}`}
+              />
+            );
+          }))}
+        </svg>
+        {steps.map(step => {
+          const position = positions.get(step.id)!;
+          const unlocked = isStepUnlocked(step, steps, thresholds);
+          return (
+            <button
+              key={step.id}
+              className={`step-graph-node ${step.completed ? 'completed' : ''} ${!unlocked ? 'locked' : ''}`}
+              style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+              onClick={() => unlocked && onSelect(step)}
+              disabled={!unlocked}
+              title={step.title}
+            >
+              <span className="step-graph-number">{step.stepNumber}</span>
+              <span className="step-graph-title">{step.title}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StepGraph;
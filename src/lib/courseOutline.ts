@@ -0,0 +1,168 @@
+import type { Course, CourseStep, QuizQuestion, StepTest } from '../types/roadmap';
+import { isStepUnlocked, prerequisitesOf, type PassThresholds } from './prerequisites';
+
+/**
+ * Step numbers, unlock state and task/material ids after the outline changed.
+ * Step ids are kept, so review items, test ids and prerequisites still find their
+ * step. A step is open when it is completed or its prerequisites are passed.
+ */
+export function renumberSteps(steps: CourseStep[], thresholds: PassThresholds): CourseStep[] {
+  const renumbered = steps.map((step, index) => {
+    const stepNumber = index + 1;
+    return {
+      ...step,
+      stepNumber,
+      unlocked: false,
+      tasks: step.tasks.map((task, i) => ({ ...task, id: `task-${stepNumber}-${i + 1}` })),
+      materials: step.materials.map((material, i) => ({ ...material, id: `mat-${stepNumber}-${i + 1}` })),
+    };
+  });
+  return renumbered.map(step => ({ ...step, unlocked: step.completed || isStepUnlocked(step, renumbered, thresholds) }));
+}
+
+// Points explicit prerequisites on `from` at `to` instead (none, to drop the link)
+function relink(steps: CourseStep[], from: string, to: string[]): CourseStep[] {
+  return steps.map(step => (step.prerequisites?.includes(from)
+    ? { ...step, prerequisites: [...new Set(step.prerequisites.flatMap(id => (id === from ? to : [id])))].filter(id => id !== step.id) }
+    : step));
+}
+
+// Whether the course has a prerequisite graph, rather than the plain chain of older courses
+export const hasPrerequisiteGraph = (steps: CourseStep[]) => steps.some(step => step.prerequisites);
+
+/** The course with a new outline, its step count and progress recomputed */
+export function withSteps(course: Course, steps: CourseStep[], thresholds: PassThresholds): Course {
+  const renumbered = renumberSteps(steps, thresholds);
+  const completed = renumbered.filter(step => step.completed).length;
+  return {
+    ...course,
+    steps: renumbered,
+    totalSteps: renumbered.length,
+    progress: renumbered.length > 0 ? Math.round((completed / renumbered.length) * 100) : 0,
+  };
+}
+
+// A step id not used by any of `steps`, in the style of the generated ones
+export function nextStepId(steps: CourseStep[]) {
+  const ids = new Set(steps.map(step => step.id));
+  let n = steps.length + 1;
+  while (ids.has(`step-${n}`)) n++;
+  return `step-${n}`;
+}
+
+// An outline step whose tasks and materials are generated when it is first opened
+export function newStep(id: string, fields: Pick<CourseStep, 'title' | 'description' | 'estimatedTime'>): CourseStep {
+  return { id, stepNumber: 0, ...fields, tasks: [], materials: [], completed: false, detailsLoaded: false, unlocked: false };
+}
+
+/** Removes a step; the steps that needed it need its own prerequisites instead */
+export function removeStep(steps: CourseStep[], index: number): CourseStep[] {
+  const step = steps[index];
+  const rest = steps.filter((_, i) => i !== index);
+  return hasPrerequisiteGraph(steps) ? relink(rest, step.id, prerequisitesOf(step, steps)) : rest;
+}
+
+export function moveStep(steps: CourseStep[], from: number, to: number): CourseStep[] {
+  const next = [...steps];
+  const [step] = next.splice(from, 1);
+  next.splice(to, 0, step);
+  return next;
+}
+
+/**
+ * Two steps from one: the second half of its tasks and materials moves to a new
+ * step right after it. The test stays with the first part, and a loaded step's
+ * second part counts as loaded too, since its content came along.
+ */
+export function splitStep(steps: CourseStep[], index: number): CourseStep[] {
+  const step = steps[index];
+  const graph = hasPrerequisiteGraph(steps);
+  const taskCut = Math.ceil(step.tasks.length / 2);
+  const materialCut = Math.ceil(step.materials.length / 2);
+  const first: CourseStep = {
+    ...step,
+    title: `${step.title} (Part 1)`,
+    tasks: step.tasks.slice(0, taskCut),
+    materials: step.materials.slice(0, materialCut),
+    materialProgress: Math.min(step.materialProgress || 0, Math.max(materialCut - 1, 0)),
+  };
+  const second: CourseStep = {
+    ...newStep(nextStepId(steps), { title: `${step.title} (Part 2)`, description: step.description, estimatedTime: step.estimatedTime }),
+    tasks: step.tasks.slice(taskCut),
+    materials: step.materials.slice(materialCut),
+    completed: step.completed,
+    detailsLoaded: step.detailsLoaded && step.materials.length > materialCut,
+    // Steps that needed the whole step now need its second part, which follows the first
+    prerequisites: graph ? [step.id] : undefined,
+  };
+  const others = graph ? relink(steps, step.id, [second.id]) : steps;
+  return [...others.slice(0, index), first, second, ...others.slice(index + 1)];
+}
+
+// Question ids only have to be unique within a test
+function mergeTests(a: StepTest | undefined, b: StepTest | undefined, stepId: string): StepTest | undefined {
+  if (!a || !b) {
+    const only = a || b;
+    return only && { ...only, id: `test-${stepId}` };
+  }
+  const ids = new Set(a.questions.map(q => q.id));
+  const questions: QuizQuestion[] = [...a.questions];
+  for (const question of b.questions) {
+    let id = question.id;
+    for (let n = 2; ids.has(id); n++) id = `${question.id}-${n}`;
+    ids.add(id);
+    questions.push({ ...question, id });
+  }
+  const scored = a.completed && b.completed && a.score !== undefined && b.score !== undefined;
+  return {
+    id: `test-${stepId}`,
+    questions,
+    completed: scored,
+    score: scored ? a.score! + b.score! : undefined,
+    totalQuestions: questions.length,
+  };
+}
+
+// Ids of the steps that need any of `ids`, directly or through other steps
+function dependentsOf(steps: CourseStep[], ids: string[]): Set<string> {
+  const found = new Set<string>();
+  const queue = [...ids];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const step of steps) {
+      if (!found.has(step.id) && prerequisitesOf(step, steps).includes(id)) {
+        found.add(step.id);
+        queue.push(step.id);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * The step at `index` absorbs the one after it; it counts as completed only if
+ * both were. It needs what either needed, except steps that themselves build on
+ * one of the two, and steps that needed the second now need the merged one.
+ */
+export function mergeSteps(steps: CourseStep[], index: number): CourseStep[] {
+  const a = steps[index];
+  const b = steps[index + 1];
+  const graph = hasPrerequisiteGraph(steps);
+  const downstream = dependentsOf(steps, [a.id, b.id]);
+  const merged: CourseStep = {
+    ...a,
+    title: `${a.title} & ${b.title}`,
+    description: `${a.description}\n\n${b.description}`,
+    tasks: [...a.tasks, ...b.tasks],
+    materials: [...a.materials, ...b.materials],
+    completed: a.completed && b.completed,
+    // Loading details replaces a step's content, so content from either half is kept instead
+    detailsLoaded: a.detailsLoaded || b.detailsLoaded,
+    test: mergeTests(a.test, b.test, a.id),
+    prerequisites: graph
+      ? [...new Set([...prerequisitesOf(a, steps), ...prerequisitesOf(b, steps)])].filter(id => id !== a.id && id !== b.id && !downstream.has(id))
+      : undefined,
+  };
+  const result = [...steps.slice(0, index), merged, ...steps.slice(index + 2)];
+  return graph ? relink(result, b.id, [a.id]) : result;
+}
@@ -0,0 +1,252 @@
+import type { Flashcard, FillBlankSentence, MatchingPair, ScrambleWord } from '../types/roadmap';
+import { BLANK, normalizeBlanks, scrambleLetters } from './studyItems';
+
+export type ImportTarget = 'flashcards' | 'matching' | 'word-scramble' | 'fill-blank';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Header names that map onto this field without the user picking a column
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  flashcards: [
+    { key: 'front', label: 'Front', required: true, aliases: ['front', 'term', 'word', 'question', 'prompt', 'concept'] },
+    { key: 'back', label: 'Back', required: true, aliases: ['back', 'definition', 'meaning', 'answer', 'translation'] },
+    { key: 'category', label: 'Category', required: false, aliases: ['category', 'topic', 'tag', 'tags'] },
+  ],
+  matching: [
+    { key: 'question', label: 'Prompt', required: true, aliases: ['question', 'prompt', 'term', 'word', 'front'] },
+    { key: 'answer', label: 'Match', required: true, aliases: ['answer', 'match', 'definition', 'meaning', 'back'] },
+  ],
+  'word-scramble': [
+    { key: 'word', label: 'Word', required: true, aliases: ['word', 'term', 'answer', 'front'] },
+    { key: 'hint', label: 'Hint', required: true, aliases: ['hint', 'clue', 'definition', 'meaning', 'back'] },
+    { key: 'category', label: 'Category', required: false, aliases: ['category', 'topic', 'tag', 'tags'] },
+  ],
+  'fill-blank': [
+    { key: 'sentence', label: 'Sentence', required: true, aliases: ['sentence', 'text', 'question', 'prompt'] },
+    { key: 'answer', label: 'Answer', required: true, aliases: ['answer', 'blank', 'word', 'term'] },
+    { key: 'hint', label: 'Hint', required: false, aliases: ['hint', 'clue'] },
+  ],
+};
+
+// Column index per field key; null leaves an optional field empty
+export type ColumnMapping = Record<string, number | null>;
+
+export interface Separators {
+  field: string;
+  row: string;
+}
+
+// The matching board gets crowded past this, and generated games stop here too
+export const MATCHING_MAX_PAIRS = 16;
+
+/**
+ * Guess the separators of pasted or uploaded text. A single line holding
+ * semicolons plus tabs or commas is a Quizlet export with ";" between rows;
+ * otherwise the field separator is whichever of tab, semicolon and comma
+ * splits the first lines most consistently.
+ */
+export function detectSeparators(text: string): Separators {
+  const clean = text.replace(/^\uFEFF/, '').trim();
+  if (!/\r?\n/.test(clean) && clean.includes(';') && /[\t,]/.test(clean)) {
+    return { field: clean.includes('\t') ? '\t' : ',', row: ';' };
+  }
+  const lines = clean.split(/\r?\n/).slice(0, 10).filter(line => line.trim());
+  let best: Separators = { field: ',', row: '\n' };
+  let bestScore = 0;
+  for (const field of ['\t', ';', ',']) {
+    const counts = lines.map(line => line.split(field).length - 1);
+    const consistent = counts.filter(count => count > 0 && count === counts[0]).length;
+    if (consistent > bestScore) {
+      best = { field, row: '\n' };
+      bestScore = consistent;
+    }
+  }
+  return best;
+}
+
+// RFC 4180 quoting: a quoted field may hold separators, newlines and doubled quotes
+function parseQuoted(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Split delimited text into trimmed rows, dropping blank ones. Comma, semicolon and
+ * tab separated text with newlines between rows is read as CSV, quotes included;
+ * custom separators (Quizlet lets you pick any) are split literally.
+ */
+export function parseRows(text: string, separators: Separators): string[][] {
+  const clean = text.replace(/^\uFEFF/, '');
+  const { field, row } = separators;
+  const rows = row === '\n' && field.length === 1
+    ? parseQuoted(clean, field)
+    : clean.split(row === '\n' ? /\r?\n/ : row).map(line => line.split(field));
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(Boolean));
+}
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z]/g, '');
+
+/** True when every cell of the first row names a field of the target, like "Term, Definition" */
+export function looksLikeHeader(rows: string[][], target: ImportTarget) {
+  const first = rows[0]?.filter(Boolean);
+  if (!first || first.length === 0 || rows.length < 2) return false;
+  const names = new Set(IMPORT_FIELDS[target].flatMap(field => field.aliases));
+  return first.every(cell => names.has(normalizeHeader(cell)));
+}
+
+/**
+ * Map fields to columns: by header name when there is a header, otherwise the
+ * required fields take the first columns in order and optional ones stay empty.
+ */
+export function defaultMapping(target: ImportTarget, header: string[] | null, columns: number): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  const fields = IMPORT_FIELDS[target];
+  if (header) {
+    for (const field of fields) {
+      const index = header.findIndex((cell, i) => !taken.has(i) && field.aliases.includes(normalizeHeader(cell)));
+      if (index !== -1) {
+        mapping[field.key] = index;
+        taken.add(index);
+      }
+    }
+  }
+  for (const field of fields) {
+    if (field.key in mapping) continue;
+    const free = Array.from({ length: columns }, (_, i) => i).find(i => !taken.has(i));
+    if (field.required && free !== undefined) {
+      mapping[field.key] = free;
+      taken.add(free);
+    } else {
+      mapping[field.key] = null;
+    }
+  }
+  return mapping;
+}
+
+export type ImportItem = Flashcard | MatchingPair | ScrambleWord | FillBlankSentence;
+
+export interface ImportResult {
+  items: ImportItem[];
+  // Rows that could not become an item, with the first reason seen
+  skipped: number;
+  reason?: string;
+}
+
+// Case-insensitive, whitespace-insensitive key for spotting repeats
+const dedupeKey = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+// A sentence without a blank gets one where the answer is written out, if it is
+// written out exactly once. Anything else is not a playable sentence.
+function blankSentence(sentence: string, answer: string) {
+  let result = normalizeBlanks(sentence);
+  if (!result.includes(BLANK)) {
+    const escaped = answer.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const matches = result.match(new RegExp(`\\b${escaped}\\b`, 'gi')) || [];
+    if (matches.length === 1) result = result.replace(new RegExp(`\\b${escaped}\\b`, 'i'), BLANK);
+  }
+  return result.split(BLANK).length === 2 ? result : null;
+}
+
+/** Turn mapped rows into items for the target, skipping incomplete rows and repeats */
+export function buildItems(target: ImportTarget, rows: string[][], mapping: ColumnMapping): ImportResult {
+  const items: ImportItem[] = [];
+  let skipped = 0;
+  let reason: string | undefined;
+  const skip = (why: string) => {
+    skipped++;
+    reason ??= why;
+  };
+  const seen = new Set<string>();
+  const seenAnswers = new Set<string>();
+
+  rows.forEach(row => {
+    const value = (key: string) => {
+      const index = mapping[key];
+      return index == null ? '' : (row[index] || '');
+    };
+    const missing = IMPORT_FIELDS[target].find(field => field.required && !value(field.key));
+    if (missing) return skip(`missing ${missing.label.toLowerCase()}`);
+    const n = items.length + 1;
+
+    switch (target) {
+      case 'flashcards': {
+        const category = value('category');
+        items.push({ id: `card-${n}`, front: value('front'), back: value('back'), ...(category ? { category } : {}) });
+        break;
+      }
+      case 'matching': {
+        const question = value('question');
+        const answer = value('answer');
+        // Two cards with the same text would make the board ambiguous
+        if (seen.has(dedupeKey(question)) || seenAnswers.has(dedupeKey(answer))) return skip('repeated prompt or match');
+        if (items.length >= MATCHING_MAX_PAIRS) return skip(`more than ${MATCHING_MAX_PAIRS} pairs`);
+        seen.add(dedupeKey(question));
+        seenAnswers.add(dedupeKey(answer));
+        items.push({ id: `pair-${n}`, question, answer });
+        break;
+      }
+      case 'word-scramble': {
+        const word = scrambleLetters(value('word'));
+        if (word.length < 2) return skip('word shorter than 2 letters');
+        if (seen.has(word)) return skip('repeated word');
+        seen.add(word);
+        const category = value('category');
+        items.push({ id: `word-${n}`, word, hint: value('hint'), ...(category ? { category } : {}) });
+        break;
+      }
+      case 'fill-blank': {
+        const answer = value('answer');
+        const sentence = blankSentence(value('sentence'), answer);
+        if (!sentence) return skip(`sentence without exactly one ${BLANK} or its answer`);
+        const hint = value('hint');
+        items.push({ id: `s${n}`, sentence, answer, ...(hint ? { hint } : {}) });
+        break;
+      }
+    }
+  });
+
+  return { items, skipped, reason };
+}
+
+// A matching board needs at least two pairs; every other target plays with one item
+export const minimumItems = (target: ImportTarget) => (target === 'matching' ? 2 : 1);
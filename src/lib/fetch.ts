@@ -52,7 +52,7 @@ export async function apiFetch(path: string, options: RequestInit = {}): Promise
 }
 
 // Authenticated fetch with JSON body
-export async function apiPost(path: string, body: any): Promise<Response> {
+export async function apiPost(path: string, body: unknown): Promise<Response> {
   return apiFetch(path, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -60,7 +60,7 @@ export async function apiPost(path: string, body: any): Promise<Response> {
   });
 }
 
-export async function apiPut(path: string, body: any): Promise<Response> {
+export async function apiPut(path: string, body: unknown): Promise<Response> {
   return apiFetch(path, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
@@ -72,6 +72,21 @@ export async function apiDelete(path: string): Promise<Response> {
   return apiFetch(path, { method: 'DELETE' });
 }
 
+// Authenticated file download — fetches the response as a blob and saves it under `filename`
+export async function apiDownload(path: string, filename: string, options: RequestInit = {}): Promise<void> {
+  const response = await apiFetch(path, options);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Download failed');
+  }
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Authenticated FormData fetch (for file uploads)
 export async function apiFormData(path: string, formData: FormData): Promise<Response> {
   const authHeaders = await getAuthHeaders();
@@ -83,3 +98,39 @@ export async function apiFormData(path: string, formData: FormData): Promise<Res
     body: formData,
   });
 }
+
+// Read a Server-Sent Events response, calling onEvent for each event as it arrives.
+// EventSource can't POST or send auth headers, so streams are consumed through fetch.
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+      // Lines starting with ':' are keep-alive comments
+    }
+    if (dataLines.length) onEvent(event, JSON.parse(dataLines.join('\n')));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,126 @@
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js';
+
+/**
+ * Offline stand-in for Supabase Auth, enabled with VITE_AUTH_MODE=local.
+ *
+ * Any email signs in immediately (passwords and magic links are skipped) and
+ * keeps the same user id across sessions. The access token is
+ * `local.<base64url JSON { id, email }>`, which only the server's local storage
+ * backend accepts. Implements just the part of `supabase.auth` the app uses.
+ */
+
+const SESSION_KEY = 'gvidtech_local_session';
+const USERS_KEY = 'gvidtech_local_users';
+// Far enough ahead that fetch.ts never treats the token as expiring
+const SESSION_SECONDS = 10 * 365 * 24 * 60 * 60;
+
+type Listener = (event: AuthChangeEvent, session: Session | null) => void;
+
+const listeners = new Set<Listener>();
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function encodeToken(payload: { id: string; email: string }): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return `local.${base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+}
+
+function userIdFor(email: string): string {
+  const users = readJson<Record<string, string>>(USERS_KEY, {});
+  if (!users[email]) {
+    users[email] = crypto.randomUUID();
+    localStorage.setItem(USERS_KEY, JSON.stringify(users));
+  }
+  return users[email];
+}
+
+function createSession(email: string): Session {
+  const normalized = email.trim().toLowerCase();
+  const id = userIdFor(normalized);
+  const now = new Date().toISOString();
+  const user: User = {
+    id,
+    email: normalized,
+    aud: 'authenticated',
+    role: 'authenticated',
+    app_metadata: { provider: 'local' },
+    user_metadata: {},
+    created_at: now,
+  };
+  return {
+    access_token: encodeToken({ id, email: normalized }),
+    refresh_token: '',
+    token_type: 'bearer',
+    expires_in: SESSION_SECONDS,
+    expires_at: Math.floor(Date.now() / 1000) + SESSION_SECONDS,
+    user,
+  };
+}
+
+function currentSession(): Session | null {
+  return readJson<Session | null>(SESSION_KEY, null);
+}
+
+function notify(event: AuthChangeEvent, session: Session | null): void {
+  for (const listener of listeners) listener(event, session);
+}
+
+function signInAs(email: string) {
+  if (!email?.trim()) return { data: { user: null, session: null }, error: new Error('Email is required') };
+  const session = createSession(email);
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  notify('SIGNED_IN', session);
+  return { data: { user: session.user, session }, error: null };
+}
+
+export const localAuth = {
+  async getSession() {
+    return { data: { session: currentSession() }, error: null };
+  },
+
+  onAuthStateChange(callback: Listener) {
+    listeners.add(callback);
+    // Supabase reports the stored session to every new subscriber
+    queueMicrotask(() => {
+      if (listeners.has(callback)) callback('INITIAL_SESSION', currentSession());
+    });
+    return { data: { subscription: { unsubscribe: () => { listeners.delete(callback); } } } };
+  },
+
+  async signInWithOtp({ email }: { email: string }) {
+    return signInAs(email);
+  },
+
+  async signInWithPassword({ email }: { email: string; password: string }) {
+    return signInAs(email);
+  },
+
+  async signUp({ email }: { email: string; password: string }) {
+    return signInAs(email);
+  },
+
+  async resetPasswordForEmail(_email: string, _options?: { redirectTo?: string }) {
+    return { data: {}, error: null };
+  },
+
+  async updateUser(_attributes: { password?: string }) {
+    const session = currentSession();
+    if (!session) return { data: { user: null }, error: new Error('Not signed in') };
+    notify('USER_UPDATED', session);
+    return { data: { user: session.user }, error: null };
+  },
+
+  async signOut() {
+    localStorage.removeItem(SESSION_KEY);
+    notify('SIGNED_OUT', null);
+    return { error: null };
+  },
+};
@@ -0,0 +1,84 @@
+import type { Course, CourseStep } from '../types/roadmap';
+import { applyFilters } from '../plugins';
+
+// Share of a step's quiz to answer correctly when neither the step nor its course sets one
+export const PASS_THRESHOLD = 0.7;
+
+// Pass thresholds by step id as the quiz:passThreshold filter left them, and the course's own for any other step
+export interface PassThresholds {
+  steps: Record<string, number>;
+  course: number;
+}
+
+export const stepPassThreshold = (course: Course, step: CourseStep): number =>
+  step.passThreshold ?? course.passThreshold ?? PASS_THRESHOLD;
+
+/**
+ * Every step's threshold after plugins had their say. Sandboxed plugin filters only
+ * answer asynchronously, so the unlock logic works from this map instead of filtering per check.
+ */
+export async function resolvePassThresholds(course: Course): Promise<PassThresholds> {
+  const entries = await Promise.all(course.steps.map(async step =>
+    [step.id, await applyFilters('quiz:passThreshold', stepPassThreshold(course, step))] as const));
+  return { steps: Object.fromEntries(entries), course: course.passThreshold ?? PASS_THRESHOLD };
+}
+
+// Steps added since the map was resolved have no entry yet, so they go by their own threshold or the course's
+export const thresholdFor = (step: CourseStep, thresholds: PassThresholds) =>
+  thresholds.steps[step.id] ?? step.passThreshold ?? thresholds.course;
+
+// Correct answers needed on a quiz of `totalQuestions`; the epsilon keeps 10 × 0.7 at 7 rather than 8
+export const requiredScore = (totalQuestions: number, threshold: number) => Math.ceil(totalQuestions * threshold - 1e-9);
+
+// Courses from before prerequisites were generated are a chain in outline order
+export function prerequisitesOf(step: CourseStep, steps: CourseStep[]): string[] {
+  if (step.prerequisites) return step.prerequisites;
+  const index = steps.findIndex(s => s.id === step.id);
+  return index > 0 ? [steps[index - 1].id] : [];
+}
+
+export function isStepPassed(step: CourseStep, thresholds: PassThresholds): boolean {
+  if (step.completed) return true;
+  if (!step.test?.completed || step.test.score === undefined) return false;
+  return step.test.score >= requiredScore(step.test.totalQuestions, thresholdFor(step, thresholds));
+}
+
+/** The prerequisites of `step` that are not passed yet; ids no longer in the outline are ignored */
+export function pendingPrerequisites(step: CourseStep, steps: CourseStep[], thresholds: PassThresholds): CourseStep[] {
+  return prerequisitesOf(step, steps)
+    .map(id => steps.find(s => s.id === id))
+    .filter((s): s is CourseStep => !!s && !isStepPassed(s, thresholds));
+}
+
+export const isStepUnlocked = (step: CourseStep, steps: CourseStep[], thresholds: PassThresholds): boolean =>
+  step.unlocked || pendingPrerequisites(step, steps, thresholds).length === 0;
+
+// Marks every step whose prerequisites are now all passed as unlocked
+export const unlockReadySteps = (steps: CourseStep[], thresholds: PassThresholds): CourseStep[] =>
+  steps.map(step => (!step.unlocked && isStepUnlocked(step, steps, thresholds) ? { ...step, unlocked: true } : step));
+
+/**
+ * Steps grouped by depth for drawing the graph: each step sits one row below its
+ * deepest prerequisite. Prerequisites that would close a cycle are not followed.
+ */
+export function graphLayers(steps: CourseStep[]): CourseStep[][] {
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+  const depthOf = (step: CourseStep): number => {
+    const known = depths.get(step.id);
+    if (known !== undefined) return known;
+    visiting.add(step.id);
+    let depth = 0;
+    for (const id of prerequisitesOf(step, steps)) {
+      const prerequisite = steps.find(s => s.id === id);
+      if (prerequisite && !visiting.has(id)) depth = Math.max(depth, depthOf(prerequisite) + 1);
+    }
+    visiting.delete(step.id);
+    depths.set(step.id, depth);
+    return depth;
+  };
+
+  const layers: CourseStep[][] = [];
+  for (const step of steps) (layers[depthOf(step)] ||= []).push(step);
+  return layers.filter(Boolean);
+}
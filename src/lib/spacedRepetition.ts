@@ -0,0 +1,123 @@
+import { Flashcard, FlashcardSchedule, QuizQuestion, ReviewRating, ReviewSourceType } from '../types/roadmap';
+import { getOverride } from '../plugins';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// SM-2 grades answers on a 0-5 scale; map the four review buttons onto it
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+
+// Anything the scheduler can track: flashcards and missed quiz questions
+export type Schedulable = Flashcard | QuizQuestion;
+
+export interface ReviewContext {
+  now: Date;
+  deckId?: string;
+  sourceType?: ReviewSourceType;
+}
+
+/**
+ * Default scheduler — the classic SuperMemo-2 algorithm.
+ * A failed answer resets the repetition count, a passed one grows the interval
+ * by the card's ease factor, and the ease factor drifts with answer quality.
+ */
+export function sm2(card: Schedulable, rating: ReviewRating, now: Date = new Date()): FlashcardSchedule {
+  const quality = RATING_QUALITY[rating];
+  const previous = card.schedule;
+  let easeFactor = previous?.easeFactor ?? DEFAULT_EASE;
+  let repetitions = previous?.repetitions ?? 0;
+  let interval = previous?.interval ?? 0;
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    if (repetitions === 0) interval = 1;
+    else if (repetitions === 1) interval = 6;
+    else interval = Math.round(interval * easeFactor);
+    repetitions += 1;
+  }
+
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueDate: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewed: now.toISOString(),
+    lastRating: rating,
+  };
+}
+
+/**
+ * Compute the next schedule for a card.
+ * Plugins can replace SM-2 (e.g. with FSRS or Leitner boxes) through the
+ * `algorithm:spacedRepetition` override; a bad override result falls back to SM-2.
+ */
+export async function scheduleReview(
+  card: Schedulable,
+  rating: ReviewRating,
+  context: ReviewContext = { now: new Date() }
+): Promise<FlashcardSchedule> {
+  const override = getOverride<FlashcardSchedule>('algorithm:spacedRepetition');
+  if (override) {
+    try {
+      const result = await override(card, rating, context);
+      if (result && typeof result.dueDate === 'string' && typeof result.interval === 'number') {
+        return { ...result, lastReviewed: result.lastReviewed || context.now.toISOString(), lastRating: rating };
+      }
+      console.warn('[SRS] Override returned an invalid schedule, falling back to SM-2');
+    } catch (error) {
+      console.error('[SRS] Override failed, falling back to SM-2:', error);
+    }
+  }
+  return sm2(card, rating, context.now);
+}
+
+// Cards that have never been reviewed are due immediately
+export function isCardDue(card: Schedulable, now: Date = new Date()): boolean {
+  if (!card.schedule) return true;
+  return new Date(card.schedule.dueDate).getTime() <= now.getTime();
+}
+
+export function getDueCards<T extends Schedulable>(cards: T[], now: Date = new Date()): T[] {
+  return cards
+    .filter(card => isCardDue(card, now))
+    .sort((a, b) => {
+      const aDue = a.schedule ? new Date(a.schedule.dueDate).getTime() : 0;
+      const bDue = b.schedule ? new Date(b.schedule.dueDate).getTime() : 0;
+      return aDue - bDue;
+    });
+}
+
+/**
+ * Put every wrongly answered (or skipped) question into the review queue, due right away.
+ * The lapse still goes through SM-2 so repeated misses keep lowering the ease.
+ */
+export function markMissedQuestions(
+  questions: QuizQuestion[],
+  answers: { [index: number]: number },
+  now: Date = new Date()
+): QuizQuestion[] {
+  return questions.map((q, index) => {
+    if (answers[index] === q.correctAnswer) return q;
+    return { ...q, schedule: { ...sm2(q, 'again', now), dueDate: now.toISOString() } };
+  });
+}
+
+// Human-readable interval preview for the rating buttons ("3d", "2mo", "1.2y")
+export function formatInterval(days: number): string {
+  if (days < 1) return '<1d';
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
@@ -0,0 +1,147 @@
+import type { FillBlankSentence, Flashcard, MatchingPair, QuizQuestion, ScrambleWord } from '../types/roadmap';
+
+// The entries inside a deck, quiz or game that the library lets you edit one by one
+export type EditableKind = 'flashcards' | 'quiz' | 'matching' | 'word-scramble' | 'fill-blank';
+export type EditableItem = Flashcard | QuizQuestion | MatchingPair | ScrambleWord | FillBlankSentence;
+
+export const BLANK = '___';
+export const MAX_OPTIONS = 6;
+
+// "____" and "_ _ _" are written for the blank as often as the canonical marker
+export const normalizeBlanks = (sentence: string) => sentence.replace(/_(?:\s?_){2,}/g, BLANK);
+
+export const countBlanks = (sentence: string) => normalizeBlanks(sentence).split(BLANK).length - 1;
+
+// Multi-word terms are played as one run of letters
+export const scrambleLetters = (word: string) => word.toUpperCase().replace(/[\s-]+/g, '');
+
+export function newItem(kind: EditableKind, id: string): EditableItem {
+  switch (kind) {
+    case 'flashcards': return { id, front: '', back: '' };
+    case 'quiz': return { id, question: '', options: ['', ''], correctAnswer: 0, explanation: '' };
+    case 'matching': return { id, question: '', answer: '' };
+    case 'word-scramble': return { id, word: '', hint: '' };
+    case 'fill-blank': return { id, sentence: '', answer: '' };
+  }
+}
+
+// An item id not used by any of `items`, in the style of the generated ones
+export function nextItemId(kind: EditableKind, items: EditableItem[]) {
+  const prefix = { flashcards: 'card-', quiz: 'q', matching: 'pair-', 'word-scramble': 'word-', 'fill-blank': 's' }[kind];
+  const ids = new Set(items.map(item => item.id));
+  let n = items.length + 1;
+  while (ids.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+export interface ItemProblem {
+  // Position of the offending entry, or null for a problem with the list as a whole
+  index: number | null;
+  message: string;
+}
+
+const key = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Entries repeating an earlier one under `field`, which the games cannot tell apart
+function repeats<T>(items: T[], field: (item: T) => string, label: string): ItemProblem[] {
+  const seen = new Set<string>();
+  const problems: ItemProblem[] = [];
+  items.forEach((item, index) => {
+    const value = key(field(item));
+    if (!value) return;
+    if (seen.has(value)) problems.push({ index, message: `Repeats another ${label}` });
+    seen.add(value);
+  });
+  return problems;
+}
+
+/**
+ * What stops a list from being saved: empty fields, a quiz answer that is not one
+ * of the options, a sentence without exactly one blank, and repeats where the game
+ * needs every entry to be distinct. Mirrors the checks generated content passes.
+ */
+export function validateItems(kind: EditableKind, items: EditableItem[]): ItemProblem[] {
+  const problems: ItemProblem[] = [];
+  const minimum = kind === 'matching' ? 2 : 1;
+  if (items.length < minimum) problems.push({ index: null, message: `Add at least ${minimum === 1 ? 'one entry' : `${minimum} pairs`}` });
+  const missing = (index: number, label: string) => problems.push({ index, message: `${label} is empty` });
+
+  switch (kind) {
+    case 'flashcards':
+      (items as Flashcard[]).forEach((card, index) => {
+        if (!card.front.trim()) missing(index, 'Front');
+        if (!card.back.trim()) missing(index, 'Back');
+      });
+      break;
+    case 'quiz':
+      (items as QuizQuestion[]).forEach((question, index) => {
+        if (!question.question.trim()) missing(index, 'Question');
+        if (question.options.length < 2) problems.push({ index, message: 'Needs at least 2 options' });
+        if (question.options.some(option => !option.trim())) problems.push({ index, message: 'An option is empty' });
+        if (new Set(question.options.map(key)).size !== question.options.length) problems.push({ index, message: 'Two options are the same' });
+        if (!Number.isInteger(question.correctAnswer) || question.correctAnswer < 0 || question.correctAnswer >= question.options.length) {
+          problems.push({ index, message: 'Mark one option as the correct answer' });
+        }
+      });
+      break;
+    case 'matching':
+      (items as MatchingPair[]).forEach((pair, index) => {
+        if (!pair.question.trim()) missing(index, 'Prompt');
+        if (!pair.answer.trim()) missing(index, 'Match');
+      });
+      problems.push(
+        ...repeats(items as MatchingPair[], pair => pair.question, 'prompt'),
+        ...repeats(items as MatchingPair[], pair => pair.answer, 'match'),
+      );
+      break;
+    case 'word-scramble':
+      (items as ScrambleWord[]).forEach((word, index) => {
+        if (scrambleLetters(word.word).length < 2) problems.push({ index, message: 'Word needs at least 2 letters' });
+        if (!word.hint.trim()) missing(index, 'Hint');
+      });
+      problems.push(...repeats(items as ScrambleWord[], word => scrambleLetters(word.word), 'word'));
+      break;
+    case 'fill-blank':
+      (items as FillBlankSentence[]).forEach((sentence, index) => {
+        const blanks = countBlanks(sentence.sentence);
+        if (blanks !== 1) problems.push({ index, message: `Sentence needs exactly one ${BLANK} blank (has ${blanks})` });
+        if (!sentence.answer.trim()) missing(index, 'Answer');
+      });
+      break;
+  }
+  return problems;
+}
+
+/** Trimmed copies in the stored form: scramble words in capitals, blanks as ___, empty optionals dropped */
+export function normalizeItems(kind: EditableKind, items: EditableItem[]): EditableItem[] {
+  const optional = (value: string | undefined) => value?.trim() || undefined;
+  return items.map(item => {
+    switch (kind) {
+      case 'flashcards': {
+        const card = item as Flashcard;
+        return { ...card, front: card.front.trim(), back: card.back.trim(), category: optional(card.category) };
+      }
+      case 'quiz': {
+        const question = item as QuizQuestion;
+        return {
+          ...question,
+          question: question.question.trim(),
+          options: question.options.map(option => option.trim()),
+          explanation: question.explanation.trim(),
+        };
+      }
+      case 'matching': {
+        const pair = item as MatchingPair;
+        return { ...pair, question: pair.question.trim(), answer: pair.answer.trim() };
+      }
+      case 'word-scramble': {
+        const word = item as ScrambleWord;
+        return { ...word, word: scrambleLetters(word.word), hint: word.hint.trim(), category: optional(word.category) };
+      }
+      case 'fill-blank': {
+        const sentence = item as FillBlankSentence;
+        return { ...sentence, sentence: normalizeBlanks(sentence.sentence.trim()), answer: sentence.answer.trim(), hint: optional(sentence.hint) };
+      }
+    }
+  });
+}
@@ -1,10 +1,15 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { localAuth } from './localAuth';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+const localMode = import.meta.env.VITE_AUTH_MODE === 'local';
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY environment variables');
+if (!localMode && (!supabaseUrl || !supabaseAnonKey)) {
+  throw new Error('Missing VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY environment variables (set VITE_AUTH_MODE=local to develop without Supabase)');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Only auth is used in the browser; data goes through the API server
+export const supabase: Pick<SupabaseClient, 'auth'> = localMode
+  ? { auth: localAuth as unknown as SupabaseClient['auth'] }
+  : createClient(supabaseUrl, supabaseAnonKey);
@@ -34,8 +34,8 @@ const AuthPage: React.FC = () => {
           setMessage('Password updated successfully! Redirecting...');
           setTimeout(() => window.location.reload(), 1500);
         }
-      } catch (err: any) {
-        setError(err.message || 'Something went wrong');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Something went wrong');
       } finally {
         setLoading(false);
       }
@@ -168,8 +168,8 @@ const AuthPage: React.FC = () => {
           setMessage('Check your email to confirm your account!');
         }
       }
-    } catch (err: any) {
-      setError(err.message || 'Something went wrong');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
       setLoading(false);
     }
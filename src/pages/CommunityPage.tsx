@@ -1,22 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { apiFetch, apiPost, apiDelete } from '../lib/fetch';
+import type { SharedItem } from '../types/api';
 
-interface SharedItem {
-  id: string;
-  contentType: 'course' | 'flashcards' | 'quiz' | 'matching' | 'word-scramble' | 'fill-blank';
-  contentId: string;
-  title: string;
-  description: string;
-  coverImage?: string;
-  authorName: string;
-  authorId: string;
-  likes: number;
-  hasLiked: boolean;
-  createdAt: string;
-  meta?: Record<string, any>;
-}
-
-type FilterType = 'all' | 'course' | 'flashcards' | 'quiz' | 'matching' | 'word-scramble' | 'fill-blank';
+type FilterType = 'all' | 'course' | 'flashcards' | 'quiz' | 'matching' | 'word-scramble' | 'fill-blank' | 'crossword';
 
 interface CommunityPageProps {
   onBack: () => void;
@@ -30,6 +16,7 @@ const contentTypeLabels: Record<string, string> = {
   matching: 'Match Game',
   'word-scramble': 'Scramble',
   'fill-blank': 'Fill Blank',
+  crossword: 'Crossword',
 };
 
 const contentTypeIcons: Record<string, string> = {
@@ -39,6 +26,7 @@ const contentTypeIcons: Record<string, string> = {
   matching: '🎯',
   'word-scramble': '🔤',
   'fill-blank': '📝',
+  crossword: '✏️',
 };
 
 const CommunityPage: React.FC<CommunityPageProps> = ({ onBack, onImport }) => {
@@ -122,7 +110,7 @@ const CommunityPage: React.FC<CommunityPageProps> = ({ onBack, onImport }) => {
     setImporting(item.id);
     try {
       const res = await apiFetch(`/community/${item.id}/clone`);
-      const data = await res.json();
+      if (!res.ok) throw new Error(`Server responded with ${res.status}`);
       onImport(item);
     } catch (err) {
       console.error('Failed to import:', err);
@@ -176,7 +164,7 @@ const CommunityPage: React.FC<CommunityPageProps> = ({ onBack, onImport }) => {
 
         <div className="community-filters">
           <div className="filter-tabs">
-            {(['all', 'quiz', 'flashcards', 'matching', 'word-scramble', 'fill-blank', 'course'] as FilterType[]).map(f => (
+            {(['all', 'quiz', 'flashcards', 'matching', 'word-scramble', 'fill-blank', 'crossword', 'course'] as FilterType[]).map(f => (
               <button
                 key={f}
                 className={`filter-tab ${filter === f ? 'active' : ''}`}
@@ -1,6 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Course, FlashcardDeck, StandaloneQuiz, MatchingGame, WordScrambleGame, FillBlankGame } from '../types/roadmap';
-import { apiPost, apiFetch } from '../lib/fetch';
+import { Course, FlashcardDeck, StandaloneQuiz, MatchingGame, WordScrambleGame, FillBlankGame, CrosswordGame } from '../types/roadmap';
+import { apiPost, apiPut, apiFetch, apiFormData, apiDownload } from '../lib/fetch';
+import type { ImportTarget } from '../lib/delimitedImport';
+import type { EditableItem, EditableKind } from '../lib/studyItems';
+import DelimitedImportDialog from '../components/DelimitedImportDialog';
+import ItemEditor from '../components/ItemEditor';
 
 interface CourseGalleryProps {
   courses: Course[];
@@ -9,17 +13,40 @@ interface CourseGalleryProps {
   matchingGames?: MatchingGame[];
   wordScrambleGames?: WordScrambleGame[];
   fillBlankGames?: FillBlankGame[];
+  crosswordGames?: CrosswordGame[];
   onSelectCourse: (course: Course) => void;
   onSelectDeck?: (deck: FlashcardDeck) => void;
   onSelectQuiz?: (quiz: StandaloneQuiz) => void;
   onSelectMatchingGame?: (game: MatchingGame) => void;
   onSelectWordScramble?: (game: WordScrambleGame) => void;
   onSelectFillBlank?: (game: FillBlankGame) => void;
+  onSelectCrossword?: (game: CrosswordGame) => void;
   onNavigateToPrompt: () => void;
   onRefresh?: () => void;
 }
 
-type TabType = 'courses' | 'flashcards' | 'quizzes' | 'matching' | 'scramble' | 'fill-blank';
+type TabType = 'courses' | 'flashcards' | 'quizzes' | 'matching' | 'scramble' | 'fill-blank' | 'crossword';
+
+type EditableContent = FlashcardDeck | StandaloneQuiz | MatchingGame | WordScrambleGame | FillBlankGame;
+
+// Where each editable kind is saved, and which field holds its entries
+const EDITABLE: Record<EditableKind, { path: string; field: string }> = {
+  flashcards: { path: '/flashcard-decks', field: 'cards' },
+  quiz: { path: '/standalone-quizzes', field: 'questions' },
+  matching: { path: '/matching-games', field: 'pairs' },
+  'word-scramble': { path: '/word-scramble-games', field: 'words' },
+  'fill-blank': { path: '/fill-blank-games', field: 'sentences' },
+};
+
+const entriesOf = (kind: EditableKind, content: EditableContent) =>
+  (content as unknown as Record<string, EditableItem[]>)[EDITABLE[kind].field] || [];
+
+const IMPORT_TABS: Record<ImportTarget, TabType> = {
+  flashcards: 'flashcards',
+  matching: 'matching',
+  'word-scramble': 'scramble',
+  'fill-blank': 'fill-blank',
+};
 
 const CourseGallery: React.FC<CourseGalleryProps> = ({ 
   courses, 
@@ -28,12 +55,14 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
   matchingGames = [],
   wordScrambleGames = [],
   fillBlankGames = [],
+  crosswordGames = [],
   onSelectCourse, 
   onSelectDeck,
   onSelectQuiz,
   onSelectMatchingGame,
   onSelectWordScramble,
   onSelectFillBlank,
+  onSelectCrossword,
   onNavigateToPrompt,
   onRefresh 
 }) => {
@@ -44,6 +73,13 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
   const [editTitle, setEditTitle] = useState('');
   const [savingRename, setSavingRename] = useState(false);
   const renameInputRef = useRef<HTMLInputElement>(null);
+  const [importingAnki, setImportingAnki] = useState(false);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const ankiInputRef = useRef<HTMLInputElement>(null);
+  const [importingQuiz, setImportingQuiz] = useState(false);
+  const quizInputRef = useRef<HTMLInputElement>(null);
+  const [csvImportTarget, setCsvImportTarget] = useState<ImportTarget | null>(null);
+  const [itemEditor, setItemEditor] = useState<{ kind: EditableKind; content: EditableContent } | null>(null);
 
   useEffect(() => {
     if (editingId && renameInputRef.current) {
@@ -109,9 +145,10 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
         setShareToast('Shared to community!');
       }
       setTimeout(() => setShareToast(null), 3000);
-    } catch (err: any) {
+    } catch (err) {
       // Check for duplicate share
-      if (err.message?.includes('duplicate') || err.message?.includes('unique')) {
+      const message = err instanceof Error ? err.message : '';
+      if (message.includes('duplicate') || message.includes('unique')) {
         setShareToast('Already shared!');
       } else {
         setShareToast('Failed to share');
@@ -122,6 +159,168 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
     }
   };
 
+  const handleAnkiImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || importingAnki) return;
+    setImportingAnki(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await apiFormData('/flashcard-decks/import/anki', formData);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to import');
+
+      const decks: FlashcardDeck[] = data.decks.map((deck: Omit<FlashcardDeck, 'id' | 'createdAt' | 'sourceType'>, index: number) => ({
+        ...deck,
+        id: (Date.now() + index).toString(),
+        createdAt: new Date().toISOString(),
+        sourceType: 'standalone',
+      }));
+      for (const deck of decks) {
+        const saveRes = await apiPost('/flashcard-decks', deck);
+        if (!saveRes.ok) throw new Error('Failed to save imported deck');
+      }
+      onRefresh?.();
+
+      const cardCount = decks.reduce((sum, deck) => sum + deck.cards.length, 0);
+      const skipped = data.skippedMedia ? ` (${data.skippedMedia} images/sounds skipped)` : '';
+      setShareToast(`Imported ${cardCount} cards into ${decks.length} deck${decks.length === 1 ? '' : 's'}${skipped}`);
+      setTimeout(() => setShareToast(null), 4000);
+    } catch (err) {
+      setShareToast(err instanceof Error ? err.message : 'Failed to import Anki deck');
+      setTimeout(() => setShareToast(null), 4000);
+    } finally {
+      setImportingAnki(false);
+    }
+  };
+
+  const handleQuizImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || importingQuiz) return;
+    setImportingQuiz(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await apiFormData('/standalone-quizzes/import', formData);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to import');
+
+      const quiz: StandaloneQuiz = {
+        ...data.quiz,
+        id: Date.now().toString(),
+        createdAt: new Date().toISOString(),
+        isRapid: false,
+      };
+      const saveRes = await apiPost('/standalone-quizzes', quiz);
+      if (!saveRes.ok) throw new Error('Failed to save imported quiz');
+      onRefresh?.();
+
+      const skipped = data.skipped ? ` (${data.skipped} unsupported questions skipped)` : '';
+      setShareToast(`Imported ${quiz.questions.length} questions${skipped}`);
+      setTimeout(() => setShareToast(null), 4000);
+    } catch (err) {
+      setShareToast(err instanceof Error ? err.message : 'Failed to import quiz');
+      setTimeout(() => setShareToast(null), 4000);
+    } finally {
+      setImportingQuiz(false);
+    }
+  };
+
+  const handleCsvImported = (target: ImportTarget, message: string) => {
+    setCsvImportTarget(null);
+    setActiveTab(IMPORT_TABS[target]);
+    onRefresh?.();
+    setShareToast(message);
+    setTimeout(() => setShareToast(null), 4000);
+  };
+
+  const handleSaveItems = async (items: EditableItem[]) => {
+    if (!itemEditor) return;
+    const { kind, content } = itemEditor;
+    const { path, field } = EDITABLE[kind];
+    const res = await apiPut(`${path}/${content.id}`, { ...content, [field]: items });
+    if (!res.ok) throw new Error('Failed to save changes');
+    setItemEditor(null);
+    onRefresh?.();
+    setShareToast('Changes saved');
+    setTimeout(() => setShareToast(null), 2000);
+  };
+
+  const handleAnkiExport = async (e: React.MouseEvent, deck: FlashcardDeck) => {
+    e.stopPropagation();
+    if (exportingId) return;
+    setExportingId(deck.id);
+    try {
+      await apiDownload(`/flashcard-decks/${deck.id}/export/anki`, `${deck.title || 'flashcards'}.apkg`);
+    } catch {
+      setShareToast('Failed to export deck');
+      setTimeout(() => setShareToast(null), 3000);
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const ankiFileInput = (
+    <input
+      ref={ankiInputRef}
+      type="file"
+      accept=".apkg"
+      onChange={handleAnkiImport}
+      style={{ display: 'none' }}
+    />
+  );
+
+  const quizFileInput = (
+    <input
+      ref={quizInputRef}
+      type="file"
+      accept=".zip,.gift,.txt"
+      onChange={handleQuizImport}
+      style={{ display: 'none' }}
+    />
+  );
+
+  const csvImportDialog = csvImportTarget && (
+    <DelimitedImportDialog
+      initialTarget={csvImportTarget}
+      onClose={() => setCsvImportTarget(null)}
+      onImported={handleCsvImported}
+    />
+  );
+
+  const csvImportButton = (target: ImportTarget) => (
+    <button
+      className="btn btn-secondary"
+      onClick={() => setCsvImportTarget(target)}
+      title="Create from a term list (CSV, TSV or a Quizlet export)"
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+        <polyline points="17 8 12 3 7 8"/>
+        <line x1="12" y1="3" x2="12" y2="15"/>
+      </svg>
+      Import CSV / TSV
+    </button>
+  );
+
+  const EditItemsButton = ({ kind, content }: { kind: EditableKind; content: EditableContent }) => (
+    <button
+      className="share-btn edit-items-btn"
+      onClick={(e) => {
+        e.stopPropagation();
+        setItemEditor({ kind, content });
+      }}
+      title="Edit entries"
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="14" height="14">
+        <path d="M12 20h9"/>
+        <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/>
+      </svg>
+    </button>
+  );
+
   const ShareButton = ({ contentType, item }: { contentType: string; item: { id: string; title: string; description?: string; coverImage?: string } }) => (
     <button 
       className={`share-btn ${sharingId === item.id ? 'sharing' : ''}`}
@@ -176,15 +375,7 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
   // Filter flashcard decks to only show standalone ones (not from courses)
   const standaloneFlashcardDecks = flashcardDecks.filter(deck => deck.sourceType === 'standalone');
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  };
-
-  const totalItems = courses.length + standaloneFlashcardDecks.length + standaloneQuizzes.length + matchingGames.length + wordScrambleGames.length + fillBlankGames.length;
+  const totalItems = courses.length + standaloneFlashcardDecks.length + standaloneQuizzes.length + matchingGames.length + wordScrambleGames.length + fillBlankGames.length + crosswordGames.length;
 
   if (totalItems === 0) {
     return (
@@ -210,7 +401,27 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
             </svg>
             Create Content
           </button>
+          {ankiFileInput}
+          <button
+            className="btn btn-secondary"
+            onClick={() => ankiInputRef.current?.click()}
+            disabled={importingAnki}
+          >
+            {importingAnki ? 'Importing...' : 'Import Anki deck'}
+          </button>
+          {quizFileInput}
+          <button
+            className="btn btn-secondary"
+            onClick={() => quizInputRef.current?.click()}
+            disabled={importingQuiz}
+          >
+            {importingQuiz ? 'Importing...' : 'Import QTI / GIFT'}
+          </button>
+          <button className="btn btn-secondary" onClick={() => setCsvImportTarget('flashcards')}>
+            Import CSV / TSV
+          </button>
         </div>
+        {csvImportDialog}
       </div>
     );
   }
@@ -291,6 +502,19 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
           </svg>
           Fill Blank ({fillBlankGames.length})
         </button>
+        <button 
+          className={`tab-btn ${activeTab === 'crossword' ? 'active' : ''}`}
+          onClick={() => setActiveTab('crossword')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="18" height="18" rx="1"/>
+            <path d="M3 9h18"/>
+            <path d="M3 15h18"/>
+            <path d="M9 3v18"/>
+            <path d="M15 3v18"/>
+          </svg>
+          Crossword ({crosswordGames.length})
+        </button>
       </div>
 
       {activeTab === 'courses' && (
@@ -348,6 +572,22 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
 
       {activeTab === 'flashcards' && (
         <div className="courses-grid">
+          <div className="gallery-tab-actions">
+            {ankiFileInput}
+            <button
+              className="btn btn-secondary"
+              onClick={() => ankiInputRef.current?.click()}
+              disabled={importingAnki}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                <polyline points="17 8 12 3 7 8"/>
+                <line x1="12" y1="3" x2="12" y2="15"/>
+              </svg>
+              {importingAnki ? 'Importing...' : 'Import Anki deck'}
+            </button>
+            {csvImportButton('flashcards')}
+          </div>
           {standaloneFlashcardDecks.length === 1 && (
             <div className="first-item-hint">
               <svg className="hint-arrow" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" fill="none">
@@ -367,6 +607,19 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
                   style={isImageUrl ? {} : { background: deck.coverImage || 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)' }}
                 >
                   <ShareButton contentType="flashcards" item={deck} />
+                  <button
+                    className={`share-btn export-btn ${exportingId === deck.id ? 'sharing' : ''}`}
+                    onClick={(e) => handleAnkiExport(e, deck)}
+                    title="Export to Anki (.apkg)"
+                    disabled={exportingId === deck.id}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="14" height="14">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                      <polyline points="7 10 12 15 17 10"/>
+                      <line x1="12" y1="15" x2="12" y2="3"/>
+                    </svg>
+                  </button>
+                  <EditItemsButton kind="flashcards" content={deck} />
                   {isImageUrl ? (
                     <img src={deck.coverImage} alt={deck.title} onError={(e) => {
                       (e.target as HTMLImageElement).style.display = 'none';
@@ -402,6 +655,22 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
 
       {activeTab === 'quizzes' && (
         <div className="courses-grid">
+          <div className="gallery-tab-actions">
+            {quizFileInput}
+            <button
+              className="btn btn-secondary"
+              onClick={() => quizInputRef.current?.click()}
+              disabled={importingQuiz}
+              title="Import a QTI 2.1 package (.zip) or Moodle GIFT file"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="16" height="16">
+                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                <polyline points="17 8 12 3 7 8"/>
+                <line x1="12" y1="3" x2="12" y2="15"/>
+              </svg>
+              {importingQuiz ? 'Importing...' : 'Import QTI / GIFT'}
+            </button>
+          </div>
           {standaloneQuizzes.length === 1 && (
             <div className="first-item-hint">
               <svg className="hint-arrow" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" fill="none">
@@ -420,6 +689,7 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
                   style={isImageUrl ? {} : { background: quiz.coverImage || 'linear-gradient(135deg, #4facfe 0%, #00f2fe 100%)' }}
                 >
                   <ShareButton contentType="quiz" item={quiz} />
+                  <EditItemsButton kind="quiz" content={quiz} />
                   {isImageUrl ? (
                     <img src={quiz.coverImage} alt={quiz.title} onError={(e) => {
                       (e.target as HTMLImageElement).style.display = 'none';
@@ -450,6 +720,9 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
 
       {activeTab === 'matching' && (
         <div className="courses-grid">
+          <div className="gallery-tab-actions">
+            {csvImportButton('matching')}
+          </div>
           {matchingGames.length === 1 && (
             <div className="first-item-hint">
               <svg className="hint-arrow" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" fill="none">
@@ -473,6 +746,7 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
                   style={isImageUrl ? {} : { background: game.coverImage || 'linear-gradient(135deg, #667eea 0%, #f093fb 100%)' }}
                 >
                   <ShareButton contentType="matching" item={game} />
+                  <EditItemsButton kind="matching" content={game} />
                   {isImageUrl ? (
                     <img src={game.coverImage} alt={game.title} onError={(e) => {
                       (e.target as HTMLImageElement).style.display = 'none';
@@ -504,6 +778,9 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
 
       {activeTab === 'scramble' && (
         <div className="courses-grid">
+          <div className="gallery-tab-actions">
+            {csvImportButton('word-scramble')}
+          </div>
           {wordScrambleGames.map((game) => {
             const isImageUrl = game.coverImage && (game.coverImage.startsWith('http') || game.coverImage.startsWith('data:'));
             return (
@@ -513,6 +790,7 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
                   style={isImageUrl ? {} : { background: game.coverImage || 'linear-gradient(135deg, #06b6d4 0%, #8b5cf6 100%)' }}
                 >
                   <ShareButton contentType="word-scramble" item={game} />
+                  <EditItemsButton kind="word-scramble" content={game} />
                   {isImageUrl ? (
                     <img src={game.coverImage} alt={game.title} onError={(e) => {
                       (e.target as HTMLImageElement).style.display = 'none';
@@ -544,6 +822,9 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
 
       {activeTab === 'fill-blank' && (
         <div className="courses-grid">
+          <div className="gallery-tab-actions">
+            {csvImportButton('fill-blank')}
+          </div>
           {fillBlankGames.map((game) => {
             const isImageUrl = game.coverImage && (game.coverImage.startsWith('http') || game.coverImage.startsWith('data:'));
             const formatTime = (seconds: number) => {
@@ -558,6 +839,7 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
                   style={isImageUrl ? {} : { background: game.coverImage || 'linear-gradient(135deg, #10b981 0%, #3b82f6 100%)' }}
                 >
                   <ShareButton contentType="fill-blank" item={game} />
+                  <EditItemsButton kind="fill-blank" content={game} />
                   {isImageUrl ? (
                     <img src={game.coverImage} alt={game.title} onError={(e) => {
                       (e.target as HTMLImageElement).style.display = 'none';
@@ -588,6 +870,63 @@ const CourseGallery: React.FC<CourseGalleryProps> = ({
         </div>
       )}
 
+      {activeTab === 'crossword' && (
+        <div className="courses-grid">
+          {crosswordGames.map((game) => {
+            const isImageUrl = game.coverImage && (game.coverImage.startsWith('http') || game.coverImage.startsWith('data:'));
+            const formatTime = (seconds: number) => {
+              const mins = Math.floor(seconds / 60);
+              const secs = seconds % 60;
+              return `${mins}:${secs.toString().padStart(2, '0')}`;
+            };
+            return (
+              <div key={game.id} className="course-card crossword-card" onClick={() => onSelectCrossword?.(game)}>
+                <div 
+                  className="course-cover" 
+                  style={isImageUrl ? {} : { background: game.coverImage || 'linear-gradient(135deg, #f59e0b 0%, #ec4899 100%)' }}
+                >
+                  <ShareButton contentType="crossword" item={game} />
+                  {isImageUrl ? (
+                    <img src={game.coverImage} alt={game.title} onError={(e) => {
+                      (e.target as HTMLImageElement).style.display = 'none';
+                      (e.target as HTMLImageElement).parentElement!.style.background = 'linear-gradient(135deg, #f59e0b 0%, #ec4899 100%)';
+                    }} />
+                  ) : (
+                    <span className="course-cover-placeholder">✏️</span>
+                  )}
+                </div>
+                <div className="course-body">
+                  {renderTitle(game.id, game.title, 'crossword')}
+                  <p className="course-description">{game.description}</p>
+                  <div className="course-meta">
+                    <span>{game.clues.length} clues</span>
+                    {game.bestTime && <span>Best: {formatTime(game.bestTime)}</span>}
+                    {game.timesPlayed != null && <span>Played: {game.timesPlayed}x</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {crosswordGames.length === 0 && (
+            <div className="empty-tab">
+              <p>No crosswords yet. Create one from the Generate page!</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {csvImportDialog}
+
+      {itemEditor && (
+        <ItemEditor
+          kind={itemEditor.kind}
+          title={itemEditor.content.title}
+          items={entriesOf(itemEditor.kind, itemEditor.content)}
+          onSave={handleSaveItems}
+          onClose={() => setItemEditor(null)}
+        />
+      )}
+
       {/* Share Toast */}
       {shareToast && (
         <div className="share-toast">
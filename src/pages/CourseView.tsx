@@ -1,37 +1,45 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Course, CourseStep, MatchingGame } from '../types/roadmap';
 import LatexText from '../components/LatexText';
+import SourcesPanel from '../components/SourcesPanel';
+import OutlineEditor from '../components/OutlineEditor';
+import StepGraph from '../components/StepGraph';
+import CourseSettings from '../components/CourseSettings';
 import { apiPost } from '../lib/fetch';
+import { withSteps } from '../lib/courseOutline';
+import {
+  PASS_THRESHOLD,
+  isStepUnlocked,
+  pendingPrerequisites,
+  requiredScore,
+  resolvePassThresholds,
+  stepPassThreshold,
+  thresholdFor,
+  unlockReadySteps,
+  type PassThresholds,
+} from '../lib/prerequisites';
 
 interface CourseViewProps {
   course: Course;
   onBack: () => void;
-  onUpdateCourse: (course: Course) => void;
+  // Rejects with the server's error when the course isn't saved
+  onUpdateCourse: (course: Course) => Promise<void>;
   onOpenMaterial: (step: CourseStep) => void;
   onLoadingChange: (loading: boolean, message?: string) => void;
   onGenerateFlashcards: (course: Course) => void;
   onGenerateMatchingGame?: (game: MatchingGame) => void;
 }
 
-const isStepUnlocked = (step: CourseStep, steps: CourseStep[]): boolean => {
-  // First step is always unlocked
-  if (step.stepNumber === 1) return true;
-  
-  // Check if explicitly unlocked
-  if (step.unlocked) return true;
-  
-  // Find the previous step
-  const prevStep = steps.find(s => s.stepNumber === step.stepNumber - 1);
-  if (!prevStep) return true;
-  
-  // Previous step must have completed quiz with passing score (70%)
-  if (prevStep.test?.completed && prevStep.test.score !== undefined) {
-    const passingScore = prevStep.test.totalQuestions * 0.7;
-    return prevStep.test.score >= passingScore;
+// What a locked step is waiting for, e.g. "Complete Step 2 quiz with 7+ correct" or "Complete Steps 2 and 3"
+function lockedHint(step: CourseStep, steps: CourseStep[], thresholds: PassThresholds) {
+  const pending = pendingPrerequisites(step, steps, thresholds);
+  if (pending.length === 1 && pending[0].test?.totalQuestions) {
+    return `Complete Step ${pending[0].stepNumber} quiz with ${requiredScore(pending[0].test.totalQuestions, thresholdFor(pending[0], thresholds))}+ correct to unlock`;
   }
-  
-  return false;
-};
+  const numbers = pending.map(s => s.stepNumber).sort((a, b) => a - b);
+  const list = numbers.length > 1 ? `${numbers.slice(0, -1).join(', ')} and ${numbers[numbers.length - 1]}` : `${numbers[0]}`;
+  return `Complete Step${numbers.length > 1 ? 's' : ''} ${list} to unlock`;
+}
 
 const CourseView: React.FC<CourseViewProps> = ({ 
   course, 
@@ -42,10 +50,25 @@ const CourseView: React.FC<CourseViewProps> = ({
   onGenerateFlashcards,
   onGenerateMatchingGame
 }) => {
+  // Unfiltered until the quiz:passThreshold filter has answered
+  const [thresholds, setThresholds] = useState<PassThresholds>(() => ({
+    steps: Object.fromEntries(course.steps.map(step => [step.id, stepPassThreshold(course, step)])),
+    course: course.passThreshold ?? PASS_THRESHOLD,
+  }));
+  useEffect(() => {
+    let cancelled = false;
+    resolvePassThresholds(course).then(resolved => !cancelled && setThresholds(resolved));
+    return () => { cancelled = true; };
+  }, [course]);
+
   // Only expand first unlocked step by default
-  const firstUnlockedStep = course.steps.find(s => isStepUnlocked(s, course.steps) && !s.completed);
+  const firstUnlockedStep = course.steps.find(s => isStepUnlocked(s, course.steps, thresholds) && !s.completed);
   const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set([firstUnlockedStep?.id || course.steps[0]?.id]));
   const [isGeneratingGame, setIsGeneratingGame] = useState(false);
+  const [showSources, setShowSources] = useState(false);
+  const [editingOutline, setEditingOutline] = useState(false);
+  const [editingSettings, setEditingSettings] = useState(false);
+  const [layout, setLayout] = useState<'list' | 'graph'>('list');
 
   // Check if course is complete (all steps completed)
   const isCourseComplete = course.progress === 100;
@@ -58,6 +81,7 @@ const CourseView: React.FC<CourseViewProps> = ({
     
     try {
       const response = await apiPost('/generate-course-matching-game', {
+        courseId: course.id,
         courseTitle: course.title,
         courseDescription: course.description,
         steps: course.steps.map(s => ({
@@ -90,7 +114,7 @@ const CourseView: React.FC<CourseViewProps> = ({
 
   const toggleStep = (stepId: string, step: CourseStep) => {
     // Only allow expanding unlocked steps
-    if (!isStepUnlocked(step, course.steps)) return;
+    if (!isStepUnlocked(step, course.steps, thresholds)) return;
     
     const newExpanded = new Set(expandedSteps);
     if (newExpanded.has(stepId)) {
@@ -110,6 +134,7 @@ const CourseView: React.FC<CourseViewProps> = ({
     try {
       const response = await apiPost('/generate-step-details', {
         step,
+        courseId: course.id,
         courseTitle: course.title,
         courseDescription: course.description,
         originalPrompt: course.originalPrompt,
@@ -126,7 +151,7 @@ const CourseView: React.FC<CourseViewProps> = ({
           : s
       );
       
-      onUpdateCourse({ ...course, steps: updatedSteps });
+      await onUpdateCourse({ ...course, steps: updatedSteps });
     } catch (error) {
       console.error('Error loading step details:', error);
     } finally {
@@ -234,82 +259,159 @@ const CourseView: React.FC<CourseViewProps> = ({
             )}
             {isGeneratingGame ? 'Generating...' : 'Generate Matching Game'}
           </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setShowSources(true)}
+            title="Files this course is based on"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+              <polyline points="14 2 14 8 20 8"/>
+              <line x1="8" y1="13" x2="16" y2="13"/>
+              <line x1="8" y1="17" x2="16" y2="17"/>
+            </svg>
+            Sources
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setEditingOutline(true)}
+            title="Reorder, add, split, merge or delete steps"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="8" y1="6" x2="21" y2="6"/>
+              <line x1="8" y1="12" x2="21" y2="12"/>
+              <line x1="8" y1="18" x2="21" y2="18"/>
+              <line x1="3" y1="6" x2="3.01" y2="6"/>
+              <line x1="3" y1="12" x2="3.01" y2="12"/>
+              <line x1="3" y1="18" x2="3.01" y2="18"/>
+            </svg>
+            Edit Outline
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setEditingSettings(true)}
+            title="Quiz scores learners need to pass each step"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="4" y1="21" x2="4" y2="14"/>
+              <line x1="4" y1="10" x2="4" y2="3"/>
+              <line x1="12" y1="21" x2="12" y2="12"/>
+              <line x1="12" y1="8" x2="12" y2="3"/>
+              <line x1="20" y1="21" x2="20" y2="16"/>
+              <line x1="20" y1="12" x2="20" y2="3"/>
+              <line x1="1" y1="14" x2="7" y2="14"/>
+              <line x1="9" y1="8" x2="15" y2="8"/>
+              <line x1="17" y1="16" x2="23" y2="16"/>
+            </svg>
+            Settings
+          </button>
         </div>
       </div>
 
       <div className="course-content">
-        <div className="steps-list">
-          {course.steps.map((step) => {
-            const stepUnlocked = isStepUnlocked(step, course.steps);
-            const prevStep = course.steps.find(s => s.stepNumber === step.stepNumber - 1);
-            const requiredScore = prevStep?.test?.totalQuestions ? Math.ceil(prevStep.test.totalQuestions * 0.7) : 0;
-            
-            return (
-              <div key={step.id} className={`step-card ${step.completed ? 'completed' : ''} ${!stepUnlocked ? 'locked' : ''}`}>
-                <div className="step-header" onClick={() => toggleStep(step.id, step)}>
-                  <div className="step-number">
-                    {!stepUnlocked ? (
-                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                        <rect x="3" y="11" width="18" height="11" rx="2" ry="2"/>
-                        <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
-                      </svg>
-                    ) : step.completed ? (
-                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
-                        <polyline points="20 6 9 17 4 12"/>
-                      </svg>
-                    ) : (
-                      step.stepNumber
-                    )}
-                  </div>
-                  <div className="step-info">
-                    <div className="step-title">{step.title}</div>
-                    <div className="step-meta">
+        <div className="course-layout-toggle">
+          <button className={layout === 'list' ? 'active' : ''} onClick={() => setLayout('list')}>List</button>
+          <button className={layout === 'graph' ? 'active' : ''} onClick={() => setLayout('graph')}>Graph</button>
+        </div>
+
+        {layout === 'graph' ? (
+          <StepGraph steps={course.steps} thresholds={thresholds} onSelect={handleOpenMaterial} />
+        ) : (
+          <div className="steps-list">
+            {course.steps.map((step) => {
+              const stepUnlocked = isStepUnlocked(step, course.steps, thresholds);
+
+              return (
+                <div key={step.id} className={`step-card ${step.completed ? 'completed' : ''} ${!stepUnlocked ? 'locked' : ''}`}>
+                  <div className="step-header" onClick={() => toggleStep(step.id, step)}>
+                    <div className="step-number">
                       {!stepUnlocked ? (
-                        <span className="locked-hint">
-                          Complete Step {step.stepNumber - 1} quiz with {requiredScore}+ correct to unlock
-                        </span>
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <rect x="3" y="11" width="18" height="11" rx="2" ry="2"/>
+                          <path d="M7 11V7a5 5 0 0 1 10 0v4"/>
+                        </svg>
+                      ) : step.completed ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+                          <polyline points="20 6 9 17 4 12"/>
+                        </svg>
                       ) : (
-                        step.estimatedTime
+                        step.stepNumber
                       )}
                     </div>
+                    <div className="step-info">
+                      <div className="step-title">{step.title}</div>
+                      <div className="step-meta">
+                        {!stepUnlocked ? (
+                          <span className="locked-hint">{lockedHint(step, course.steps, thresholds)}</span>
+                        ) : (
+                          step.estimatedTime
+                        )}
+                      </div>
+                    </div>
+                    {stepUnlocked && (
+                      <svg 
+                        className={`step-chevron ${expandedSteps.has(step.id) ? 'expanded' : ''}`}
+                        xmlns="http://www.w3.org/2000/svg" 
+                        width="20" 
+                        height="20" 
+                        viewBox="0 0 24 24" 
+                        fill="none" 
+                        stroke="currentColor" 
+                        strokeWidth="2"
+                      >
+                        <polyline points="6 9 12 15 18 9"/>
+                      </svg>
+                    )}
                   </div>
-                  {stepUnlocked && (
-                    <svg 
-                      className={`step-chevron ${expandedSteps.has(step.id) ? 'expanded' : ''}`}
-                      xmlns="http://www.w3.org/2000/svg" 
-                      width="20" 
-                      height="20" 
-                      viewBox="0 0 24 24" 
-                      fill="none" 
-                      stroke="currentColor" 
-                      strokeWidth="2"
-                    >
-                      <polyline points="6 9 12 15 18 9"/>
-                    </svg>
-                  )}
-                </div>
 
-                {stepUnlocked && expandedSteps.has(step.id) && (
-                  <div className="step-content">
-                    <p className="step-description"><LatexText>{step.description}</LatexText></p>
-                    <div className="step-actions">
-                      <button 
-                        className="btn btn-primary" 
-                        onClick={() => handleOpenMaterial(step)}
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <polyline points="9 18 15 12 9 6"/>
-                        </svg>
-                        {step.completed ? 'Review' : 'Begin'}
-                      </button>
+                  {stepUnlocked && expandedSteps.has(step.id) && (
+                    <div className="step-content">
+                      <p className="step-description"><LatexText>{step.description}</LatexText></p>
+                      <div className="step-actions">
+                        <button 
+                          className="btn btn-primary" 
+                          onClick={() => handleOpenMaterial(step)}
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <polyline points="9 18 15 12 9 6"/>
+                          </svg>
+                          {step.completed ? 'Review' : 'Begin'}
+                        </button>
+                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
-            );
-          })}
-        </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
+
+      {showSources && <SourcesPanel courseId={course.id} onClose={() => setShowSources(false)} />}
+
+      {editingOutline && (
+        <OutlineEditor
+          course={course}
+          onSave={async (steps) => {
+            await onUpdateCourse(withSteps(course, steps, thresholds));
+            setEditingOutline(false);
+          }}
+          onClose={() => setEditingOutline(false)}
+        />
+      )}
+
+      {editingSettings && (
+        <CourseSettings
+          course={course}
+          onSave={async (updated) => {
+            // A lower threshold can pass quizzes already taken; a higher one never locks an open step again
+            const resolved = await resolvePassThresholds(updated);
+            await onUpdateCourse({ ...updated, steps: unlockReadySteps(updated.steps, resolved) });
+            setEditingSettings(false);
+          }}
+          onClose={() => setEditingSettings(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { CrosswordGame, CrosswordClue } from '../types/roadmap';
+import { doAction } from '../plugins';
+
+interface CrosswordPageProps {
+  game: CrosswordGame;
+  onBack: () => void;
+  onUpdateGame: (game: CrosswordGame) => void;
+}
+
+type Direction = 'across' | 'down';
+
+interface Cell {
+  answer: string;
+  number?: number;
+  across?: string; // Clue ids of the words passing through this cell
+  down?: string;
+}
+
+const cellKey = (row: number, col: number) => `${row},${col}`;
+
+const clueCells = (clue: CrosswordClue) =>
+  Array.from(clue.answer, (_, i) => clue.direction === 'across'
+    ? cellKey(clue.row, clue.col + i)
+    : cellKey(clue.row + i, clue.col));
+
+const CrosswordPage: React.FC<CrosswordPageProps> = ({ game, onBack, onUpdateGame }) => {
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [active, setActive] = useState<{ row: number; col: number } | null>(null);
+  const [direction, setDirection] = useState<Direction>('across');
+  const [wrongCells, setWrongCells] = useState<Set<string>>(new Set());
+  const [usedReveal, setUsedReveal] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const [startTime, setStartTime] = useState(() => Date.now());
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Build the cell map and grid bounds from the clue positions
+  const { cells, rows, cols } = useMemo(() => {
+    const map = new Map<string, Cell>();
+    let maxRow = 0;
+    let maxCol = 0;
+    game.clues.forEach(clue => {
+      clueCells(clue).forEach((key, i) => {
+        const [r, c] = key.split(',').map(Number);
+        const cell = map.get(key) || { answer: clue.answer[i] };
+        cell[clue.direction] = clue.id;
+        if (i === 0) cell.number = clue.number;
+        map.set(key, cell);
+        maxRow = Math.max(maxRow, r);
+        maxCol = Math.max(maxCol, c);
+      });
+    });
+    return { cells: map, rows: maxRow + 1, cols: maxCol + 1 };
+  }, [game.clues]);
+
+  const cluesById = useMemo(() => new Map(game.clues.map(c => [c.id, c])), [game.clues]);
+  const acrossClues = useMemo(() => game.clues.filter(c => c.direction === 'across'), [game.clues]);
+  const downClues = useMemo(() => game.clues.filter(c => c.direction === 'down'), [game.clues]);
+  const orderedClues = useMemo(() => [...acrossClues, ...downClues], [acrossClues, downClues]);
+
+  const activeCell = active ? cells.get(cellKey(active.row, active.col)) : undefined;
+  const activeClueId = activeCell ? (activeCell[direction] || activeCell.across || activeCell.down) : undefined;
+  const activeClue = activeClueId ? cluesById.get(activeClueId) : undefined;
+  const activeWordCells = useMemo(() => new Set(activeClue ? clueCells(activeClue) : []), [activeClue]);
+
+  // Start on 1-Across (or whatever the first clue is)
+  useEffect(() => {
+    const first = orderedClues[0];
+    if (first) {
+      setActive({ row: first.row, col: first.col });
+      setDirection(first.direction);
+    }
+  }, [orderedClues]);
+
+  // Timer
+  useEffect(() => {
+    if (isComplete) return;
+    const interval = setInterval(() => {
+      setElapsedTime(Math.round((Date.now() - startTime) / 1000));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isComplete, startTime]);
+
+  // Finish once every cell holds the right letter
+  useEffect(() => {
+    if (isComplete || cells.size === 0) return;
+    for (const [key, cell] of cells) {
+      if (entries[key] !== cell.answer) return;
+    }
+    const elapsed = Math.round((Date.now() - startTime) / 1000);
+    setElapsedTime(elapsed);
+    setIsComplete(true);
+
+    const update: Partial<CrosswordGame> = { timesPlayed: (game.timesPlayed || 0) + 1 };
+    if (!usedReveal && (!game.bestTime || elapsed < game.bestTime)) update.bestTime = elapsed;
+    onUpdateGame({ ...game, ...update });
+    doAction('crossword:completed', { game, time: elapsed, usedReveal });
+  }, [entries]);
+
+  const selectClue = (clue: CrosswordClue) => {
+    // Jump to the first empty cell of the word, or its start if it's full
+    const keys = clueCells(clue);
+    const target = keys.find(k => !entries[k]) || keys[0];
+    const [row, col] = target.split(',').map(Number);
+    setActive({ row, col });
+    setDirection(clue.direction);
+    inputRef.current?.focus();
+  };
+
+  const handleCellClick = (row: number, col: number) => {
+    const cell = cells.get(cellKey(row, col));
+    if (!cell) return;
+    if (active && active.row === row && active.col === col) {
+      // Clicking the active cell again switches direction when both are available
+      if (cell.across && cell.down) setDirection(d => d === 'across' ? 'down' : 'across');
+    } else {
+      setActive({ row, col });
+      if (!cell[direction]) setDirection(cell.across ? 'across' : 'down');
+    }
+    inputRef.current?.focus();
+  };
+
+  // Step to the next/previous existing cell along a line, skipping over blocks
+  const stepCell = useCallback((row: number, col: number, dir: Direction, delta: number) => {
+    let r = row;
+    let c = col;
+    for (;;) {
+      r += dir === 'down' ? delta : 0;
+      c += dir === 'across' ? delta : 0;
+      if (r < 0 || c < 0 || r >= rows || c >= cols) return null;
+      if (cells.has(cellKey(r, c))) return { row: r, col: c };
+    }
+  }, [cells, rows, cols]);
+
+  const moveWithinWord = useCallback((delta: number) => {
+    if (!active || !activeClue) return;
+    const keys = clueCells(activeClue);
+    const index = keys.indexOf(cellKey(active.row, active.col)) + delta;
+    if (index < 0 || index >= keys.length) return;
+    const [row, col] = keys[index].split(',').map(Number);
+    setActive({ row, col });
+  }, [active, activeClue]);
+
+  const enterLetter = useCallback((letter: string) => {
+    if (!active || isComplete) return;
+    const key = cellKey(active.row, active.col);
+    setEntries(prev => ({ ...prev, [key]: letter }));
+    setWrongCells(prev => {
+      if (!prev.has(key)) return prev;
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
+    moveWithinWord(1);
+  }, [active, isComplete, moveWithinWord]);
+
+  const handleBackspace = useCallback(() => {
+    if (!active || isComplete) return;
+    const key = cellKey(active.row, active.col);
+    if (entries[key]) {
+      setEntries(prev => ({ ...prev, [key]: '' }));
+      return;
+    }
+    // Empty cell: step back and clear the previous letter
+    if (!activeClue) return;
+    const keys = clueCells(activeClue);
+    const index = keys.indexOf(key);
+    if (index <= 0) return;
+    const [row, col] = keys[index - 1].split(',').map(Number);
+    setEntries(prev => ({ ...prev, [keys[index - 1]]: '' }));
+    setActive({ row, col });
+  }, [active, activeClue, entries, isComplete]);
+
+  const jumpClue = useCallback((delta: number) => {
+    if (!activeClue || orderedClues.length === 0) return;
+    const index = orderedClues.findIndex(c => c.id === activeClue.id);
+    const next = orderedClues[(index + delta + orderedClues.length) % orderedClues.length];
+    selectClue(next);
+  }, [activeClue, orderedClues, entries]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!active || isComplete) return;
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+    if (/^[a-zA-Z]$/.test(e.key)) {
+      e.preventDefault();
+      enterLetter(e.key.toUpperCase());
+    } else if (e.key === 'Backspace' || e.key === 'Delete') {
+      e.preventDefault();
+      handleBackspace();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      jumpClue(e.shiftKey ? -1 : 1);
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (activeCell?.across && activeCell?.down) setDirection(d => d === 'across' ? 'down' : 'across');
+    } else if (e.key.startsWith('Arrow')) {
+      e.preventDefault();
+      const arrowDir: Direction = e.key === 'ArrowLeft' || e.key === 'ArrowRight' ? 'across' : 'down';
+      const delta = e.key === 'ArrowLeft' || e.key === 'ArrowUp' ? -1 : 1;
+      // First press along the other axis only turns the cursor, like most crossword apps
+      if (arrowDir !== direction && activeCell?.[arrowDir]) {
+        setDirection(arrowDir);
+        return;
+      }
+      const next = stepCell(active.row, active.col, arrowDir, delta);
+      if (next) {
+        setActive(next);
+        const nextCell = cells.get(cellKey(next.row, next.col));
+        if (nextCell && !nextCell[direction]) setDirection(arrowDir);
+      }
+    }
+  }, [active, activeCell, direction, isComplete, cells, enterLetter, handleBackspace, jumpClue, stepCell]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  // Mobile keyboards don't always send usable keydown events, so read the hidden input too
+  const handleHiddenInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const letter = e.target.value.slice(-1);
+    if (/^[a-zA-Z]$/.test(letter)) enterLetter(letter.toUpperCase());
+    e.target.value = '';
+  };
+
+  const handleCheck = () => {
+    const wrong = new Set<string>();
+    cells.forEach((cell, key) => {
+      if (entries[key] && entries[key] !== cell.answer) wrong.add(key);
+    });
+    setWrongCells(wrong);
+  };
+
+  const handleRevealWord = () => {
+    if (!activeClue) return;
+    setUsedReveal(true);
+    setEntries(prev => {
+      const next = { ...prev };
+      clueCells(activeClue).forEach((key, i) => { next[key] = activeClue.answer[i]; });
+      return next;
+    });
+  };
+
+  const handleRestart = () => {
+    setEntries({});
+    setWrongCells(new Set());
+    setUsedReveal(false);
+    setIsComplete(false);
+    setStartTime(Date.now());
+    setElapsedTime(0);
+    const first = orderedClues[0];
+    if (first) selectClue(first);
+  };
+
+  const formatTime = (s: number) => `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+
+  const isClueSolved = (clue: CrosswordClue) =>
+    clueCells(clue).every((key, i) => entries[key] === clue.answer[i]);
+
+  const renderClueList = (title: string, list: CrosswordClue[]) => (
+    <div className="cw-clue-list">
+      <h3>{title}</h3>
+      <ol>
+        {list.map(clue => (
+          <li
+            key={clue.id}
+            className={`cw-clue ${activeClue?.id === clue.id ? 'active' : ''} ${isClueSolved(clue) ? 'solved' : ''}`}
+            onClick={() => selectClue(clue)}
+          >
+            <span className="cw-clue-number">{clue.number}</span>
+            <span>{clue.clue} <span className="cw-clue-length">({clue.answer.length})</span></span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+
+  return (
+    <div className="cw-page">
+      <div className="fb-header">
+        <button className="back-button" onClick={onBack}>
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" width="20" height="20">
+            <polyline points="15 18 9 12 15 6"/>
+          </svg>
+          Back
+        </button>
+        <div className="fb-header-info">
+          <h1>{game.title}</h1>
+          <span className="fb-counter">{formatTime(elapsedTime)}</span>
+        </div>
+      </div>
+
+      {isComplete && (
+        <div className="cw-complete-banner">
+          <span>🎉 Solved in {formatTime(elapsedTime)}{usedReveal ? ' (with reveals)' : ''}</span>
+          <div className="cw-complete-actions">
+            <button className="btn btn-primary" onClick={handleRestart}>Play Again</button>
+            <button className="btn btn-secondary" onClick={onBack}>Back to Library</button>
+          </div>
+        </div>
+      )}
+
+      <div className="cw-body">
+        <div className="cw-board">
+          <div className="cw-active-clue">
+            {activeClue
+              ? <><strong>{activeClue.number} {activeClue.direction === 'across' ? 'Across' : 'Down'}</strong> {activeClue.clue}</>
+              : 'Select a cell to start'}
+          </div>
+
+          <div
+            className="cw-grid"
+            style={{ gridTemplateColumns: `repeat(${cols}, var(--cw-cell-size))` }}
+          >
+            {Array.from({ length: rows * cols }, (_, i) => {
+              const row = Math.floor(i / cols);
+              const col = i % cols;
+              const key = cellKey(row, col);
+              const cell = cells.get(key);
+              if (!cell) return <div key={key} className="cw-cell block" />;
+              const isActive = active?.row === row && active?.col === col;
+              return (
+                <div
+                  key={key}
+                  className={`cw-cell ${isActive ? 'active' : ''} ${activeWordCells.has(key) ? 'in-word' : ''} ${wrongCells.has(key) ? 'wrong' : ''}`}
+                  onClick={() => handleCellClick(row, col)}
+                >
+                  {cell.number && <span className="cw-cell-number">{cell.number}</span>}
+                  <span className="cw-cell-letter">{entries[key]}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <input
+            ref={inputRef}
+            className="cw-hidden-input"
+            onChange={handleHiddenInput}
+            autoComplete="off"
+            autoCapitalize="characters"
+            spellCheck={false}
+            aria-label="Crossword input"
+          />
+
+          <div className="cw-actions">
+            <button className="btn btn-secondary" onClick={handleCheck} disabled={isComplete}>Check</button>
+            <button className="btn btn-secondary" onClick={handleRevealWord} disabled={isComplete || !activeClue}>Reveal Word</button>
+            <button className="btn btn-ghost" onClick={handleRestart}>Clear</button>
+          </div>
+          <p className="cw-help">Type to fill · Arrows to move · Space to switch direction · Tab for next clue</p>
+        </div>
+
+        <div className="cw-clues">
+          {renderClueList('Across', acrossClues)}
+          {renderClueList('Down', downClues)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrosswordPage;
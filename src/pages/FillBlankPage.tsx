@@ -15,6 +15,7 @@ const FillBlankPage: React.FC<FillBlankPageProps> = ({ game, onBack, onUpdateGam
   const [showAnswer, setShowAnswer] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
   const [startTime] = useState(() => Date.now());
+  const [elapsed, setElapsed] = useState(0);
   const [shakeInput, setShakeInput] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -25,10 +26,15 @@ const FillBlankPage: React.FC<FillBlankPageProps> = ({ game, onBack, onUpdateGam
 
   useEffect(() => {
     inputRef.current?.focus();
+  }, [currentIndex]);
+
+  // Moving to another sentence starts with an empty answer
+  const goToSentence = (index: number) => {
+    setCurrentIndex(index);
     setUserAnswer('');
     setShowAnswer(false);
     setShakeInput(false);
-  }, [currentIndex]);
+  };
 
   const checkAnswer = () => {
     if (!userAnswer.trim()) return;
@@ -43,11 +49,12 @@ const FillBlankPage: React.FC<FillBlankPageProps> = ({ game, onBack, onUpdateGam
 
   const handleNext = () => {
     if (currentIndex < sentences.length - 1) {
-      setCurrentIndex(currentIndex + 1);
+      goToSentence(currentIndex + 1);
     } else {
       const elapsed = Math.round((Date.now() - startTime) / 1000);
       const finalCorrect = Object.values({ ...results }).filter(r => r === 'correct').length;
       const score = Math.round((finalCorrect / sentences.length) * 100);
+      setElapsed(elapsed);
       setIsComplete(true);
 
       const update: Partial<FillBlankGame> = {
@@ -72,10 +79,8 @@ const FillBlankPage: React.FC<FillBlankPageProps> = ({ game, onBack, onUpdateGam
   };
 
   const handleRestart = () => {
-    setCurrentIndex(0);
+    goToSentence(0);
     setResults({});
-    setUserAnswer('');
-    setShowAnswer(false);
     setIsComplete(false);
   };
 
@@ -89,7 +94,6 @@ const FillBlankPage: React.FC<FillBlankPageProps> = ({ game, onBack, onUpdateGam
 
   // ─── completion screen ───
   if (isComplete) {
-    const elapsed = Math.round((Date.now() - startTime) / 1000);
     const finalScore = Math.round((correctCount / sentences.length) * 100);
     const circumference = 2 * Math.PI * 54;
 
@@ -273,7 +277,7 @@ const FillBlankPage: React.FC<FillBlankPageProps> = ({ game, onBack, onUpdateGam
             <button
               key={s.id}
               className={`fb-dot ${i === currentIndex ? 'current' : ''} ${results[s.id] === 'correct' ? 'correct' : results[s.id] === 'incorrect' ? 'incorrect' : ''}`}
-              onClick={() => { if (results[s.id]) { setCurrentIndex(i); } }}
+              onClick={() => { if (results[s.id]) { goToSentence(i); } }}
               title={`Question ${i + 1}`}
             >
               {i + 1}
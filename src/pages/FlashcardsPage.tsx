@@ -1,18 +1,28 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Flashcard, FlashcardDeck } from '../types/roadmap';
+import { Flashcard, FlashcardDeck, FlashcardSchedule, ReviewRating } from '../types/roadmap';
 import LatexText from '../components/LatexText';
 import { doAction, applyFilters } from '../plugins';
+import { REVIEW_RATINGS, sm2, scheduleReview, getDueCards, isCardDue, formatInterval } from '../lib/spacedRepetition';
 
 interface FlashcardsPageProps {
   deck: FlashcardDeck;
   onBack: () => void;
   onUpdateDeck?: (deck: FlashcardDeck) => void;
+  // Rejects when the review could not be saved
+  onReviewCard?: (card: Flashcard, schedule: FlashcardSchedule) => Promise<void>;
 }
 
-const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateDeck }) => {
+const RATING_LABELS: Record<ReviewRating, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateDeck, onReviewCard }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
-  const [studyMode, setStudyMode] = useState<'all' | 'unmastered'>('unmastered');
+  const [studyMode, setStudyMode] = useState<'all' | 'unmastered' | 'due'>('unmastered');
   const [shuffled, setShuffled] = useState(false);
   const [cards, setCards] = useState<Flashcard[]>(deck.cards);
   const [isTransitioning, setIsTransitioning] = useState(false);
@@ -21,6 +31,9 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
   const [dragX, setDragX] = useState(0);
   const [dragY, setDragY] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
+  // Cards rated "Again" this session, which stay in the due list although they are due tomorrow
+  const [relearning, setRelearning] = useState<string[]>([]);
+  const [reviewError, setReviewError] = useState<string | null>(null);
   const dragStartRef = useRef<{ x: number; y: number } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -28,14 +41,21 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
     let filteredCards = deck.cards;
     if (studyMode === 'unmastered') {
       filteredCards = deck.cards.filter(c => !c.mastered);
+    } else if (studyMode === 'due') {
+      const relearnCards = relearning
+        .map(id => deck.cards.find(c => c.id === id))
+        .filter((c): c is Flashcard => c !== undefined && !isCardDue(c));
+      filteredCards = [...getDueCards(deck.cards), ...relearnCards];
     }
     if (shuffled) {
       filteredCards = [...filteredCards].sort(() => Math.random() - 0.5);
     }
+    // A new deck or filter starts a new session, so the position resets with the card list
+    // eslint-disable-next-line react-hooks/set-state-in-effect
     setCards(filteredCards);
     setCurrentIndex(0);
     setIsFlipped(false);
-  }, [deck.cards, studyMode, shuffled]);
+  }, [deck.cards, studyMode, shuffled, relearning]);
 
   const handleFlip = () => {
     setIsFlipped(!isFlipped);
@@ -100,6 +120,26 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
     }, 350);
   }, [isTransitioning, cards, currentIndex, deck, onUpdateDeck]);
 
+  // Rating a card reschedules it; the parent's deck update drops it from the due list
+  const handleRate = useCallback(async (rating: ReviewRating) => {
+    const currentCard = cards[currentIndex];
+    if (!currentCard || isTransitioning) return;
+
+    const schedule = await scheduleReview(currentCard, rating, { now: new Date(), deckId: deck.id });
+    try {
+      await onReviewCard?.(currentCard, schedule);
+    } catch (err) {
+      console.error('Failed to save review:', err);
+      setReviewError('Could not save this review. Try again.');
+      return;
+    }
+    setReviewError(null);
+    doAction('flashcard:reviewed', { card: currentCard, rating, schedule, deck });
+    // Missed cards come back at the end of this session as well as tomorrow
+    setRelearning(prev => [...prev.filter(id => id !== currentCard.id), ...(rating === 'again' ? [currentCard.id] : [])]);
+    setIsFlipped(false);
+  }, [cards, currentIndex, isTransitioning, deck, onReviewCard]);
+
   const handlePointerDown = useCallback((e: React.PointerEvent) => {
     if (isTransitioning) return;
     (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
@@ -134,7 +174,9 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
   }, [dragX, handleSwipeAction]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.key === ' ' || e.key === 'Enter') {
+    if (studyMode === 'due' && isFlipped && ['1', '2', '3', '4'].includes(e.key)) {
+      handleRate(REVIEW_RATINGS[Number(e.key) - 1]);
+    } else if (e.key === ' ' || e.key === 'Enter') {
       e.preventDefault();
       setIsFlipped(prev => !prev);
     } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
@@ -166,7 +208,7 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
         return prev;
       });
     }
-  }, [cards.length, isTransitioning]);
+  }, [cards.length, isTransitioning, studyMode, isFlipped, handleRate]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
@@ -176,6 +218,7 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
   const currentCard = cards[currentIndex];
   const masteredCount = deck.cards.filter(c => c.mastered).length;
   const progress = Math.round((masteredCount / deck.cards.length) * 100);
+  const dueCount = getDueCards(deck.cards).length;
 
   if (cards.length === 0) {
     return (
@@ -189,8 +232,12 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
           <h1>{deck.title}</h1>
         </div>
         <div className="flashcards-empty">
-          <p>{studyMode === 'unmastered' ? 'All cards mastered! 🎉' : 'No flashcards available.'}</p>
-          {studyMode === 'unmastered' && (
+          <p>
+            {studyMode === 'unmastered' ? 'All cards mastered! 🎉'
+              : studyMode === 'due' ? 'Nothing due for review. Come back later! 🎉'
+              : 'No flashcards available.'}
+          </p>
+          {studyMode !== 'all' && (
             <button className="btn btn-primary" onClick={() => setStudyMode('all')}>
               Study All Cards
             </button>
@@ -231,6 +278,14 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
           >
             Unmastered ({deck.cards.length - masteredCount})
           </button>
+          {onReviewCard && (
+            <button
+              className={`toolbar-btn ${studyMode === 'due' ? 'active' : ''}`}
+              onClick={() => setStudyMode('due')}
+            >
+              Due ({dueCount})
+            </button>
+          )}
         </div>
         <div className="toolbar-right">
           <button 
@@ -306,6 +361,23 @@ const FlashcardsPage: React.FC<FlashcardsPageProps> = ({ deck, onBack, onUpdateD
         </div>
       </div>
 
+      {studyMode === 'due' && isFlipped && (
+        <div className="review-ratings">
+          {REVIEW_RATINGS.map((rating, i) => (
+            <button
+              key={rating}
+              className={`rating-btn rating-${rating}`}
+              onClick={() => handleRate(rating)}
+              title={`Press ${i + 1}`}
+            >
+              <span className="rating-label">{RATING_LABELS[rating]}</span>
+              <span className="rating-interval">{formatInterval(sm2(currentCard, rating).interval)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {studyMode === 'due' && reviewError && <p className="review-save-error">{reviewError}</p>}
+
       <div className="flashcards-controls">
         <button 
           className="btn btn-swipe-left"
@@ -20,9 +20,39 @@ interface Card {
 
 const MAX_VISIBLE_CARDS = 20; // max cards on screen at once
 
+// Question and answer cards for every pair, shuffled together
+function dealCards(game: MatchingGame): Card[] {
+  // Create cards from pairs
+  const questionCards: Card[] = game.pairs.map(pair => ({
+    id: `q-${pair.id}`,
+    pairId: pair.id,
+    content: pair.question,
+    type: 'question' as const,
+    isSelected: false,
+    isMatched: false
+  }));
+
+  const answerCards: Card[] = game.pairs.map(pair => ({
+    id: `a-${pair.id}`,
+    pairId: pair.id,
+    content: pair.answer,
+    type: 'answer' as const,
+    isSelected: false,
+    isMatched: false
+  }));
+
+  // Combine and shuffle
+  const combined = [...questionCards, ...answerCards];
+  for (let i = combined.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [combined[i], combined[j]] = [combined[j], combined[i]];
+  }
+  return combined;
+}
+
 const MatchingGamePage: React.FC<MatchingGamePageProps> = ({ game, onBack, onUpdateGame }) => {
-  const [allCards, setAllCards] = useState<Card[]>([]); // full shuffled deck
-  const [visibleCards, setVisibleCards] = useState<Card[]>([]); // cards currently on screen
+  const [allCards, setAllCards] = useState<Card[]>(() => dealCards(game)); // full shuffled deck
+  const [visibleCards, setVisibleCards] = useState<Card[]>(() => allCards.slice(0, MAX_VISIBLE_CARDS)); // cards currently on screen
   const [selectedCards, setSelectedCards] = useState<Card[]>([]);
   const [matchedPairs, setMatchedPairs] = useState<Set<string>>(new Set());
   const [isChecking, setIsChecking] = useState(false);
@@ -39,11 +69,6 @@ const MatchingGamePage: React.FC<MatchingGamePageProps> = ({ game, onBack, onUpd
     return { cols, rows };
   }, [visibleCards.length]);
 
-  // Initialize cards on mount
-  useEffect(() => {
-    initializeGame();
-  }, [game.id]);
-
   // Timer
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -56,32 +81,7 @@ const MatchingGamePage: React.FC<MatchingGamePageProps> = ({ game, onBack, onUpd
   }, [gameStarted, gameComplete]);
 
   const initializeGame = () => {
-    // Create cards from pairs
-    const questionCards: Card[] = game.pairs.map(pair => ({
-      id: `q-${pair.id}`,
-      pairId: pair.id,
-      content: pair.question,
-      type: 'question' as const,
-      isSelected: false,
-      isMatched: false
-    }));
-
-    const answerCards: Card[] = game.pairs.map(pair => ({
-      id: `a-${pair.id}`,
-      pairId: pair.id,
-      content: pair.answer,
-      type: 'answer' as const,
-      isSelected: false,
-      isMatched: false
-    }));
-
-    // Combine and shuffle
-    const combined = [...questionCards, ...answerCards];
-    for (let i = combined.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [combined[i], combined[j]] = [combined[j], combined[i]];
-    }
-
+    const combined = dealCards(game);
     setAllCards(combined);
 
     // Take the first batch for display
@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
-import { CourseStep, FlashcardDeck, Flashcard, MatchingGame } from '../types/roadmap';
+import { CourseStep, FlashcardDeck, Flashcard, LearningMaterial, MatchingGame, SourceCitation } from '../types/roadmap';
 import LatexText from '../components/LatexText';
+import Citations from '../components/Citations';
+import SourcesPanel from '../components/SourcesPanel';
+import RegenerateDialog from '../components/RegenerateDialog';
 import { apiPost } from '../lib/fetch';
 
 interface MaterialPageProps {
@@ -11,6 +14,7 @@ interface MaterialPageProps {
   onStartQuiz: () => void;
   onMarkComplete: () => void;
   onUpdateMaterialProgress: (materialIndex: number) => void;
+  onReplaceMaterial?: (material: LearningMaterial) => void;
   onGenerateFlashcards?: (deck: FlashcardDeck) => void;
   onGenerateMatchingGame?: (game: MatchingGame) => void;
   onLoadingChange?: (loading: boolean, message?: string) => void;
@@ -24,6 +28,7 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
   onStartQuiz,
   onMarkComplete,
   onUpdateMaterialProgress,
+  onReplaceMaterial,
   onGenerateFlashcards,
   onGenerateMatchingGame,
   onLoadingChange
@@ -32,8 +37,9 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
   const [currentMaterialIndex, setCurrentMaterialIndex] = useState(step.materialProgress || 0);
   const [isGeneratingFlashcards, setIsGeneratingFlashcards] = useState(false);
   const [isGeneratingMatchingGame, setIsGeneratingMatchingGame] = useState(false);
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
   const totalMaterials = step.materials?.length || 0;
-  const allMaterialsViewed = currentMaterialIndex >= totalMaterials - 1;
   
   const handleGenerateFlashcards = async () => {
     if (!step.materials || step.materials.length === 0) return;
@@ -43,6 +49,7 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
     
     try {
       const response = await apiPost('/generate-step-flashcards', {
+        courseId,
         stepTitle: step.title,
         stepDescription: step.description,
         materials: step.materials
@@ -80,6 +87,7 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
     
     try {
       const response = await apiPost('/generate-step-matching-game', {
+        courseId,
         stepTitle: step.title,
         stepDescription: step.description,
         materials: step.materials
@@ -107,6 +115,21 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
     }
   };
   
+  // Rewrites the material on screen; the others and the reading progress stay as they are
+  const handleRegenerateMaterial = async (feedback: string) => {
+    const response = await apiPost('/regenerate-material', {
+      step,
+      courseId,
+      courseTitle,
+      material: currentMaterial,
+      feedback,
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to regenerate material');
+    onReplaceMaterial?.(data.material);
+    setRegenerating(false);
+  };
+
   const handleNextMaterial = () => {
     if (currentMaterialIndex < totalMaterials - 1) {
       const newIndex = currentMaterialIndex + 1;
@@ -188,6 +211,15 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
                 )}
                 {currentMaterial.type}
               </div>
+              {onReplaceMaterial && (
+                <button className="regenerate-btn" onClick={() => setRegenerating(true)} title="Replace this material with a new one">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <polyline points="23 4 23 10 17 10"/>
+                    <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+                  </svg>
+                  Regenerate
+                </button>
+              )}
               <h3><LatexText>{currentMaterial.title}</LatexText></h3>
               {currentMaterial.description && (
                 <p className="material-description"><LatexText>{currentMaterial.description}</LatexText></p>
@@ -250,6 +282,7 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
                     Open Resource
                   </a>
                 )}
+                <Citations citations={currentMaterial.citations} onOpen={setOpenCitation} />
               </div>
             </div>
             
@@ -335,6 +368,14 @@ const MaterialPage: React.FC<MaterialPageProps> = ({
           </div>
         )}
       </div>
+
+      {openCitation && (
+        <SourcesPanel courseId={courseId} focus={openCitation} onClose={() => setOpenCitation(null)} />
+      )}
+
+      {regenerating && (
+        <RegenerateDialog noun="material" onRegenerate={handleRegenerateMaterial} onClose={() => setRegenerating(false)} />
+      )}
     </div>
   );
 };
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { usePlugins } from '../plugins';
-import { pluginManager, PluginManifest } from '../plugins/PluginManager';
+import { pluginManager, PermissionRequest } from '../plugins/PluginManager';
+import { PluginSandbox } from '../plugins/sandbox';
+import { PLUGIN_PERMISSIONS } from '../plugins/permissions';
 import { apiPost } from '../lib/fetch';
 
 interface PluginManagerPageProps {
@@ -12,7 +14,7 @@ const AVAILABLE_PLUGINS = [
   {
     id: 'dark-mode-enhanced',
     name: 'Custom Color Themes',
-    version: '2.1.0',
+    version: '2.2.0',
     description: 'Apply beautiful dark color themes with comprehensive styling for all UI elements.',
     author: 'gvidtech Team',
     file: '/plugins/dark-mode-enhanced.plugin.js',
@@ -22,10 +24,11 @@ const AVAILABLE_PLUGINS = [
 
 const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
   const { plugins, enablePlugin, disablePlugin, uninstallPlugin } = usePlugins();
+  const [consentRequest, setConsentRequest] = useState<(PermissionRequest & { resolve: (granted: boolean) => void }) | null>(null);
   const [installError, setInstallError] = useState<string | null>(null);
   const [installSuccess, setInstallSuccess] = useState<string | null>(null);
   const [selectedPlugin, setSelectedPlugin] = useState<string | null>(null);
-  const [pluginSettings, setPluginSettings] = useState<Record<string, any>>({});
+  const [pluginSettings, setPluginSettings] = useState<Record<string, unknown>>({});
   const [isDragging, setIsDragging] = useState(false);
   const [isInstalling, setIsInstalling] = useState<string | null>(null);
   const [editingPlugin, setEditingPlugin] = useState<string | null>(null);
@@ -44,7 +47,7 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
     if (selectedPlugin) {
       const plugin = plugins.find(p => p?.manifest?.id === selectedPlugin);
       if (plugin) {
-        const settings: Record<string, any> = {};
+        const settings: Record<string, unknown> = {};
         plugin.manifest.settings?.forEach(setting => {
           settings[setting.key] = pluginManager.getPluginSettings(plugin.manifest.id)?.[setting.key] ?? setting.default;
         });
@@ -53,72 +56,20 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
     }
   }, [selectedPlugin, plugins]);
 
-  const installPluginFromCode = async (code: string, skipExistCheck: boolean = false) => {
-    try {
-      // Parse the plugin code - expecting a JS expression that returns an object
-      // Strip leading comments to avoid ASI issues with 'return' + newline + comment
-      const strippedCode = code.replace(/^[\s]*\/\*[\s\S]*?\*\/[\s]*/, '').replace(/^[\s]*\/\/.*\n/gm, '').trim();
-      
-      const pluginModule = new Function('return ' + strippedCode)();
-      
-      if (!pluginModule || !pluginModule.id || !pluginModule.name || !pluginModule.version) {
-        throw new Error('Plugin must have id, name, and version');
-      }
-
-      // Check if already installed (skip for edit operations)
-      if (!skipExistCheck && plugins.find(p => p?.manifest?.id === pluginModule.id)) {
-        throw new Error(`Plugin "${pluginModule.name}" is already installed`);
-      }
+  // Ask the user to approve a plugin's permissions; resolves once they answer the dialog
+  const requestConsent = (request: PermissionRequest) =>
+    new Promise<boolean>(resolve => setConsentRequest({ ...request, resolve }));
 
-      // Create a plugin instance with hooks as methods
-      const pluginInstance: any = {};
-      if (pluginModule.hooks) {
-        for (const [hookName, handler] of Object.entries(pluginModule.hooks)) {
-          if (typeof handler === 'function') {
-            // Wrap the handler to pass settings
-            const wrappedHandler = (...args: any[]) => {
-              const currentSettings = pluginManager.getPluginSettings(pluginModule.id);
-              return (handler as Function)(...args, currentSettings);
-            };
-            pluginInstance[hookName] = wrappedHandler;
-          }
-        }
-      }
-      
-      // Add lifecycle methods
-      if (pluginModule.activate) {
-        pluginInstance.onEnable = () => {
-          const currentSettings = pluginManager.getPluginSettings(pluginModule.id);
-          pluginModule.activate(currentSettings);
-        };
-      }
-      if (pluginModule.deactivate) {
-        pluginInstance.onDisable = pluginModule.deactivate;
-      }
-
-      const manifest: PluginManifest = {
-        id: pluginModule.id,
-        name: pluginModule.name,
-        version: pluginModule.version,
-        description: pluginModule.description || '',
-        author: pluginModule.author || 'Unknown',
-        hooks: pluginModule.hooks ? {
-          filters: Object.keys(pluginModule.hooks).reduce((acc, key) => {
-            acc[key] = { handler: key, priority: 10 };
-            return acc;
-          }, {} as Record<string, { handler: string; priority: number }>)
-        } : undefined,
-        settings: pluginModule.settings || [],
-      };
-
-      // Pass the raw code for persistence
-      await pluginManager.installPlugin(manifest, pluginInstance, code);
-      return manifest;
-    } catch (error) {
-      throw error;
-    }
+  const answerConsent = (granted: boolean) => {
+    consentRequest?.resolve(granted);
+    setConsentRequest(null);
   };
 
+  // Plugins installed before permissions existed ask for what they were never granted
+  useEffect(() => {
+    pluginManager.requestPendingPermissions(requestConsent);
+  }, []);
+
   const handleFileUpload = async (file: File) => {
     setInstallError(null);
     setInstallSuccess(null);
@@ -130,7 +81,8 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
       }
 
       const code = await file.text();
-      const manifest = await installPluginFromCode(code);
+      const manifest = await pluginManager.installFromCode(code, requestConsent);
+      if (!manifest) return;
       setInstallSuccess(`Successfully installed "${manifest.name}" v${manifest.version}`);
       // Reload page after a short delay to show success message
       setTimeout(() => {
@@ -153,7 +105,8 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
       if (!response.ok) throw new Error('Failed to download plugin');
       
       const code = await response.text();
-      const manifest = await installPluginFromCode(code);
+      const manifest = await pluginManager.installFromCode(code, requestConsent);
+      if (!manifest) return;
       setInstallSuccess(`Successfully installed "${manifest.name}" v${manifest.version}`);
       // Reload page after a short delay to show success message
       setTimeout(() => {
@@ -197,7 +150,7 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
     }
   };
 
-  const handleUpdateSetting = (pluginId: string, key: string, value: any) => {
+  const handleUpdateSetting = (pluginId: string, key: string, value: unknown) => {
     pluginManager.setPluginSetting(pluginId, key, value);
     setPluginSettings(prev => ({ ...prev, [key]: value }));
     setSettingsChanged(true);
@@ -215,15 +168,10 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
     }
   };
 
-  // Validate plugin code without installing
-  const validatePluginCode = (code: string): { valid: boolean; error?: string } => {
+  // Validate plugin code without installing by loading it into a throwaway sandbox
+  const validatePluginCode = async (code: string): Promise<{ valid: boolean; error?: string }> => {
     try {
-      const strippedCode = code.replace(/^[\s]*\/\*[\s\S]*?\*\/[\s]*/, '').replace(/^[\s]*\/\/.*\n/gm, '').trim();
-      const pluginModule = new Function('return ' + strippedCode)();
-      
-      if (!pluginModule || !pluginModule.id || !pluginModule.name || !pluginModule.version) {
-        return { valid: false, error: 'Plugin must have id, name, and version' };
-      }
+      await PluginSandbox.inspect(code);
       return { valid: true };
     } catch (error) {
       return { valid: false, error: error instanceof Error ? error.message : 'Invalid JavaScript syntax' };
@@ -239,27 +187,16 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
     
     try {
       // Validate the code first
-      const validation = validatePluginCode(editorCode);
+      const validation = await validatePluginCode(editorCode);
       if (!validation.valid) {
         setEditorError(validation.error || 'Invalid plugin code');
         setIsSaving(false);
         return;
       }
 
-      // Get the old plugin data
-      const oldPlugin = validPlugins.find(p => p.manifest.id === editingPlugin);
-      const wasEnabled = oldPlugin?.enabled || false;
-
-      // Uninstall the old version
-      await uninstallPlugin(editingPlugin);
-
-      // Install the new version (skip exist check since we just uninstalled)
-      const manifest = await installPluginFromCode(editorCode, true);
-
-      // Re-enable if it was enabled before
-      if (wasEnabled) {
-        await enablePlugin(manifest.id);
-      }
+      // Replace the old version, asking again if the new one needs more permissions
+      const manifest = await pluginManager.updateFromCode(editingPlugin, editorCode, requestConsent);
+      if (!manifest) return;
 
       setInstallSuccess(`Plugin "${manifest.name}" updated successfully`);
       setEditingPlugin(null);
@@ -651,7 +588,7 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
                             <label className="toggle">
                               <input
                                 type="checkbox"
-                                checked={pluginSettings[setting.key] ?? setting.default}
+                                checked={Boolean(pluginSettings[setting.key] ?? setting.default)}
                                 onChange={(e) => handleUpdateSetting(
                                   selectedPluginData.manifest.id,
                                   setting.key,
@@ -662,7 +599,7 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
                             </label>
                           ) : setting.type === 'select' && setting.options ? (
                             <select
-                              value={pluginSettings[setting.key] ?? setting.default}
+                              value={String(pluginSettings[setting.key] ?? setting.default ?? '')}
                               onChange={(e) => handleUpdateSetting(
                                 selectedPluginData.manifest.id,
                                 setting.key,
@@ -671,13 +608,13 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
                               className="setting-select"
                             >
                               {setting.options.map(opt => (
-                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                <option key={String(opt.value)} value={String(opt.value)}>{opt.label}</option>
                               ))}
                             </select>
                           ) : setting.type === 'number' ? (
                             <input
                               type="number"
-                              value={pluginSettings[setting.key] ?? setting.default}
+                              value={String(pluginSettings[setting.key] ?? setting.default ?? '')}
                               onChange={(e) => handleUpdateSetting(
                                 selectedPluginData.manifest.id,
                                 setting.key,
@@ -688,7 +625,7 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
                           ) : (
                             <input
                               type="text"
-                              value={pluginSettings[setting.key] ?? setting.default}
+                              value={String(pluginSettings[setting.key] ?? setting.default ?? '')}
                               onChange={(e) => handleUpdateSetting(
                                 selectedPluginData.manifest.id,
                                 setting.key,
@@ -704,6 +641,21 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
                 ) : (
                   <p className="no-settings">This plugin has no configurable settings.</p>
                 )}
+                <div className="granted-permissions">
+                  <h3>Permissions</h3>
+                  {selectedPluginData.grantedPermissions.length > 0 ? (
+                    <ul className="permission-list">
+                      {selectedPluginData.grantedPermissions.map(permission => (
+                        <li key={permission}>
+                          <span className="permission-label">{PLUGIN_PERMISSIONS[permission].label}</span>
+                          <span className="permission-desc">{PLUGIN_PERMISSIONS[permission].description}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="no-settings">This plugin has no permissions.</p>
+                  )}
+                </div>
               </div>
               <div className="settings-modal-footer">
                 <button 
@@ -872,6 +824,64 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
         </div>
       )}
 
+      {/* Permission Consent Dialog */}
+      {consentRequest && (
+        <div className="settings-modal-overlay consent-overlay">
+          <div className="settings-modal" role="dialog" aria-modal="true">
+            <div className="settings-modal-header">
+              <div className="settings-title">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
+                </svg>
+                <h2>
+                  {consentRequest.legacy
+                    ? `Allow ${consentRequest.manifest.name} more access?`
+                    : consentRequest.previousVersion
+                      ? `Update ${consentRequest.manifest.name} to v${consentRequest.manifest.version}?`
+                      : `Install ${consentRequest.manifest.name}?`}
+                </h2>
+              </div>
+            </div>
+            <div className="settings-modal-body">
+              {consentRequest.requested.length === 0 ? (
+                <p className="consent-intro">This plugin doesn't ask for any permissions, so it can't read or change anything in the app.</p>
+              ) : (
+                <>
+                  <p className="consent-intro">
+                    {consentRequest.legacy
+                      ? `${consentRequest.manifest.name} was installed before plugins asked for permissions. It is running without the highlighted ones until you allow them:`
+                      : consentRequest.previousVersion
+                        ? `v${consentRequest.manifest.version} asks for more than v${consentRequest.previousVersion} was allowed to do:`
+                        : `${consentRequest.manifest.author ? `${consentRequest.manifest.name} by ${consentRequest.manifest.author}` : consentRequest.manifest.name} will be able to:`}
+                  </p>
+                  <ul className="permission-list">
+                    {consentRequest.requested.map(permission => (
+                      <li key={permission} className={consentRequest.added.includes(permission) ? 'added' : ''}>
+                        <span className="permission-label">
+                          {PLUGIN_PERMISSIONS[permission].label}
+                          {consentRequest.previousVersion && consentRequest.added.includes(permission) && (
+                            <span className="permission-new">New</span>
+                          )}
+                        </span>
+                        <span className="permission-desc">{PLUGIN_PERMISSIONS[permission].description}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+            <div className="settings-modal-footer consent-footer">
+              <button className="action-btn secondary" onClick={() => answerConsent(false)}>
+                {consentRequest.legacy ? "Don't Allow" : 'Cancel'}
+              </button>
+              <button className="settings-done-btn" onClick={() => answerConsent(true)}>
+                {consentRequest.legacy ? 'Allow' : consentRequest.previousVersion ? 'Allow & Update' : 'Allow & Install'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <style>{`
         .plugin-manager-page {
           padding: 24px 32px;
@@ -1521,6 +1531,79 @@ const PluginManagerPage: React.FC<PluginManagerPageProps> = ({ onBack }) => {
           background: var(--primary-hover);
         }
 
+        /* Permission Consent */
+        .consent-overlay {
+          z-index: 10001;
+        }
+
+        .consent-intro {
+          margin: 0 0 16px;
+          font-size: 14px;
+          color: var(--text-secondary);
+        }
+
+        .permission-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .permission-list li {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          padding: 10px 14px;
+          border: 1px solid var(--border);
+          border-radius: 8px;
+          background: var(--surface-secondary);
+        }
+
+        .permission-list li.added {
+          border-color: var(--primary);
+        }
+
+        .permission-label {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          font-size: 14px;
+          font-weight: 600;
+          color: var(--text-primary);
+        }
+
+        .permission-new {
+          padding: 1px 8px;
+          font-size: 11px;
+          border-radius: 10px;
+          background: var(--primary);
+          color: white;
+        }
+
+        .permission-desc {
+          font-size: 13px;
+          color: var(--text-secondary);
+        }
+
+        .consent-footer {
+          gap: 8px;
+        }
+
+        .granted-permissions {
+          margin-top: 20px;
+          padding-top: 16px;
+          border-top: 1px solid var(--border);
+        }
+
+        .granted-permissions h3 {
+          margin: 0 0 12px;
+          font-size: 14px;
+          font-weight: 600;
+          color: var(--text-primary);
+        }
+
         /* Settings Section */
         .settings-section .section-header {
           display: flex;
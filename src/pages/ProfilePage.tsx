@@ -1,36 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { apiFetch, apiPut } from '../lib/fetch';
-
-interface UserProfile {
-  id: string;
-  email: string;
-  displayName: string;
-  subscriptionTier: 'free' | 'pro';
-  generationsToday: number;
-  generationLimit: number;
-  totalGenerations: number;
-  joinedAt: string;
-  stats: {
-    courses: number;
-    flashcardDecks: number;
-    quizzes: number;
-    matchingGames: number;
-    wordScrambleGames: number;
-    fillBlankGames: number;
-  };
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { apiDownload, apiFetch, apiFormData, apiPut } from '../lib/fetch';
+import { pluginManager } from '../plugins/PluginManager';
+import type { LibraryImportMode, LibraryImportResult, UserProfile } from '../types/api';
 
 interface ProfilePageProps {
   onBack: () => void;
   userEmail?: string;
+  // Reloads the library after a backup is restored
+  onLibraryRestored?: () => void;
 }
 
-const ProfilePage: React.FC<ProfilePageProps> = ({ onBack, userEmail }) => {
+const ProfilePage: React.FC<ProfilePageProps> = ({ onBack, onLibraryRestored }) => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [displayName, setDisplayName] = useState('');
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [backupBusy, setBackupBusy] = useState<'export' | 'import' | null>(null);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<LibraryImportMode>('merge');
+  const backupInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadProfile();
@@ -63,6 +52,51 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ onBack, userEmail }) => {
     }
   };
 
+  const handleExport = async () => {
+    setBackupBusy('export');
+    setBackupMessage(null);
+    try {
+      await apiDownload('/export', `gvidtech-library-${new Date().toISOString().slice(0, 10)}.json`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plugins: JSON.parse(pluginManager.exportState()) }),
+      });
+    } catch (err) {
+      setBackupMessage(err instanceof Error ? err.message : 'Failed to export library');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (importMode === 'replace' && !confirm('Delete everything in your library and replace it with this backup?')) return;
+    setBackupBusy('import');
+    setBackupMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mode', importMode);
+      const res = await apiFormData('/import', formData);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to restore backup');
+
+      const result = data as LibraryImportResult;
+      // Settings only apply to plugins installed in this browser
+      if (result.plugins) await pluginManager.importState(JSON.stringify(result.plugins));
+      const count = Object.values(result.imported).reduce((a, b) => a + b, 0);
+      setBackupMessage(`Restored ${count} item${count === 1 ? '' : 's'}`);
+      onLibraryRestored?.();
+      loadProfile();
+    } catch (err) {
+      setBackupMessage(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'long',
@@ -219,12 +253,44 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ onBack, userEmail }) => {
               <span className="stat-value">{profile.stats.fillBlankGames}</span>
               <span className="stat-label">Fill Blank</span>
             </div>
+            <div className="stat-item">
+              <span className="stat-icon">✏️</span>
+              <span className="stat-value">{profile.stats.crosswordGames}</span>
+              <span className="stat-label">Crossword</span>
+            </div>
           </div>
           <div className="stat-total">
             <strong>{totalContent}</strong> total items created
           </div>
         </div>
 
+        {/* Backup Card */}
+        <div className="profile-card">
+          <h3 className="card-title">Your Data</h3>
+          <p className="backup-text">
+            Download your whole library — content, progress and plugin settings — as one file, or restore one.
+          </p>
+          <div className="backup-actions">
+            <button className="btn btn-secondary" onClick={handleExport} disabled={backupBusy !== null}>
+              {backupBusy === 'export' ? 'Preparing...' : 'Download backup'}
+            </button>
+            <input ref={backupInputRef} type="file" accept=".json" onChange={handleImport} style={{ display: 'none' }} />
+            <select
+              className="backup-mode"
+              value={importMode}
+              onChange={e => setImportMode(e.target.value as LibraryImportMode)}
+              disabled={backupBusy !== null}
+            >
+              <option value="merge">Add to my library</option>
+              <option value="replace">Replace my library</option>
+            </select>
+            <button className="btn btn-secondary" onClick={() => backupInputRef.current?.click()} disabled={backupBusy !== null}>
+              {backupBusy === 'import' ? 'Restoring...' : 'Restore backup'}
+            </button>
+          </div>
+          {backupMessage && <p className="backup-text">{backupMessage}</p>}
+        </div>
+
         {/* Subscription Card */}
         <div className="profile-card subscription-card">
           <h3 className="card-title">Subscription</h3>
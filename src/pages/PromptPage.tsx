@@ -1,24 +1,38 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Course, FlashcardDeck, StandaloneQuiz, MatchingGame, WordScrambleGame, FillBlankGame, GenerationMode, QuizMode } from '../types/roadmap';
-import { apiFormData, apiPost } from '../lib/fetch';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Course, CourseStep, FlashcardDeck, StandaloneQuiz, MatchingGame, WordScrambleGame, FillBlankGame, CrosswordGame, GenerationMode, QuizMode } from '../types/roadmap';
+import type { CourseJobResult, CourseStreamEvents, FlashcardsJobResult, GenerationJob } from '../types/api';
+import { apiDelete, apiFetch, apiFormData, apiPost, readEventStream } from '../lib/fetch';
+import { LoadingProgress, LoadingStage } from '../components/LoadingOverlay';
+import JobsTray from '../components/JobsTray';
+
+const JOB_POLL_MS = 3000;
+// Documents the server extracts text from, plus images the model reads directly
+const UPLOAD_EXTENSIONS = [
+  'pdf', 'txt', 'doc', 'docx', 'md', 'rtf', 'pptx', 'epub', 'html', 'htm', 'xlsx', 'csv', 'tsv',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif',
+];
 
 interface PromptPageProps {
-  onCourseGenerated: (course: Course) => void;
+  onCourseGenerated: (course: Course) => void | Promise<void>;
+  onPatchCourse: (courseId: string, patch: (course: Course) => Course) => Promise<void>;
   onFlashcardsGenerated: (deck: FlashcardDeck) => void;
   onQuizGenerated: (quiz: StandaloneQuiz) => void;
   onMatchingGameGenerated: (game: MatchingGame) => void;
   onWordScrambleGenerated: (game: WordScrambleGame) => void;
   onFillBlankGenerated: (game: FillBlankGame) => void;
-  onLoadingChange: (loading: boolean, message?: string) => void;
+  onCrosswordGenerated: (game: CrosswordGame) => void;
+  onLoadingChange: (loading: boolean, message?: string, progress?: LoadingProgress) => void;
 }
 
 const PromptPage: React.FC<PromptPageProps> = ({ 
   onCourseGenerated, 
+  onPatchCourse,
   onFlashcardsGenerated,
   onQuizGenerated,
   onMatchingGameGenerated,
   onWordScrambleGenerated,
   onFillBlankGenerated,
+  onCrosswordGenerated,
   onLoadingChange 
 }) => {
   const [prompt, setPrompt] = useState('');
@@ -31,6 +45,8 @@ const PromptPage: React.FC<PromptPageProps> = ({
   const [dragPosition, setDragPosition] = useState({ x: 0, y: 0 });
   const [typingPlaceholder, setTypingPlaceholder] = useState('');
   const [isTyping, setIsTyping] = useState(true);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const quizClickTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -83,6 +99,13 @@ const PromptPage: React.FC<PromptPageProps> = ({
       "Programming concepts fill blanks...",
       "Chemistry fill-in-the-blank...",
     ],
+    crossword: [
+      "Crossword on the solar system...",
+      "Anatomy terms crossword...",
+      "Computer science vocabulary crossword...",
+      "World geography crossword...",
+      "Crossword about the French Revolution...",
+    ],
   };
 
   // Typing animation effect
@@ -126,6 +149,111 @@ const PromptPage: React.FC<PromptPageProps> = ({
     setIsTyping(true);
   }, [generationMode]);
 
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await apiFetch('/jobs');
+      if (response.ok) setJobs(await response.json());
+    } catch (err) {
+      console.error('Failed to load generation jobs:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Poll while anything is still generating
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(loadJobs, JOB_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, loadJobs]);
+
+  const showError = (message: string) => {
+    setError(message);
+    setTimeout(() => setError(null), 3000);
+  };
+
+  // Uploads can take longer than one request may run, so courses and decks from files generate in the background
+  const startJob = async (kind: GenerationJob['kind']) => {
+    const formData = new FormData();
+    formData.append('kind', kind);
+    formData.append('prompt', prompt);
+    files.forEach((file) => formData.append('files', file));
+
+    const response = await apiFormData('/jobs', formData);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.message || data.error || 'Failed to start generation');
+
+    setJobs(prev => [data as GenerationJob, ...prev]);
+    setPrompt('');
+    setFiles([]);
+  };
+
+  const openJob = async (job: GenerationJob) => {
+    if (!job.result) return;
+    setBusyJobId(job.id);
+    try {
+      if (job.kind === 'course') {
+        const result = job.result as CourseJobResult;
+        await onCourseGenerated({
+          ...result.roadmap,
+          id: result.courseId || Date.now().toString(),
+          createdAt: new Date().toISOString(),
+          progress: 0,
+          originalPrompt: job.prompt,
+          originalMaterials: result.originalMaterials,
+          coverImage: result.coverImage.imageUrl || 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+        });
+      } else {
+        const result = job.result as FlashcardsJobResult;
+        onFlashcardsGenerated({
+          ...result.deck,
+          id: Date.now().toString(),
+          createdAt: new Date().toISOString(),
+          sourceType: 'standalone',
+          coverImage: result.coverImage.imageUrl || 'linear-gradient(135deg, #f093fb 0%, #f5576c 100%)',
+        });
+      }
+      // Saved to the library now, so the tray no longer needs it
+      await apiDelete(`/jobs/${job.id}`);
+      setJobs(prev => prev.filter(j => j.id !== job.id));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to open the result');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const retryJob = async (job: GenerationJob) => {
+    setBusyJobId(job.id);
+    try {
+      const response = await apiPost(`/jobs/${job.id}/retry`, {});
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.message || data.error || 'Failed to retry');
+      setJobs(prev => prev.map(j => (j.id === job.id ? data : j)));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to retry');
+      loadJobs();
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const dismissJob = async (job: GenerationJob) => {
+    setBusyJobId(job.id);
+    try {
+      const response = await apiDelete(`/jobs/${job.id}`);
+      if (!response.ok && response.status !== 404) throw new Error('Failed to dismiss');
+      setJobs(prev => prev.filter(j => j.id !== job.id));
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to dismiss');
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -172,17 +300,30 @@ const PromptPage: React.FC<PromptPageProps> = ({
       return;
     }
 
+    if (files.length > 0 && (generationMode === 'course' || generationMode === 'flashcards')) {
+      setError(null);
+      try {
+        await startJob(generationMode);
+      } catch (err) {
+        showError(err instanceof Error ? err.message : 'An error occurred');
+      }
+      return;
+    }
+
     const loadingMessages: Record<GenerationMode, string> = {
       course: 'Generating your course...',
       quiz: quizMode === 'rapid' ? 'Creating rapid quiz...' : 'Creating quiz questions...',
       flashcards: 'Generating flashcards...',
       matching: 'Creating matching game...',
       'word-scramble': 'Creating word scramble...',
-      'fill-blank': 'Creating fill-in-the-blank game...'
+      'fill-blank': 'Creating fill-in-the-blank game...',
+      crossword: 'Building your crossword...'
     };
 
     onLoadingChange(true, loadingMessages[generationMode]);
     setError(null);
+    // Cleared when the user opens a streamed course early and the overlay is handed back
+    let ownsOverlay = true;
 
     try {
       const formData = new FormData();
@@ -190,34 +331,101 @@ const PromptPage: React.FC<PromptPageProps> = ({
       files.forEach((file) => formData.append('files', file));
 
       if (generationMode === 'course') {
-        const response = await apiFormData('/generate-roadmap', formData);
-
+        // Streamed: the outline arrives first and can be opened while step 1 and the cover are still generating
+        const response = await apiFormData('/generate-roadmap/stream', formData);
         if (!response.ok) throw new Error('Failed to generate course');
-        const data = await response.json();
-        
-        // Generate a cover image
-        let coverImage = 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)';
-        try {
-          const imageResponse = await apiPost('/generate-image', { prompt: data.roadmap.title });
-          const imageData = await imageResponse.json();
-          if (imageData.imageUrl) {
-            coverImage = imageData.imageUrl;
+
+        const stages: LoadingStage[] = [
+          { id: 'outline', label: 'Designing the course outline', status: 'active' },
+          { id: 'step', label: 'Writing the first step', status: 'pending' },
+          { id: 'cover', label: 'Finding a cover image', status: 'pending' },
+        ];
+        const setStage = (id: string, status: LoadingStage['status']) => {
+          const stage = stages.find(s => s.id === id);
+          if (stage) stage.status = status;
+        };
+
+        // `opened` resolves once the course is saved, so later patches are applied after it
+        const stream: { course: Course | null; opened: Promise<void> | null; stepDelivered: boolean } = {
+          course: null,
+          opened: null,
+          stepDelivered: false,
+        };
+
+        // Before the course is opened, results are merged locally; after, they're saved onto it in order
+        const applyToCourse = (patch: (course: Course) => Course) => {
+          if (!stream.course) return;
+          if (stream.opened) {
+            const courseId = stream.course.id;
+            stream.opened = stream.opened.then(() => onPatchCourse(courseId, patch));
+          } else {
+            stream.course = patch(stream.course);
           }
-        } catch (imgError) {
-          console.error('Failed to generate image:', imgError);
-        }
+        };
 
-        const course: Course = {
-          ...data.roadmap,
-          id: Date.now().toString(),
-          createdAt: new Date().toISOString(),
-          progress: 0,
-          originalPrompt: prompt,
-          originalMaterials: data.originalMaterials || '',
-          coverImage: coverImage,
+        const openCourse = () => {
+          if (!stream.course || stream.opened) return;
+          stream.opened = Promise.resolve(onCourseGenerated(stream.course));
+          ownsOverlay = false;
+          onLoadingChange(false);
+        };
+
+        const reportProgress = () => {
+          if (!ownsOverlay) return;
+          onLoadingChange(true, loadingMessages.course, {
+            stages: stages.map(stage => ({ ...stage })),
+            action: stream.course ? { label: 'Open course now', onClick: openCourse } : undefined,
+          });
         };
+        reportProgress();
 
-        onCourseGenerated(course);
+        try {
+          await readEventStream(response, (event, data) => {
+            if (event === 'outline-ready') {
+              const outline = data as CourseStreamEvents['outline-ready'];
+              stream.course = {
+                ...outline.roadmap,
+                // The server's id when it stored the uploads as this course's sources
+                id: outline.courseId || Date.now().toString(),
+                createdAt: new Date().toISOString(),
+                progress: 0,
+                originalPrompt: prompt,
+                originalMaterials: outline.originalMaterials || '',
+                coverImage: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                // Keeps CourseView from generating step 1 itself while it streams in
+                steps: outline.roadmap.steps.map((step: CourseStep, index: number) =>
+                  index === 0 ? { ...step, detailsLoading: true } : step
+                ),
+              };
+              setStage('outline', 'done');
+              setStage('step', 'active');
+              setStage('cover', 'active');
+            } else if (event === 'step-ready') {
+              const { step } = data as CourseStreamEvents['step-ready'];
+              stream.stepDelivered = true;
+              applyToCourse(c => ({
+                ...c,
+                steps: c.steps.map(s => s.id === step.id && !s.detailsLoaded
+                  ? { ...s, tasks: step.tasks, materials: step.materials, detailsLoaded: true, detailsLoading: false }
+                  : s),
+              }));
+              setStage('step', 'done');
+            } else if (event === 'cover-image-ready') {
+              const { imageUrl } = data as CourseStreamEvents['cover-image-ready'];
+              if (imageUrl) applyToCourse(c => ({ ...c, coverImage: imageUrl }));
+              setStage('cover', 'done');
+            } else if (event === 'error') {
+              throw new Error((data as CourseStreamEvents['error']).error || 'Failed to generate course');
+            }
+            reportProgress();
+          });
+        } finally {
+          // Step 1 never arrived: let CourseView load it on demand like any other step
+          if (!stream.stepDelivered) {
+            applyToCourse(c => ({ ...c, steps: c.steps.map(s => (s.detailsLoading ? { ...s, detailsLoading: false } : s)) }));
+          }
+          if (stream.course && !stream.opened) await onCourseGenerated(stream.course);
+        }
       } else if (generationMode === 'flashcards') {
         const response = await apiFormData('/generate-flashcards', formData);
 
@@ -356,6 +564,34 @@ const PromptPage: React.FC<PromptPageProps> = ({
         };
 
         onFillBlankGenerated(fillBlankGame);
+      } else if (generationMode === 'crossword') {
+        const response = await apiFormData('/generate-crossword', formData);
+
+        if (!response.ok) throw new Error('Failed to generate crossword');
+        const data = await response.json();
+        
+        let coverImage = 'linear-gradient(135deg, #f59e0b 0%, #ec4899 100%)';
+        try {
+          const imageResponse = await apiPost('/generate-image', { prompt: data.title });
+          const imageData = await imageResponse.json();
+          if (imageData.imageUrl) {
+            coverImage = imageData.imageUrl;
+          }
+        } catch (imgError) {
+          console.error('Failed to generate image:', imgError);
+        }
+
+        const crosswordGame: CrosswordGame = {
+          id: Date.now().toString(),
+          title: data.title,
+          description: data.description,
+          clues: data.clues,
+          gridSize: data.gridSize,
+          createdAt: new Date().toISOString(),
+          coverImage: coverImage,
+        };
+
+        onCrosswordGenerated(crosswordGame);
       }
 
       setPrompt('');
@@ -364,7 +600,7 @@ const PromptPage: React.FC<PromptPageProps> = ({
       setError(err instanceof Error ? err.message : 'An error occurred');
       setTimeout(() => setError(null), 3000);
     } finally {
-      onLoadingChange(false);
+      if (ownsOverlay) onLoadingChange(false);
     }
   };
 
@@ -419,7 +655,7 @@ const PromptPage: React.FC<PromptPageProps> = ({
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const droppedFiles = Array.from(e.dataTransfer.files).filter(file => {
         const ext = file.name.split('.').pop()?.toLowerCase();
-        return ['pdf', 'txt', 'doc', 'docx', 'md', 'rtf', 'jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif'].includes(ext || '');
+        return UPLOAD_EXTENSIONS.includes(ext || '');
       });
       if (droppedFiles.length > 0) {
         setFiles(prev => [...prev, ...droppedFiles]);
@@ -488,6 +724,8 @@ const PromptPage: React.FC<PromptPageProps> = ({
         return 'Unscramble key terms and vocabulary for gamified learning';
       case 'fill-blank':
         return 'Complete sentences by filling in the missing words';
+      case 'crossword':
+        return 'Solve a crossword built from the key terms of your topic';
     }
   };
 
@@ -587,6 +825,19 @@ const PromptPage: React.FC<PromptPageProps> = ({
           </svg>
           Fill Blank
         </button>
+        <button 
+          className={`mode-btn ${generationMode === 'crossword' ? 'active' : ''}`}
+          onClick={() => handleModeClick('crossword')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="18" height="18" rx="1"/>
+            <path d="M3 9h18"/>
+            <path d="M3 15h18"/>
+            <path d="M9 3v18"/>
+            <path d="M15 3v18"/>
+          </svg>
+          Crossword
+        </button>
         <button 
           className={`mode-btn ${generationMode === 'course' ? 'active' : ''}`}
           onClick={() => handleModeClick('course')}
@@ -650,7 +901,7 @@ const PromptPage: React.FC<PromptPageProps> = ({
               type="file"
               className="file-input-hidden"
               multiple
-              accept=".pdf,.txt,.doc,.docx,.md,.rtf,.jpg,.jpeg,.png,.gif,.webp,.heic,.heif"
+              accept={UPLOAD_EXTENSIONS.map(ext => `.${ext}`).join(',')}
               onChange={handleFileSelect}
             />
             <button 
@@ -678,8 +929,16 @@ const PromptPage: React.FC<PromptPageProps> = ({
         </div>
       </div>
       
+      <JobsTray
+        jobs={jobs}
+        busyJobId={busyJobId}
+        onOpen={openJob}
+        onRetry={retryJob}
+        onDismiss={dismissJob}
+      />
+
       <div className="prompt-tips">
-        <p>💡 <strong>Tips:</strong> Be specific about your learning goals • Upload PDFs, images, or documents for AI-powered content • Double-tap Quiz for Rapid mode ⚡</p>
+        <p>💡 <strong>Tips:</strong> Be specific about your learning goals • Upload PDFs, slides, books, images, or documents for AI-powered content • A two-column spreadsheet becomes flashcards as is • Double-tap Quiz for Rapid mode ⚡</p>
       </div>
       </div>
 
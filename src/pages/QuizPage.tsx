@@ -1,22 +1,34 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { CourseStep, QuizQuestion } from '../types/roadmap';
+import { CourseStep, QuizQuestion, SourceCitation } from '../types/roadmap';
 import LatexText from '../components/LatexText';
-import { doAction, applyFilters, applyFiltersSync } from '../plugins';
+import Citations from '../components/Citations';
+import SourcesPanel from '../components/SourcesPanel';
+import QuizExportMenu from '../components/QuizExportMenu';
+import RegenerateDialog from '../components/RegenerateDialog';
+import { doAction, applyFilters } from '../plugins';
 import { apiPost } from '../lib/fetch';
+import { markMissedQuestions } from '../lib/spacedRepetition';
+import { requiredScore } from '../lib/prerequisites';
 
 interface QuizPageProps {
   step: CourseStep;
+  courseId: string;
   courseTitle: string;
+  passThreshold: number; // The step's or course's threshold, before plugins
   onBack: () => void;
   onComplete: (score: number, total: number, questions: QuizQuestion[]) => void;
+  onReplaceQuestion?: (question: QuizQuestion) => void;
   onLoadingChange: (loading: boolean, message?: string) => void;
 }
 
 const QuizPage: React.FC<QuizPageProps> = ({ 
   step, 
+  courseId,
   courseTitle, 
+  passThreshold: baseThreshold,
   onBack, 
   onComplete,
+  onReplaceQuestion,
   onLoadingChange 
 }) => {
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
@@ -25,16 +37,19 @@ const QuizPage: React.FC<QuizPageProps> = ({
   const [showResults, setShowResults] = useState(false);
   const [score, setScore] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [quizGenerated, setQuizGenerated] = useState(false);
   const [showingFeedback, setShowingFeedback] = useState(false);
   const [lastAnswerCorrect, setLastAnswerCorrect] = useState<boolean | null>(null);
+  const [passThreshold, setPassThreshold] = useState(baseThreshold);
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  // Questions replaced since the results came up; the answer given was to the old one
+  const [regeneratedIds, setRegeneratedIds] = useState<Set<string>>(new Set());
   const feedbackTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     // Check if quiz already exists and has questions
     if (step.test?.questions && step.test.questions.length > 0) {
       setQuestions(step.test.questions);
-      setQuizGenerated(true);
     }
     // Only generate if no existing quiz and not already generated this session
     // Removed auto-generation - user must click button to generate
@@ -44,7 +59,6 @@ const QuizPage: React.FC<QuizPageProps> = ({
     // Don't regenerate if quiz already exists
     if (step.test?.questions && step.test.questions.length > 0) {
       setQuestions(step.test.questions);
-      setQuizGenerated(true);
       return;
     }
     
@@ -57,6 +71,7 @@ const QuizPage: React.FC<QuizPageProps> = ({
     try {
       const response = await apiPost('/generate-test', {
         step,
+        courseId,
         courseTitle,
       });
 
@@ -69,7 +84,6 @@ const QuizPage: React.FC<QuizPageProps> = ({
       generatedQuestions = await applyFilters('quiz:afterGenerate', generatedQuestions, { step, courseTitle });
       
       setQuestions(generatedQuestions);
-      setQuizGenerated(true);
       
       // Immediately save the generated questions to the course
       if (generatedQuestions.length > 0) {
@@ -124,13 +138,18 @@ const QuizPage: React.FC<QuizPageProps> = ({
         });
         setScore(correct);
         setShowResults(true);
-        onComplete(correct, questions.length, questions);
+        onComplete(correct, questions.length, markMissedQuestions(questions, newAnswers));
       } else if (questionIndex < questions.length - 1) {
         setCurrentQuestion(prev => prev + 1);
       }
     }, 800); // Show feedback for 800ms then advance
   };
 
+  // Plugin filters run in sandboxed workers, so resolve the pass threshold up front
+  useEffect(() => {
+    applyFilters('quiz:passThreshold', baseThreshold).then(setPassThreshold);
+  }, [baseThreshold]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -140,19 +159,6 @@ const QuizPage: React.FC<QuizPageProps> = ({
     };
   }, []);
 
-  const submitQuiz = () => {
-    let correct = 0;
-    questions.forEach((q, index) => {
-      if (selectedAnswers[index] === q.correctAnswer) {
-        correct++;
-      }
-    });
-    setScore(correct);
-    setShowResults(true);
-    // Save quiz results with questions for review
-    onComplete(correct, questions.length, questions);
-  };
-
   // Keyboard navigation - simplified for auto-advance mode
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -184,7 +190,27 @@ const QuizPage: React.FC<QuizPageProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [currentQuestion, showResults, questions, showingFeedback, selectedAnswers]);
 
+  const handleRegenerateQuestion = async (feedback: string) => {
+    if (regeneratingIndex === null) return;
+    const response = await apiPost('/regenerate-question', {
+      step,
+      courseId,
+      courseTitle,
+      question: questions[regeneratingIndex],
+      feedback,
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to regenerate question');
+
+    const replacement: QuizQuestion = data.question;
+    setQuestions(prev => prev.map(q => (q.id === replacement.id ? replacement : q)));
+    setRegeneratedIds(prev => new Set(prev).add(replacement.id));
+    onReplaceQuestion?.(replacement);
+    setRegeneratingIndex(null);
+  };
+
   const retryQuiz = () => {
+    setRegeneratedIds(new Set());
     setSelectedAnswers({});
     setCurrentQuestion(0);
     setShowResults(false);
@@ -222,10 +248,9 @@ const QuizPage: React.FC<QuizPageProps> = ({
 
   if (showResults) {
     const percentage = Math.round((score / questions.length) * 100);
-    // Use plugin filter for pass threshold
-    const passThreshold = applyFiltersSync('quiz:passThreshold', 0.7);
+    // Pass threshold comes from the plugin filter; scored the way the course unlocks steps
     const passPercentage = Math.round(passThreshold * 100);
-    const passed = percentage >= passPercentage;
+    const passed = score >= requiredScore(questions.length, passThreshold);
 
     return (
       <div className="quiz-page">
@@ -256,10 +281,16 @@ const QuizPage: React.FC<QuizPageProps> = ({
             <div className="results-grid">
               {questions.map((q, index) => {
                 const isCorrect = selectedAnswers[index] === q.correctAnswer;
+                const isRegenerated = regeneratedIds.has(q.id);
                 return (
-                  <div key={index} className={`result-item ${isCorrect ? 'correct' : 'incorrect'}`}>
+                  <div key={index} className={`result-item ${isRegenerated ? 'regenerated' : isCorrect ? 'correct' : 'incorrect'}`}>
                     <div className="result-indicator">
-                      {isCorrect ? (
+                      {isRegenerated ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="23 4 23 10 17 10"/>
+                          <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+                        </svg>
+                      ) : isCorrect ? (
                         <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
                           <polyline points="20 6 9 17 4 12"/>
                         </svg>
@@ -272,11 +303,24 @@ const QuizPage: React.FC<QuizPageProps> = ({
                     </div>
                     <div className="result-content">
                       <p className="result-question"><LatexText>{q.question}</LatexText></p>
-                      {!isCorrect && (
+                      {(!isCorrect || isRegenerated) && (
                         <p className="result-correct-answer">
                           Correct answer: <LatexText>{q.options[q.correctAnswer]}</LatexText>
                         </p>
                       )}
+                      {q.explanation && (
+                        <p className="result-explanation"><LatexText>{q.explanation}</LatexText></p>
+                      )}
+                      <Citations citations={q.citations} onOpen={setOpenCitation} />
+                      {onReplaceQuestion && (
+                        <button className="regenerate-btn" onClick={() => setRegeneratingIndex(index)} title="Replace this question with a new one">
+                          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <polyline points="23 4 23 10 17 10"/>
+                            <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+                          </svg>
+                          Regenerate
+                        </button>
+                      )}
                     </div>
                   </div>
                 );
@@ -300,6 +344,14 @@ const QuizPage: React.FC<QuizPageProps> = ({
             </button>
           </div>
         </div>
+
+        {openCitation && (
+          <SourcesPanel courseId={courseId} focus={openCitation} onClose={() => setOpenCitation(null)} />
+        )}
+
+        {regeneratingIndex !== null && (
+          <RegenerateDialog noun="question" onRegenerate={handleRegenerateQuestion} onClose={() => setRegeneratingIndex(null)} />
+        )}
       </div>
     );
   }
@@ -307,7 +359,6 @@ const QuizPage: React.FC<QuizPageProps> = ({
   const question = questions[currentQuestion];
   const answeredCount = Object.keys(selectedAnswers).length;
   const isCurrentAnswered = selectedAnswers[currentQuestion] !== undefined;
-  const currentAnswerCorrect = isCurrentAnswered && selectedAnswers[currentQuestion] === question.correctAnswer;
 
   return (
     <div className="quiz-page">
@@ -321,6 +372,7 @@ const QuizPage: React.FC<QuizPageProps> = ({
           <span className="course-breadcrumb">{courseTitle}</span>
           <h1>Quiz: {step.title}</h1>
         </div>
+        <QuizExportMenu exportPath={`/roadmaps/${courseId}/steps/${step.id}/test/export`} title={`${courseTitle} - ${step.title}`} />
       </div>
 
       <div className="quiz-progress">
@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FlashcardSchedule, ReviewItem, ReviewRating } from '../types/roadmap';
+import LatexText from '../components/LatexText';
+import { doAction } from '../plugins';
+import { apiFetch, apiPost } from '../lib/fetch';
+import { REVIEW_RATINGS, sm2, scheduleReview, formatInterval } from '../lib/spacedRepetition';
+
+interface ReviewPageProps {
+  onBack: () => void;
+  onItemReviewed: (item: ReviewItem, schedule: FlashcardSchedule) => void;
+}
+
+const RATING_LABELS: Record<ReviewRating, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+const SOURCE_LABELS: Record<ReviewItem['source']['type'], string> = {
+  deck: '🃏 Deck',
+  course: '📚 Course',
+  quiz: '❓ Quiz',
+  'step-test': '📝 Step test',
+};
+
+const ReviewPage: React.FC<ReviewPageProps> = ({ onBack, onItemReviewed }) => {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDueItems();
+  }, []);
+
+  const loadDueItems = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch('/review/due');
+      const data = await res.json();
+      setItems(Array.isArray(data) ? data : []);
+      setCurrentIndex(0);
+      setSaveError(null);
+    } catch (err) {
+      console.error('Failed to load review queue:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currentItem = items[currentIndex];
+  // Items rated "Again" appear more than once
+  const reviewedCount = new Set(items.map(item => item.key)).size;
+  const scheduledItem = currentItem?.flashcard || currentItem?.question;
+  const isRevealed = currentItem?.kind === 'flashcard' ? isFlipped : selectedOption !== null;
+  const answeredWrong = currentItem?.kind === 'question' && selectedOption !== null
+    && selectedOption !== currentItem.question?.correctAnswer;
+
+  // A missed question can only be rated "Again"; a correct answer skips it
+  const availableRatings: ReviewRating[] = currentItem?.kind === 'question'
+    ? (answeredWrong ? ['again'] : ['hard', 'good', 'easy'])
+    : REVIEW_RATINGS;
+
+  const handleRate = useCallback(async (rating: ReviewRating) => {
+    if (!currentItem || !scheduledItem || isSaving) return;
+    setIsSaving(true);
+
+    const schedule = await scheduleReview(scheduledItem, rating, {
+      now: new Date(),
+      deckId: currentItem.source.type === 'deck' ? currentItem.source.id : undefined,
+      sourceType: currentItem.source.type,
+    });
+
+    try {
+      const response = await apiPost('/review/result', { source: currentItem.source, itemId: scheduledItem.id, schedule });
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+    } catch (err) {
+      // The item stays up so the rating can be given again
+      console.error('Failed to save review:', err);
+      setSaveError('Could not save this review. Try again.');
+      setIsSaving(false);
+      return;
+    }
+    setSaveError(null);
+    onItemReviewed(currentItem, schedule);
+    doAction('review:itemReviewed', { item: currentItem, rating, schedule });
+
+    // "Again" puts the item off until tomorrow; it also comes back at the end of this session
+    if (rating === 'again') {
+      const relearn: ReviewItem = currentItem.kind === 'flashcard'
+        ? { ...currentItem, flashcard: { ...currentItem.flashcard!, schedule } }
+        : { ...currentItem, question: { ...currentItem.question!, schedule } };
+      setItems(prev => [...prev, relearn]);
+    }
+
+    setIsFlipped(false);
+    setSelectedOption(null);
+    setCurrentIndex(prev => prev + 1);
+    setIsSaving(false);
+  }, [currentItem, scheduledItem, isSaving, onItemReviewed]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!currentItem) return;
+      if (currentItem.kind === 'flashcard' && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setIsFlipped(prev => !prev);
+      } else if (isRevealed && ['1', '2', '3', '4'].includes(e.key)) {
+        const rating = availableRatings[Number(e.key) - 1];
+        if (rating) handleRate(rating);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentItem, isRevealed, availableRatings, handleRate]);
+
+  const header = (
+    <div className="flashcards-header">
+      <button className="back-btn" onClick={onBack}>
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <polyline points="15 18 9 12 15 6"/>
+        </svg>
+      </button>
+      <div className="flashcards-header-info">
+        <h1>Due Today</h1>
+        {items.length > 0 && currentItem && (
+          <span className="flashcards-count">{currentIndex + 1} / {items.length}</span>
+        )}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flashcards-page">
+        {header}
+        <div className="flashcards-empty">
+          <div className="loading-dots">
+            <div className="dot"></div>
+            <div className="dot"></div>
+            <div className="dot"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentItem) {
+    return (
+      <div className="flashcards-page">
+        {header}
+        <div className="flashcards-empty">
+          <p>
+            {items.length === 0
+              ? 'Nothing is due. Come back tomorrow! 🎉'
+              : `Session complete — you reviewed ${reviewedCount} item${reviewedCount === 1 ? '' : 's'}. 🎉`}
+          </p>
+          <button className="btn btn-primary" onClick={loadDueItems}>
+            Check Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flashcards-page">
+      {header}
+
+      <div className="flashcards-progress">
+        <div className="progress-bar">
+          <div className="progress-fill" style={{ width: `${Math.round((currentIndex / items.length) * 100)}%` }}/>
+        </div>
+        <span className="review-source" title={currentItem.source.title}>
+          {SOURCE_LABELS[currentItem.source.type]} · {currentItem.source.title}
+        </span>
+      </div>
+
+      {currentItem.kind === 'flashcard' && currentItem.flashcard ? (
+        <div className="flashcard-swipe-area">
+          <div className="flashcard-container" onClick={() => setIsFlipped(!isFlipped)}>
+            <div className="flashcard-wrapper">
+              <div className="flashcard-shadow-2"></div>
+              <div className="flashcard-shadow"></div>
+              <div className={`flashcard ${isFlipped ? 'flipped' : ''}`}>
+                <div className="flashcard-front">
+                  <div className="card-content">
+                    {currentItem.flashcard.category && (
+                      <span className="card-category">{currentItem.flashcard.category}</span>
+                    )}
+                    <p className="card-text"><LatexText>{currentItem.flashcard.front}</LatexText></p>
+                  </div>
+                  <span className="flip-hint">Click or press Space to flip</span>
+                </div>
+                <div className="flashcard-back">
+                  <div className="card-content">
+                    <p className="card-text"><LatexText>{currentItem.flashcard.back}</LatexText></p>
+                  </div>
+                  <span className="flip-hint">Rate how well you remembered it</span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : currentItem.question ? (
+        <div className="quiz-content">
+          <div className="question-card">
+            <span className="question-number">Missed question</span>
+            <h2 className="question-text"><LatexText>{currentItem.question.question}</LatexText></h2>
+            <div className="options-list">
+              {currentItem.question.options.map((option, index) => {
+                const isCorrectOption = index === currentItem.question!.correctAnswer;
+                const showCorrect = selectedOption !== null && isCorrectOption;
+                const showIncorrect = selectedOption === index && !isCorrectOption;
+                return (
+                  <button
+                    key={index}
+                    className={`option-btn ${selectedOption === index ? 'selected' : ''} ${showCorrect ? 'correct' : ''} ${showIncorrect ? 'incorrect' : ''}`}
+                    onClick={() => setSelectedOption(index)}
+                    disabled={selectedOption !== null}
+                  >
+                    <span className="option-letter">{String.fromCharCode(65 + index)}</span>
+                    <span className="option-text"><LatexText>{option}</LatexText></span>
+                  </button>
+                );
+              })}
+            </div>
+            {selectedOption !== null && currentItem.question.explanation && (
+              <p className="review-explanation"><LatexText>{currentItem.question.explanation}</LatexText></p>
+            )}
+          </div>
+        </div>
+      ) : null}
+
+      {isRevealed && scheduledItem && (
+        <div className="review-ratings">
+          {availableRatings.map((rating, i) => (
+            <button
+              key={rating}
+              className={`rating-btn rating-${rating}`}
+              onClick={() => handleRate(rating)}
+              disabled={isSaving}
+              title={`Press ${i + 1}`}
+            >
+              <span className="rating-label">{RATING_LABELS[rating]}</span>
+              <span className="rating-interval">{formatInterval(sm2(scheduledItem, rating).interval)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {saveError && <p className="review-save-error">{saveError}</p>}
+    </div>
+  );
+};
+
+export default ReviewPage;
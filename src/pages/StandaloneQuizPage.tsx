@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { StandaloneQuiz } from '../types/roadmap';
+import { StandaloneQuiz, QuizQuestion } from '../types/roadmap';
 import LatexText from '../components/LatexText';
+import QuizExportMenu from '../components/QuizExportMenu';
+import { markMissedQuestions } from '../lib/spacedRepetition';
 
 interface StandaloneQuizPageProps {
   quiz: StandaloneQuiz;
   onBack: () => void;
-  onComplete: (score: number, total: number) => void;
+  onComplete: (score: number, total: number, questions: QuizQuestion[]) => void;
 }
 
 const StandaloneQuizPage: React.FC<StandaloneQuizPageProps> = ({ quiz, onBack, onComplete }) => {
@@ -14,7 +16,6 @@ const StandaloneQuizPage: React.FC<StandaloneQuizPageProps> = ({ quiz, onBack, o
   const [showResults, setShowResults] = useState(false);
   const [score, setScore] = useState(0);
   const [timeLeft, setTimeLeft] = useState(quiz.timePerQuestion || 0);
-  const [isTimerActive, setIsTimerActive] = useState(quiz.isRapid);
 
   const handleTimeUp = useCallback(() => {
     if (currentQuestion < quiz.questions.length - 1) {
@@ -31,7 +32,6 @@ const StandaloneQuizPage: React.FC<StandaloneQuizPageProps> = ({ quiz, onBack, o
     if (!quiz.isRapid || showResults) return;
     
     setTimeLeft(quiz.timePerQuestion || 8);
-    setIsTimerActive(true);
     
     const timer = setInterval(() => {
       setTimeLeft(prev => {
@@ -117,8 +117,7 @@ const StandaloneQuizPage: React.FC<StandaloneQuizPageProps> = ({ quiz, onBack, o
     });
     setScore(correct);
     setShowResults(true);
-    setIsTimerActive(false);
-    onComplete(correct, quiz.questions.length);
+    onComplete(correct, quiz.questions.length, markMissedQuestions(quiz.questions, selectedAnswers));
   };
 
   const retryQuiz = () => {
@@ -220,6 +219,7 @@ const StandaloneQuizPage: React.FC<StandaloneQuizPageProps> = ({ quiz, onBack, o
           <h1>{quiz.title}</h1>
           {quiz.isRapid && <span className="rapid-badge">⚡ Rapid Mode</span>}
         </div>
+        <QuizExportMenu exportPath={`/standalone-quizzes/${quiz.id}/export`} title={quiz.title} />
       </div>
 
       <div className="quiz-progress">
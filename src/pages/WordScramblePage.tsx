@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { WordScrambleGame, ScrambleWord } from '../types/roadmap';
 
 interface WordScramblePageProps {
@@ -23,7 +23,7 @@ function scrambleWord(word: string): string {
 
 const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpdateGame }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [scrambled, setScrambled] = useState('');
+  const [scrambled, setScrambled] = useState(() => game.words[0] ? scrambleWord(game.words[0].word) : '');
   const [userInput, setUserInput] = useState('');
   const [showHint, setShowHint] = useState(false);
   const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null);
@@ -41,15 +41,6 @@ const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpd
   const currentWord = game.words[currentIndex];
   const totalWords = game.words.length;
 
-  useEffect(() => {
-    if (currentWord) {
-      setScrambled(scrambleWord(currentWord.word));
-      setUserInput('');
-      setShowHint(false);
-      setFeedback(null);
-    }
-  }, [currentIndex]);
-
   // Timer
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
@@ -70,7 +61,45 @@ const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpd
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleSubmit = useCallback(() => {
+  // Each word is shown freshly scrambled, with the answer box and hint cleared
+  const goToWord = (index: number) => {
+    setCurrentIndex(index);
+    setScrambled(scrambleWord(game.words[index].word));
+    setUserInput('');
+    setShowHint(false);
+    setFeedback(null);
+  };
+
+  const findNextUnanswered = (startFrom: number): number => {
+    for (let i = startFrom; i < totalWords; i++) {
+      if (!completed.has(i) && !skipped.has(i)) return i;
+    }
+    for (let i = 0; i < startFrom; i++) {
+      if (!completed.has(i) && !skipped.has(i)) return i;
+    }
+    // Check if skipped words remain
+    for (let i = 0; i < totalWords; i++) {
+      if (!completed.has(i)) return i;
+    }
+    return -1;
+  };
+
+  const moveToNext = () => {
+    const nextUnanswered = findNextUnanswered(currentIndex + 1);
+    if (nextUnanswered === -1) {
+      setGameOver(true);
+      const bestScore = game.bestScore || 0;
+      if (score > bestScore) {
+        onUpdateGame({ ...game, bestScore: score, timesPlayed: (game.timesPlayed || 0) + 1 });
+      } else {
+        onUpdateGame({ ...game, timesPlayed: (game.timesPlayed || 0) + 1 });
+      }
+    } else {
+      goToWord(nextUnanswered);
+    }
+  };
+
+  const handleSubmit = () => {
     if (!currentWord || feedback) return;
     if (!gameStarted) setGameStarted(true);
 
@@ -101,7 +130,7 @@ const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpd
         setFeedback(null);
       }, 800);
     }
-  }, [userInput, currentWord, feedback, showHint, streak, currentIndex, gameStarted]);
+  };
 
   const handleSkip = () => {
     if (!gameStarted) setGameStarted(true);
@@ -118,35 +147,6 @@ const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpd
     }
   };
 
-  const moveToNext = () => {
-    const nextUnanswered = findNextUnanswered(currentIndex + 1);
-    if (nextUnanswered === -1) {
-      setGameOver(true);
-      const bestScore = game.bestScore || 0;
-      if (score > bestScore) {
-        onUpdateGame({ ...game, bestScore: score, timesPlayed: (game.timesPlayed || 0) + 1 });
-      } else {
-        onUpdateGame({ ...game, timesPlayed: (game.timesPlayed || 0) + 1 });
-      }
-    } else {
-      setCurrentIndex(nextUnanswered);
-    }
-  };
-
-  const findNextUnanswered = (startFrom: number): number => {
-    for (let i = startFrom; i < totalWords; i++) {
-      if (!completed.has(i) && !skipped.has(i)) return i;
-    }
-    for (let i = 0; i < startFrom; i++) {
-      if (!completed.has(i) && !skipped.has(i)) return i;
-    }
-    // Check if skipped words remain
-    for (let i = 0; i < totalWords; i++) {
-      if (!completed.has(i)) return i;
-    }
-    return -1;
-  };
-
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -155,7 +155,7 @@ const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpd
   };
 
   const restartGame = () => {
-    setCurrentIndex(0);
+    goToWord(0);
     setScore(0);
     setStreak(0);
     setBestStreak(0);
@@ -164,7 +164,6 @@ const WordScramblePage: React.FC<WordScramblePageProps> = ({ game, onBack, onUpd
     setGameOver(false);
     setElapsedTime(0);
     setGameStarted(false);
-    setFeedback(null);
   };
 
   const getDifficultyColor = (d?: string) => {
@@ -9,13 +9,19 @@
  * - Re-rendering when plugins change
  */
 
+// The hooks and HOC below belong with the provider they read, so edits here reload the page
+// instead of hot-swapping it
+/* eslint-disable react-refresh/only-export-components */
+
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { 
   pluginManager, 
   PluginManifest, 
   InstalledPlugin,
+  PluginInstance,
   FilterCallback,
-  ActionCallback
+  ActionCallback,
+  OverrideCallback
 } from './PluginManager';
 
 // ============ CONTEXT TYPE ============
@@ -24,23 +30,23 @@ interface PluginContextType {
   // Plugin management
   plugins: InstalledPlugin[];
   enabledPlugins: InstalledPlugin[];
-  installPlugin: (manifest: PluginManifest, instance?: any) => Promise<boolean>;
+  installPlugin: (manifest: PluginManifest, instance?: PluginInstance) => Promise<boolean>;
   uninstallPlugin: (pluginId: string) => Promise<boolean>;
   enablePlugin: (pluginId: string) => Promise<boolean>;
   disablePlugin: (pluginId: string) => Promise<boolean>;
   isPluginEnabled: (pluginId: string) => boolean;
   
   // Settings
-  getPluginSettings: (pluginId: string) => Record<string, any> | undefined;
-  setPluginSetting: (pluginId: string, key: string, value: any) => boolean;
+  getPluginSettings: (pluginId: string) => Record<string, unknown> | undefined;
+  setPluginSetting: (pluginId: string, key: string, value: unknown) => boolean;
   
   // Hooks
-  applyFilters: <T>(hookName: string, value: T, ...args: any[]) => Promise<T>;
-  applyFiltersSync: <T>(hookName: string, value: T, ...args: any[]) => T;
-  doAction: (hookName: string, ...args: any[]) => Promise<void>;
-  doActionSync: (hookName: string, ...args: any[]) => void;
+  applyFilters: <T>(hookName: string, value: T, ...args: unknown[]) => Promise<T>;
+  applyFiltersSync: <T>(hookName: string, value: T, ...args: unknown[]) => T;
+  doAction: (hookName: string, ...args: unknown[]) => Promise<void>;
+  doActionSync: (hookName: string, ...args: unknown[]) => void;
   hasOverride: (hookName: string) => boolean;
-  getOverride: <T>(hookName: string) => (((...args: any[]) => T | Promise<T>) | null);
+  getOverride: <T>(hookName: string) => OverrideCallback<T> | null;
   
   // Debug
   getRegisteredHooks: () => { filters: string[]; actions: string[]; overrides: string[] };
@@ -114,19 +120,19 @@ export const PluginProvider: React.FC<PluginProviderProps> = ({ children }) => {
       return pluginManager.setPluginSetting(pluginId, key, value);
     }, []),
     
-    applyFilters: useCallback(async <T,>(hookName: string, value: T, ...args: any[]) => {
+    applyFilters: useCallback(async <T,>(hookName: string, value: T, ...args: unknown[]) => {
       return pluginManager.applyFilters(hookName, value, ...args);
     }, []),
     
-    applyFiltersSync: useCallback(<T,>(hookName: string, value: T, ...args: any[]) => {
+    applyFiltersSync: useCallback(<T,>(hookName: string, value: T, ...args: unknown[]) => {
       return pluginManager.applyFiltersSync(hookName, value, ...args);
     }, []),
     
-    doAction: useCallback(async (hookName: string, ...args: any[]) => {
+    doAction: useCallback(async (hookName: string, ...args: unknown[]) => {
       return pluginManager.doAction(hookName, ...args);
     }, []),
     
-    doActionSync: useCallback((hookName: string, ...args: any[]) => {
+    doActionSync: useCallback((hookName: string, ...args: unknown[]) => {
       return pluginManager.doActionSync(hookName, ...args);
     }, []),
     
@@ -169,7 +175,7 @@ export function usePlugins(): PluginContextType {
 export function useFilter<T>(
   hookName: string, 
   value: T, 
-  deps: any[] = []
+  deps: unknown[] = []
 ): T {
   const [filteredValue, setFilteredValue] = useState<T>(value);
   const { applyFilters } = usePlugins();
@@ -207,8 +213,8 @@ export function useAction(hookName: string) {
   const { doAction, doActionSync } = usePlugins();
   
   return {
-    trigger: useCallback((...args: any[]) => doAction(hookName, ...args), [hookName, doAction]),
-    triggerSync: useCallback((...args: any[]) => doActionSync(hookName, ...args), [hookName, doActionSync]),
+    trigger: useCallback((...args: unknown[]) => doAction(hookName, ...args), [hookName, doAction]),
+    triggerSync: useCallback((...args: unknown[]) => doActionSync(hookName, ...args), [hookName, doActionSync]),
   };
 }
 
@@ -217,7 +223,7 @@ export function useAction(hookName: string) {
  */
 export function useOverride<T>(hookName: string): {
   hasOverride: boolean;
-  override: ((...args: any[]) => T | Promise<T>) | null;
+  override: OverrideCallback<T> | null;
 } {
   const { hasOverride, getOverride } = usePlugins();
   
@@ -10,15 +10,26 @@
  * - Plugins can modify almost any behavior without changing core code
  * - Multiple plugins can hook into the same point (priority ordering)
  * - Plugins can be installed/uninstalled at runtime
+ * - Plugin code runs in an isolated Web Worker behind a sandboxed frame and reaches the page only
+ *   through an explicit capability API (see sandbox.ts)
  */
 
+import { OVERRIDE_HOOKS } from './hooks';
+import { PluginSandbox } from './sandbox';
+import type { PluginSetting } from './protocol';
+import type { PluginState } from '../types/api';
+import { ALL_PERMISSIONS, HookKind, PluginPermission, permissionForHook, missingPermissions } from './permissions';
+
 // ============ TYPE DEFINITIONS ============
 
+// Handlers declare the argument types of the hook they are for, which `unknown` parameters would refuse
+/* eslint-disable @typescript-eslint/no-explicit-any */
 export type FilterCallback<T = any> = (value: T, ...args: any[]) => T | Promise<T>;
 export type ActionCallback = (...args: any[]) => void | Promise<void>;
 export type OverrideCallback<T = any> = (...args: any[]) => T | Promise<T>;
+/* eslint-enable @typescript-eslint/no-explicit-any */
 
-interface HookEntry<T extends Function = Function> {
+interface HookEntry<T> {
   callback: T;
   priority: number;
   pluginId: string;
@@ -30,6 +41,7 @@ interface PluginManifest {
   version: string;
   description: string;
   author?: string;
+  permissions?: PluginPermission[];
   hooks?: {
     filters?: Record<string, { handler: string; priority?: number }>;
     actions?: Record<string, { handler: string; priority?: number }>;
@@ -40,20 +52,55 @@ interface PluginManifest {
   cleanup?: () => void | Promise<void>;
 }
 
-interface PluginSetting {
-  key: string;
-  type: 'string' | 'number' | 'boolean' | 'select';
-  label: string;
-  description?: string;
-  default: any;
-  options?: { value: any; label: string }[];
-}
+// The object a plugin's hook handlers are looked up on by name
+type PluginInstance = Record<string, unknown> & {
+  onEnable?: () => unknown;
+  onDisable?: () => unknown;
+  onSettingChange?: (key: string, value: unknown) => void;
+};
 
 interface InstalledPlugin {
   manifest: PluginManifest;
   enabled: boolean;
-  settings: Record<string, any>;
-  instance?: any;
+  settings: Record<string, unknown>;
+  grantedPermissions: PluginPermission[];
+  // Needed by a plugin installed before permissions existed, but not agreed to yet
+  pendingPermissions?: PluginPermission[];
+  instance?: PluginInstance;
+}
+
+/** What the user is asked to approve when a plugin is installed or upgraded */
+interface PermissionRequest {
+  manifest: PluginManifest;
+  requested: PluginPermission[];
+  // Permissions the user hasn't granted before; all of them on a fresh install
+  added: PluginPermission[];
+  previousVersion?: string;
+  // The plugin was installed before permissions existed and is already running without `added`
+  legacy?: boolean;
+}
+
+type ConsentHandler = (request: PermissionRequest) => Promise<boolean>;
+
+// ============ MANIFEST HELPERS ============
+
+const OVERRIDE_HOOK_NAMES = new Set<string>(Object.values(OVERRIDE_HOOKS));
+
+/**
+ * Plugin files declare every handler in a flat `hooks` object.
+ * Known override hook names are registered as overrides, everything else as a filter.
+ */
+export function buildManifestHooks(hooks: Record<string, unknown>): PluginManifest['hooks'] {
+  const filters: Record<string, { handler: string; priority: number }> = {};
+  const overrides: Record<string, { handler: string }> = {};
+  for (const key of Object.keys(hooks)) {
+    if (OVERRIDE_HOOK_NAMES.has(key)) {
+      overrides[key] = { handler: key };
+    } else {
+      filters[key] = { handler: key, priority: 10 };
+    }
+  }
+  return { filters, overrides };
 }
 
 // ============ HOOK REGISTRY ============
@@ -62,6 +109,24 @@ class HookRegistry {
   private filters: Map<string, HookEntry<FilterCallback>[]> = new Map();
   private actions: Map<string, HookEntry<ActionCallback>[]> = new Map();
   private overrides: Map<string, HookEntry<OverrideCallback>> = new Map();
+  private grants: Map<string, Set<PluginPermission>> = new Map();
+  
+  // ---- PERMISSIONS ----
+  // Plugins with a grant may only register hooks it covers. Core and inline hooks have no grant and are trusted.
+  
+  setPermissions(pluginId: string, permissions: PluginPermission[]): void {
+    this.grants.set(pluginId, new Set(permissions));
+  }
+  
+  private isPermitted(kind: HookKind, hookName: string, pluginId: string): boolean {
+    const granted = this.grants.get(pluginId);
+    if (!granted) return true;
+    
+    const required = permissionForHook(kind, hookName);
+    if (granted.has(required)) return true;
+    console.warn(`Plugin ${pluginId} was not granted "${required}" and can't hook into ${hookName}`);
+    return false;
+  }
   
   // ---- FILTERS ----
   // Filters modify data as it passes through. Multiple filters can chain together.
@@ -72,6 +137,7 @@ class HookRegistry {
     priority: number = 10,
     pluginId: string = 'core'
   ): void {
+    if (!this.isPermitted('filter', hookName, pluginId)) return;
     if (!this.filters.has(hookName)) {
       this.filters.set(hookName, []);
     }
@@ -90,7 +156,7 @@ class HookRegistry {
     }
   }
   
-  async applyFilters<T>(hookName: string, value: T, ...args: any[]): Promise<T> {
+  async applyFilters<T>(hookName: string, value: T, ...args: unknown[]): Promise<T> {
     const hooks = this.filters.get(hookName);
     if (!hooks || hooks.length === 0) return value;
     
@@ -105,8 +171,9 @@ class HookRegistry {
     return result;
   }
   
-  // Synchronous version for performance-critical paths
-  applyFiltersSync<T>(hookName: string, value: T, ...args: any[]): T {
+  // Synchronous version for performance-critical paths.
+  // Sandboxed plugin filters always answer asynchronously, so only inline filters apply here.
+  applyFiltersSync<T>(hookName: string, value: T, ...args: unknown[]): T {
     const hooks = this.filters.get(hookName);
     if (!hooks || hooks.length === 0) return value;
     
@@ -134,6 +201,7 @@ class HookRegistry {
     priority: number = 10,
     pluginId: string = 'core'
   ): void {
+    if (!this.isPermitted('action', hookName, pluginId)) return;
     if (!this.actions.has(hookName)) {
       this.actions.set(hookName, []);
     }
@@ -150,7 +218,7 @@ class HookRegistry {
     }
   }
   
-  async doAction(hookName: string, ...args: any[]): Promise<void> {
+  async doAction(hookName: string, ...args: unknown[]): Promise<void> {
     const hooks = this.actions.get(hookName);
     if (!hooks) return;
     
@@ -164,7 +232,7 @@ class HookRegistry {
   }
   
   // Synchronous version
-  doActionSync(hookName: string, ...args: any[]): void {
+  doActionSync(hookName: string, ...args: unknown[]): void {
     const hooks = this.actions.get(hookName);
     if (!hooks) return;
     
@@ -185,6 +253,8 @@ class HookRegistry {
     callback: OverrideCallback<T>,
     pluginId: string
   ): boolean {
+    if (!this.isPermitted('override', hookName, pluginId)) return false;
+    
     // Check if already overridden by another plugin
     const existing = this.overrides.get(hookName);
     if (existing && existing.pluginId !== pluginId) {
@@ -231,6 +301,8 @@ class HookRegistry {
         this.overrides.delete(hookName);
       }
     }
+    
+    this.grants.delete(pluginId);
   }
   
   getRegisteredHooks(): { filters: string[]; actions: string[]; overrides: string[] } {
@@ -250,7 +322,25 @@ const PLUGIN_CODE_KEY = 'gvidtech_plugin_code';
 interface StoredPluginData {
   manifest: PluginManifest;
   enabled: boolean;
-  settings: Record<string, any>;
+  settings: Record<string, unknown>;
+  // Missing for plugins installed before permissions existed
+  grantedPermissions?: PluginPermission[];
+  pendingPermissions?: PluginPermission[];
+}
+
+// Permissions that let a plugin send data out of the app; legacy plugins have to ask for them
+const CONSENT_REQUIRED: PluginPermission[] = ['network'];
+
+// Plugins installed before permissions existed keep what they could already do inside the
+// app: their own hooks, theming, and listening to app events. What needs consent is pending.
+function legacyGrant(manifest: PluginManifest): { granted: PluginPermission[]; pending: PluginPermission[] } {
+  const needed = new Set<PluginPermission>(['css', 'dom', 'content:read']);
+  for (const hookName of Object.keys(manifest.hooks?.filters || {})) needed.add(permissionForHook('filter', hookName));
+  for (const hookName of Object.keys(manifest.hooks?.overrides || {})) needed.add(permissionForHook('override', hookName));
+  return {
+    granted: [...needed].filter(permission => !CONSENT_REQUIRED.includes(permission)),
+    pending: [...needed].filter(permission => CONSENT_REQUIRED.includes(permission)),
+  };
 }
 
 class PluginManager {
@@ -258,6 +348,8 @@ class PluginManager {
   private plugins: Map<string, InstalledPlugin> = new Map();
   private pluginCode: Map<string, string> = new Map(); // Store raw plugin code for reinstall
   private listeners: Set<() => void> = new Set();
+  private sandboxes: Map<string, PluginSandbox> = new Map();
+  private restoring = false;
   
   // Singleton instance
   private static instance: PluginManager | null = null;
@@ -269,14 +361,17 @@ class PluginManager {
     return PluginManager.instance;
   }
   
+  // Resolves once plugins saved in localStorage have been restored into their sandboxes
+  readonly ready: Promise<void>;
+  
   constructor() {
     // Load plugins from localStorage on initialization
-    this.loadFromStorage();
+    this.ready = this.loadFromStorage();
   }
   
   // ---- STORAGE ----
   
-  private loadFromStorage(): void {
+  private async loadFromStorage(): Promise<void> {
     try {
       const storedData = localStorage.getItem(STORAGE_KEY);
       const storedCode = localStorage.getItem(PLUGIN_CODE_KEY);
@@ -285,81 +380,52 @@ class PluginManager {
         const pluginsData: Record<string, StoredPluginData> = JSON.parse(storedData);
         const codeData: Record<string, string> = JSON.parse(storedCode);
         
+        // Enabling plugins one by one would rewrite storage with a partial list
+        this.restoring = true;
+        
         // Re-install each plugin from stored code
         for (const [pluginId, data] of Object.entries(pluginsData)) {
           const code = codeData[pluginId];
           if (code) {
             try {
-              // Re-parse the plugin code
-              const strippedCode = code.replace(/^[\s]*\/\*[\s\S]*?\*\/[\s]*/, '').replace(/^[\s]*\/\/.*\n/gm, '').trim();
-              const pluginModule = new Function('return ' + strippedCode)();
+              const { manifest, instance, sandbox } = await this.loadSandboxed(code);
+              if (this.plugins.has(manifest.id)) {
+                sandbox.dispose();
+                continue;
+              }
+              const { granted: grantedPermissions, pending: pendingPermissions } = data.grantedPermissions
+                ? { granted: data.grantedPermissions, pending: data.pendingPermissions || [] }
+                : legacyGrant(manifest);
+              await this.grantSandbox(sandbox, grantedPermissions);
+              this.sandboxes.set(manifest.id, sandbox);
               
-              if (pluginModule && pluginModule.id) {
-                // Create plugin instance
-                const pluginInstance: any = {};
-                if (pluginModule.hooks) {
-                  for (const [hookName, handler] of Object.entries(pluginModule.hooks)) {
-                    if (typeof handler === 'function') {
-                      const wrappedHandler = (...args: any[]) => {
-                        const currentSettings = this.getPluginSettings(pluginModule.id);
-                        return (handler as Function)(...args, currentSettings);
-                      };
-                      pluginInstance[hookName] = wrappedHandler;
-                    }
+              // Restore settings from storage
+              const restoredSettings = data.settings || {};
+              if (manifest.settings) {
+                for (const setting of manifest.settings) {
+                  if (!(setting.key in restoredSettings)) {
+                    restoredSettings[setting.key] = setting.default;
                   }
                 }
-                if (pluginModule.activate) {
-                  pluginInstance.onEnable = () => {
-                    const currentSettings = this.getPluginSettings(pluginModule.id);
-                    pluginModule.activate(currentSettings);
-                  };
-                }
-                if (pluginModule.deactivate) {
-                  pluginInstance.onDisable = pluginModule.deactivate;
-                }
-                
-                // Build manifest
-                const manifest: PluginManifest = {
-                  id: pluginModule.id,
-                  name: pluginModule.name,
-                  version: pluginModule.version,
-                  description: pluginModule.description || '',
-                  author: pluginModule.author || 'Unknown',
-                  hooks: pluginModule.hooks ? {
-                    filters: Object.keys(pluginModule.hooks).reduce((acc, key) => {
-                      acc[key] = { handler: key, priority: 10 };
-                      return acc;
-                    }, {} as Record<string, { handler: string; priority: number }>)
-                  } : undefined,
-                  settings: pluginModule.settings || [],
-                };
-                
-                // Restore settings from storage
-                const restoredSettings = data.settings || {};
-                if (manifest.settings) {
-                  for (const setting of manifest.settings) {
-                    if (!(setting.key in restoredSettings)) {
-                      restoredSettings[setting.key] = setting.default;
-                    }
-                  }
-                }
-                
-                // Add to plugins map (without triggering save)
-                this.plugins.set(manifest.id, {
-                  manifest,
-                  enabled: false,
-                  settings: restoredSettings,
-                  instance: pluginInstance
-                });
-                this.pluginCode.set(manifest.id, code);
-                
-                // Enable if it was enabled before
-                if (data.enabled) {
-                  this.enablePlugin(manifest.id);
-                }
-                
-                console.log(`[PluginManager] Restored plugin: ${manifest.name}`);
               }
+              
+              // Add to plugins map (without triggering save)
+              this.plugins.set(manifest.id, {
+                manifest,
+                enabled: false,
+                settings: restoredSettings,
+                grantedPermissions,
+                pendingPermissions: pendingPermissions.length > 0 ? pendingPermissions : undefined,
+                instance
+              });
+              this.pluginCode.set(manifest.id, code);
+              
+              // Enable if it was enabled before
+              if (data.enabled) {
+                await this.enablePlugin(manifest.id);
+              }
+              
+              console.log(`[PluginManager] Restored plugin: ${manifest.name}`);
             } catch (error) {
               console.error(`[PluginManager] Failed to restore plugin ${pluginId}:`, error);
             }
@@ -368,10 +434,14 @@ class PluginManager {
       }
     } catch (error) {
       console.error('[PluginManager] Failed to load plugins from storage:', error);
+    } finally {
+      this.restoring = false;
+      this.notifyListeners();
     }
   }
   
   private saveToStorage(): void {
+    if (this.restoring) return;
     try {
       const pluginsData: Record<string, StoredPluginData> = {};
       const codeData: Record<string, string> = {};
@@ -380,7 +450,9 @@ class PluginManager {
         pluginsData[id] = {
           manifest: plugin.manifest,
           enabled: plugin.enabled,
-          settings: plugin.settings
+          settings: plugin.settings,
+          grantedPermissions: plugin.grantedPermissions,
+          pendingPermissions: plugin.pendingPermissions
         };
         
         const code = this.pluginCode.get(id);
@@ -398,14 +470,163 @@ class PluginManager {
   
   // ---- PLUGIN LIFECYCLE ----
   
-  async installPlugin(manifest: PluginManifest, pluginInstance?: any, pluginCode?: string): Promise<boolean> {
+  /**
+   * Evaluate plugin code in its own sandbox and build the manifest and instance
+   * that proxy each hook to it. The caller owns the sandbox until it is registered.
+   */
+  private async loadSandboxed(code: string): Promise<{ manifest: PluginManifest; instance: PluginInstance; sandbox: PluginSandbox }> {
+    const { sandbox, info } = await PluginSandbox.load(code);
+    
+    const hooks: Record<string, true> = {};
+    const instance: PluginInstance = {};
+    for (const hookName of info.hooks) {
+      // React elements can't cross the worker boundary
+      if (hookName.startsWith('render:')) {
+        console.warn(`[PluginManager] ${info.name}: component override ${hookName} is not supported in the sandbox`);
+        continue;
+      }
+      hooks[hookName] = true;
+      instance[hookName] = (...args: unknown[]) =>
+        sandbox.call('hook', hookName, args, this.getPluginSettings(info.id));
+    }
+    if (info.hasActivate) {
+      instance.onEnable = () => sandbox.call('activate', undefined, [], this.getPluginSettings(info.id));
+    }
+    instance.onDisable = async () => {
+      try {
+        if (info.hasDeactivate) {
+          await sandbox.call('deactivate', undefined, [], undefined);
+        }
+      } finally {
+        sandbox.resetCapabilities();
+      }
+    };
+    
+    const manifest: PluginManifest = {
+      id: info.id,
+      name: info.name,
+      version: info.version,
+      description: info.description,
+      author: info.author,
+      permissions: info.permissions,
+      hooks: buildManifestHooks(hooks),
+      settings: info.settings,
+    };
+    
+    return { manifest, instance, sandbox };
+  }
+  
+  // Granting network reopens the sandbox, which can fail like a load; the sandbox is unusable then
+  private async grantSandbox(sandbox: PluginSandbox, permissions: PluginPermission[]): Promise<void> {
+    try {
+      await sandbox.grant(permissions);
+    } catch (error) {
+      sandbox.dispose();
+      throw error;
+    }
+  }
+  
+  /**
+   * Install a plugin from its source. The code runs in a Web Worker, never in the page.
+   * Resolves to null if the user declines the requested permissions.
+   * Throws if the code doesn't load or a plugin with the same id is already installed.
+   */
+  async installFromCode(code: string, requestConsent: ConsentHandler): Promise<PluginManifest | null> {
+    const { manifest, instance, sandbox } = await this.loadSandboxed(code);
+    if (this.plugins.has(manifest.id)) {
+      sandbox.dispose();
+      throw new Error(`Plugin "${manifest.name}" is already installed`);
+    }
+    
+    const requested = manifest.permissions || [];
+    if (!(await requestConsent({ manifest, requested, added: requested }))) {
+      sandbox.dispose();
+      return null;
+    }
+    
+    await this.grantSandbox(sandbox, requested);
+    this.sandboxes.set(manifest.id, sandbox);
+    await this.installPlugin(manifest, instance, code, requested);
+    return manifest;
+  }
+  
+  /**
+   * Replace an installed plugin with new source. The user is only asked again
+   * when the new version requests permissions they haven't granted yet.
+   */
+  async updateFromCode(pluginId: string, code: string, requestConsent: ConsentHandler): Promise<PluginManifest | null> {
+    const previous = this.plugins.get(pluginId);
+    if (!previous) {
+      throw new Error(`Plugin ${pluginId} is not installed`);
+    }
+    
+    const { manifest, instance, sandbox } = await this.loadSandboxed(code);
+    if (manifest.id !== pluginId && this.plugins.has(manifest.id)) {
+      sandbox.dispose();
+      throw new Error(`Plugin "${manifest.name}" is already installed`);
+    }
+    
+    // A changed id is a different plugin, so nothing carries over
+    const requested = manifest.permissions || [];
+    const added = missingPermissions(requested, manifest.id === pluginId ? previous.grantedPermissions : []);
+    if (added.length > 0 && !(await requestConsent({ manifest, requested, added, previousVersion: previous.manifest.version }))) {
+      sandbox.dispose();
+      return null;
+    }
+    
+    await this.grantSandbox(sandbox, requested);
+    await this.uninstallPlugin(pluginId);
+    this.sandboxes.set(manifest.id, sandbox);
+    await this.installPlugin(manifest, instance, code, requested);
+    return manifest;
+  }
+  
+  /**
+   * Ask about the permissions plugins installed before permissions existed need but were
+   * never granted. They run without them until the user allows them; each plugin is asked
+   * once, and declining keeps it running as it is.
+   */
+  async requestPendingPermissions(requestConsent: ConsentHandler): Promise<void> {
+    await this.ready;
+    for (const [pluginId, plugin] of this.plugins) {
+      const pending = plugin.pendingPermissions;
+      const sandbox = this.sandboxes.get(pluginId);
+      if (!pending?.length || !sandbox) continue;
+      // Cleared before asking so a second caller doesn't ask as well
+      plugin.pendingPermissions = undefined;
+      
+      const requested = ALL_PERMISSIONS.filter(permission => plugin.grantedPermissions.includes(permission) || pending.includes(permission));
+      if (await requestConsent({ manifest: plugin.manifest, requested, added: pending, legacy: true })) {
+        // Hooks are registered against the grant, and a new grant can reopen the sandbox
+        const wasEnabled = plugin.enabled;
+        if (wasEnabled) await this.disablePlugin(pluginId);
+        try {
+          await sandbox.grant(requested);
+          plugin.grantedPermissions = requested;
+        } catch (error) {
+          console.error(`[PluginManager] Failed to grant ${plugin.manifest.name} more permissions:`, error);
+          plugin.pendingPermissions = pending;
+        }
+        if (wasEnabled) await this.enablePlugin(pluginId);
+      }
+      this.saveToStorage();
+      this.notifyListeners();
+    }
+  }
+  
+  async installPlugin(
+    manifest: PluginManifest,
+    pluginInstance?: PluginInstance,
+    pluginCode?: string,
+    grantedPermissions: PluginPermission[] = manifest.permissions || []
+  ): Promise<boolean> {
     if (this.plugins.has(manifest.id)) {
       console.warn(`Plugin ${manifest.id} is already installed`);
       return false;
     }
     
     // Initialize settings with defaults
-    const settings: Record<string, any> = {};
+    const settings: Record<string, unknown> = {};
     if (manifest.settings) {
       for (const setting of manifest.settings) {
         settings[setting.key] = setting.default;
@@ -416,6 +637,7 @@ class PluginManager {
       manifest,
       enabled: false,
       settings,
+      grantedPermissions,
       instance: pluginInstance
     });
     
@@ -448,6 +670,8 @@ class PluginManager {
     // Remove from registry
     this.plugins.delete(pluginId);
     this.pluginCode.delete(pluginId);
+    this.sandboxes.get(pluginId)?.dispose();
+    this.sandboxes.delete(pluginId);
     
     this.saveToStorage();
     this.notifyListeners();
@@ -467,6 +691,9 @@ class PluginManager {
     }
     
     try {
+      // Hooks outside the granted permissions are refused by the registry
+      this.registry.setPermissions(pluginId, plugin.grantedPermissions);
+      
       // Register hooks from manifest
       if (plugin.manifest.hooks?.filters && plugin.instance) {
         for (const [hookName, config] of Object.entries(plugin.manifest.hooks.filters)) {
@@ -549,11 +776,11 @@ class PluginManager {
     this.registry.addFilter(hookName, callback, priority, 'inline');
   }
   
-  async applyFilters<T>(hookName: string, value: T, ...args: any[]): Promise<T> {
+  async applyFilters<T>(hookName: string, value: T, ...args: unknown[]): Promise<T> {
     return this.registry.applyFilters(hookName, value, ...args);
   }
   
-  applyFiltersSync<T>(hookName: string, value: T, ...args: any[]): T {
+  applyFiltersSync<T>(hookName: string, value: T, ...args: unknown[]): T {
     return this.registry.applyFiltersSync(hookName, value, ...args);
   }
   
@@ -561,11 +788,11 @@ class PluginManager {
     this.registry.addAction(hookName, callback, priority, 'inline');
   }
   
-  async doAction(hookName: string, ...args: any[]): Promise<void> {
+  async doAction(hookName: string, ...args: unknown[]): Promise<void> {
     return this.registry.doAction(hookName, ...args);
   }
   
-  doActionSync(hookName: string, ...args: any[]): void {
+  doActionSync(hookName: string, ...args: unknown[]): void {
     this.registry.doActionSync(hookName, ...args);
   }
   
@@ -603,11 +830,11 @@ class PluginManager {
   
   // ---- SETTINGS ----
   
-  getPluginSettings(pluginId: string): Record<string, any> | undefined {
+  getPluginSettings(pluginId: string): Record<string, unknown> | undefined {
     return this.plugins.get(pluginId)?.settings;
   }
   
-  setPluginSetting(pluginId: string, key: string, value: any): boolean {
+  setPluginSetting(pluginId: string, key: string, value: unknown): boolean {
     const plugin = this.plugins.get(pluginId);
     if (!plugin) return false;
     
@@ -626,7 +853,7 @@ class PluginManager {
   // ---- STATE PERSISTENCE ----
   
   exportState(): string {
-    const state: Record<string, { enabled: boolean; settings: Record<string, any> }> = {};
+    const state: PluginState = {};
     for (const [id, plugin] of this.plugins) {
       state[id] = {
         enabled: plugin.enabled,
@@ -639,7 +866,7 @@ class PluginManager {
   async importState(stateJson: string): Promise<void> {
     try {
       const state = JSON.parse(stateJson);
-      for (const [id, data] of Object.entries(state as Record<string, any>)) {
+      for (const [id, data] of Object.entries(state as PluginState)) {
         const plugin = this.plugins.get(id);
         if (plugin) {
           plugin.settings = data.settings || {};
@@ -684,19 +911,19 @@ export const pluginManager = PluginManager.getInstance();
 export const addFilter = <T>(hookName: string, callback: FilterCallback<T>, priority?: number) => 
   pluginManager.addFilter(hookName, callback, priority);
 
-export const applyFilters = <T>(hookName: string, value: T, ...args: any[]) => 
+export const applyFilters = <T>(hookName: string, value: T, ...args: unknown[]) => 
   pluginManager.applyFilters(hookName, value, ...args);
 
-export const applyFiltersSync = <T>(hookName: string, value: T, ...args: any[]) => 
+export const applyFiltersSync = <T>(hookName: string, value: T, ...args: unknown[]) => 
   pluginManager.applyFiltersSync(hookName, value, ...args);
 
 export const addAction = (hookName: string, callback: ActionCallback, priority?: number) => 
   pluginManager.addAction(hookName, callback, priority);
 
-export const doAction = (hookName: string, ...args: any[]) => 
+export const doAction = (hookName: string, ...args: unknown[]) => 
   pluginManager.doAction(hookName, ...args);
 
-export const doActionSync = (hookName: string, ...args: any[]) => 
+export const doActionSync = (hookName: string, ...args: unknown[]) => 
   pluginManager.doActionSync(hookName, ...args);
 
 export const getOverride = <T>(hookName: string) => 
@@ -705,4 +932,4 @@ export const getOverride = <T>(hookName: string) =>
 export const hasOverride = (hookName: string) => 
   pluginManager.hasOverride(hookName);
 
-export type { PluginManifest, PluginSetting, InstalledPlugin };
+export type { PluginManifest, PluginSetting, InstalledPlugin, PluginInstance, PermissionRequest, ConsentHandler };
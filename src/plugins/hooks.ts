@@ -15,10 +15,15 @@ import {
   CourseStep, 
   FlashcardDeck, 
   Flashcard,
+  FlashcardSchedule,
+  ReviewRating,
+  ReviewItem,
+  ReviewSourceType,
   StandaloneQuiz, 
   QuizQuestion, 
   MatchingGame,
   MatchingPair,
+  CrosswordGame,
   GenerationMode 
 } from '../types/roadmap';
 
@@ -52,13 +57,13 @@ export interface FilterHooks {
   'quiz:afterGenerate': (questions: QuizQuestion[]) => QuizQuestion[];
   
   /** Modify flashcard prompt before generation */
-  'flashcards:beforeGenerate': (prompt: string, context: any) => string;
+  'flashcards:beforeGenerate': (prompt: string, context: unknown) => string;
   
   /** Modify generated flashcards */
   'flashcards:afterGenerate': (cards: Flashcard[]) => Flashcard[];
   
   /** Modify matching game prompt before generation */
-  'matching:beforeGenerate': (prompt: string, context: any) => string;
+  'matching:beforeGenerate': (prompt: string, context: unknown) => string;
   
   /** Modify generated matching pairs */
   'matching:afterGenerate': (pairs: MatchingPair[]) => MatchingPair[];
@@ -66,9 +71,9 @@ export interface FilterHooks {
   // ---- QUIZ FILTERS ----
   
   /** Modify quiz scoring calculation */
-  'quiz:calculateScore': (score: { correct: number; total: number; answers: any[] }) => { correct: number; total: number; answers: any[] };
+  'quiz:calculateScore': (score: { correct: number; total: number; answers: unknown[] }) => { correct: number; total: number; answers: unknown[] };
   
-  /** Modify quiz pass threshold (default 0.7 = 70%) */
+  /** Modify quiz pass threshold; receives the step's, else the course's, pass mark (default 0.7 = 70%) */
   'quiz:passThreshold': (threshold: number) => number;
   
   /** Modify question display */
@@ -91,10 +96,10 @@ export interface FilterHooks {
   // ---- MATCHING GAME FILTERS ----
   
   /** Modify cards before game starts */
-  'matching:initializeCards': (cards: any[]) => any[];
+  'matching:initializeCards': (cards: unknown[]) => unknown[];
   
   /** Modify match checking logic */
-  'matching:checkMatch': (card1: any, card2: any) => boolean;
+  'matching:checkMatch': (card1: unknown, card2: unknown) => boolean;
   
   /** Modify final score calculation */
   'matching:calculateScore': (stats: { time: number; mistakes: number }) => { time: number; mistakes: number; score?: number };
@@ -105,7 +110,7 @@ export interface FilterHooks {
   'navigation:pages': (pages: string[]) => string[];
   
   /** Modify sidebar items */
-  'sidebar:items': (items: any[]) => any[];
+  'sidebar:items': (items: unknown[]) => unknown[];
   
   /** Modify gallery tabs */
   'gallery:tabs': (tabs: { id: string; label: string; count: number }[]) => { id: string; label: string; count: number }[];
@@ -119,10 +124,10 @@ export interface FilterHooks {
   'course:afterLoad': (course: Course) => Course;
   
   /** Modify API request before sending */
-  'api:beforeRequest': (request: { endpoint: string; method: string; body: any }) => { endpoint: string; method: string; body: any };
+  'api:beforeRequest': (request: { endpoint: string; method: string; body: unknown }) => { endpoint: string; method: string; body: unknown };
   
   /** Modify API response before processing */
-  'api:afterResponse': (response: any, endpoint: string) => any;
+  'api:afterResponse': (response: unknown, endpoint: string) => unknown;
   
   // ---- RENDERING FILTERS ----
   
@@ -209,6 +214,12 @@ export interface ActionHooks {
   /** Flashcard marked as mastered */
   'flashcard:mastered': (card: Flashcard, deck: FlashcardDeck) => void;
   
+  /** Flashcard rated and rescheduled */
+  'flashcard:reviewed': (data: { card: Flashcard; rating: ReviewRating; schedule: FlashcardSchedule; deck: FlashcardDeck }) => void;
+  
+  /** Item rated in the cross-deck "Due Today" review session */
+  'review:itemReviewed': (data: { item: ReviewItem; rating: ReviewRating; schedule: FlashcardSchedule }) => void;
+  
   /** Study session completed */
   'flashcards:sessionComplete': (stats: { reviewed: number; mastered: number; timeSpent: number }) => void;
   
@@ -224,11 +235,19 @@ export interface ActionHooks {
   'matching:matchFound': (pair: MatchingPair) => void;
   
   /** Wrong match attempt */
-  'matching:wrongMatch': (card1: any, card2: any) => void;
+  'matching:wrongMatch': (card1: unknown, card2: unknown) => void;
   
   /** Matching game completed */
   'matching:gameCompleted': (stats: { time: number; mistakes: number; game: MatchingGame }) => void;
   
+  // ---- CROSSWORD ACTIONS ----
+  
+  /** Crossword game created */
+  'crossword:gameCreated': (game: CrosswordGame) => void;
+  
+  /** Crossword solved */
+  'crossword:completed': (stats: { game: CrosswordGame; time: number; usedReveal: boolean }) => void;
+  
   // ---- FILE ACTIONS ----
   
   /** File uploaded */
@@ -246,7 +265,7 @@ export interface ActionHooks {
   'error:occurred': (error: Error, context: string) => void;
   
   /** API error */
-  'error:api': (error: any, endpoint: string) => void;
+  'error:api': (error: unknown, endpoint: string) => void;
 }
 
 // ============ OVERRIDE HOOK TYPES ============
@@ -270,49 +289,49 @@ export interface OverrideHooks {
   'generate:quiz': (step: CourseStep, courseTitle: string) => Promise<QuizQuestion[]>;
   
   /** Replace flashcard generation */
-  'generate:flashcards': (prompt: string, context: any) => Promise<Flashcard[]>;
+  'generate:flashcards': (prompt: string, context: unknown) => Promise<Flashcard[]>;
   
   /** Replace matching game generation */
-  'generate:matchingGame': (prompt: string, context: any) => Promise<MatchingPair[]>;
+  'generate:matchingGame': (prompt: string, context: unknown) => Promise<MatchingPair[]>;
   
   // ---- COMPONENT OVERRIDES ----
   
   /** Replace entire Quiz page component */
-  'render:QuizPage': (props: any) => React.ReactNode;
+  'render:QuizPage': (props: unknown) => React.ReactNode;
   
   /** Replace entire Flashcards page component */
-  'render:FlashcardsPage': (props: any) => React.ReactNode;
+  'render:FlashcardsPage': (props: unknown) => React.ReactNode;
   
   /** Replace entire Matching Game page component */
-  'render:MatchingGamePage': (props: any) => React.ReactNode;
+  'render:MatchingGamePage': (props: unknown) => React.ReactNode;
   
   /** Replace course view component */
-  'render:CourseView': (props: any) => React.ReactNode;
+  'render:CourseView': (props: unknown) => React.ReactNode;
   
   /** Replace material page component */
-  'render:MaterialPage': (props: any) => React.ReactNode;
+  'render:MaterialPage': (props: unknown) => React.ReactNode;
   
   /** Replace sidebar component */
-  'render:Sidebar': (props: any) => React.ReactNode;
+  'render:Sidebar': (props: unknown) => React.ReactNode;
   
   // ---- ALGORITHM OVERRIDES ----
   
-  /** Replace spaced repetition algorithm */
-  'algorithm:spacedRepetition': (cards: Flashcard[], history: any) => Flashcard[];
+  /** Replace the spaced repetition scheduler (default: SM-2) */
+  'algorithm:spacedRepetition': (card: Flashcard | QuizQuestion, rating: ReviewRating, context: { now: Date; deckId?: string; sourceType?: ReviewSourceType }) => FlashcardSchedule | Promise<FlashcardSchedule>;
   
   /** Replace quiz question ordering */
   'algorithm:questionOrder': (questions: QuizQuestion[]) => QuizQuestion[];
   
   /** Replace matching card shuffle */
-  'algorithm:matchingShuffle': (cards: any[]) => any[];
+  'algorithm:matchingShuffle': (cards: unknown[]) => unknown[];
   
   // ---- STORAGE OVERRIDES ----
   
   /** Replace local storage mechanism */
-  'storage:save': (key: string, data: any) => Promise<void>;
+  'storage:save': (key: string, data: unknown) => Promise<void>;
   
   /** Replace local storage retrieval */
-  'storage:load': (key: string) => Promise<any>;
+  'storage:load': (key: string) => Promise<unknown>;
   
   /** Replace API base URL */
   'config:apiBase': () => string;
@@ -394,6 +413,8 @@ export const ACTION_HOOKS = {
   FLASHCARDS_DECK_CREATED: 'flashcards:deckCreated',
   FLASHCARD_FLIPPED: 'flashcard:flipped',
   FLASHCARD_MASTERED: 'flashcard:mastered',
+  FLASHCARD_REVIEWED: 'flashcard:reviewed',
+  REVIEW_ITEM_REVIEWED: 'review:itemReviewed',
   FLASHCARDS_SESSION_COMPLETE: 'flashcards:sessionComplete',
   
   // Matching
@@ -402,6 +423,8 @@ export const ACTION_HOOKS = {
   MATCHING_MATCH_FOUND: 'matching:matchFound',
   MATCHING_WRONG_MATCH: 'matching:wrongMatch',
   MATCHING_GAME_COMPLETED: 'matching:gameCompleted',
+  CROSSWORD_GAME_CREATED: 'crossword:gameCreated',
+  CROSSWORD_COMPLETED: 'crossword:completed',
   
   // File
   FILE_UPLOADED: 'file:uploaded',
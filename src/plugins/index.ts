@@ -97,6 +97,9 @@ export type {
   PluginManifest, 
   PluginSetting, 
   InstalledPlugin,
+  PluginInstance,
+  PermissionRequest,
+  ConsentHandler,
   FilterCallback,
   ActionCallback,
   OverrideCallback
@@ -125,3 +128,7 @@ export type {
   ActionHooks, 
   OverrideHooks 
 } from './hooks';
+
+// Permissions
+export { PLUGIN_PERMISSIONS } from './permissions';
+export type { PluginPermission } from './permissions';
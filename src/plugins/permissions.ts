@@ -0,0 +1,100 @@
+/**
+ * gvidtech Plugin System - Permissions
+ *
+ * Plugins list the capabilities they need in a `permissions` array. The user grants
+ * them on install (and again on upgrade when the list grows). The hook registry and
+ * the sandbox only let a plugin use hooks and capabilities covered by its grant.
+ */
+
+export type PluginPermission =
+  | 'network'
+  | 'css'
+  | 'dom'
+  | 'storage'
+  | 'content:read'
+  | 'content:write'
+  | 'override:generate';
+
+export const PLUGIN_PERMISSIONS: Record<PluginPermission, { label: string; description: string }> = {
+  'network': {
+    label: 'Network access',
+    description: 'Send requests to other websites and change where the app sends API requests',
+  },
+  'css': {
+    label: 'Change styles',
+    description: 'Set theme colors and add its own stylesheet',
+  },
+  'dom': {
+    label: 'Change the page',
+    description: 'Set page attributes, add navigation items, play sounds and change how content is rendered',
+  },
+  'storage': {
+    label: 'Storage',
+    description: 'Keep its own data in the browser and replace how the app saves and loads',
+  },
+  'content:read': {
+    label: 'Read your content',
+    description: 'See courses, quizzes, flashcards and your answers as you use the app',
+  },
+  'content:write': {
+    label: 'Change your content',
+    description: 'Modify courses, quizzes, flashcards and scores before they are shown or saved',
+  },
+  'override:generate': {
+    label: 'Replace AI generation',
+    description: 'Generate courses, quizzes and flashcards itself instead of using the app',
+  },
+};
+
+export const ALL_PERMISSIONS = Object.keys(PLUGIN_PERMISSIONS) as PluginPermission[];
+
+export function isPluginPermission(value: unknown): value is PluginPermission {
+  return typeof value === 'string' && value in PLUGIN_PERMISSIONS;
+}
+
+export type HookKind = 'filter' | 'action' | 'override';
+
+/**
+ * The permission a plugin needs to register a hook.
+ * Hooks are grouped by prefix; anything not covered reads (actions) or rewrites (filters, overrides) content.
+ */
+export function permissionForHook(kind: HookKind, hookName: string): PluginPermission {
+  const prefix = hookName.split(':')[0];
+  if (prefix === 'generate') return 'override:generate';
+  if (prefix === 'api' || prefix === 'config') return 'network';
+  if (prefix === 'storage') return 'storage';
+  if (['render', 'navigation', 'sidebar', 'gallery'].includes(prefix)) return 'dom';
+  return kind === 'action' ? 'content:read' : 'content:write';
+}
+
+/** The permission a sandbox capability (see sandbox.ts) requires */
+export function permissionForCapability(capability: string): PluginPermission | null {
+  const group = capability.split('.')[0];
+  if (group === 'css') return 'css';
+  if (group === 'dom' || group === 'audio') return 'dom';
+  if (group === 'events') return 'content:read';
+  return null;
+}
+
+/**
+ * Whether plugin CSS would make the page fetch something: url(), image(), image-set()
+ * or @import. A request like that carries whatever the selector matched to another
+ * host, which only `network` plugins may reach - so plugin styles can't load anything.
+ * Comments and escapes are undone first, since `u\72l(` is also a url().
+ */
+export function stylesLoadResources(css: string): boolean {
+  const plain = css
+    .replace(/\/\*[\s\S]*?(\*\/|$)/g, '')
+    .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex: string) => {
+      const code = parseInt(hex, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    })
+    .replace(/\\(.)/gs, '$1')
+    .toLowerCase();
+  return /(url|src|image|image-set)\(|@import/.test(plain);
+}
+
+/** Permissions in `requested` that aren't in `granted`, in display order */
+export function missingPermissions(requested: PluginPermission[], granted: PluginPermission[]): PluginPermission[] {
+  return ALL_PERMISSIONS.filter(permission => requested.includes(permission) && !granted.includes(permission));
+}
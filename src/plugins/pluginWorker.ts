@@ -0,0 +1,221 @@
+/**
+ * gvidtech Plugin System - Sandbox Runtime
+ *
+ * Runs inside a dedicated Web Worker, one per installed plugin, started by the
+ * plugin's sandboxed frame (see sandboxFrame.ts). The plugin code is evaluated here,
+ * in a realm with no access to the app's DOM, origin, localStorage or auth session.
+ * The host calls hooks over postMessage, and the plugin reaches back out only
+ * through the capability API (`app`), which the host checks and applies.
+ *
+ * The frame builds the worker from `pluginRuntime.toString()`, so the function
+ * must not refer to anything outside its own body.
+ */
+
+import type { CallTarget, HostMessage, WorkerMessage, SandboxedPluginInfo } from './protocol';
+import type { PluginPermission } from './permissions';
+
+type EventHandler = (event: { type: string; detail: unknown }) => void;
+
+// What a plugin file evaluates to, as far as calling into it goes; the rest is checked when it loads
+interface PluginModule {
+  activate?: (settings: unknown) => unknown;
+  deactivate?: () => unknown;
+  hooks?: Record<string, unknown>;
+}
+
+export function pluginRuntime(knownPermissions: readonly string[]): void {
+  const scope = globalThis as unknown as {
+    postMessage: (message: WorkerMessage) => void;
+    onmessage: ((event: { data: HostMessage }) => void) | null;
+  };
+
+  let plugin: PluginModule | null = null;
+  let nextCapabilityId = 1;
+  const pendingCapabilities = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  const eventHandlers = new Map<string, Set<EventHandler>>();
+
+  // Worker APIs that reach outside the sandbox are withheld until the matching permission is granted.
+  // Nested workers are included under network since they would start with these APIs restored.
+  const GATED_GLOBALS: Partial<Record<PluginPermission, string[]>> = {
+    network: ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'Worker', 'SharedWorker'],
+    storage: ['indexedDB', 'caches'],
+  };
+  // Never available: channels to other contexts of the same origin (the app's auth client
+  // broadcasts sessions on one) and loading further scripts. The frame's opaque origin and
+  // policy already refuse both; this keeps them refused if either is ever loosened.
+  const BLOCKED_GLOBALS = ['BroadcastChannel', 'importScripts'];
+  const withheld = new Map<string, unknown>();
+
+  for (const name of [...Object.values(GATED_GLOBALS).flat(), ...BLOCKED_GLOBALS]) {
+    if (!(name in globalThis)) continue;
+    if (!BLOCKED_GLOBALS.includes(name)) withheld.set(name, Reflect.get(globalThis, name));
+    Object.defineProperty(globalThis, name, { value: undefined, configurable: true, writable: true });
+  }
+
+  function grant(permissions: PluginPermission[]): void {
+    for (const permission of permissions) {
+      for (const name of GATED_GLOBALS[permission] || []) {
+        if (withheld.has(name)) {
+          Object.defineProperty(globalThis, name, { value: withheld.get(name), configurable: true, writable: true });
+        }
+      }
+    }
+  }
+
+  function post(message: WorkerMessage): void {
+    scope.postMessage(message);
+  }
+
+  function requestCapability(name: string, args: unknown[]): Promise<unknown> {
+    const id = nextCapabilityId++;
+    return new Promise((resolve, reject) => {
+      pendingCapabilities.set(id, { resolve, reject });
+      post({ type: 'capability', id, name, args });
+    });
+  }
+
+  // Capability calls are fire-and-forget for most plugins; surface refusals in the console
+  function capability(name: string, ...args: unknown[]): Promise<unknown> {
+    const result = requestCapability(name, args);
+    result.catch(error => console.warn(`[Plugin sandbox] ${name} refused:`, error.message));
+    return result;
+  }
+
+  const app = {
+    css: {
+      setVariable: (name: string, value: string) => capability('css.setVariable', name, value),
+      removeVariable: (name: string) => capability('css.removeVariable', name),
+      injectStyles: (css: string) => capability('css.injectStyles', css),
+      removeStyles: () => capability('css.removeStyles'),
+    },
+    dom: {
+      setBodyAttribute: (name: string, value: string) => capability('dom.setBodyAttribute', name, value),
+      removeBodyAttribute: (name: string) => capability('dom.removeBodyAttribute', name),
+    },
+    audio: {
+      playTone: (frequency: number, seconds: number, volume: number) => capability('audio.playTone', frequency, seconds, volume),
+    },
+    events: {
+      on(name: string, handler: EventHandler) {
+        if (!eventHandlers.has(name)) {
+          eventHandlers.set(name, new Set());
+          capability('events.subscribe', name);
+        }
+        eventHandlers.get(name)!.add(handler);
+      },
+      off(name: string, handler: EventHandler) {
+        const handlers = eventHandlers.get(name);
+        if (!handlers) return;
+        handlers.delete(handler);
+        if (handlers.size === 0) {
+          eventHandlers.delete(name);
+          capability('events.unsubscribe', name);
+        }
+      },
+    },
+  };
+
+  // Plugins written before the sandbox touched the real DOM for theming and events.
+  // Map exactly those calls onto the capability API so they keep working.
+  const documentShim = {
+    documentElement: {
+      style: {
+        setProperty: (name: string, value: string) => { app.css.setVariable(name, value); },
+        removeProperty: (name: string) => { app.css.removeVariable(name); },
+      },
+    },
+    body: {
+      setAttribute: (name: string, value: string) => { app.dom.setBodyAttribute(name, value); },
+      removeAttribute: (name: string) => { app.dom.removeBodyAttribute(name); },
+    },
+    addEventListener: (name: string, handler: EventHandler) => app.events.on(name, handler),
+    removeEventListener: (name: string, handler: EventHandler) => app.events.off(name, handler),
+  };
+
+  function evaluatePlugin(code: string): SandboxedPluginInfo {
+    // Strip leading comments to avoid ASI issues with 'return' + newline + comment
+    const strippedCode = code.replace(/^[\s]*\/\*[\s\S]*?\*\/[\s]*/, '').replace(/^[\s]*\/\/.*\n/gm, '').trim();
+    const pluginModule = new Function('app', 'document', 'return ' + strippedCode)(app, documentShim);
+
+    if (!pluginModule || !pluginModule.id || !pluginModule.name || !pluginModule.version) {
+      throw new Error('Plugin must have id, name, and version');
+    }
+    plugin = pluginModule;
+
+    const permissions = pluginModule.permissions || [];
+    if (!Array.isArray(permissions)) throw new Error('Plugin permissions must be an array');
+    const unknown = permissions.find((permission: unknown) => !knownPermissions.includes(permission as string));
+    if (unknown !== undefined) throw new Error(`Unknown permission "${unknown}"`);
+
+    const hooks = pluginModule.hooks || {};
+    return {
+      id: String(pluginModule.id),
+      name: String(pluginModule.name),
+      version: String(pluginModule.version),
+      description: pluginModule.description || '',
+      author: pluginModule.author || 'Unknown',
+      permissions: [...new Set<PluginPermission>(permissions)],
+      // Settings cross back to the host, so drop anything that can't be cloned
+      settings: JSON.parse(JSON.stringify(pluginModule.settings || [])),
+      hooks: Object.keys(hooks).filter(name => typeof hooks[name] === 'function'),
+      hasActivate: typeof pluginModule.activate === 'function',
+      hasDeactivate: typeof pluginModule.deactivate === 'function',
+    };
+  }
+
+  // Hooks run with the plugin object as `this` and the current settings as the last argument
+  async function invoke(target: CallTarget, name: string | undefined, args: unknown[], settings: unknown) {
+    if (!plugin) throw new Error('Plugin is not loaded');
+    if (target === 'activate') return plugin.activate?.call(plugin, settings);
+    if (target === 'deactivate') return plugin.deactivate?.call(plugin);
+
+    const handler = plugin.hooks?.[name as string];
+    if (typeof handler !== 'function') throw new Error(`Plugin has no handler for ${name}`);
+    return handler.call(plugin, ...args, settings);
+  }
+
+  scope.onmessage = async (event) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'load':
+        try {
+          post({ type: 'loaded', info: evaluatePlugin(message.code) });
+        } catch (error) {
+          post({ type: 'load-error', message: error instanceof Error ? error.message : String(error) });
+        }
+        break;
+
+      case 'grant':
+        grant(message.permissions);
+        break;
+
+      case 'call':
+        try {
+          const value = await invoke(message.target, message.name, message.args, message.settings);
+          post({ type: 'result', id: message.id, value });
+        } catch (error) {
+          post({ type: 'result', id: message.id, error: error instanceof Error ? error.message : String(error) });
+        }
+        break;
+
+      case 'capability-result': {
+        const pending = pendingCapabilities.get(message.id);
+        if (!pending) break;
+        pendingCapabilities.delete(message.id);
+        if (message.error) pending.reject(new Error(message.error));
+        else pending.resolve(message.value);
+        break;
+      }
+
+      case 'event':
+        for (const handler of eventHandlers.get(message.name) || []) {
+          try {
+            handler.call(plugin, { type: message.name, detail: message.detail });
+          } catch (error) {
+            console.error(`[Plugin sandbox] Event handler for ${message.name} failed:`, error);
+          }
+        }
+        break;
+    }
+  };
+}
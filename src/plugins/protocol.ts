@@ -0,0 +1,51 @@
+/**
+ * gvidtech Plugin System - Sandbox Protocol
+ *
+ * Messages between the host (sandbox.ts) and the plugin runtime (pluginWorker.ts):
+ *
+ *   host → worker   load, grant, call (hook / activate / deactivate), event, capability-result
+ *   worker → host   loaded, load-error, error, result, capability
+ *
+ * Kept free of DOM types so the runtime can be checked and tested outside a browser.
+ */
+
+import type { PluginPermission } from './permissions';
+
+export interface PluginSetting {
+  key: string;
+  type: 'string' | 'number' | 'boolean' | 'select';
+  label: string;
+  description?: string;
+  default: unknown;
+  options?: { value: unknown; label: string }[];
+}
+
+export interface SandboxedPluginInfo {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  author: string;
+  permissions: PluginPermission[];
+  settings: PluginSetting[];
+  hooks: string[];
+  hasActivate: boolean;
+  hasDeactivate: boolean;
+}
+
+export type CallTarget = 'hook' | 'activate' | 'deactivate';
+
+export type HostMessage =
+  | { type: 'load'; code: string }
+  | { type: 'grant'; permissions: PluginPermission[] }
+  | { type: 'call'; id: number; target: CallTarget; name?: string; args: unknown[]; settings: unknown }
+  | { type: 'capability-result'; id: number; value?: unknown; error?: string }
+  | { type: 'event'; name: string; detail: unknown };
+
+export type WorkerMessage =
+  | { type: 'loaded'; info: SandboxedPluginInfo }
+  | { type: 'load-error'; message: string }
+  // Uncaught errors, including the worker failing to start
+  | { type: 'error'; message: string }
+  | { type: 'result'; id: number; value?: unknown; error?: string }
+  | { type: 'capability'; id: number; name: string; args: unknown[] };
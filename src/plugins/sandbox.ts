@@ -0,0 +1,333 @@
+/**
+ * gvidtech Plugin System - Sandboxed Execution
+ *
+ * Installed plugin code never runs in the app window. Each plugin gets a hidden
+ * sandboxed frame with an opaque origin and a restrictive Content Security Policy
+ * (see sandboxFrame.ts), which starts a Web Worker running pluginWorker.ts. The host
+ * talks to it over a MessagePort using the RPC in protocol.ts.
+ *
+ * The only way a plugin can affect the page is through the capabilities below
+ * (CSS variables, one stylesheet, data-* attributes on <body>, short tones, and
+ * subscribing to `gvidtech:*` DOM events), and only those its granted permissions
+ * cover. Everything a plugin changes is undone when it is disabled.
+ */
+
+import type { CallTarget, HostMessage, SandboxedPluginInfo, WorkerMessage } from './protocol';
+import { PluginPermission, permissionForCapability, stylesLoadResources } from './permissions';
+import { sandboxDocument } from './sandboxFrame';
+
+const LOAD_TIMEOUT_MS = 5000;
+const CALL_TIMEOUT_MS = 10000;
+const APP_EVENT_PREFIX = 'gvidtech:';
+const MAX_TONE_SECONDS = 2;
+
+// ============ CAPABILITIES ============
+
+/**
+ * The host side of the capability API for one plugin.
+ * Tracks every change so `reset()` can put the page back the way it was.
+ */
+class PluginCapabilities {
+  private variables = new Set<string>();
+  private bodyAttributes = new Set<string>();
+  private styleElement: HTMLStyleElement | null = null;
+  private eventListeners = new Map<string, EventListener>();
+  private audioContext: AudioContext | null = null;
+  granted = new Set<PluginPermission>();
+
+  constructor(
+    private pluginId: string,
+    private forwardEvent: (name: string, detail: unknown) => void
+  ) {}
+
+  handle(name: string, args: unknown[]): unknown {
+    const required = permissionForCapability(name);
+    if (required && !this.granted.has(required)) {
+      throw new Error(`Plugin was not granted the "${required}" permission`);
+    }
+    
+    const [first, second] = args.map(arg => (arg === undefined || arg === null ? '' : String(arg)));
+    switch (name) {
+      case 'css.setVariable':
+        this.requireVariable(first);
+        this.requireNoResources(second);
+        document.documentElement.style.setProperty(first, second);
+        this.variables.add(first);
+        return;
+      case 'css.removeVariable':
+        this.requireVariable(first);
+        document.documentElement.style.removeProperty(first);
+        this.variables.delete(first);
+        return;
+      case 'css.injectStyles':
+        this.requireNoResources(first);
+        if (!this.styleElement) {
+          this.styleElement = document.createElement('style');
+          this.styleElement.dataset.plugin = this.pluginId;
+          document.head.appendChild(this.styleElement);
+        }
+        this.styleElement.textContent = first;
+        return;
+      case 'css.removeStyles':
+        this.styleElement?.remove();
+        this.styleElement = null;
+        return;
+      case 'dom.setBodyAttribute':
+        this.requireDataAttribute(first);
+        document.body.setAttribute(first, second);
+        this.bodyAttributes.add(first);
+        return;
+      case 'dom.removeBodyAttribute':
+        this.requireDataAttribute(first);
+        document.body.removeAttribute(first);
+        this.bodyAttributes.delete(first);
+        return;
+      case 'audio.playTone': {
+        const [frequency, seconds, volume] = args.map(Number);
+        if (!Number.isFinite(frequency) || frequency <= 0) throw new Error('Tone frequency must be a positive number');
+        this.audioContext ??= new AudioContext();
+        const oscillator = this.audioContext.createOscillator();
+        const gain = this.audioContext.createGain();
+        oscillator.connect(gain);
+        gain.connect(this.audioContext.destination);
+        gain.gain.value = Math.min(Math.max(Number.isFinite(volume) ? volume : 0.5, 0), 1) * 0.3;
+        oscillator.frequency.value = frequency;
+        oscillator.start();
+        oscillator.stop(this.audioContext.currentTime + Math.min(Math.max(seconds || 0.1, 0), MAX_TONE_SECONDS));
+        return;
+      }
+      case 'events.subscribe': {
+        if (!first.startsWith(APP_EVENT_PREFIX)) throw new Error(`Only ${APP_EVENT_PREFIX}* events can be subscribed to`);
+        if (this.eventListeners.has(first)) return;
+        const listener = (event: Event) => this.forwardEvent(first, (event as CustomEvent).detail);
+        document.addEventListener(first, listener);
+        this.eventListeners.set(first, listener);
+        return;
+      }
+      case 'events.unsubscribe': {
+        const listener = this.eventListeners.get(first);
+        if (listener) document.removeEventListener(first, listener);
+        this.eventListeners.delete(first);
+        return;
+      }
+      default:
+        throw new Error(`Unknown capability "${name}"`);
+    }
+  }
+
+  reset(): void {
+    for (const variable of this.variables) document.documentElement.style.removeProperty(variable);
+    for (const attribute of this.bodyAttributes) document.body.removeAttribute(attribute);
+    for (const [name, listener] of this.eventListeners) document.removeEventListener(name, listener);
+    this.styleElement?.remove();
+    this.audioContext?.close();
+    this.variables.clear();
+    this.bodyAttributes.clear();
+    this.eventListeners.clear();
+    this.styleElement = null;
+    this.audioContext = null;
+  }
+
+  private requireVariable(name: string): void {
+    if (!name.startsWith('--')) throw new Error(`"${name}" is not a CSS custom property`);
+  }
+
+  private requireNoResources(css: string): void {
+    if (stylesLoadResources(css)) throw new Error('Plugin styles cannot load anything (url(), image-set() or @import)');
+  }
+
+  private requireDataAttribute(name: string): void {
+    if (!/^data-[a-z0-9-]+$/i.test(name)) throw new Error(`Only data-* attributes can be set, not "${name}"`);
+  }
+}
+
+// ============ SANDBOX ============
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Structured clone rejects functions, DOM nodes and class instances with methods;
+// fall back to a JSON copy so plain data inside them still reaches the plugin
+function cloneable<T>(value: T): T {
+  try {
+    structuredClone(value);
+    return value;
+  } catch {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+}
+
+interface StartedFrame {
+  frame: HTMLIFrameElement;
+  port: MessagePort;
+  info: SandboxedPluginInfo;
+}
+
+/**
+ * Open a sandbox frame whose policy fits `permissions`, evaluate the plugin code in
+ * its worker and wait for the plugin's description. Everything is torn down again
+ * if the code fails to load.
+ */
+function startFrame(code: string, permissions: PluginPermission[]): Promise<StartedFrame> {
+  const frame = document.createElement('iframe');
+  // allow-scripts without allow-same-origin gives the frame an opaque origin
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = sandboxDocument(permissions, crypto.randomUUID());
+  const channel = new MessageChannel();
+
+  return new Promise((resolve, reject) => {
+    const fail = (message: string) => {
+      clearTimeout(timer);
+      channel.port1.close();
+      frame.remove();
+      reject(new Error(message));
+    };
+    const timer = setTimeout(() => fail('Plugin took too long to load'), LOAD_TIMEOUT_MS);
+
+    channel.port1.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'load-error' || message.type === 'error') {
+        fail(message.message || 'Plugin failed to load');
+      } else if (message.type === 'loaded') {
+        clearTimeout(timer);
+        resolve({ frame, port: channel.port1, info: message.info });
+      }
+    };
+    frame.addEventListener('load', () => {
+      frame.contentWindow?.postMessage({ type: 'connect' }, '*', [channel.port2]);
+      const load: HostMessage = { type: 'load', code };
+      channel.port1.postMessage(load);
+    }, { once: true });
+    document.body.appendChild(frame);
+  });
+}
+
+export class PluginSandbox {
+  private frame: HTMLIFrameElement;
+  private port: MessagePort;
+  private pending = new Map<number, PendingCall>();
+  private nextCallId = 1;
+  private capabilities: PluginCapabilities | null = null;
+
+  private constructor(
+    private code: string,
+    started: StartedFrame,
+    // Whether the frame's policy allows connections, which can't change once it has loaded
+    private networkAllowed: boolean
+  ) {
+    this.frame = started.frame;
+    this.port = started.port;
+  }
+
+  /**
+   * Start a sandbox, evaluate the plugin code inside it and return its description.
+   * The sandbox is torn down again if the code fails to load.
+   */
+  static async load(code: string): Promise<{ sandbox: PluginSandbox; info: SandboxedPluginInfo }> {
+    const started = await startFrame(code, []);
+    const sandbox = new PluginSandbox(code, started, false);
+    sandbox.attach(started.info.id);
+    return { sandbox, info: started.info };
+  }
+
+  /** Evaluate plugin code in a throwaway sandbox, e.g. to validate an edit before saving */
+  static async inspect(code: string): Promise<SandboxedPluginInfo> {
+    const { sandbox, info } = await PluginSandbox.load(code);
+    sandbox.dispose();
+    return info;
+  }
+
+  /** Run a hook handler or lifecycle method inside the worker */
+  call(target: CallTarget, name: string | undefined, args: unknown[], settings: unknown): Promise<unknown> {
+    const id = this.nextCallId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Plugin did not answer ${name || target} within ${CALL_TIMEOUT_MS / 1000}s`));
+      }, CALL_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+
+      try {
+        this.post({ type: 'call', id, target, name, args: cloneable(args), settings: cloneable(settings) });
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Allow the plugin the capabilities (and worker APIs such as fetch) its permissions cover.
+   * Granting or withdrawing `network` reopens the sandbox under a policy to match, so call
+   * this before the plugin is activated.
+   */
+  async grant(permissions: PluginPermission[]): Promise<void> {
+    const network = permissions.includes('network');
+    if (network !== this.networkAllowed) {
+      const started = await startFrame(this.code, permissions);
+      this.closeFrame();
+      this.frame = started.frame;
+      this.port = started.port;
+      this.networkAllowed = network;
+      this.attach(started.info.id);
+    }
+    if (this.capabilities) this.capabilities.granted = new Set(permissions);
+    this.post({ type: 'grant', permissions });
+  }
+
+  /** Undo everything the plugin changed on the page */
+  resetCapabilities(): void {
+    this.capabilities?.reset();
+  }
+
+  dispose(): void {
+    this.resetCapabilities();
+    this.closeFrame();
+    for (const [, call] of this.pending) {
+      clearTimeout(call.timer);
+      call.reject(new Error('Plugin was unloaded'));
+    }
+    this.pending.clear();
+  }
+
+  private closeFrame(): void {
+    this.port.close();
+    this.frame.remove();
+  }
+
+  private post(message: HostMessage): void {
+    this.port.postMessage(message);
+  }
+
+  private attach(pluginId: string): void {
+    this.capabilities ??= new PluginCapabilities(pluginId, (name, detail) => {
+      this.post({ type: 'event', name, detail: cloneable(detail) });
+    });
+    this.port.onmessage = (event: MessageEvent<WorkerMessage>) => this.handleMessage(pluginId, event.data);
+  }
+
+  private handleMessage(pluginId: string, message: WorkerMessage): void {
+    if (message.type === 'error') {
+      console.error(`[PluginSandbox] Uncaught error in plugin ${pluginId}:`, message.message);
+    } else if (message.type === 'result') {
+      const call = this.pending.get(message.id);
+      if (!call) return;
+      clearTimeout(call.timer);
+      this.pending.delete(message.id);
+      if (message.error !== undefined) call.reject(new Error(message.error));
+      else call.resolve(message.value);
+    } else if (message.type === 'capability') {
+      try {
+        const value = this.capabilities?.handle(message.name, message.args);
+        this.post({ type: 'capability-result', id: message.id, value });
+      } catch (error) {
+        this.post({ type: 'capability-result', id: message.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * gvidtech Plugin System - Sandbox Frame
+ *
+ * The document each plugin's worker is started from. It is loaded into an
+ * `<iframe sandbox="allow-scripts">`, so it and the worker get an opaque origin:
+ * no cookies, storage or same-origin channels shared with the app. Its policy lets
+ * only the frame's own script run, never scripts from elsewhere (including dynamic
+ * `import()` inside the worker, which inherits the policy), and allows connections
+ * only for plugins granted `network`.
+ *
+ * The frame relays messages between the host's MessagePort and the worker, and
+ * reports the worker failing to start as an `error` message.
+ */
+
+import { ALL_PERMISSIONS, PluginPermission } from './permissions';
+import { pluginRuntime } from './pluginWorker';
+
+/** The Content Security Policy of a sandbox frame and the worker it starts */
+export function sandboxPolicy(permissions: PluginPermission[], nonce: string): string {
+  return [
+    "default-src 'none'",
+    // Plugin code is evaluated with new Function inside the worker
+    `script-src 'nonce-${nonce}' 'unsafe-eval'`,
+    'worker-src blob:',
+    `connect-src ${permissions.includes('network') ? '*' : "'none'"}`,
+    "base-uri 'none'",
+    "form-action 'none'",
+  ].join('; ');
+}
+
+/**
+ * Source of the worker: the runtime, called with what it can't import. Builds with
+ * esbuild's keepNames (as tsx does) wrap functions in a module-level `__name` helper,
+ * which the worker needs a stand-in for.
+ */
+export const runtimeSource = () =>
+  `var __name = function (target) { return target; };\n(${pluginRuntime.toString()})(${JSON.stringify(ALL_PERMISSIONS)});`;
+
+// Inline script text can't contain "</script"; escaping "<" keeps the JSON a valid string literal
+const scriptLiteral = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/** `srcdoc` for a plugin's sandbox frame */
+export function sandboxDocument(permissions: PluginPermission[], nonce: string): string {
+  const bootstrap = `
+    addEventListener('message', function connect(event) {
+      if (event.source !== parent || !event.ports[0]) return;
+      removeEventListener('message', connect);
+      var port = event.ports[0];
+      var worker;
+      try {
+        worker = new Worker(URL.createObjectURL(new Blob([${scriptLiteral(runtimeSource())}], { type: 'text/javascript' })));
+      } catch (error) {
+        port.postMessage({ type: 'error', message: 'Plugin sandbox could not start: ' + (error && error.message || error) });
+        return;
+      }
+      port.onmessage = function (message) { worker.postMessage(message.data); };
+      worker.onmessage = function (message) { port.postMessage(message.data); };
+      worker.onerror = function (error) {
+        error.preventDefault();
+        port.postMessage({ type: 'error', message: error.message || 'Plugin failed to load' });
+      };
+    });
+  `;
+  return [
+    '<!doctype html>',
+    `<meta http-equiv="Content-Security-Policy" content="${sandboxPolicy(permissions, nonce)}">`,
+    `<script nonce="${nonce}">${bootstrap}</script>`,
+  ].join('\n');
+}
@@ -0,0 +1,180 @@
+// Request and response shapes of the API server, shared by the client and server/
+
+import type { Course, CourseStep, Flashcard, GenerationMode } from './roadmap';
+
+// Content types as they appear in share, rename and clone URLs
+export type ContentType = GenerationMode;
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  displayName: string;
+  subscriptionTier: 'free' | 'pro';
+  generationsToday: number;
+  generationLimit: number;
+  totalGenerations: number;
+  joinedAt: string;
+  stats: {
+    courses: number;
+    flashcardDecks: number;
+    quizzes: number;
+    matchingGames: number;
+    wordScrambleGames: number;
+    fillBlankGames: number;
+    crosswordGames: number;
+  };
+}
+
+export interface SharedItem {
+  id: string;
+  contentType: ContentType;
+  contentId: string;
+  title: string;
+  description: string;
+  coverImage?: string;
+  authorName: string;
+  authorId: string;
+  likes: number;
+  hasLiked: boolean;
+  createdAt: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface ShareRequest {
+  contentType: ContentType;
+  contentId: string;
+  title: string;
+  description?: string;
+  coverImage?: string;
+  meta?: Record<string, unknown>;
+}
+
+export interface CoverImage {
+  imageUrl: string | null;
+  gradient?: string;
+  keyword?: string;
+  photographer?: string;
+  photographerUrl?: string;
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+// Body of a failed generation request; 422 responses carry the schema violations
+export interface GenerationErrorBody {
+  error: string;
+  details?: string;
+  type?: 'schema_validation';
+  schema?: string;
+  violations?: SchemaViolation[];
+}
+
+// Fails with 429 and this body once a free user reaches the daily limit
+export interface RateLimitErrorBody {
+  error: string;
+  limit: number;
+  message: string;
+}
+
+// ============ GENERATION JOBS ============
+// Long generations run in the background: POST /api/jobs answers 202 with the job and the
+// client polls GET /api/jobs/:id until it has succeeded or failed.
+
+export type GenerationJobKind = 'course' | 'flashcards';
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Course jobs go reading-files → outline → first-step; flashcard jobs reading-files → cards
+export type GenerationJobStage = 'reading-files' | 'outline' | 'first-step' | 'cards';
+
+export interface CourseJobResult {
+  roadmap: Omit<Course, 'id' | 'createdAt' | 'progress'>;
+  originalMaterials: string;
+  // Set when the uploads were stored as the course's sources; the course must be saved under this id
+  courseId?: string;
+  coverImage: CoverImage;
+}
+
+export interface FlashcardsJobResult {
+  deck: { title: string; description: string; cards: Flashcard[] };
+  coverImage: CoverImage;
+}
+
+// Data of each event on POST /api/generate-roadmap/stream, by event name
+export interface CourseStreamEvents {
+  'outline-ready': Pick<CourseJobResult, 'roadmap' | 'originalMaterials' | 'courseId'>;
+  'step-ready': { step: CourseStep };
+  'cover-image-ready': CoverImage;
+  done: Record<string, never>;
+  error: GenerationErrorBody;
+}
+
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  stage?: GenerationJobStage;
+  prompt: string;
+  fileNames: string[];
+  // Output so far; for courses the outline once it is ready
+  partial?: Pick<CourseJobResult, 'roadmap' | 'originalMaterials'>;
+  result?: CourseJobResult | FlashcardsJobResult;
+  error?: GenerationErrorBody;
+  attempts: number;
+  // False once the uploads a failed job needs are gone (server restart or expiry)
+  canRetry: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ============ COURSE SOURCES ============
+// Text extracted from a course's uploads, kept so later generations for the course can use it
+
+// One uploaded file; GET /api/sources lists them across courses with courseTitle set
+export interface CourseSource {
+  courseId: string;
+  courseTitle?: string;
+  name: string;
+  sections: number;
+  // Page count for PDFs
+  pages: number | null;
+  addedAt: string;
+}
+
+// A heading- or page-delimited part of a source, from GET /api/roadmaps/:id/sources/:name
+export interface SourceSection {
+  heading: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  content: string;
+}
+
+// ============ LIBRARY BACKUP ============
+// POST /api/export produces a LibraryArchive; POST /api/import restores one
+
+// What pluginManager.exportState() produces: per installed plugin, whether it is on and its settings
+export type PluginState = Record<string, { enabled: boolean; settings: Record<string, unknown> }>;
+
+export interface LibraryArchive {
+  format: 'gvidtech-library';
+  // Bumped when the stored rows change shape; older archives stay importable
+  version: number;
+  exportedAt: string;
+  // Stored rows per content type without their owner, progress and scores included
+  content: Partial<Record<ContentType, Record<string, unknown>[]>>;
+  // The text of course uploads (see CourseSource), one row per section
+  sources: Record<string, unknown>[];
+  plugins: PluginState | null;
+}
+
+// Merge adds the archive next to the current library; replace removes the library once the archive is restored
+export type LibraryImportMode = 'merge' | 'replace';
+
+export interface LibraryImportResult {
+  mode: LibraryImportMode;
+  imported: Record<ContentType, number>;
+  sources: number;
+  // Handed back for the client to apply with pluginManager.importState()
+  plugins: PluginState | null;
+}
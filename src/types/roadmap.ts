@@ -7,6 +7,14 @@ export interface Task {
   completed: boolean;
 }
 
+// Where a generated item comes from in the course's uploaded sources; checked against the stored text
+export interface SourceCitation {
+  source: string; // File name
+  page?: number;
+  section?: number; // Index into the file's sections, as listed by GET /api/roadmaps/:id/sources/:name
+  quote: string; // Verbatim span of the source
+}
+
 export interface LearningMaterial {
   id: string;
   title: string;
@@ -18,6 +26,19 @@ export interface LearningMaterial {
   youtubeSearch?: string;
   youtubeVideoId?: string;
   youtubeTitle?: string;
+  citations?: SourceCitation[];
+}
+
+// Spaced repetition types
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export interface FlashcardSchedule {
+  easeFactor: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  dueDate: string; // ISO timestamp
+  lastReviewed?: string;
+  lastRating?: ReviewRating;
 }
 
 export interface QuizQuestion {
@@ -26,6 +47,8 @@ export interface QuizQuestion {
   options: string[];
   correctAnswer: number;
   explanation: string;
+  citations?: SourceCitation[];
+  schedule?: FlashcardSchedule; // Set once the question is answered wrong, so it enters review
 }
 
 export interface StepTest {
@@ -43,6 +66,24 @@ export interface Flashcard {
   category?: string;
   difficulty?: 'easy' | 'medium' | 'hard';
   mastered?: boolean;
+  citations?: SourceCitation[];
+  schedule?: FlashcardSchedule;
+}
+
+// Cross-deck review queue item; `source` says where to write the result back
+export type ReviewSourceType = 'deck' | 'course' | 'quiz' | 'step-test';
+
+export interface ReviewItem {
+  key: string;
+  kind: 'flashcard' | 'question';
+  source: {
+    type: ReviewSourceType;
+    id: string;
+    title: string;
+    stepId?: string;
+  };
+  flashcard?: Flashcard;
+  question?: QuizQuestion;
 }
 
 export interface FlashcardDeck {
@@ -70,6 +111,8 @@ export interface CourseStep {
   test?: StepTest;
   testLoading?: boolean;
   unlocked: boolean; // Whether this step is accessible
+  prerequisites?: string[]; // Ids of the steps to pass first; without it, the step before this one
+  passThreshold?: number; // Share of the quiz to get right to pass this step; without it, the course's
   materialProgress?: number; // Index of current material being viewed (for progressive learning)
 }
 
@@ -83,13 +126,14 @@ export interface Course {
   progress: number;
   originalPrompt?: string;
   originalMaterials?: string;
+  passThreshold?: number; // Share of a step quiz to get right to pass, 0-1; without it, 0.7
   coverImage?: string;
   flashcards?: Flashcard[];
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
 }
 
 // Generation mode types
-export type GenerationMode = 'course' | 'quiz' | 'flashcards' | 'matching' | 'word-scramble' | 'fill-blank';
+export type GenerationMode = 'course' | 'quiz' | 'flashcards' | 'matching' | 'word-scramble' | 'fill-blank' | 'crossword';
 export type QuizMode = 'standard' | 'rapid';
 
 // Standalone quiz (not tied to a course step)
@@ -102,6 +146,13 @@ export interface StandaloneQuiz {
   isRapid: boolean;
   timePerQuestion?: number; // seconds per question for rapid mode
   coverImage?: string;
+  sourceCourseId?: string;
+  // Results of the latest attempt
+  completed?: boolean;
+  score?: number;
+  totalQuestions?: number;
+  bestScore?: number;
+  timesTaken?: number;
 }
 
 // Matching Game types
@@ -118,6 +169,7 @@ export interface MatchingGame {
   pairs: MatchingPair[];
   createdAt: string;
   coverImage?: string;
+  sourceCourseId?: string;
   bestTime?: number; // Best completion time in seconds
   timesPlayed?: number;
 }
@@ -167,6 +219,29 @@ export interface FillBlankGame {
   timesPlayed?: number;
 }
 
+// Crossword Game types
+export interface CrosswordClue {
+  id: string; // e.g. "a1" for 1-Across, "d3" for 3-Down
+  number: number;
+  direction: 'across' | 'down';
+  answer: string; // Uppercase letters only
+  clue: string;
+  row: number; // Grid position of the first letter
+  col: number;
+}
+
+export interface CrosswordGame {
+  id: string;
+  title: string;
+  description: string;
+  clues: CrosswordClue[];
+  gridSize: number;
+  createdAt: string;
+  coverImage?: string;
+  bestTime?: number; // Best completion time in seconds
+  timesPlayed?: number;
+}
+
 export interface GeneratedResponse {
   roadmap: Course;
 }
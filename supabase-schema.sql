@@ -16,10 +16,12 @@ CREATE TABLE IF NOT EXISTS courses (
   title TEXT NOT NULL,
   description TEXT,
   steps JSONB DEFAULT '[]'::jsonb,
+  flashcards JSONB DEFAULT '[]'::jsonb,
   image_url TEXT,
   progress INTEGER DEFAULT 0,
   original_prompt TEXT,
   original_materials TEXT,
+  pass_threshold REAL,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );